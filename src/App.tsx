@@ -3,14 +3,22 @@ import Canvas from './components/Canvas/Canvas';
 import LayerPanel from './components/LayerPanel/LayerPanel';
 import PropertyPanel from './components/PropertyPanel/PropertyPanel';
 import Toolbar from './components/Toolbar/Toolbar';
+import DocumentTabs from './components/Toolbar/DocumentTabs';
+import TabConflictBanner from './components/Toolbar/TabConflictBanner';
+import Timeline from './components/Timeline/Timeline';
 import DebugHistoryModal from './components/DebugMenu/DebugHistoryModal';
+import HistoryPanel from './components/HistoryPanel/HistoryPanel';
 import TextLayerModal from './components/Modals/TextLayerModal';
 import ShapeModal from './components/Modals/ShapeModal';
+import LoadReportModal from './components/Modals/LoadReportModal';
+import RecoveryModal from './components/Modals/RecoveryModal';
+import ProjectLibrary from './components/Library/ProjectLibrary';
 import useCompositorStore from './store/compositorStore';
 import useKeyboardShortcuts from './hooks/useKeyboardShortcuts';
 import useAutoHistory from './hooks/useAutoHistory';
 import useDebugMenu from './hooks/useDebugMenu';
 import { useAutoSave } from './hooks/useAutoSave';
+import { useTabSync } from './hooks/useTabSync';
 import { useAutoResetZoom } from './hooks/useAutoResetZoom';
 import { useInitializePreferences } from './hooks/useLocalStorage';
 import { Layer } from './types/compositor.types';
@@ -22,6 +30,10 @@ import { Layer } from './types/compositor.types';
 function App() {
   const project = useCompositorStore((state) => state.project);
   const isDirty = useCompositorStore((state) => state.isDirty);
+  const hasDirtyTabs = useCompositorStore((state) =>
+    state.isDirty || state.documents.some((d) => d.id !== state.activeDocumentId && d.isDirty)
+  );
+  const historyPanelDock = useCompositorStore((state) => state.ui.historyPanelDock);
   
   // Text layer modal state
   const [isTextModalOpen, setIsTextModalOpen] = useState(false);
@@ -40,8 +52,11 @@ function App() {
   // Initialize automatic history tracking
   useAutoHistory();
 
-  // Initialize auto-save
-  useAutoSave();
+  // Initialize auto-save (asks what to recover on startup)
+  const { isRecoveryOpen, closeRecovery, openTabIds } = useAutoSave();
+
+  // Initialize cross-tab awareness (projects open in other browser tabs)
+  const { otherTabs } = useTabSync();
 
   // Initialize auto-reset zoom when first layer is added
   useAutoResetZoom();
@@ -90,7 +105,7 @@ function App() {
   // Handle unsaved changes warning
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (isDirty) {
+      if (hasDirtyTabs) {
         e.preventDefault();
         e.returnValue = '';
         console.warn('[DEBUG] Unsaved changes detected - warning user before closing');
@@ -99,7 +114,7 @@ function App() {
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [isDirty]);
+  }, [hasDirtyTabs]);
 
   // Update document title with project name and dirty indicator
   useEffect(() => {
@@ -114,21 +129,44 @@ function App() {
       {/* Top Toolbar */}
       <Toolbar />
 
+      {/* Open project tabs */}
+      <DocumentTabs />
+
+      {/* Same project open in another browser tab */}
+      <TabConflictBanner otherTabs={otherTabs} />
+
       {/* Main Content Area */}
       <div className="flex flex-1 gap-0 overflow-hidden">
         {/* Left Panel - Layer Management */}
         <div className="w-64 border-r border-border overflow-hidden flex flex-col">
-          <LayerPanel />
+          <div className="flex-1 min-h-0">
+            <LayerPanel />
+          </div>
+          {historyPanelDock === 'left' && (
+            <div className="h-64 border-t border-border">
+              <HistoryPanel />
+            </div>
+          )}
         </div>
 
-        {/* Center - Canvas */}
-        <div className="flex-1 overflow-hidden">
-          <Canvas />
+        {/* Center - Canvas and animation timeline */}
+        <div className="flex-1 overflow-hidden flex flex-col">
+          <div className="flex-1 min-h-0">
+            <Canvas />
+          </div>
+          <Timeline />
         </div>
 
         {/* Right Panel - Properties */}
         <div className="w-64 border-l border-border overflow-hidden flex flex-col">
-          <PropertyPanel />
+          <div className="flex-1 min-h-0">
+            <PropertyPanel />
+          </div>
+          {historyPanelDock === 'right' && (
+            <div className="h-64 border-t border-border">
+              <HistoryPanel />
+            </div>
+          )}
         </div>
       </div>
 
@@ -151,6 +189,15 @@ function App() {
         onClose={handleCloseShapeModal}
         existingLayer={editingShapeLayer}
       />
+
+      {/* Project library (start screen and browser) */}
+      <ProjectLibrary />
+
+      {/* Autosaved work found on startup */}
+      <RecoveryModal isOpen={isRecoveryOpen} onClose={closeRecovery} openTabIds={openTabIds} />
+
+      {/* Repairs made while loading a damaged project */}
+      <LoadReportModal />
     </div>
   );
 }
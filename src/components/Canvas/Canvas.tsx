@@ -1,7 +1,7 @@
 import { useRef } from 'react';
 import useCompositorStore from '../../store/compositorStore';
 import CanvasRenderer from './CanvasRenderer';
-import { deserializeProject } from '../../utils/projectSerializer';
+import { deserializeProjectFile } from '../../utils/projectSerializer';
 import { blobToDataUrl } from '../../utils/imageProcessing';
 import { rasterizeText } from '../../utils/textRasterizer';
 
@@ -33,9 +33,8 @@ function Canvas() {
         // Check for .pixcomp file
         if (file.name.toLowerCase().endsWith('.pixcomp')) {
           try {
-            const text = await file.text();
-            const projectData = await deserializeProject(text);
-            loadProject(projectData);
+            const { project: projectData, issues } = await deserializeProjectFile(file);
+            loadProject(projectData, { source: file.name, issues });
             markClean();
             // Stop processing other files if a project is loaded
             if (fileInputRef.current) {
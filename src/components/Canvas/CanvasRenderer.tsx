@@ -1,8 +1,100 @@
 /* eslint-disable react-hooks/exhaustive-deps */
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import useCompositorStore from '../../store/compositorStore';
+import { Artboard, Layer, LayerGroup, ProjectData } from '../../types/compositor.types';
 import GridOverlay from './GridOverlay';
 import DragInfoTooltip from './DragInfoTooltip';
+import { isLayerLocked } from '../../utils/layerGroups';
+import { compositeRegion, getImagePixels, getLayerAtPoint, imageDataToCanvas } from '../../utils/canvasRenderer';
+import { maskPixelsToDataUrl, paintMask } from '../../utils/layerMasks';
+import { getLayerScale, getTransformedSize, toSourcePixel } from '../../utils/layerTransforms';
+import { getLayerImage, getMaskImage } from '../../utils/assets';
+import { getFrameLayers, getOnionSkinFrames } from '../../utils/animation';
+import { getArtboardLayers } from '../../utils/artboards';
+import { ExportRegion, getLayersExportBounds } from '../../utils/slices';
+
+// Onion skin tints: earlier frames reddish, later frames bluish
+const ONION_SKIN_BEFORE_COLOR = '#ff4d4d';
+const ONION_SKIN_AFTER_COLOR = '#4d8cff';
+
+// Slice outlines and names
+const SLICE_COLOR = '#f59e0b';
+
+// A separately composited part of the view: the whole canvas, or one artboard
+interface CompositeArea {
+  region: ExportRegion;
+  backgroundColor: string | null;
+  artboard?: Artboard;
+}
+
+// Composites of the areas, with the inputs they were made from (compared by identity)
+interface CompositeCache {
+  inputs: unknown[];
+  canvases: HTMLCanvasElement[];
+  dragBounds: ExportRegion | null; // Where the dragged layers were drawn
+}
+
+function getCompositeAreas(project: ProjectData): CompositeArea[] {
+  if (project.artboards.length > 0) {
+    return project.artboards.map((artboard) => ({ region: artboard, backgroundColor: artboard.backgroundColor, artboard }));
+  }
+  const { width, height, backgroundColor } = project.canvas;
+  return [{ region: { x: 0, y: 0, width, height }, backgroundColor }];
+}
+
+/**
+ * Composite a region of an area (in workspace coordinates) with the layers drawn in that area
+ */
+function compositeAreaRegion(
+  area: CompositeArea,
+  region: ExportRegion,
+  layers: Layer[],
+  groups: LayerGroup[],
+  getLayerSource: Parameters<typeof compositeRegion>[3],
+  backgroundColor: string | null
+): ImageData {
+  const areaLayers = area.artboard ? getArtboardLayers(layers, area.artboard) : layers;
+  return compositeRegion(region, areaLayers, groups, getLayerSource, backgroundColor);
+}
+
+function isSameInputs(a: unknown[], b: unknown[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+function unionRegions(a: ExportRegion | null, b: ExportRegion | null): ExportRegion | null {
+  if (!a || !b) return a ?? b;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+function intersectRegions(a: ExportRegion, b: ExportRegion): ExportRegion | null {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const width = Math.min(a.x + a.width, b.x + b.width) - x;
+  const height = Math.min(a.y + a.height, b.y + b.height) - y;
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+}
+
+/**
+ * Composited pixels as a canvas tinted towards a color (transparent pixels stay transparent)
+ */
+function tintComposite(composite: ImageData, color: string): HTMLCanvasElement {
+  const canvas = imageDataToCanvas(composite);
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.globalCompositeOperation = 'source-atop';
+    ctx.globalAlpha = 0.5;
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  return canvas;
+}
 
 /**
  * Canvas renderer component
@@ -21,6 +113,7 @@ function CanvasRenderer() {
   const dragLayerId = useCompositorStore((state) => state.ui.dragLayerId);
   const dragOffsetX = useCompositorStore((state) => state.ui.dragOffsetX);
   const dragOffsetY = useCompositorStore((state) => state.ui.dragOffsetY);
+  const playbackFrame = useCompositorStore((state) => state.ui.playbackFrame);
   const selectLayer = useCompositorStore((state) => state.selectLayer);
   const deselectAllLayers = useCompositorStore((state) => state.deselectAllLayers);
   const startDraggingLayer = useCompositorStore((state) => state.startDraggingLayer);
@@ -29,32 +122,56 @@ function CanvasRenderer() {
   const setViewport = useCompositorStore((state) => state.setViewport);
   const removeLayer = useCompositorStore((state) => state.removeLayer);
   const updateLayer = useCompositorStore((state) => state.updateLayer);
+  const maskEditLayerId = useCompositorStore((state) => state.ui.maskEditLayerId);
+  const maskBrush = useCompositorStore((state) => state.ui.maskBrush);
+  const updateLayerMask = useCompositorStore((state) => state.updateLayerMask);
 
   const [loadedImages, setLoadedImages] = useState<Map<string, HTMLImageElement>>(new Map());
+  const [loadedMasks, setLoadedMasks] = useState<Map<string, HTMLImageElement>>(new Map());
+  // Mask pixels being painted; committed to the layer (one history step) on mouse up and
+  // kept on screen until the committed mask image has been decoded
+  const [maskStroke, setMaskStroke] = useState<{
+    layerId: string;
+    pixels: ImageData;
+    lastX: number;
+    lastY: number;
+    committedUrl?: string;
+  } | null>(null);
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
   const [hoverCoords, setHoverCoords] = useState<{ x: number; y: number } | null>(null);
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
 
+  // Software compositing is slow on big canvases, so composites are kept until their inputs change:
+  // pan/zoom never recomposites, and a drag only recomposites where the dragged layers were and are
+  const compositeCacheRef = useRef<CompositeCache | null>(null);
+  const onionSkinCacheRef = useRef<Map<number, Omit<CompositeCache, 'dragBounds'>>>(new Map());
+
+  // While playing, the played frame is shown instead of the active one (view only)
+  const shownLayers = useMemo(
+    () => getFrameLayers(project, playbackFrame ?? project.animation.activeFrame),
+    [project.layers, project.animation, playbackFrame]
+  );
+
   /**
-   * Decode base64 image data and cache it
+   * Decode base64 image data and cache it by asset id (layers sharing an image share one decode)
    */
   useEffect(() => {
     const loadImages = async () => {
       const newImages = new Map<string, HTMLImageElement>();
 
       for (const layer of project.layers) {
-        if (!loadedImages.has(layer.id) || loadedImages.get(layer.id)?.src !== layer.imageData) {
+        if (!loadedImages.has(layer.assetId) && !newImages.has(layer.assetId)) {
           try {
             const img = new Image();
-            img.src = layer.imageData;
+            img.src = getLayerImage(project.assets, layer);
             
             await new Promise<void>((resolve, reject) => {
               img.onload = () => resolve();
               img.onerror = () => reject(new Error(`Failed to load image for layer: ${layer.name}`));
             });
 
-            newImages.set(layer.id, img);
+            newImages.set(layer.assetId, img);
             // console.log(`[DEBUG] Image loaded for layer: ${layer.name} (${layer.width}x${layer.height})`);
           } catch (error) {
             // console.error(`[DEBUG] Error loading image for layer ${layer.name}:`, error);
@@ -62,11 +179,51 @@ function CanvasRenderer() {
         }
       }
 
-      setLoadedImages((prev) => new Map([...prev, ...newImages]));
+      // A new map only when something was decoded, so the canvas is not recomposited for nothing
+      if (newImages.size > 0) {
+        setLoadedImages((prev) => new Map([...prev, ...newImages]));
+      }
     };
 
     loadImages();
-  }, [project.layers]);
+  }, [project.layers, project.assets]);
+
+  /**
+   * Decode layer mask images and cache them by layer id
+   */
+  useEffect(() => {
+    const loadMasks = async () => {
+      const newMasks = new Map<string, HTMLImageElement>();
+
+      for (const layer of project.layers) {
+        const maskImage = layer.mask ? getMaskImage(project.assets, layer.mask) : undefined;
+        if (maskImage && loadedMasks.get(layer.id)?.src !== maskImage) {
+          try {
+            const img = new Image();
+            img.src = maskImage;
+
+            await new Promise<void>((resolve, reject) => {
+              img.onload = () => resolve();
+              img.onerror = () => reject(new Error(`Failed to load mask for layer: ${layer.name}`));
+            });
+
+            newMasks.set(layer.id, img);
+          } catch (error) {
+            // console.error(`[DEBUG] Error loading mask for layer ${layer.name}:`, error);
+          }
+        }
+      }
+
+      if (newMasks.size > 0) {
+        setLoadedMasks((prev) => new Map([...prev, ...newMasks]));
+        setMaskStroke((stroke) =>
+          stroke?.committedUrl && newMasks.get(stroke.layerId)?.src === stroke.committedUrl ? null : stroke
+        );
+      }
+    };
+
+    loadMasks();
+  }, [project.layers, project.assets]);
 
   /**
    * Initialize viewport to show canvas centered and fit on screen
@@ -128,15 +285,9 @@ function CanvasRenderer() {
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    // Fill background color if set
-    if (project.canvas.backgroundColor) {
-      ctx.fillStyle = project.canvas.backgroundColor;
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      // console.log(`[DEBUG] Background color applied: ${project.canvas.backgroundColor}`);
-    }
-
-    // Draw checkered background for transparency
-    if (project.canvas.showCheckeredBackground && !project.canvas.backgroundColor) {
+    // Checkerboard pattern for transparent areas
+    let checkerPattern: CanvasPattern | null = null;
+    if (project.canvas.showCheckeredBackground) {
       // Use a fixed pattern size (in pixels) that scales with zoom for consistent appearance
       const patternSize = 8;
       
@@ -154,73 +305,176 @@ function CanvasRenderer() {
         patternCtx.fillRect(0, 0, patternSize, patternSize);
         patternCtx.fillRect(patternSize, patternSize, patternSize, patternSize);
         
-        // Use the pattern to fill the entire canvas
-        const pattern = ctx.createPattern(patternCanvas, 'repeat');
-        if (pattern) {
-          ctx.fillStyle = pattern;
-          ctx.fillRect(0, 0, canvas.width, canvas.height);
-        }
+        checkerPattern = ctx.createPattern(patternCanvas, 'repeat');
       }
     }
 
-    // Draw canvas border (expands outward from canvas edge)
-    if (project.canvas.borderWidth && project.canvas.borderWidth > 0) {
-      const borderWidth = project.canvas.borderWidth;
-      ctx.strokeStyle = project.canvas.borderColor;
-      ctx.globalAlpha = project.canvas.borderOpacity;
-      ctx.lineWidth = borderWidth * 2; // Double width so it expands outward evenly
-      
-      // Offset by half the border width so it expands outward
-      const offset = borderWidth / 2;
-      ctx.strokeRect(offset, offset, canvas.width - borderWidth, canvas.height - borderWidth);
-      
-      ctx.globalAlpha = 1; // Reset alpha
-      // console.log(`[DEBUG] Canvas border drawn: ${borderWidth}px ${project.canvas.borderColor}`);
+    // Draw checkered background for transparency (artboards get their own below)
+    if (checkerPattern && !project.canvas.backgroundColor && project.artboards.length === 0) {
+      ctx.fillStyle = checkerPattern;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
     }
 
-    // Sort layers by z-index for rendering
-    const sortedLayers = [...project.layers]
-      .filter((layer) => layer.visible)
-      .sort((a, b) => a.zIndex - b.zIndex);
-
-    // console.log(`[DEBUG] Rendering ${sortedLayers.length} visible layers`);
+    // Composite background + layers with the same compositor as PNG export, so blend modes
+    // and opacity produce identical pixels on screen and in the exported file
+    const state = useCompositorStore.getState();
+    const isDragged = (layer: Layer) =>
+      state.ui.isDraggingLayer &&
+      (state.ui.dragLayerId === layer.id ||
+        (state.selectedLayerIds.includes(layer.id) && state.selectedLayerIds.includes(state.ui.dragLayerId!)));
 
-    // Render each layer
-    for (const layer of sortedLayers) {
-      const img = loadedImages.get(layer.id);
+    const getLayerSource = (layer: Layer) => {
+      const img = loadedImages.get(layer.assetId);
       if (!img) {
         console.warn(`[DEBUG] Image not loaded for layer: ${layer.name}`);
-        continue;
+        return null;
       }
 
-      // Get the current state for drag offset
-      const state = useCompositorStore.getState();
-      const isDraggingThisLayer = state.ui.isDraggingLayer && 
-        (state.ui.dragLayerId === layer.id || 
-         state.selectedLayerIds.includes(layer.id) && state.selectedLayerIds.includes(state.ui.dragLayerId!));
-
       // Use floor to ensure integer positioning for pixel precision
       let x = Math.floor(layer.x);
       let y = Math.floor(layer.y);
 
       // Apply drag offset for visual feedback during drag
-      if (isDraggingThisLayer) {
+      if (isDragged(layer)) {
         x += state.ui.dragOffsetX;
         y += state.ui.dragOffsetY;
       }
 
-      // Apply opacity
-      const prevAlpha = ctx.globalAlpha;
-      ctx.globalAlpha = layer.opacity !== undefined ? layer.opacity : 1.0;
+      // Show the stroke in progress, otherwise the saved mask
+      const maskImg = loadedMasks.get(layer.id);
+      const showStroke = maskStroke?.layerId === layer.id &&
+        (!maskStroke.committedUrl || (!!layer.mask && maskStroke.committedUrl === getMaskImage(project.assets, layer.mask)));
+      const mask = showStroke
+        ? maskStroke.pixels
+        : maskImg && getImagePixels(maskImg);
 
-      ctx.drawImage(img, x, y);
+      return { image: img, x, y, mask };
+    };
+
+    // Other frames are drawn where they stored the layers, without the drag offset
+    const getSkinLayerSource = (layer: Layer) => {
+      const source = getLayerSource(layer);
+      return source && { ...source, x: Math.floor(layer.x), y: Math.floor(layer.y) };
+    };
+
+    const areas = getCompositeAreas(project);
+    const dragBounds = getLayersExportBounds(
+      shownLayers
+        .filter(isDragged)
+        .map((layer) => ({ ...layer, x: Math.floor(layer.x) + dragOffsetX, y: Math.floor(layer.y) + dragOffsetY }))
+    );
+    const inputs = [shownLayers, project.groups, project.canvas, project.artboards, loadedImages, loadedMasks, maskStroke, isDraggingLayer, dragLayerId, state.selectedLayerIds];
+    const cached = compositeCacheRef.current;
+    let canvases: HTMLCanvasElement[];
+    if (cached && isSameInputs(cached.inputs, inputs)) {
+      // Only the drag offset changed: recomposite where the dragged layers were and are now
+      const dirty = unionRegions(cached.dragBounds, dragBounds);
+      areas.forEach((area, i) => {
+        const rect = dirty && intersectRegions(dirty, area.region);
+        if (!rect) return;
+        const pixels = compositeAreaRegion(area, rect, shownLayers, project.groups, getLayerSource, area.backgroundColor);
+        cached.canvases[i].getContext('2d')?.putImageData(pixels, rect.x - area.region.x, rect.y - area.region.y);
+      });
+      canvases = cached.canvases;
+    } else {
+      canvases = areas.map((area) =>
+        imageDataToCanvas(compositeAreaRegion(area, area.region, shownLayers, project.groups, getLayerSource, area.backgroundColor))
+      );
+    }
+    compositeCacheRef.current = { inputs, canvases, dragBounds };
+
+    // Neighbouring frames can be shown as tinted onion skin over the active one; each is cached on its own
+    const { animation } = project;
+    const skinCache = onionSkinCacheRef.current;
+    const onionSkins = (playbackFrame === null ? getOnionSkinFrames(animation, animation.activeFrame) : []).map(
+      ({ index, opacity }) => {
+        const color = index < animation.activeFrame ? ONION_SKIN_BEFORE_COLOR : ONION_SKIN_AFTER_COLOR;
+        const skinInputs = [project.layers, animation.frames[index], project.groups, project.canvas, project.artboards, loadedImages, loadedMasks, maskStroke, color];
+        let skin = skinCache.get(index);
+        if (!skin || !isSameInputs(skin.inputs, skinInputs)) {
+          const layers = getFrameLayers(project, index);
+          skin = {
+            inputs: skinInputs,
+            canvases: areas.map((area) =>
+              tintComposite(compositeAreaRegion(area, area.region, layers, project.groups, getSkinLayerSource, null), color)
+            ),
+          };
+          skinCache.set(index, skin);
+        }
+        return { index, opacity, canvases: skin.canvases };
+      }
+    );
+    for (const index of skinCache.keys()) {
+      if (!onionSkins.some((skin) => skin.index === index)) skinCache.delete(index);
+    }
+
+    // Slices are outlined with their names on top of everything (view only)
+    const drawSlices = () => {
+      if (project.slices.length === 0) return;
+      ctx.save();
+      ctx.font = '11px sans-serif';
+      ctx.strokeStyle = SLICE_COLOR;
+      ctx.fillStyle = SLICE_COLOR;
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 3]);
+      for (const slice of project.slices) {
+        ctx.strokeRect(slice.x + 0.5, slice.y + 0.5, slice.width - 1, slice.height - 1);
+        ctx.fillText(slice.name, slice.x + 2, slice.y + 12);
+      }
+      ctx.restore();
+    };
+
+    const drawArea = (index: number) => {
+      const { x, y } = areas[index].region;
+      ctx.drawImage(canvases[index], x, y);
+      for (const skin of onionSkins) {
+        ctx.globalAlpha = skin.opacity;
+        ctx.drawImage(skin.canvases[index], x, y);
+        ctx.globalAlpha = 1;
+      }
+    };
+
+    // With artboards the canvas is the workspace: each artboard is composited on its own,
+    // exactly as it is exported, with its name and size above it (view only)
+    if (project.artboards.length > 0) {
+      ctx.font = '12px sans-serif';
+      project.artboards.forEach((artboard, i) => {
+        if (checkerPattern && !artboard.backgroundColor) {
+          ctx.fillStyle = checkerPattern;
+          ctx.fillRect(artboard.x, artboard.y, artboard.width, artboard.height);
+        }
+
+        drawArea(i);
+
+        ctx.strokeStyle = 'rgba(148, 163, 184, 0.8)';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(artboard.x - 0.5, artboard.y - 0.5, artboard.width + 1, artboard.height + 1);
+        ctx.fillStyle = '#94a3b8';
+        ctx.fillText(`${artboard.name}  ${artboard.width}×${artboard.height}`, artboard.x, artboard.y - 6);
+      });
+      drawSlices();
+      return;
+    }
+
+    drawArea(0);
+
+    // Draw canvas border on top of the composite (view only, never exported)
+    if (project.canvas.borderWidth && project.canvas.borderWidth > 0) {
+      const borderWidth = project.canvas.borderWidth;
+      ctx.strokeStyle = project.canvas.borderColor;
+      ctx.globalAlpha = project.canvas.borderOpacity;
+      ctx.lineWidth = borderWidth * 2; // Double width so it expands outward evenly
       
-      // Restore opacity
-      ctx.globalAlpha = prevAlpha;
+      // Offset by half the border width so it expands outward
+      const offset = borderWidth / 2;
+      ctx.strokeRect(offset, offset, canvas.width - borderWidth, canvas.height - borderWidth);
       
-      // console.log(`[DEBUG] Layer rendered: ${layer.name} at (${x}, ${y}) with opacity ${ctx.globalAlpha}`);
+      ctx.globalAlpha = 1; // Reset alpha
+      // console.log(`[DEBUG] Canvas border drawn: ${borderWidth}px ${project.canvas.borderColor}`);
     }
-  }, [project, loadedImages, isDraggingLayer, dragLayerId, dragOffsetX, dragOffsetY]);
+
+    drawSlices();
+  }, [project.canvas, project.layers, project.groups, project.artboards, project.slices, project.animation, shownLayers, loadedImages, loadedMasks, maskStroke, isDraggingLayer, dragLayerId, dragOffsetX, dragOffsetY, playbackFrame]);
 
   /**
    * Calculate world coordinates from mouse position
@@ -288,50 +542,55 @@ function CanvasRenderer() {
 
     const { x: worldX, y: worldY } = getWorldCoordinates(e.clientX, e.clientY);
 
+    // While editing a mask, left-click paints it instead of selecting/dragging layers
+    const maskLayer = maskEditLayerId ? project.layers.find((l) => l.id === maskEditLayerId) : undefined;
+    const maskImg = maskLayer ? loadedMasks.get(maskLayer.id) : undefined;
+    if (maskLayer?.mask && maskImg && !isLayerLocked(maskLayer, project.groups)) {
+      const { x: px, y: py } = getMaskPixel(maskLayer, worldX, worldY);
+      // Continue from a just-committed stroke whose image is still decoding
+      const startPixels = maskStroke?.layerId === maskLayer.id && maskStroke.committedUrl === getMaskImage(project.assets, maskLayer.mask)
+        ? maskStroke.pixels
+        : getImagePixels(maskImg);
+      setMaskStroke({
+        layerId: maskLayer.id,
+        pixels: paintMask(startPixels, px, py, px, py, maskBrush.size, getMaskPaintValue(maskLayer.mask.inverted)),
+        lastX: px,
+        lastY: py,
+      });
+      return;
+    }
+
     // console.log(
     //   `[DEBUG] Left-click at world (${worldX.toFixed(1)}, ${worldY.toFixed(1)})`
     // );
 
-    // Find layer at this position (check in reverse order - top layer first)
-    const sortedLayers = [...project.layers]
-      .filter((layer) => layer.visible)
-      .sort((a, b) => b.zIndex - a.zIndex);
-
-    // console.log(`[DEBUG] Checking ${sortedLayers.length} layers for click intersection`);
-
-    for (const layer of sortedLayers) {
-      if (
-        worldX >= layer.x &&
-        worldX < layer.x + layer.width &&
-        worldY >= layer.y &&
-        worldY < layer.y + layer.height
-      ) {
-        // console.log(`[DEBUG] Layer clicked: ${layer.name} at (${layer.x}, ${layer.y}) size (${layer.width}x${layer.height})`);
-
-        // Don't start dragging if layer is locked
-        if (layer.locked) {
-          // Still allow selection, just not dragging
-          selectLayer(layer.id, e.ctrlKey || e.metaKey);
-          return;
-        }
+    // Find the topmost layer at this position (layers inside hidden groups can't be clicked)
+    const layer = getLayerAtPoint(worldX, worldY, project.layers, project.groups);
 
-        const isMultiSelect = e.ctrlKey || e.metaKey;
-        
-        // If clicking a layer that's already selected (without Ctrl), keep other selections
-        // This allows multi-layer dragging by dragging any selected layer
-        const isAlreadySelected = selectedLayerIds.includes(layer.id);
-        const shouldKeepSelection = isAlreadySelected && !isMultiSelect;
-        
-        if (!shouldKeepSelection) {
-          selectLayer(layer.id, isMultiSelect);
-        }
-        
-        startDraggingLayer(layer.id, worldX, worldY);
-        // console.log(`[DEBUG] Started dragging layer: ${layer.name}`);
+    if (layer) {
+      // console.log(`[DEBUG] Layer clicked: ${layer.name} at (${layer.x}, ${layer.y})`);
+
+      // Don't start dragging if layer (or its group) is locked
+      if (isLayerLocked(layer, project.groups)) {
+        // Still allow selection, just not dragging
+        selectLayer(layer.id, e.ctrlKey || e.metaKey);
         return;
-      } else {
-        // console.log(`[DEBUG] Layer ${layer.name} at (${layer.x}, ${layer.y}) size (${layer.width}x${layer.height}) - no hit`);
       }
+
+      const isMultiSelect = e.ctrlKey || e.metaKey;
+      
+      // If clicking a layer that's already selected (without Ctrl), keep other selections
+      // This allows multi-layer dragging by dragging any selected layer
+      const isAlreadySelected = selectedLayerIds.includes(layer.id);
+      const shouldKeepSelection = isAlreadySelected && !isMultiSelect;
+      
+      if (!shouldKeepSelection) {
+        selectLayer(layer.id, isMultiSelect);
+      }
+      
+      startDraggingLayer(layer.id, worldX, worldY);
+      // console.log(`[DEBUG] Started dragging layer: ${layer.name}`);
+      return;
     }
 
     // No layer clicked - start panning with left-click instead
@@ -367,13 +626,73 @@ function CanvasRenderer() {
       return;
     }
 
+    if (maskStroke && !maskStroke.committedUrl) {
+      const maskLayer = project.layers.find((l) => l.id === maskStroke.layerId);
+      if (!maskLayer?.mask) return;
+
+      const { x: px, y: py } = getMaskPixel(maskLayer, worldX, worldY);
+      if (px === maskStroke.lastX && py === maskStroke.lastY) return;
+
+      setMaskStroke({
+        layerId: maskStroke.layerId,
+        pixels: paintMask(
+          maskStroke.pixels,
+          maskStroke.lastX,
+          maskStroke.lastY,
+          px,
+          py,
+          maskBrush.size,
+          getMaskPaintValue(maskLayer.mask.inverted)
+        ),
+        lastX: px,
+        lastY: py,
+      });
+      return;
+    }
+
     const isDragging = useCompositorStore.getState().ui.isDraggingLayer;
     if (isDragging) {
       updateDragPosition(worldX, worldY);
     }
   };
 
+  /**
+   * Mask pixel under a world position (the mask is in source image space, so undo the layer's scale and flip/rotation)
+   */
+  const getMaskPixel = (layer: Layer, worldX: number, worldY: number): { x: number; y: number } => {
+    const scale = getLayerScale(layer);
+    return toSourcePixel(
+      layer.transform,
+      layer.width,
+      layer.height,
+      Math.floor((worldX - layer.x) / scale.x),
+      Math.floor((worldY - layer.y) / scale.y)
+    );
+  };
+
+  /**
+   * Mask value painted by the current tool: the brush hides, the eraser reveals
+   * (swapped on inverted masks so the tools keep their visible meaning)
+   */
+  const getMaskPaintValue = (inverted: boolean): number =>
+    (maskBrush.mode === 'brush') !== inverted ? 0 : 255;
+
   const handleCanvasMouseUp = () => {
+    if (maskStroke && !maskStroke.committedUrl) {
+      const maskLayer = project.layers.find((l) => l.id === maskStroke.layerId);
+      if (maskLayer?.mask) {
+        const committedUrl = maskPixelsToDataUrl(maskStroke.pixels);
+        updateLayerMask(
+          maskLayer.id,
+          { imageData: committedUrl },
+          `${maskBrush.mode === 'brush' ? 'Paint' : 'Erase'} mask of '${maskLayer.name}'`
+        );
+        setMaskStroke({ ...maskStroke, committedUrl });
+      } else {
+        setMaskStroke(null);
+      }
+    }
+
     setIsPanning(false);
     stopDraggingLayer();
     // console.log('[DEBUG] Layer drag ended');
@@ -465,6 +784,8 @@ function CanvasRenderer() {
                   y += dragOffsetY;
                 }
 
+                const { width, height } = getTransformedSize(layer);
+
                 // Check for text layer and single selection
                 const isTextLayer = layer.textContent !== undefined;
                 const isShapeLayer = layer.shapeType !== undefined;
@@ -476,8 +797,8 @@ function CanvasRenderer() {
                     <rect
                       x={x-0.12}
                       y={y-0.25}
-                      width={layer.width+0.3}
-                      height={layer.height+0.3}
+                      width={width+0.3}
+                      height={height+0.3}
                       fill="none"
                       stroke="#b0b0b0"
                       strokeWidth="0.25"
@@ -490,8 +811,8 @@ function CanvasRenderer() {
                     <rect
                       x={x-0.12}
                       y={y-0.25}
-                      width={layer.width+0.3}
-                      height={layer.height+0.3}
+                      width={width+0.3}
+                      height={height+0.3}
                       fill="none"
                       stroke="#505050"
                       strokeWidth="0.25"
@@ -5,7 +5,7 @@
 
 import { useState } from 'react';
 import useCompositorStore from '../../store/compositorStore';
-import { ProjectData } from '../../types/compositor.types';
+import { HistoryEntry, ProjectData } from '../../types/compositor.types';
 
 interface DebugHistoryModalProps {
   isOpen: boolean;
@@ -23,35 +23,41 @@ export function DebugHistoryModal({ isOpen, onClose }: DebugHistoryModalProps) {
     return `${proj.projectName} | ${proj.layers.length} layer(s) | Modified: ${new Date(proj.modified).toLocaleTimeString()}`;
   };
 
-  const getLayerChanges = (proj1: ProjectData, proj2: ProjectData): string[] => {
+  const getEntrySummary = (entry: HistoryEntry): string => {
+    const fieldCount = entry.projectChanges.length;
+    return `${entry.label} | ${entry.layerChanges.length} layer change(s)${fieldCount > 0 ? `, ${fieldCount} project field(s)` : ''}${entry.layerOrder ? ', reorder' : ''} | ${new Date(entry.timestamp).toLocaleTimeString()}`;
+  };
+
+  const getLayerName = (layerId: string): string => {
+    return project.layers.find((l) => l.id === layerId)?.name ?? layerId;
+  };
+
+  const getEntryChanges = (entry: HistoryEntry): string[] => {
     const changes: string[] = [];
 
-    // Check layer count
-    if (proj1.layers.length !== proj2.layers.length) {
-      changes.push(`Layer count: ${proj1.layers.length} → ${proj2.layers.length}`);
+    for (const change of entry.projectChanges) {
+      changes.push(`Project ${change.field} changed`);
     }
 
-    // Check layer properties
-    for (let i = 0; i < Math.max(proj1.layers.length, proj2.layers.length); i++) {
-      const layer1 = proj1.layers[i];
-      const layer2 = proj2.layers[i];
-
-      if (!layer1) {
-        changes.push(`Layer ${i}: removed`);
-      } else if (!layer2) {
-        changes.push(`Layer ${i}: added (${layer1.name})`);
-      } else if (
-        layer1.x !== layer2.x ||
-        layer1.y !== layer2.y ||
-        layer1.width !== layer2.width ||
-        layer1.height !== layer2.height
-      ) {
+    for (const change of entry.layerChanges) {
+      if (change.type === 'add') {
+        changes.push(`${change.layer.name}: added`);
+      } else if (change.type === 'remove') {
+        changes.push(`${change.layer.name}: removed`);
+      } else if ('x' in change.before || 'y' in change.before) {
+        const { before, after } = change;
         changes.push(
-          `${layer1.name}: (${layer1.x}, ${layer1.y}) → (${layer2.x}, ${layer2.y})`
+          `${getLayerName(change.layerId)}: (${before.x ?? '-'}, ${before.y ?? '-'}) → (${after.x ?? '-'}, ${after.y ?? '-'})`
         );
+      } else {
+        changes.push(`${getLayerName(change.layerId)}: ${Object.keys(change.after).join(', ')}`);
       }
     }
 
+    if (entry.layerOrder) {
+      changes.push(`Layer order: ${entry.layerOrder.before.length} → ${entry.layerOrder.after.length} layer(s)`);
+    }
+
     return changes.length > 0 ? changes : ['No layer changes'];
   };
 
@@ -128,7 +134,7 @@ export function DebugHistoryModal({ isOpen, onClose }: DebugHistoryModalProps) {
                             <div className="flex items-center gap-2">
                               <span className="text-green-400">↶</span>
                               <span className="text-slate-300 flex-1">
-                                {getProjectSummary(entry)}
+                                {getEntrySummary(entry)}
                               </span>
                               <span className="text-slate-500">
                                 {expandedIndex === `past-${idx}` ? '▼' : '▶'}
@@ -139,10 +145,7 @@ export function DebugHistoryModal({ isOpen, onClose }: DebugHistoryModalProps) {
                           {/* Expanded Details */}
                           {expandedIndex === `past-${idx}` && (
                             <div className="bg-slate-800/50 border-l-2 border-green-400 ml-4 mt-1 p-2 rounded text-xs text-slate-300 space-y-1">
-                              {getLayerChanges(
-                                history.past[idx + 1] || project,
-                                entry
-                              ).map((change, changeIdx) => (
+                              {getEntryChanges(entry).map((change, changeIdx) => (
                                 <div key={changeIdx} className="text-slate-400">
                                   • {change}
                                 </div>
@@ -175,7 +178,7 @@ export function DebugHistoryModal({ isOpen, onClose }: DebugHistoryModalProps) {
                             <div className="flex items-center gap-2">
                               <span className="text-blue-400">↷</span>
                               <span className="text-slate-300 flex-1">
-                                {getProjectSummary(entry)}
+                                {getEntrySummary(entry)}
                               </span>
                               <span className="text-slate-500">
                                 {expandedIndex === `future-${idx}` ? '▼' : '▶'}
@@ -186,10 +189,7 @@ export function DebugHistoryModal({ isOpen, onClose }: DebugHistoryModalProps) {
                           {/* Expanded Details */}
                           {expandedIndex === `future-${idx}` && (
                             <div className="bg-slate-800/50 border-l-2 border-blue-400 ml-4 mt-1 p-2 rounded text-xs text-slate-300 space-y-1">
-                              {getLayerChanges(
-                                project,
-                                entry
-                              ).map((change, changeIdx) => (
+                              {getEntryChanges(entry).map((change, changeIdx) => (
                                 <div key={changeIdx} className="text-slate-400">
                                   • {change}
                                 </div>
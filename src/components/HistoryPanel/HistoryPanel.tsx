@@ -0,0 +1,151 @@
+import { useEffect, useRef, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { HistoryEntry, ProjectData } from '../../types/compositor.types';
+import { getHistoryStates } from '../../utils/historyPatch';
+import { renderProjectThumbnail } from '../../utils/canvasRenderer';
+
+const THUMBNAIL_SIZE = 32;
+
+/**
+ * History panel component
+ * Lists labeled undo/redo steps with composite thumbnails; clicking a step jumps to that state
+ */
+function HistoryPanel() {
+  const history = useCompositorStore((state) => state.history);
+  const historyBase = useCompositorStore((state) => state._historyBase);
+  const dock = useCompositorStore((state) => state.ui.historyPanelDock);
+  const jumpToHistoryEntry = useCompositorStore((state) => state.jumpToHistoryEntry);
+  const setHistoryPanelDock = useCompositorStore((state) => state.setHistoryPanelDock);
+
+  // Thumbnails keyed by entry id - the state after an entry never changes once recorded
+  const thumbnailsRef = useRef<Map<string, string>>(new Map());
+  const [, setThumbnailVersion] = useState(0);
+
+  const initialKey = `initial_${(history.past[0] ?? history.future[0])?.id ?? 'none'}`;
+
+  /**
+   * Render missing thumbnails by reconstructing each state from the patches
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    const renderThumbnails = async () => {
+      if (history.past.length === 0 && history.future.length === 0) return;
+
+      const states = getHistoryStates(historyBase, history);
+      const allStates: Array<[string, ProjectData]> = [
+        [initialKey, states.initial],
+        ...history.past.map((entry, i): [string, ProjectData] => [entry.id, states.past[i]]),
+        ...history.future.map((entry, i): [string, ProjectData] => [entry.id, states.future[i]]),
+      ];
+      const pending = allStates.filter(([key]) => !thumbnailsRef.current.has(key));
+
+      const imageCache = new Map<string, HTMLImageElement>();
+      for (const [key, project] of pending) {
+        if (cancelled) return;
+        try {
+          thumbnailsRef.current.set(key, await renderProjectThumbnail(project, THUMBNAIL_SIZE, imageCache));
+          setThumbnailVersion((v) => v + 1);
+        } catch (error) {
+          console.warn('[DEBUG] Failed to render history thumbnail:', error);
+        }
+      }
+
+      // Drop thumbnails of entries that fell off the stack
+      const liveKeys = new Set([initialKey, ...history.past.map((e) => e.id), ...history.future.map((e) => e.id)]);
+      for (const key of thumbnailsRef.current.keys()) {
+        if (!liveKeys.has(key)) thumbnailsRef.current.delete(key);
+      }
+    };
+
+    renderThumbnails();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [history, historyBase, initialKey]);
+
+  const currentId = history.past.length > 0 ? history.past[history.past.length - 1].id : null;
+
+  const renderRow = (
+    key: string,
+    label: string,
+    entryId: string | null,
+    timestamp: number | null,
+    isFuture: boolean
+  ) => {
+    const isCurrent = entryId === currentId;
+    const thumbnail = thumbnailsRef.current.get(key);
+
+    return (
+      <button
+        key={key}
+        onClick={() => jumpToHistoryEntry(entryId)}
+        className={`w-full flex items-center gap-2 px-2 py-1 rounded text-left text-xs transition-colors ${
+          isCurrent
+            ? 'bg-blue-600 text-white'
+            : isFuture
+              ? 'text-gray-500 hover:bg-gray-700'
+              : 'text-gray-300 hover:bg-gray-700'
+        }`}
+        title={timestamp ? new Date(timestamp).toLocaleTimeString() : undefined}
+      >
+        <div
+          className="flex-shrink-0 flex items-center justify-center bg-panel-bg border border-border rounded overflow-hidden"
+          style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}
+        >
+          {thumbnail && (
+            <img src={thumbnail} alt="" style={{ imageRendering: 'pixelated', maxWidth: '100%', maxHeight: '100%' }} />
+          )}
+        </div>
+        <span className="flex-1 truncate">{label}</span>
+      </button>
+    );
+  };
+
+  const hasEntries = history.past.length > 0 || history.future.length > 0;
+
+  return (
+    <div className="h-full flex flex-col bg-canvas-bg">
+      {/* Header */}
+      <div className="px-3 py-2 border-b border-border flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-300">History</h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setHistoryPanelDock(dock === 'left' ? 'right' : 'left')}
+            className="px-1 text-xs text-gray-400 hover:text-white transition-colors"
+            title={`Dock to ${dock === 'left' ? 'right' : 'left'} side`}
+          >
+            ⇆
+          </button>
+          <button
+            onClick={() => setHistoryPanelDock(null)}
+            className="px-1 text-xs text-gray-400 hover:text-white transition-colors"
+            title="Close history panel"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {/* Entry List */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {!hasEntries ? (
+          <div className="px-3 py-4 text-center text-xs text-gray-500">No history yet</div>
+        ) : (
+          <>
+            {renderRow(initialKey, 'Initial state', null, null, false)}
+            {history.past.map((entry: HistoryEntry) =>
+              renderRow(entry.id, entry.label, entry.id, entry.timestamp, false)
+            )}
+            {history.future.map((entry: HistoryEntry) =>
+              renderRow(entry.id, entry.label, entry.id, entry.timestamp, true)
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default HistoryPanel;
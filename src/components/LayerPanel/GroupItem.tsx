@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { LayerGroup } from '../../types/compositor.types';
+
+interface GroupItemProps {
+  group: LayerGroup;
+  depth: number;
+  layerCount: number;
+  isSelected: boolean;
+}
+
+/**
+ * Layer group (folder) row component
+ * Displays group name, child count and group controls; children are rendered by LayerPanel
+ */
+function GroupItem({ group, depth, layerCount, isSelected }: GroupItemProps) {
+  const selectGroup = useCompositorStore((state) => state.selectGroup);
+  const updateGroup = useCompositorStore((state) => state.updateGroup);
+  const ungroup = useCompositorStore((state) => state.ungroup);
+  const duplicateGroup = useCompositorStore((state) => state.duplicateGroup);
+  const deleteGroup = useCompositorStore((state) => state.deleteGroup);
+  const reorderGroup = useCompositorStore((state) => state.reorderGroup);
+
+  const [isEditingName, setIsEditingName] = useState(false);
+  const [tempName, setTempName] = useState(group.name);
+
+  const handleSelectGroup = (e: React.MouseEvent) => {
+    selectGroup(group.id, e.ctrlKey || e.metaKey);
+  };
+
+  const handleToggleCollapsed = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    updateGroup(group.id, { collapsed: !group.collapsed });
+  };
+
+  const handleToggleVisibility = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    updateGroup(group.id, { visible: !group.visible });
+  };
+
+  const handleToggleLock = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    updateGroup(group.id, { locked: !group.locked });
+  };
+
+  const handleNameSave = () => {
+    if (tempName.trim()) {
+      updateGroup(group.id, { name: tempName.trim() });
+    } else {
+      setTempName(group.name);
+    }
+    setIsEditingName(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleNameSave();
+    } else if (e.key === 'Escape') {
+      setTempName(group.name);
+      setIsEditingName(false);
+    }
+  };
+
+  const handleDeleteGroup = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const confirmed = window.confirm(
+      `Delete group '${group.name}' and its ${layerCount} layer${layerCount !== 1 ? 's' : ''}?`
+    );
+    if (confirmed) {
+      deleteGroup(group.id);
+    }
+  };
+
+  return (
+    <div
+      onClick={handleSelectGroup}
+      title="Click to select all layers in the group • Ctrl/Cmd+Click to add to selection"
+      style={{ marginLeft: depth * 12 }}
+      className={`group p-2 rounded border transition-all cursor-pointer select-none ${
+        isSelected
+          ? 'bg-blue-950 border-blue-500 text-white'
+          : 'bg-gray-800 border-border text-gray-300 hover:bg-gray-700'
+      }`}
+    >
+      {/* Group Header */}
+      <div className="flex items-center gap-2">
+        {/* Collapse Toggle */}
+        <button
+          onClick={handleToggleCollapsed}
+          className="w-4 h-4 flex-shrink-0 flex items-center justify-center text-xs text-gray-400 hover:text-white"
+          title={group.collapsed ? 'Expand group' : 'Collapse group'}
+        >
+          {group.collapsed ? '▸' : '▾'}
+        </button>
+
+        {/* Folder Icon */}
+        <svg className="w-4 h-4 flex-shrink-0 text-yellow-500" fill="currentColor" viewBox="0 0 20 20">
+          <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
+        </svg>
+
+        {/* Group Name */}
+        <div className="flex-1 min-w-0">
+          {isEditingName ? (
+            <input
+              autoFocus
+              type="text"
+              value={tempName}
+              onChange={(e) => setTempName(e.target.value)}
+              onBlur={handleNameSave}
+              onKeyDown={handleKeyDown}
+              onClick={(e) => e.stopPropagation()}
+              className="w-full px-1 py-0 bg-canvas-bg border border-blue-400 rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-300"
+              placeholder="Group name..."
+            />
+          ) : (
+            <span
+              className="text-xs font-semibold truncate block"
+              title={group.name}
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                setTempName(group.name);
+                setIsEditingName(true);
+              }}
+            >
+              {group.name} <span className="font-normal text-gray-500">({layerCount})</span>
+            </span>
+          )}
+        </div>
+
+        {/* Visibility Toggle */}
+        <button
+          onClick={handleToggleVisibility}
+          className="w-5 h-5 flex items-center justify-center flex-shrink-0 rounded transition-colors hover:bg-gray-600"
+          title={group.visible ? 'Hide group' : 'Show group'}
+        >
+          {group.visible ? (
+            <svg className="w-4 h-4 text-gray-300" fill="currentColor" viewBox="0 0 20 20">
+              <path d="M10 12a2 2 0 100-4 2 2 0 000 4z" />
+              <path fillRule="evenodd" d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.064 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z" clipRule="evenodd" />
+            </svg>
+          ) : (
+            <svg className="w-4 h-4 text-gray-500" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M3.707 2.293a1 1 0 00-1.414 1.414l14 14a1 1 0 001.414-1.414l-1.473-1.473A10.014 10.014 0 0019.542 10C18.268 5.943 14.478 3 10 3a9.958 9.958 0 00-5.838 1.834l-2.455-2.541zM12.305 15.93A9.959 9.959 0 0110 15c-4.478 0-8.268-2.943-9.542-7a9.88 9.88 0 011.964-2.964l2.386 2.386c-.078.464-.12.94-.12 1.424 0 3.314 2.686 6 6 6a5.975 5.975 0 002.717-.632l2.472 2.472z" clipRule="evenodd" />
+            </svg>
+          )}
+        </button>
+
+        {/* Lock Toggle */}
+        <button
+          onClick={handleToggleLock}
+          className="w-5 h-5 flex items-center justify-center flex-shrink-0 rounded transition-colors hover:bg-gray-600"
+          title={group.locked ? 'Unlock group' : 'Lock group'}
+        >
+          {group.locked ? (
+            <svg className="w-4 h-4 text-gray-300" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
+            </svg>
+          ) : (
+            <svg className="w-4 h-4 text-gray-500" fill="currentColor" viewBox="0 0 20 20">
+              <path d="M10 2a5 5 0 00-5 5v2a2 2 0 00-2 2v5a2 2 0 002 2h10a2 2 0 002-2v-5a2 2 0 00-2-2V7a5 5 0 00-5-5zm0 2a3 3 0 013 3v2H7V7a3 3 0 013-3z" />
+            </svg>
+          )}
+        </button>
+      </div>
+
+      {/* Group Opacity */}
+      <div className="flex items-center gap-2 mt-1 px-6" onClick={(e) => e.stopPropagation()}>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={Math.round(group.opacity * 100)}
+          onChange={(e) => updateGroup(group.id, { opacity: parseInt(e.target.value) / 100 })}
+          className="flex-1 h-1 cursor-pointer"
+          title="Group opacity"
+        />
+        <span className="w-8 text-right text-xs text-gray-500">{Math.round(group.opacity * 100)}%</span>
+      </div>
+
+      {/* Group Controls */}
+      <div className="flex gap-1 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            reorderGroup(group.id, 'up');
+          }}
+          className="flex-1 px-1 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          title="Move group up"
+        >
+          ↑
+        </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            reorderGroup(group.id, 'down');
+          }}
+          className="flex-1 px-1 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          title="Move group down"
+        >
+          ↓
+        </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setTempName(group.name);
+            setIsEditingName(true);
+          }}
+          className="flex-1 px-1 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          title="Rename group"
+        >
+          ✎
+        </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            ungroup(group.id);
+          }}
+          className="flex-1 px-1 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          title="Ungroup (keep layers)"
+        >
+          ⇱
+        </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            duplicateGroup(group.id);
+          }}
+          className="flex-1 px-1 py-1 text-xs bg-blue-700 hover:bg-blue-600 rounded transition-colors"
+          title="Duplicate group"
+        >
+          ⧉
+        </button>
+        <button
+          onClick={handleDeleteGroup}
+          className="flex-1 px-1 py-1 text-xs bg-red-700 hover:bg-red-600 rounded transition-colors"
+          title="Delete group and its layers"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default GroupItem;
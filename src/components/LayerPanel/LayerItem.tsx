@@ -1,11 +1,15 @@
 import { useState, useRef, useEffect } from 'react';
 import useCompositorStore from '../../store/compositorStore';
+import { getLayerImage } from '../../utils/assets';
 import { Layer } from '../../types/compositor.types';
 import { isTextLayer, isShapeLayer } from '../../utils/textRasterizer';
 
 interface LayerItemProps {
   layer: Layer;
   isSelected: boolean;
+  depth?: number; // Group nesting level, used for indentation
+  clipBase?: Layer | null; // Layer this one is clipped to, null = clipped but nothing below to clip to
+  isClipBase?: boolean; // Other layers are clipped to this one
 }
 
 // Global drag state shared across all LayerItem instances
@@ -15,10 +19,11 @@ let globalDraggedLayerId: string | null = null;
  * Individual layer item component
  * Displays layer thumbnail, name, and controls
  */
-function LayerItem({ layer, isSelected }: LayerItemProps) {
+function LayerItem({ layer, isSelected, depth = 0, clipBase, isClipBase = false }: LayerItemProps) {
   const selectLayer = useCompositorStore((state) => state.selectLayer);
   const selectLayerRange = useCompositorStore((state) => state.selectLayerRange);
   const updateLayer = useCompositorStore((state) => state.updateLayer);
+  const layerImage = useCompositorStore((state) => getLayerImage(state.project.assets, layer));
   const removeLayer = useCompositorStore((state) => state.removeLayer);
   const reorderLayer = useCompositorStore((state) => state.reorderLayer);
   const bringLayerToFront = useCompositorStore((state) => state.bringLayerToFront);
@@ -175,6 +180,12 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
     // console.log(`[DEBUG] Layer duplicated: ${layer.name}`);
   };
 
+  const handleToggleClip = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    updateLayer(layer.id, { clipToBelow: !layer.clipToBelow });
+    // console.log(`[DEBUG] Layer clipping toggled: ${layer.name} -> ${!layer.clipToBelow}`);
+  };
+
   const handleBringToFront = (e: React.MouseEvent) => {
     e.stopPropagation();
     bringLayerToFront(layer.id);
@@ -196,6 +207,7 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
       onMouseLeave={handleMouseLeave}
       onMouseUp={handleMouseUp}
       title="Click to select • Ctrl/Cmd+Click for multi-select • Shift+Click for range select"
+      style={{ marginLeft: depth * 12 + (layer.clipToBelow ? 12 : 0) }}
       className={`group p-2 rounded border transition-all cursor-pointer select-none ${
         isDragOver ? 'bg-green-900 border-green-400 scale-105' : ''
       } ${
@@ -224,10 +236,22 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
           )}
         </button>
         
+        {/* Clipping Indicator (points down to the base layer) */}
+        {layer.clipToBelow && (
+          <span
+            className={`flex-shrink-0 ${clipBase ? 'text-blue-400' : 'text-gray-600'}`}
+            title={clipBase ? `Clipped to '${clipBase.name}'` : 'No layer below to clip to - drawn unclipped'}
+          >
+            <svg className="w-3 h-3 rotate-90" fill="none" stroke="currentColor" viewBox="0 0 20 20">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 3v9a3 3 0 003 3h6m0 0l-3-3m3 3l-3 3" />
+            </svg>
+          </span>
+        )}
+
         {/* Thumbnail */}
         <div className="w-8 h-8 flex-shrink-0 bg-canvas-bg border border-gray-600 rounded overflow-hidden relative">
           <img
-            src={layer.imageData}
+            src={layerImage}
             alt={layer.name}
             className="w-full h-full object-contain"
             style={{ imageRendering: 'pixelated' }}
@@ -255,7 +279,10 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
               placeholder="Layer name..."
             />
           ) : (
-            <span className="text-xs font-medium truncate block" title={layer.name}>
+            <span
+              className={`text-xs font-medium truncate block ${isClipBase ? 'underline decoration-blue-400' : ''}`}
+              title={isClipBase ? `${layer.name} (clipping base)` : layer.name}
+            >
               {layer.name}
             </span>
           )}
@@ -366,6 +393,17 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 9l-5 5m0 0l-5-5m5 5V2" />
           </svg>
         </button>
+        <button
+          onClick={handleToggleClip}
+          className={`flex-1 px-1 py-1 text-xs rounded transition-colors flex items-center justify-center ${
+            layer.clipToBelow ? 'bg-blue-700 hover:bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+          }`}
+          title={layer.clipToBelow ? 'Release clipping mask' : 'Clip to layer below'}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 20 20">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 3v9a3 3 0 003 3h6m0 0l-3-3m3 3l-3 3" />
+          </svg>
+        </button>
         <button
           onClick={handleDuplicateLayer}
           className="flex-1 px-1 py-1 text-xs bg-blue-700 hover:bg-blue-600 rounded transition-colors flex items-center justify-center"
@@ -1,7 +1,11 @@
 import { useRef } from 'react';
 import useCompositorStore from '../../store/compositorStore';
+import { buildLayerTree, flattenLayerTree, getClipBases, LayerTreeNode } from '../../utils/layerGroups';
 import LayerItem from './LayerItem';
+import GroupItem from './GroupItem';
 import CanvasSettings from '../PropertyPanel/CanvasSettings';
+import ArtboardSettings from '../PropertyPanel/ArtboardSettings';
+import SliceSettings from '../PropertyPanel/SliceSettings';
 
 /**
  * Layer panel component
@@ -15,9 +19,45 @@ function LayerPanel() {
   const deselectAllLayers = useCompositorStore((state) => state.deselectAllLayers);
   const deleteSelectedLayers = useCompositorStore((state) => state.deleteSelectedLayers);
   const addLayer = useCompositorStore((state) => state.addLayer);
+  const createGroup = useCompositorStore((state) => state.createGroup);
 
-  // Sort layers by z-index for display (highest z-index at top)
-  const sortedLayers = [...project.layers].sort((a, b) => b.zIndex - a.zIndex);
+  // Layer tree for display (highest z-index at top, groups containing their children)
+  const layerTree = buildLayerTree(project.layers, project.groups);
+
+  /**
+   * Render tree nodes top-down; children of collapsed groups are skipped
+   */
+  const renderNodes = (nodes: LayerTreeNode[], depth: number): React.ReactNode[] => {
+    const clipBases = getClipBases(nodes);
+    const baseIds = new Set([...clipBases.values()].map((base) => base?.id));
+
+    return [...nodes].reverse().flatMap((node) => {
+      if (node.type === 'layer') {
+        return [
+          <LayerItem
+            key={node.id}
+            layer={node.layer}
+            isSelected={selectedLayerIds.includes(node.id)}
+            depth={depth}
+            clipBase={clipBases.get(node.id)}
+            isClipBase={baseIds.has(node.id)}
+          />,
+        ];
+      }
+
+      const groupLayers = flattenLayerTree(node.children);
+      return [
+        <GroupItem
+          key={node.id}
+          group={node.group}
+          depth={depth}
+          layerCount={groupLayers.length}
+          isSelected={groupLayers.length > 0 && groupLayers.every((l) => selectedLayerIds.includes(l.id))}
+        />,
+        ...(node.group.collapsed ? [] : renderNodes(node.children, depth + 1)),
+      ];
+    });
+  };
 
   const handleDeleteSelected = () => {
     if (selectedLayerIds.length === 0) {
@@ -142,6 +182,15 @@ function LayerPanel() {
             Delete
           </button>
 
+          <button
+            onClick={() => createGroup()}
+            disabled={selectedLayerIds.length === 0}
+            className="flex-1 min-w-16 px-2 py-1 text-xs font-medium text-yellow-400 hover:text-yellow-300 bg-panel-bg hover:bg-yellow-900 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Group selected layers (Ctrl+G)"
+          >
+            Group
+          </button>
+
           <button
             onClick={() => (window as any).openTextLayerModal?.()}
             className="flex-1 min-w-16 px-2 py-1 text-xs font-medium text-blue-400 hover:text-blue-300 bg-panel-bg hover:bg-blue-900 rounded transition-colors flex items-center justify-center gap-1"
@@ -170,20 +219,14 @@ function LayerPanel() {
 
       {/* Layer List */}
       <div className="flex-1 overflow-y-auto">
-        {sortedLayers.length === 0 ? (
+        {layerTree.length === 0 ? (
           <div className="px-3 py-8 text-center text-sm text-gray-500">
             <div className="mb-2">No layers yet</div>
             <div className="text-xs">Upload images to get started</div>
           </div>
         ) : (
           <div className="space-y-1 p-2">
-            {sortedLayers.map((layer) => (
-              <LayerItem
-                key={layer.id}
-                layer={layer}
-                isSelected={selectedLayerIds.includes(layer.id)}
-              />
-            ))}
+            {renderNodes(layerTree, 0)}
           </div>
         )}
       </div>
@@ -199,6 +242,8 @@ function LayerPanel() {
       {/* Canvas Settings (moved from Property panel) */}
       <div className="border-t border-border px-3 py-2 bg-panel-bg">
         <CanvasSettings />
+        <ArtboardSettings />
+        <SliceSettings />
       </div>
 
       {/* Hidden file input */}
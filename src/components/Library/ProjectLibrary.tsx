@@ -0,0 +1,368 @@
+/**
+ * Project Library - Browser for the projects stored locally in IndexedDB
+ * Shown as the start screen when the app opens, and from the toolbar's Library button
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import {
+  deleteFromLibrary,
+  duplicateInLibrary,
+  exportFromLibrary,
+  filterLibrary,
+  formatByteSize,
+  importToLibrary,
+  LibraryEntry,
+  listLibrary,
+  openFromLibrary,
+  saveToLibrary,
+  updateLibraryProject,
+} from '../../utils/projectLibrary';
+
+function ProjectLibrary() {
+  const view = useCompositorStore((state) => state.ui.libraryView);
+  const setLibraryView = useCompositorStore((state) => state.setLibraryView);
+  const loadProject = useCompositorStore((state) => state.loadProject);
+  const newDocument = useCompositorStore((state) => state.newDocument);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [tagInputs, setTagInputs] = useState<Record<string, string>>({});
+
+  const refresh = () => {
+    listLibrary()
+      .then(setEntries)
+      .catch((error) => console.error('[DEBUG] Failed to list project library:', error));
+  };
+
+  useEffect(() => {
+    if (view) refresh();
+  }, [view]);
+
+  if (!view) return null;
+
+  const isStartScreen = view === 'start';
+  const close = () => setLibraryView(null);
+  const allTags = [...new Set(entries.flatMap((entry) => entry.tags))].sort();
+  const visibleEntries = filterLibrary(entries, query, selectedTags);
+
+  /**
+   * Run a library operation, reporting failures the way the file operations do
+   */
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      refresh();
+    } catch (error) {
+      console.error(`[DEBUG] ${failure}:`, error);
+      alert(`${failure}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleOpen = (entry: LibraryEntry) =>
+    run(async () => {
+      const { project, issues } = await openFromLibrary(entry.id);
+      loadProject(project, { source: entry.name, issues }); // Also closes the library
+    }, 'Error opening project');
+
+  const handleSaveCurrent = () =>
+    run(async () => {
+      const entry = await saveToLibrary(useCompositorStore.getState().project);
+      alert(`Saved to library: ${entry.name}`);
+    }, 'Error saving project to library');
+
+  const handleRename = (entry: LibraryEntry) => {
+    setRenamingId(null);
+    const name = renameValue.trim();
+    if (!name || name === entry.name) return;
+    run(() => updateLibraryProject(entry.id, { name }), 'Error renaming project');
+  };
+
+  const handleAddTag = (entry: LibraryEntry) => {
+    const tag = (tagInputs[entry.id] ?? '').trim();
+    setTagInputs((inputs) => ({ ...inputs, [entry.id]: '' }));
+    if (!tag || entry.tags.includes(tag)) return;
+    run(() => updateLibraryProject(entry.id, { tags: [...entry.tags, tag] }), 'Error tagging project');
+  };
+
+  const handleRemoveTag = (entry: LibraryEntry, tag: string) =>
+    run(() => updateLibraryProject(entry.id, { tags: entry.tags.filter((t) => t !== tag) }), 'Error tagging project');
+
+  const handleDelete = (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete '${entry.name}' from the library? This cannot be undone.`)) return;
+    run(() => deleteFromLibrary(entry.id), 'Error deleting project');
+  };
+
+  const handleExport = (entry: LibraryEntry) =>
+    run(async () => {
+      const blob = await exportFromLibrary(entry.id);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${entry.name || 'untitled'}.pixcomp`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    }, 'Error exporting project');
+
+  /**
+   * Import .pixcomp files into the library; on the start screen a single file is opened right away
+   */
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(event.target.files ?? [])];
+    event.target.value = '';
+    await run(async () => {
+      for (const file of files) {
+        const { project, issues } = await importToLibrary(file);
+        if (isStartScreen && files.length === 1) {
+          loadProject(project, { source: file.name, issues });
+        }
+      }
+    }, 'Error importing project');
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags((tags) => (tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag]));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onKeyDown={(e) => e.key === 'Escape' && close()}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Project library"
+      tabIndex={0}
+    >
+      <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-2xl w-full max-w-5xl h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-slate-800 px-6 py-4 border-b border-slate-700 flex justify-between items-center gap-4">
+          <div>
+            {isStartScreen ? (
+              <h2 className="text-lg font-semibold">
+                <span className="text-red-500">Pixel</span>
+                <span className="text-sky-400">Connect</span>
+              </h2>
+            ) : (
+              <h2 className="text-lg font-semibold text-white">Project library</h2>
+            )}
+            <p className="text-xs text-slate-400 mt-1">
+              {entries.length} project{entries.length === 1 ? '' : 's'} stored in this browser
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {isStartScreen ? (
+              <button
+                onClick={close}
+                className="px-3 py-1 text-sm text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+              >
+                New project
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => {
+                    newDocument();
+                    close();
+                  }}
+                  className="px-3 py-1 text-sm text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 rounded transition-colors"
+                >
+                  New project
+                </button>
+                <button
+                  onClick={handleSaveCurrent}
+                  className="px-3 py-1 text-sm text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+                  title="Store the current project in the library"
+                >
+                  Save current project
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1 text-sm text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 rounded transition-colors"
+              title="Add .pixcomp files to the library"
+            >
+              Import .pixcomp…
+            </button>
+            <button
+              onClick={close}
+              className="ml-2 text-slate-400 hover:text-white transition-colors"
+              aria-label="Close project library"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {/* Search and tag filter */}
+        <div className="px-6 py-3 border-b border-slate-700 space-y-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by name or tag…"
+            className="w-full px-2 py-1 bg-slate-800 border border-slate-700 rounded text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-400"
+          />
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {allTags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                    selectedTags.includes(tag)
+                      ? 'bg-blue-600 border-blue-500 text-white'
+                      : 'border-slate-600 text-slate-300 hover:text-white'
+                  }`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Project grid */}
+        <div className="flex-1 overflow-auto p-4">
+          {visibleEntries.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center mt-8">
+              {entries.length === 0
+                ? 'No projects yet. Projects you save, load or import are kept here.'
+                : 'No projects match the search.'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 gap-3">
+              {visibleEntries.map((entry) => (
+                <div key={entry.id} className="bg-slate-800 rounded p-2 flex flex-col gap-2">
+                  <button
+                    onClick={() => handleOpen(entry)}
+                    className="h-32 bg-slate-700 rounded flex items-center justify-center overflow-hidden"
+                    title={`Open ${entry.name}`}
+                  >
+                    <img
+                      src={entry.thumbnail}
+                      alt=""
+                      className="max-w-full max-h-full object-contain"
+                      style={{ imageRendering: 'pixelated' }}
+                    />
+                  </button>
+
+                  {renamingId === entry.id ? (
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={() => handleRename(entry)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename(entry);
+                        if (e.key === 'Escape') {
+                          e.stopPropagation();
+                          setRenamingId(null);
+                        }
+                      }}
+                      className="px-1 py-0.5 bg-slate-900 border border-slate-600 rounded text-sm text-white focus:outline-none"
+                      aria-label="Project name"
+                    />
+                  ) : (
+                    <div
+                      className="text-sm font-medium text-white truncate cursor-text"
+                      onDoubleClick={() => {
+                        setRenamingId(entry.id);
+                        setRenameValue(entry.name);
+                      }}
+                      title="Double-click to rename"
+                    >
+                      {entry.name}
+                    </div>
+                  )}
+
+                  <div className="text-xs text-slate-400">
+                    {new Date(entry.modified).toLocaleString()} · {formatByteSize(entry.size)} · {entry.layerCount} layer
+                    {entry.layerCount === 1 ? '' : 's'}
+                  </div>
+
+                  <div className="flex flex-wrap gap-1 items-center">
+                    {entry.tags.map((tag) => (
+                      <span key={tag} className="px-1.5 py-0.5 text-xs rounded-full bg-slate-700 text-slate-300">
+                        #{tag}
+                        <button
+                          onClick={() => handleRemoveTag(entry, tag)}
+                          className="ml-1 text-slate-500 hover:text-white"
+                          aria-label={`Remove tag ${tag}`}
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                    <input
+                      value={tagInputs[entry.id] ?? ''}
+                      onChange={(e) => setTagInputs((inputs) => ({ ...inputs, [entry.id]: e.target.value }))}
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddTag(entry)}
+                      placeholder="+ tag"
+                      className="w-16 px-1 py-0.5 bg-transparent text-xs text-slate-300 placeholder-slate-500 focus:outline-none focus:bg-slate-900 rounded"
+                      aria-label="Add tag"
+                    />
+                  </div>
+
+                  <div className="flex gap-1 mt-auto">
+                    <button
+                      onClick={() => handleOpen(entry)}
+                      className="flex-1 px-2 py-1 text-xs text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+                    >
+                      Open
+                    </button>
+                    <button
+                      onClick={() => {
+                        setRenamingId(entry.id);
+                        setRenameValue(entry.name);
+                      }}
+                      className="px-2 py-1 text-xs text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 rounded transition-colors"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => run(() => duplicateInLibrary(entry.id), 'Error duplicating project')}
+                      className="px-2 py-1 text-xs text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 rounded transition-colors"
+                    >
+                      Duplicate
+                    </button>
+                    <button
+                      onClick={() => handleExport(entry)}
+                      className="px-2 py-1 text-xs text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 rounded transition-colors"
+                      title="Download as .pixcomp"
+                    >
+                      Export
+                    </button>
+                    <button
+                      onClick={() => handleDelete(entry)}
+                      className="px-2 py-1 text-xs text-slate-400 hover:text-red-400 transition-colors"
+                      aria-label={`Delete ${entry.name}`}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".pixcomp,.json"
+          multiple
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+}
+
+export default ProjectLibrary;
@@ -0,0 +1,242 @@
+/**
+ * Animation Export Modal - Exports the timeline, or layers as frames, as an animated GIF or APNG
+ */
+
+import { useEffect, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { AnimationExportOptions, AnimationFrameSource, exportAnimation, getFrameSourceLayers } from '../../utils/animationExport';
+import { DEFAULT_FRAME_DURATION, getPlaybackOrder, MAX_FRAME_DURATION, MIN_FRAME_DURATION } from '../../utils/animation';
+import { getArtboardFileNames } from '../../utils/artboards';
+
+interface AnimationExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<AnimationFrameSource, string> = {
+  timeline: 'Timeline frames',
+  selectedLayers: 'Selected layers',
+  visibleLayers: 'Visible layers (bottom to top)',
+};
+
+export function AnimationExportModal({ isOpen, onClose }: AnimationExportModalProps) {
+  const project = useCompositorStore((state) => state.project);
+  const selectedLayerIds = useCompositorStore((state) => state.selectedLayerIds);
+  const [options, setOptions] = useState<AnimationExportOptions>({
+    format: 'gif',
+    source: 'timeline',
+    delay: DEFAULT_FRAME_DURATION,
+    loopCount: 0,
+    palette: 'global',
+    scale: 1,
+  });
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Start from the timeline when there is one, otherwise from layers
+  useEffect(() => {
+    if (!isOpen) return;
+    setOptions((current) => ({
+      ...current,
+      source: project.animation.frames.length > 0 ? 'timeline' : selectedLayerIds.length > 1 ? 'selectedLayers' : 'visibleLayers',
+      artboardId: project.artboards.some((a) => a.id === current.artboardId) ? current.artboardId : undefined,
+    }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<AnimationExportOptions>) => setOptions((current) => ({ ...current, ...changes }));
+
+  const frameCount =
+    options.source === 'timeline'
+      ? getPlaybackOrder(project.animation.frames.length, project.animation.playbackMode).length
+      : getFrameSourceLayers(project, options.source, selectedLayerIds).length;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await exportAnimation(project, options, selectedLayerIds);
+
+      const baseName = project.projectName || 'animation';
+      const artboardName = options.artboardId && getArtboardFileNames(project.artboards).get(options.artboardId);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${baseName}${artboardName ? `_${artboardName}` : ''}_${options.scale}x.${options.format === 'gif' ? 'gif' : 'png'}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      onClose();
+      alert(`Animation exported: ${a.download}`);
+    } catch (error) {
+      console.error('[DEBUG] Export animation failed:', error);
+      alert(`Error exporting animation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const fieldClass = 'bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+      onClick={onClose}
+      onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Export animation"
+      tabIndex={0}
+    >
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-lg shadow-2xl w-full max-w-md flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="bg-slate-800 px-6 py-4 border-b border-slate-700 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-white">Export animation</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 text-sm text-slate-300">
+          <label htmlFor="animation-format">Format</label>
+          <select
+            id="animation-format"
+            value={options.format}
+            onChange={(e) => update({ format: e.target.value as AnimationExportOptions['format'] })}
+            className={fieldClass}
+          >
+            <option value="gif">GIF (256 colors, 1-bit transparency)</option>
+            <option value="apng">APNG (full color and alpha)</option>
+          </select>
+
+          <label htmlFor="animation-source">Frames</label>
+          <select
+            id="animation-source"
+            value={options.source}
+            onChange={(e) => update({ source: e.target.value as AnimationFrameSource })}
+            className={fieldClass}
+          >
+            {(Object.keys(SOURCE_LABELS) as AnimationFrameSource[]).map((source) => (
+              <option key={source} value={source} disabled={source === 'timeline' && project.animation.frames.length === 0}>
+                {SOURCE_LABELS[source]}
+              </option>
+            ))}
+          </select>
+
+          <label htmlFor="animation-delay">Delay</label>
+          {options.source === 'timeline' ? (
+            <span className="text-xs text-slate-400">Each frame's duration from the timeline</span>
+          ) : (
+            <span className="flex items-center gap-1">
+              <input
+                id="animation-delay"
+                type="number"
+                min={MIN_FRAME_DURATION}
+                max={MAX_FRAME_DURATION}
+                step={10}
+                value={options.delay}
+                onChange={(e) =>
+                  update({ delay: Math.min(Math.max(Number(e.target.value) || MIN_FRAME_DURATION, MIN_FRAME_DURATION), MAX_FRAME_DURATION) })
+                }
+                className={`${fieldClass} w-24`}
+              />
+              ms per frame
+            </span>
+          )}
+
+          <label htmlFor="animation-loops">Loops</label>
+          <span className="flex items-center gap-2">
+            <input
+              id="animation-loops"
+              type="number"
+              min={0}
+              max={65535}
+              value={options.loopCount}
+              onChange={(e) => update({ loopCount: Math.min(Math.max(Math.floor(Number(e.target.value) || 0), 0), 65535) })}
+              className={`${fieldClass} w-24`}
+            />
+            <span className="text-xs text-slate-400">{options.loopCount === 0 ? 'Forever' : `Plays ${options.loopCount}×`}</span>
+          </span>
+
+          {options.format === 'gif' && (
+            <>
+              <label htmlFor="animation-palette">Palette</label>
+              <select
+                id="animation-palette"
+                value={options.palette}
+                onChange={(e) => update({ palette: e.target.value as AnimationExportOptions['palette'] })}
+                className={fieldClass}
+              >
+                <option value="global">Global (project colors, shared by all frames)</option>
+                <option value="local">Per frame</option>
+              </select>
+            </>
+          )}
+
+          <label htmlFor="animation-scale">Scale</label>
+          <select
+            id="animation-scale"
+            value={options.scale}
+            onChange={(e) => update({ scale: Number(e.target.value) })}
+            className={fieldClass}
+          >
+            {[1, 2, 4, 8].map((scale) => (
+              <option key={scale} value={scale}>
+                {scale}x
+              </option>
+            ))}
+          </select>
+
+          {project.artboards.length > 0 && (
+            <>
+              <label htmlFor="animation-artboard">Area</label>
+              <select
+                id="animation-artboard"
+                value={options.artboardId ?? ''}
+                onChange={(e) => update({ artboardId: e.target.value || undefined })}
+                className={fieldClass}
+              >
+                <option value="">Whole canvas</option>
+                {project.artboards.map((artboard) => (
+                  <option key={artboard.id} value={artboard.id}>
+                    {artboard.name} ({artboard.width}×{artboard.height})
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 border-t border-slate-700 flex justify-between items-center gap-2">
+          <span className="text-xs text-slate-400">
+            {frameCount} frame{frameCount === 1 ? '' : 's'}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-1 text-sm text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 rounded transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isExporting || frameCount === 0}
+              className="px-3 py-1 text-sm text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded transition-colors"
+            >
+              {isExporting ? 'Exporting…' : 'Export'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AnimationExportModal;
@@ -1,8 +1,10 @@
 import React, { useEffect, useRef, useState } from 'react';
 import DraggableModal from './DraggableModal';
 import useCompositorStore from '../../store/compositorStore';
+import { getInlineMask, getLayerImage } from '../../utils/assets';
 import { Layer } from '../../types/compositor.types';
 import { removeBackground } from '../../utils/imageProcessing';
+import { maskFromProcessedImage } from '../../utils/layerMasks';
 
 interface BgRemovalModalProps {
   isOpen: boolean;
@@ -12,19 +14,22 @@ interface BgRemovalModalProps {
 
 const BgRemovalModal: React.FC<BgRemovalModalProps> = ({ isOpen, onClose, layer }) => {
   const updateLayer = useCompositorStore((state) => state.updateLayer);
+  const layerImage = useCompositorStore((state) => getLayerImage(state.project.assets, layer));
+  const assets = useCompositorStore((state) => state.project.assets);
   const [tolerance, setTolerance] = useState<number>(30);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [zoom, setZoom] = useState<number>(1);
   const [imageDimensions, setImageDimensions] = useState<{ width: number; height: number } | null>(null);
   const [makeHeatmap, setMakeHeatmap] = useState<boolean>(false);
+  const [writeToMask, setWriteToMask] = useState<boolean>(false);
   const [hasInitialFit, setHasInitialFit] = useState<boolean>(false);
   const previewContainerRef = useRef<HTMLDivElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
   const timeoutRef = useRef<number | null>(null);
 
   useEffect(() => {
-    if (!isOpen || !layer?.imageData) return;
+    if (!isOpen || !layerImage) return;
     if (timeoutRef.current) {
       clearTimeout(timeoutRef.current);
     }
@@ -32,7 +37,7 @@ const BgRemovalModal: React.FC<BgRemovalModalProps> = ({ isOpen, onClose, layer
     timeoutRef.current = window.setTimeout(async () => {
       setIsProcessing(true);
       try {
-        const result = await removeBackground(layer.imageData, tolerance, makeHeatmap);
+        const result = await removeBackground(layerImage, tolerance, makeHeatmap);
         setPreviewImage(result);
       } catch (err) {
         console.error('BG removal preview failed:', err);
@@ -47,15 +52,25 @@ const BgRemovalModal: React.FC<BgRemovalModalProps> = ({ isOpen, onClose, layer
         timeoutRef.current = null;
       }
     };
-  }, [isOpen, layer?.imageData, tolerance, makeHeatmap]);
+  }, [isOpen, layerImage, tolerance, makeHeatmap]);
 
   const handleApply = async () => {
-    if (!layer?.imageData) return;
+    if (!layerImage) return;
     setIsProcessing(true);
     try {
       // Apply actual removal (no heatmap)
-      const result = await removeBackground(layer.imageData, tolerance, false);
-      updateLayer(layer.id, { imageData: result });
+      const result = await removeBackground(layerImage, tolerance, false);
+      if (writeToMask) {
+        // Hide the background with the layer mask, keeping the image pixels editable
+        const mask = await maskFromProcessedImage(layerImage, result, layer.mask && getInlineMask(assets, layer.mask));
+        updateLayer(
+          layer.id,
+          { mask: { imageData: mask, enabled: true, inverted: false } },
+          `Mask background of '${layer.name}'`
+        );
+      } else {
+        updateLayer(layer.id, { imageData: result }, `Remove background from '${layer.name}'`);
+      }
       onClose();
     } catch (err) {
       console.error('BG removal apply failed:', err);
@@ -173,15 +188,27 @@ const BgRemovalModal: React.FC<BgRemovalModalProps> = ({ isOpen, onClose, layer
           </div>
 
           <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <input
-                id="make-heatmap"
-                type="checkbox"
-                checked={makeHeatmap}
-                onChange={(e) => setMakeHeatmap(e.target.checked)}
-                className="w-4 h-4 rounded bg-gray-700 border-gray-600 accent-blue-500 cursor-pointer"
-              />
-              <label htmlFor="make-heatmap" className="text-sm text-gray-300 cursor-pointer">Show heatmap (red = kept pixels)</label>
+            <div className="flex flex-col gap-1">
+              <div className="flex items-center gap-2">
+                <input
+                  id="make-heatmap"
+                  type="checkbox"
+                  checked={makeHeatmap}
+                  onChange={(e) => setMakeHeatmap(e.target.checked)}
+                  className="w-4 h-4 rounded bg-gray-700 border-gray-600 accent-blue-500 cursor-pointer"
+                />
+                <label htmlFor="make-heatmap" className="text-sm text-gray-300 cursor-pointer">Show heatmap (red = kept pixels)</label>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  id="bg-write-to-mask"
+                  type="checkbox"
+                  checked={writeToMask}
+                  onChange={(e) => setWriteToMask(e.target.checked)}
+                  className="w-4 h-4 rounded bg-gray-700 border-gray-600 accent-blue-500 cursor-pointer"
+                />
+                <label htmlFor="bg-write-to-mask" className="text-sm text-gray-300 cursor-pointer">Write to layer mask</label>
+              </div>
             </div>
 
             <div className="flex space-x-2">
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import DraggableModal from './DraggableModal';
 import useCompositorStore from '../../store/compositorStore';
+import { getLayerImage } from '../../utils/assets';
 import { Layer } from '../../types/compositor.types';
 
 interface CropModalProps {
@@ -13,6 +14,7 @@ const MIN_SIZE = 5;
 
 const CropModal: React.FC<CropModalProps> = ({ isOpen, onClose, layer }) => {
   const updateLayer = useCompositorStore((s) => s.updateLayer);
+  const layerImage = useCompositorStore((s) => getLayerImage(s.project.assets, layer));
 
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [imageDimensions, setImageDimensions] = useState<{ width: number; height: number } | null>(null);
@@ -37,12 +39,12 @@ const CropModal: React.FC<CropModalProps> = ({ isOpen, onClose, layer }) => {
   }, [cropRect, zoom, imageDimensions]);
 
   useEffect(() => {
-    if (!isOpen || !layer.imageData) return;
-    setPreviewImage(layer.imageData);
+    if (!isOpen || !layerImage) return;
+    setPreviewImage(layerImage);
     setZoom(1);
     setCropRect(null);
     setHasInitialFit(false);
-  }, [isOpen, layer.imageData]);
+  }, [isOpen, layerImage]);
 
   const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
     const img = e.currentTarget;
@@ -227,7 +229,7 @@ const CropModal: React.FC<CropModalProps> = ({ isOpen, onClose, layer }) => {
       Math.round(cropRect.height)
     );
     const dataUrl = canvas.toDataURL();
-    updateLayer(layer.id, { imageData: dataUrl, width: Math.round(cropRect.width), height: Math.round(cropRect.height) });
+    updateLayer(layer.id, { imageData: dataUrl, width: Math.round(cropRect.width), height: Math.round(cropRect.height) }, `Crop '${layer.name}'`);
     onClose();
   };
 
@@ -0,0 +1,209 @@
+/**
+ * Indexed PNG Export Modal - Exports the canvas as an 8-bit (or smaller) palette PNG
+ * Shows the composite's exact palette; images with more than 256 colors can't be exported this way.
+ */
+
+import { useEffect, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { colorToHex, getExactPalette } from '../../utils/colorPalette';
+import { compositeCanvas, exportIndexedPNG } from '../../utils/projectSerializer';
+import { getArtboardFileNames } from '../../utils/artboards';
+import PaletteExportMenu from '../PropertyPanel/PaletteExportMenu';
+
+interface IndexedPngExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MAX_INDEXED_COLORS = 256;
+
+export function IndexedPngExportModal({ isOpen, onClose }: IndexedPngExportModalProps) {
+  const project = useCompositorStore((state) => state.project);
+  const [artboardId, setArtboardId] = useState<string>('');
+  const [scale, setScale] = useState(1);
+  const [composite, setComposite] = useState<ImageData | null>(null);
+  const [colors, setColors] = useState<number[]>([]);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  const artboard = project.artboards.find((a) => a.id === artboardId);
+
+  // Composite and count colors whenever the dialog opens or the exported area changes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsAnalyzing(true);
+    compositeCanvas(
+      project.layers,
+      project.canvas.width,
+      project.canvas.height,
+      project.canvas.backgroundColor,
+      project.groups,
+      project.assets,
+      artboard
+    )
+      .then((result) => {
+        if (cancelled) return;
+        setComposite(result);
+        setColors(getExactPalette(result, Infinity) ?? []);
+      })
+      .catch((error) => {
+        console.error('[DEBUG] Failed to composite canvas for indexed export:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsAnalyzing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, project, artboard]);
+
+  if (!isOpen) return null;
+
+  const fits = colors.length <= MAX_INDEXED_COLORS;
+  const bitDepth = colors.length <= 2 ? 1 : colors.length <= 4 ? 2 : colors.length <= 16 ? 4 : 8;
+  // Palette files hold plain RGB colors, so transparency is dropped
+  const paletteColors = [...new Set(colors.filter((color) => (color & 0xff) > 0).map((color) => colorToHex(color >>> 8)))];
+
+  const handleExport = () => {
+    if (!composite) return;
+    try {
+      const blob = exportIndexedPNG(composite, scale);
+
+      const baseName = project.projectName || 'composite';
+      const artboardName = artboard && getArtboardFileNames(project.artboards).get(artboard.id);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${baseName}${artboardName ? `_${artboardName}` : ''}_${scale}x_indexed.png`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      onClose();
+      alert(`Indexed PNG exported: ${a.download}`);
+    } catch (error) {
+      console.error('[DEBUG] Export indexed PNG failed:', error);
+      alert(`Error exporting indexed PNG: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const fieldClass = 'bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+      onClick={onClose}
+      onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Export indexed PNG"
+      tabIndex={0}
+    >
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-lg shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="bg-slate-800 px-6 py-4 border-b border-slate-700 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-white">Export indexed PNG</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-4 space-y-3 text-sm text-slate-300">
+          <div className="flex gap-3">
+            {project.artboards.length > 0 && (
+              <label className="flex items-center gap-2">
+                Area
+                <select value={artboardId} onChange={(e) => setArtboardId(e.target.value)} className={fieldClass}>
+                  <option value="">Whole canvas</option>
+                  {project.artboards.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {a.name} ({a.width}×{a.height})
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex items-center gap-2">
+              Scale
+              <select value={scale} onChange={(e) => setScale(Number(e.target.value))} className={fieldClass}>
+                {[1, 2, 4, 8].map((s) => (
+                  <option key={s} value={s}>
+                    {s}x
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {isAnalyzing ? (
+            <p className="text-xs text-slate-400">Counting colors…</p>
+          ) : fits ? (
+            <p className="text-xs text-slate-400">
+              {colors.length} color{colors.length === 1 ? '' : 's'}: stored with a {bitDepth}-bit palette
+              {colors.some((color) => (color & 0xff) < 255) ? ' and transparency (tRNS)' : ''}, about{' '}
+              {Math.round(32 / bitDepth)}x less pixel data than RGBA.
+            </p>
+          ) : (
+            <p className="text-xs text-red-300 bg-red-900/40 border border-red-700 rounded px-2 py-1.5">
+              The image has {colors.length} colors, more than the {MAX_INDEXED_COLORS} an indexed PNG can hold. Reduce
+              the colors first (for example with the Pixelator) or use the regular PNG export.
+            </p>
+          )}
+
+          {!isAnalyzing && paletteColors.length > 0 && (
+            <div className="flex items-center justify-between text-xs text-slate-400">
+              <span>Save the composite's colors as a palette file</span>
+              <PaletteExportMenu colors={paletteColors} name={`${project.projectName || 'composite'}_palette`} />
+            </div>
+          )}
+
+          {/* Palette (translucent colors first) */}
+          {!isAnalyzing && fits && (
+            <div className="flex flex-wrap gap-1">
+              {colors.map((color) => {
+                const hex = colorToHex(color >>> 8);
+                const alpha = color & 0xff;
+                return (
+                  <div
+                    key={color}
+                    className="w-5 h-5 rounded-sm border border-slate-600"
+                    style={alpha === 0 ? undefined : { backgroundColor: hex, opacity: alpha / 255 }}
+                    title={alpha === 0 ? 'Transparent' : alpha < 255 ? `${hex} (alpha ${alpha})` : hex}
+                  >
+                    {alpha === 0 && <span className="block text-center text-[10px] leading-5 text-slate-400">∅</span>}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-sm text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isAnalyzing || !composite || !fits}
+            className="px-3 py-1 text-sm text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded transition-colors"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default IndexedPngExportModal;
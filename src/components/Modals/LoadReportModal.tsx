@@ -0,0 +1,137 @@
+/**
+ * Load Report Modal - Lists the repairs made while loading a damaged project
+ * Opens automatically after loading when the report has errors or warnings
+ */
+
+import useCompositorStore from '../../store/compositorStore';
+import { ValidationIssue, ValidationSeverity } from '../../types/compositor.types';
+
+const SEVERITY_STYLES: Record<ValidationSeverity, { label: string; className: string }> = {
+  error: { label: 'Error', className: 'bg-red-900/60 text-red-300 border-red-700' },
+  warning: { label: 'Warning', className: 'bg-yellow-900/60 text-yellow-300 border-yellow-700' },
+  info: { label: 'Info', className: 'bg-slate-700 text-slate-300 border-slate-600' },
+};
+
+const SEVERITY_ORDER: ValidationSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Plain-text version of the report for pasting into a bug report
+ */
+function formatReport(source: string, issues: ValidationIssue[]): string {
+  return [
+    `Load report for ${source}`,
+    ...issues.map((issue) => `[${issue.severity}] ${issue.path}: ${issue.message} -> ${issue.fix}`),
+  ].join('\n');
+}
+
+export function LoadReportModal() {
+  const report = useCompositorStore((state) => state.ui.loadReport);
+  const dismissLoadReport = useCompositorStore((state) => state.dismissLoadReport);
+
+  if (!report) return null;
+
+  const issues = [...report.issues].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+  const counts = SEVERITY_ORDER.map((severity) => ({
+    severity,
+    count: issues.filter((issue) => issue.severity === severity).length,
+  })).filter(({ count }) => count > 0);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(formatReport(report.source, issues)).catch((error) => {
+      console.error('[DEBUG] Failed to copy load report:', error);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      dismissLoadReport();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+      onClick={dismissLoadReport}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Project load report"
+      tabIndex={0}
+    >
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-lg shadow-2xl w-full max-w-3xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="bg-slate-800 px-6 py-4 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Project repaired while loading</h2>
+            <p className="text-xs text-slate-400 mt-1">
+              {report.source} ·{' '}
+              {counts.map(({ severity, count }) => `${count} ${SEVERITY_STYLES[severity].label.toLowerCase()}${count === 1 ? '' : 's'}`).join(', ')}
+            </p>
+          </div>
+          <button
+            onClick={dismissLoadReport}
+            className="text-slate-400 hover:text-white transition-colors"
+            aria-label="Close load report"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-4">
+          <p className="text-xs text-slate-400 mb-3">
+            Everything that could be read was loaded. Broken images were replaced with magenta placeholders.
+            Save the project to keep the repairs, or reopen the original file after fixing it.
+          </p>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-slate-700">
+                <th className="py-1 pr-2 font-medium">Severity</th>
+                <th className="py-1 pr-2 font-medium">Field</th>
+                <th className="py-1 pr-2 font-medium">Problem</th>
+                <th className="py-1 font-medium">Fix</th>
+              </tr>
+            </thead>
+            <tbody>
+              {issues.map((issue, index) => (
+                <tr key={index} className="border-b border-slate-800 align-top">
+                  <td className="py-1.5 pr-2">
+                    <span className={`px-1.5 py-0.5 rounded border ${SEVERITY_STYLES[issue.severity].className}`}>
+                      {SEVERITY_STYLES[issue.severity].label}
+                    </span>
+                  </td>
+                  <td className="py-1.5 pr-2 font-mono text-cyan-300 break-all">{issue.path}</td>
+                  <td className="py-1.5 pr-2 text-slate-200">{issue.message}</td>
+                  <td className="py-1.5 text-slate-300">{issue.fix}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={handleCopy}
+            className="px-3 py-1 text-sm text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 rounded transition-colors"
+          >
+            Copy report
+          </button>
+          <button
+            onClick={dismissLoadReport}
+            className="px-3 py-1 text-sm text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+          >
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default LoadReportModal;
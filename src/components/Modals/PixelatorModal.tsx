@@ -1,8 +1,12 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import DraggableModal from './DraggableModal';
 import useCompositorStore from '../../store/compositorStore';
+import { getLayerImage } from '../../utils/assets';
 import { Layer } from '../../types/compositor.types';
 import PixelatorWorker from '../../workers/pixelator.worker?worker';
+import PaletteExportMenu from '../PropertyPanel/PaletteExportMenu';
+import { getImagePixels, loadImageFromDataURL } from '../../utils/canvasRenderer';
+import { getSwatchImageColors, PALETTE_FILE_EXTENSIONS, parsePaletteFile, parsePaletteText } from '../../utils/paletteFiles';
 
 interface PixelatorModalProps {
   isOpen: boolean;
@@ -18,6 +22,15 @@ const WPLACE_PALETTE = [
   "#000000", "#3c3c3c", "#787878", "#aaaaaa", "#d2d2d2", "#ffffff", "#600018", "#a50e1e", "#ed1c24", "#fa8072", "#e45c1a", "#ff7f27", "#f6aa09", "#f9dd3b", "#fffabc", "#9c8431", "#c5ad31", "#e8d45f", "#4a6b3a", "#5a944a", "#84c573", "#0eb968", "#13e67b", "#87ff5e", "#0c816e", "#10aea6", "#13e1be", "#0f799f", "#60f7f2", "#bbfaf2", "#28509e", "#4093e4", "#7dc7ff", "#4d31b8", "#6b50f6", "#99b1fb", "#4a4284", "#7a71c4", "#b5aef1", "#780c99", "#aa38b9", "#e09ff9", "#cb007a", "#ec1f80", "#f38da9", "#9b5249", "#d18078", "#fab6a4", "#684634", "#95682a", "#dba463", "#7b6352", "#9c846b", "#d6b594", "#d18051", "#f8b277", "#ffc5a5", "#6d643f", "#948c6b", "#cdc59e", "#333941", "#6d758d", "#b3b9d1"
 ];
 
+// A custom palette saved under a name, listed next to the built-in palettes
+interface SavedPalette {
+  name: string;
+  colors: string[];
+}
+
+// Entry-level errors shown at most, the rest are counted
+const MAX_SHOWN_ERRORS = 5;
+
 const DITHER_ALGORITHMS = [
   { value: 'none', label: 'None (Nearest Color)' },
   { value: 'floyd-steinberg', label: 'Floyd-Steinberg' },
@@ -40,6 +53,7 @@ const COMMON_HEIGHTS = [
 
 const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer }) => {
   const updateLayer = useCompositorStore((state) => state.updateLayer);
+  const layerImage = useCompositorStore((state) => getLayerImage(state.project.assets, layer));
 
   // State
   const [targetHeight, setTargetHeight] = useState<number>(128);
@@ -49,8 +63,13 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
   const [ditherStrength, setDitherStrength] = useState<number>(100);
   const [preprocessingMethod, setPreprocessingMethod] = useState<'none' | 'bilateral' | 'kuwahara' | 'median'>('none');
   const [preprocessingStrength, setPreprocessingStrength] = useState<number>(50);
-  const [paletteMode, setPaletteMode] = useState<'geopixels' | 'wplace' | 'custom' | 'geopixels+custom' | 'none'>('geopixels');
+  const [paletteMode, setPaletteMode] = useState<'geopixels' | 'wplace' | 'saved' | 'custom' | 'geopixels+custom' | 'none'>('geopixels');
   const [customPaletteInput, setCustomPaletteInput] = useState<string>('');
+  const [savedPalettes, setSavedPalettes] = useState<SavedPalette[]>([]);
+  const [selectedSavedPalette, setSelectedSavedPalette] = useState<string>('');
+  const [saveAsName, setSaveAsName] = useState<string>('');
+  const [paletteImport, setPaletteImport] = useState<{ message: string; errors: string[]; isError: boolean } | null>(null);
+  const [isDraggingPalette, setIsDraggingPalette] = useState<boolean>(false);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [resultDimensions, setResultDimensions] = useState<{ width: number; height: number } | null>(null);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
@@ -83,6 +102,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
   const workerRef = useRef<Worker | null>(null);
   const previewContainerRef = useRef<HTMLDivElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
+  const paletteFileInputRef = useRef<HTMLInputElement>(null);
 
   // Track previous state to restore K-Means when switching back to 'none'
   const wasKmeansEnabledRef = useRef<boolean>(false);
@@ -174,25 +194,34 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     setDisplayHeight(String(targetHeight));
   }, [targetHeight]);
 
-  // Load cached custom palette on mount
+  // Load cached custom palette and saved palettes on mount
   useEffect(() => {
     const cached = localStorage.getItem('pixelator_custom_palette');
     if (cached) {
       setCustomPaletteInput(cached);
     }
+
+    try {
+      const saved = JSON.parse(localStorage.getItem('pixelator_saved_palettes') || '[]');
+      if (Array.isArray(saved)) {
+        setSavedPalettes(saved.filter((p): p is SavedPalette => typeof p?.name === 'string' && Array.isArray(p.colors)));
+      }
+    } catch (error) {
+      console.error('[DEBUG] Failed to read saved palettes:', error);
+    }
   }, []);
 
   // Initialize original height from layer dimensions
   useEffect(() => {
-    if (isOpen && layer.imageData) {
+    if (isOpen && layerImage) {
       const img = new Image();
       img.onload = () => {
         setOriginalHeight(img.height);
         setTargetHeight(128);
       };
-      img.src = layer.imageData;
+      img.src = layerImage;
     }
-  }, [isOpen, layer.imageData]);
+  }, [isOpen, layerImage]);
 
   // Save custom palette to localStorage on change
   useEffect(() => {
@@ -201,41 +230,16 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     }
   }, [customPaletteInput]);
 
-  // Helper to parse custom palette
+  // Custom palette text parsed into colors, with one error per entry that isn't a color
+  const customPalette = useMemo(() => parsePaletteText(customPaletteInput), [customPaletteInput]);
+
   const getPalette = useCallback(() => {
     if (paletteMode === 'none') return [];
     if (paletteMode === 'geopixels') return GEOPIXELS_PALETTE;
     if (paletteMode === 'wplace') return WPLACE_PALETTE;
+    if (paletteMode === 'saved') return savedPalettes.find((p) => p.name === selectedSavedPalette)?.colors ?? [];
 
-    // Parse custom input
-    const rawInput = customPaletteInput.trim();
-    let customColors: string[] = [];
-
-    if (rawInput) {
-      // Split by comma, space, or newline to handle various formats
-      const parts = rawInput.split(/[\s,]+/).filter(s => s.trim() !== '');
-
-      customColors = parts.map(s => {
-        const trimmed = s.trim();
-
-        // Check if it's a decimal integer (e.g. "16777215")
-        if (/^\d+$/.test(trimmed)) {
-          const decimal = parseInt(trimmed, 10);
-          // Ensure it's a valid 24-bit color
-          if (decimal >= 0 && decimal <= 16777215) {
-            return '#' + decimal.toString(16).padStart(6, '0').toUpperCase();
-          }
-        }
-
-        // Check if it's a hex code (e.g. "#FFFFFF" or "FFFFFF")
-        if (/^#?[0-9A-F]{6}$/i.test(trimmed)) {
-          return trimmed.startsWith('#') ? trimmed.toUpperCase() : '#' + trimmed.toUpperCase();
-        }
-
-        return null;
-      }).filter((c): c is string => c !== null);
-    }
-
+    const customColors = customPalette.colors;
     if (paletteMode === 'custom') return customColors;
     if (paletteMode === 'geopixels+custom') {
       // Merge geopixels base with custom, removing duplicates
@@ -249,7 +253,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     }
 
     return [];
-  }, [paletteMode, customPaletteInput]);
+  }, [paletteMode, customPalette, savedPalettes, selectedSavedPalette]);
 
   // Handle K-Means state when palette mode changes
   useEffect(() => {
@@ -278,7 +282,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
 
   // Trigger Processing
   const processImage = useCallback(() => {
-    if (!workerRef.current || !layer.imageData) return;
+    if (!workerRef.current || !layerImage) return;
 
     setIsProcessing(true);
 
@@ -324,9 +328,9 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
         }
       });
     };
-    img.src = layer.imageData;
+    img.src = layerImage;
 
-  }, [layer.imageData, targetHeight, ditherMethod, ditherStrength, getPalette, resamplingMethod, useKmeans, kmeansColors, brightness, contrast, saturation, preprocessingMethod, preprocessingStrength, filterTrivialColors]);
+  }, [layerImage, targetHeight, ditherMethod, ditherStrength, getPalette, resamplingMethod, useKmeans, kmeansColors, brightness, contrast, saturation, preprocessingMethod, preprocessingStrength, filterTrivialColors]);
 
   // Debounced Effect
   useEffect(() => {
@@ -346,6 +350,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     ditherStrength,
     paletteMode,
     customPaletteInput,
+    selectedSavedPalette,
     resamplingMethod,
     useKmeans,
     kmeansColors,
@@ -364,7 +369,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
         imageData: previewImage,
         width: resultDimensions.width,
         height: resultDimensions.height
-      });
+      }, `Pixelate '${layer.name}'`);
       onClose();
     }
   };
@@ -433,7 +438,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
   };
 
   const handleSuggestColors = useCallback(() => {
-    if (!workerRef.current || !layer.imageData) return;
+    if (!workerRef.current || !layerImage) return;
 
     const palette = getPalette();
     if (palette.length === 0) {
@@ -464,8 +469,8 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
         }
       });
     };
-    img.src = layer.imageData;
-  }, [layer.imageData, getPalette, suggestCount, preferDistinctColors]);
+    img.src = layerImage;
+  }, [layerImage, getPalette, suggestCount, preferDistinctColors]);
 
   const handleAddSuggestedToCustom = () => {
     const existingText = customPaletteInput.trim();
@@ -502,6 +507,95 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     });
   }, [getPalette, colorStats, generatedPalette, paletteMode, useKmeans]);
 
+  // Store the saved palettes whenever they change
+  const updateSavedPalettes = (palettes: SavedPalette[]) => {
+    setSavedPalettes(palettes);
+    localStorage.setItem('pixelator_saved_palettes', JSON.stringify(palettes));
+  };
+
+  // Read a palette file (.gpl, .pal, .hex, .ase, .txt or a PNG swatch image) into the custom palette
+  const handleImportPalette = async (file: File) => {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+
+    try {
+      let colors: string[];
+      let errors: string[] = [];
+      let name: string | null = null;
+
+      if (extension === 'png' || file.type === 'image/png') {
+        const url = URL.createObjectURL(file);
+        try {
+          colors = getSwatchImageColors(getImagePixels(await loadImageFromDataURL(url)));
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+      } else if (PALETTE_FILE_EXTENSIONS.includes(extension)) {
+        ({ colors, errors, name } = parsePaletteFile(file.name, new Uint8Array(await file.arrayBuffer())));
+      } else {
+        throw new Error(`Unsupported file type ".${extension}". Use .gpl, .pal, .hex, .ase, .txt or a PNG swatch image.`);
+      }
+
+      if (colors.length === 0) {
+        setPaletteImport({ message: `No colors found in ${file.name}`, errors, isError: true });
+        return;
+      }
+
+      setCustomPaletteInput(colors.join(', '));
+      setSaveAsName(name || baseName);
+      if (paletteMode !== 'custom' && paletteMode !== 'geopixels+custom') {
+        debounceTimeRef.current = 100;
+        setPaletteMode('custom');
+      }
+      setPaletteImport({
+        message: `Imported ${colors.length} color${colors.length === 1 ? '' : 's'} from ${file.name}${errors.length > 0 ? `, skipped ${errors.length}` : ''}`,
+        errors,
+        isError: false,
+      });
+    } catch (error) {
+      console.error('[DEBUG] Palette import failed:', error);
+      setPaletteImport({
+        message: `Error importing ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errors: [],
+        isError: true,
+      });
+    }
+  };
+
+  const handlePaletteFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) handleImportPalette(file);
+    e.target.value = '';
+  };
+
+  const handlePaletteDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingPalette(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleImportPalette(file);
+  };
+
+  const handleSavePalette = () => {
+    const name = saveAsName.trim();
+    if (!name || customPalette.colors.length === 0) return;
+
+    const exists = savedPalettes.some((p) => p.name === name);
+    if (exists && !window.confirm(`Replace the saved palette '${name}'?`)) return;
+
+    const palette = { name, colors: customPalette.colors };
+    updateSavedPalettes(exists ? savedPalettes.map((p) => (p.name === name ? palette : p)) : [...savedPalettes, palette]);
+  };
+
+  const handleDeleteSavedPalette = (name: string) => {
+    if (!window.confirm(`Delete the saved palette '${name}'?`)) return;
+
+    updateSavedPalettes(savedPalettes.filter((p) => p.name !== name));
+    if (paletteMode === 'saved' && selectedSavedPalette === name) {
+      debounceTimeRef.current = 100;
+      setPaletteMode('geopixels');
+    }
+  };
+
   const handleCopyPalette = () => {
     if (sortedPalette.length > 0) {
       navigator.clipboard.writeText(sortedPalette.join(', '));
@@ -629,6 +723,28 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
                   />
                   <span className="text-sm">WPlace Base</span>
                 </label>
+                {savedPalettes.map((palette) => (
+                  <div key={palette.name} className="flex items-center justify-between group">
+                    <label className="flex items-center space-x-2 cursor-pointer min-w-0">
+                      <input
+                        type="radio"
+                        name="palette"
+                        checked={paletteMode === 'saved' && selectedSavedPalette === palette.name}
+                        onChange={() => { debounceTimeRef.current = 100; setSelectedSavedPalette(palette.name); setPaletteMode('saved'); }}
+                      />
+                      <span className="text-sm truncate">{palette.name}</span>
+                      <span className="text-xs text-gray-500">({palette.colors.length})</span>
+                    </label>
+                    <button
+                      onClick={() => handleDeleteSavedPalette(palette.name)}
+                      className="px-1 text-xs text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete saved palette"
+                      aria-label={`Delete saved palette ${palette.name}`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
                 <label className="flex items-center space-x-2 cursor-pointer">
                   <input
                     type="radio"
@@ -658,13 +774,74 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
                 </label>
               </div>
 
+              <button
+                onClick={() => paletteFileInputRef.current?.click()}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={handlePaletteDrop}
+                className="w-full px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded transition-colors"
+                title="Import .gpl, .pal, .hex, .ase, .txt or a PNG swatch image into the custom palette (or drop the file on the palette box)"
+              >
+                Import Palette File...
+              </button>
+              <input
+                ref={paletteFileInputRef}
+                type="file"
+                accept=".gpl,.pal,.hex,.ase,.txt,image/png"
+                onChange={handlePaletteFileChange}
+                className="hidden"
+              />
+
+              {paletteImport && (
+                <div className={`text-xs rounded px-2 py-1.5 border ${paletteImport.isError ? 'text-red-300 bg-red-900/40 border-red-700' : 'text-gray-300 bg-gray-800 border-gray-700'}`}>
+                  <p>{paletteImport.message}</p>
+                  {paletteImport.errors.slice(0, MAX_SHOWN_ERRORS).map((error, idx) => (
+                    <p key={idx} className="text-red-300">{error}</p>
+                  ))}
+                  {paletteImport.errors.length > MAX_SHOWN_ERRORS && (
+                    <p className="text-red-300">…and {paletteImport.errors.length - MAX_SHOWN_ERRORS} more</p>
+                  )}
+                </div>
+              )}
+
               {(paletteMode === 'custom' || paletteMode === 'geopixels+custom') && (
-                <textarea
-                  value={customPaletteInput}
-                  onChange={(e) => setCustomPaletteInput(e.target.value)}
-                  placeholder="#FFFFFF, #000000 or 16777215, 0"
-                  className="w-full h-24 bg-gray-800 border border-gray-600 rounded p-2 text-xs font-mono"
-                />
+                <div className="space-y-1">
+                  <textarea
+                    value={customPaletteInput}
+                    onChange={(e) => { setCustomPaletteInput(e.target.value); setPaletteImport(null); }}
+                    onDragOver={(e) => { e.preventDefault(); setIsDraggingPalette(true); }}
+                    onDragLeave={() => setIsDraggingPalette(false)}
+                    onDrop={handlePaletteDrop}
+                    placeholder="#FFFFFF, #000000 or 16777215, 0 (or drop a palette file here)"
+                    className={`w-full h-24 bg-gray-800 border rounded p-2 text-xs font-mono ${isDraggingPalette ? 'border-blue-400' : 'border-gray-600'}`}
+                  />
+                  {customPalette.errors.length > 0 && (
+                    <div className="text-xs text-red-300">
+                      {customPalette.errors.slice(0, MAX_SHOWN_ERRORS).map((error, idx) => (
+                        <p key={idx}>{error}</p>
+                      ))}
+                      {customPalette.errors.length > MAX_SHOWN_ERRORS && (
+                        <p>…and {customPalette.errors.length - MAX_SHOWN_ERRORS} more</p>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex gap-1">
+                    <input
+                      type="text"
+                      value={saveAsName}
+                      onChange={(e) => setSaveAsName(e.target.value)}
+                      placeholder="Palette name"
+                      className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs"
+                    />
+                    <button
+                      onClick={handleSavePalette}
+                      disabled={!saveAsName.trim() || customPalette.colors.length === 0}
+                      className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-xs rounded transition-colors"
+                      title="Save the custom colors under this name, listed with the built-in palettes"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
               )}
 
               {/* Palette Visualization */}
@@ -677,15 +854,18 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
                     <span>Palette Preview</span>
                     <span className="ml-1">{isPaletteVisualizationOpen ? '▼' : '▶'}</span>
                   </button>
-                  <button
-                    onClick={handleCopyPalette}
-                    className="text-gray-400 hover:text-white p-1 rounded hover:bg-gray-700"
-                    title="Copy palette to clipboard"
-                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m2 4h3a2 2 0 012 2v3m-3-3V5a2 2 0 012-2h3.071a2 2 0 011.414.586l1.414 1.414A2 2 0 0118 6.414V9m-3-3h3" />
-                    </svg>
-                  </button>
+                  <div className="flex items-center">
+                    <PaletteExportMenu colors={sortedPalette} name={`${layer.name}_palette`} />
+                    <button
+                      onClick={handleCopyPalette}
+                      className="text-gray-400 hover:text-white p-1 rounded hover:bg-gray-700"
+                      title="Copy palette to clipboard"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m2 4h3a2 2 0 012 2v3m-3-3V5a2 2 0 012-2h3.071a2 2 0 011.414.586l1.414 1.414A2 2 0 0118 6.414V9m-3-3h3" />
+                      </svg>
+                    </button>
+                  </div>
                 </div>
 
                 {isPaletteVisualizationOpen && (
@@ -810,12 +990,15 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
                                 />
                               ))}
                             </div>
-                            <button
-                              onClick={handleAddSuggestedToCustom}
-                              className="w-full px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded transition-colors"
-                            >
-                              Add to Custom Palette
-                            </button>
+                            <div className="flex items-center gap-1">
+                              <button
+                                onClick={handleAddSuggestedToCustom}
+                                className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded transition-colors"
+                              >
+                                Add to Custom Palette
+                              </button>
+                              <PaletteExportMenu colors={suggestedColors} name={`${layer.name}_suggested`} />
+                            </div>
                           </div>
                         )}
 
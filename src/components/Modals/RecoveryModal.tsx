@@ -0,0 +1,250 @@
+/**
+ * Recovery Modal - Lists autosaved work on startup
+ * Snapshots can be restored, opened as a copy or discarded; the tabs of the last session can be reopened at once
+ */
+
+import { useEffect, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { ValidationIssue } from '../../types/compositor.types';
+import {
+  AutosaveSnapshot,
+  clearCache,
+  deleteSnapshots,
+  getCachedSessionSize,
+  listSnapshots,
+  loadFromCache,
+  loadSnapshot,
+} from '../../utils/autoSave';
+
+interface RecoveryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  openTabIds: string[]; // Other browser tabs that are open; their work is left alone
+}
+
+/**
+ * Snapshots grouped by project, most recently saved project first
+ */
+function groupByProject(snapshots: AutosaveSnapshot[]): AutosaveSnapshot[][] {
+  const groups = new Map<string, AutosaveSnapshot[]>();
+  for (const snapshot of snapshots) {
+    groups.set(snapshot.projectKey, [...(groups.get(snapshot.projectKey) ?? []), snapshot]);
+  }
+  return [...groups.values()];
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
+
+function RecoveryModal({ isOpen, onClose, openTabIds }: RecoveryModalProps) {
+  const loadProject = useCompositorStore((state) => state.loadProject);
+  const restoreDocuments = useCompositorStore((state) => state.restoreDocuments);
+  const markDirty = useCompositorStore((state) => state.markDirty);
+  const [snapshots, setSnapshots] = useState<AutosaveSnapshot[]>([]);
+  const [sessionSize, setSessionSize] = useState(0);
+  const [openedIds, setOpenedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    listSnapshots(openTabIds).then(setSnapshots);
+    getCachedSessionSize(openTabIds).then(setSessionSize);
+  }, [isOpen, openTabIds]);
+
+  if (!isOpen) return null;
+
+  const handleReopenSession = async () => {
+    const cached = await loadFromCache(openTabIds);
+    if (!cached) {
+      alert('The last session could not be read.');
+      return;
+    }
+
+    // Issues are prefixed with the project name when more than one tab is restored
+    const issues: ValidationIssue[] = cached.documents.flatMap(({ project, issues }) =>
+      cached.documents.length === 1
+        ? issues
+        : issues.map((issue) => ({ ...issue, path: `${project.projectName}: ${issue.path}` }))
+    );
+    restoreDocuments(
+      cached.documents.map(({ project }) => project),
+      cached.activeIndex,
+      { source: 'Autosave', issues }
+    );
+    onClose();
+  };
+
+  const handleOpenSnapshot = async (snapshot: AutosaveSnapshot, asCopy: boolean) => {
+    const result = await loadSnapshot(snapshot.id);
+    if (!result) {
+      alert(`The snapshot from ${formatTime(snapshot.savedAt)} could not be read.`);
+      return;
+    }
+
+    const source = `Autosave of ${snapshot.projectName} (${formatTime(snapshot.savedAt)})`;
+    if (asCopy) {
+      // A new creation time starts a separate snapshot history for the copy
+      const now = new Date().toISOString();
+      loadProject(
+        { ...result.project, projectName: `${result.project.projectName} (copy)`, created: now, modified: now },
+        { source, issues: result.issues }
+      );
+      markDirty();
+    } else {
+      loadProject(result.project, { source, issues: result.issues });
+    }
+    setOpenedIds((ids) => new Set([...ids, snapshot.id]));
+  };
+
+  const handleDiscard = async (discarded: AutosaveSnapshot[]) => {
+    await deleteSnapshots(discarded.map((s) => s.id));
+    const ids = new Set(discarded.map((s) => s.id));
+    setSnapshots((current) => current.filter((s) => !ids.has(s.id)));
+  };
+
+  const handleDiscardAll = async () => {
+    if (!window.confirm('Delete all autosaved work? This cannot be undone.')) return;
+    await deleteSnapshots(snapshots.map((s) => s.id));
+    await clearCache(openTabIds);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Recover autosaved work"
+      tabIndex={0}
+    >
+      <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-2xl w-full max-w-3xl max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-slate-800 px-6 py-4 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Recover autosaved work</h2>
+            <p className="text-xs text-slate-400 mt-1">
+              Nothing has been restored yet. Pick what to reopen, or continue with an empty project.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            aria-label="Close recovery dialog"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {sessionSize > 0 && (
+            <div className="flex items-center justify-between bg-slate-800 rounded px-3 py-2">
+              <div className="text-sm text-slate-200">
+                Last session
+                <span className="text-xs text-slate-400 ml-2">
+                  {sessionSize} tab{sessionSize === 1 ? '' : 's'}, as they were when the app was closed
+                </span>
+              </div>
+              <button
+                onClick={handleReopenSession}
+                className="px-3 py-1 text-sm text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+              >
+                Reopen all tabs
+              </button>
+            </div>
+          )}
+
+          {groupByProject(snapshots).map((projectSnapshots) => (
+            <div key={projectSnapshots[0].projectKey}>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-slate-200 truncate">
+                  {projectSnapshots[0].projectName}
+                  <span className="text-xs font-normal text-slate-400 ml-2">
+                    {projectSnapshots.length} snapshot{projectSnapshots.length === 1 ? '' : 's'}
+                  </span>
+                </h3>
+                <button
+                  onClick={() => handleDiscard(projectSnapshots)}
+                  className="text-xs text-slate-400 hover:text-red-400 transition-colors"
+                >
+                  Discard all
+                </button>
+              </div>
+
+              <div className="space-y-1">
+                {projectSnapshots.map((snapshot) => (
+                  <div key={snapshot.id} className="flex items-center gap-3 bg-slate-800/60 rounded p-2">
+                    <img
+                      src={snapshot.thumbnail}
+                      alt=""
+                      className="w-12 h-12 object-contain bg-slate-700 rounded flex-shrink-0"
+                      style={{ imageRendering: 'pixelated' }}
+                    />
+                    <div className="flex-1 min-w-0 text-xs">
+                      <div className="text-slate-200">{formatTime(snapshot.savedAt)}</div>
+                      <div className="text-slate-400">
+                        {snapshot.layerCount} layer{snapshot.layerCount === 1 ? '' : 's'}
+                        {snapshot.projectName !== projectSnapshots[0].projectName && ` · named '${snapshot.projectName}'`}
+                        {openedIds.has(snapshot.id) && <span className="text-green-400 ml-2">opened</span>}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleOpenSnapshot(snapshot, false)}
+                      className="px-2 py-1 text-xs text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+                      title="Open this snapshot; later autosaves continue its history"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => handleOpenSnapshot(snapshot, true)}
+                      className="px-2 py-1 text-xs text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 rounded transition-colors"
+                      title="Open this snapshot as a new, separate project"
+                    >
+                      Open as copy
+                    </button>
+                    <button
+                      onClick={() => handleDiscard([snapshot])}
+                      className="px-2 py-1 text-xs text-slate-400 hover:text-red-400 transition-colors"
+                      aria-label={`Discard snapshot from ${formatTime(snapshot.savedAt)}`}
+                    >
+                      Discard
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {sessionSize === 0 && snapshots.length === 0 && (
+            <p className="text-sm text-slate-400">No autosaved work left.</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 border-t border-slate-700 flex justify-between gap-2">
+          <button
+            onClick={handleDiscardAll}
+            className="px-3 py-1 text-sm text-red-300 hover:text-white bg-slate-800 hover:bg-red-700 rounded transition-colors"
+          >
+            Discard everything
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-sm text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RecoveryModal;
@@ -0,0 +1,240 @@
+import React, { useState, useRef, useEffect } from 'react';
+import DraggableModal from './DraggableModal';
+import useCompositorStore from '../../store/compositorStore';
+import { getInlineMask, getLayerImage } from '../../utils/assets';
+import { Layer } from '../../types/compositor.types';
+import { getTransformedSize } from '../../utils/layerTransforms';
+import { normalizeAngle, rotSpriteLayer } from '../../utils/rotSprite';
+
+interface RotateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  layer: Layer;
+}
+
+const PRESET_ANGLES = [-45, -30, -15, 15, 30, 45];
+
+type RotateResult = Awaited<ReturnType<typeof rotSpriteLayer>>;
+
+const RotateModal: React.FC<RotateModalProps> = ({ isOpen, onClose, layer }) => {
+  const updateLayer = useCompositorStore((s) => s.updateLayer);
+  const layerImage = useCompositorStore((s) => getLayerImage(s.project.assets, layer));
+  const assets = useCompositorStore((s) => s.project.assets);
+
+  const [angle, setAngle] = useState<number>(0);
+  const [result, setResult] = useState<RotateResult | null>(null);
+  const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [zoom, setZoom] = useState<number>(1);
+  const [hasInitialFit, setHasInitialFit] = useState<boolean>(false);
+
+  const previewBoxRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setAngle(0);
+    setZoom(1);
+    setHasInitialFit(false);
+  }, [isOpen, layer.id]);
+
+  useEffect(() => {
+    if (!isOpen || !layerImage) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsProcessing(true);
+      try {
+        const rotated = await rotSpriteLayer({ ...layer, imageData: layerImage, mask: layer.mask && getInlineMask(assets, layer.mask) }, angle);
+        if (!cancelled) setResult(rotated);
+      } catch (error) {
+        console.error('Failed to rotate layer:', error);
+      } finally {
+        if (!cancelled) setIsProcessing(false);
+      }
+    }, 100);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, angle, layer, layerImage, assets]);
+
+  const calculateFitZoom = (width: number, height: number) => {
+    if (!previewBoxRef.current) return 1;
+
+    const containerWidth = previewBoxRef.current.clientWidth;
+    const containerHeight = previewBoxRef.current.clientHeight;
+
+    if (containerWidth <= 0 || containerHeight <= 0) return 1;
+
+    const scaleX = containerWidth / width;
+    const scaleY = containerHeight / height;
+
+    const newZoom = Math.min(scaleX, scaleY);
+    // Scale down slightly to ensure there's a bit of breathing room
+    return Math.max(0.1, newZoom * 0.9);
+  };
+
+  useEffect(() => {
+    if (result && previewBoxRef.current && !hasInitialFit) {
+      setTimeout(() => {
+        setZoom(calculateFitZoom(result.width, result.height));
+        setHasInitialFit(true);
+      }, 100);
+    }
+  }, [result, hasInitialFit]);
+
+  const handleZoomIn = () => setZoom((z) => Math.min(5, z + 0.25));
+  const handleZoomOut = () => setZoom((z) => Math.max(0.1, z - 0.25));
+  const handleResetZoom = () => {
+    if (result) {
+      setZoom(calculateFitZoom(result.width, result.height));
+    } else {
+      setZoom(1);
+    }
+  };
+
+  const handleAngleChange = (value: number) => {
+    if (isNaN(value)) return;
+    setAngle(normalizeAngle(Math.round(value * 10) / 10));
+  };
+
+  const applyRotation = async () => {
+    if (angle === 0) return;
+    // Recompute rather than reuse the preview, which may lag behind the latest angle
+    const rotated = await rotSpriteLayer({ ...layer, imageData: layerImage, mask: layer.mask && getInlineMask(assets, layer.mask) }, angle);
+    updateLayer(layer.id, rotated, `Rotate '${layer.name}' by ${angle}°`);
+    onClose();
+  };
+
+  return (
+    <DraggableModal isOpen={isOpen} title="Rotate (RotSprite)" onClose={onClose}>
+      <div className="flex flex-col h-full p-4 gap-4 text-gray-200">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">Preview</label>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleZoomOut}
+              disabled={zoom <= 0.1}
+              className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+              title="Zoom out"
+            >
+              −
+            </button>
+            <span className="text-xs text-gray-400 min-w-[45px] text-center">{Math.round(zoom * 100)}%</span>
+            <button
+              onClick={handleZoomIn}
+              disabled={zoom >= 5}
+              className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+              title="Zoom in"
+            >
+              +
+            </button>
+            <button
+              onClick={handleResetZoom}
+              className="text-xs px-2 py-1 text-gray-400 hover:text-white bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+              title="Reset zoom"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+
+        <div className="flex gap-4 text-xs text-gray-400">
+          <div>
+            <span className="text-gray-500">Original:</span> {getTransformedSize(layer).width}×{getTransformedSize(layer).height}
+          </div>
+          <div>
+            <span className="text-gray-500">Rotated:</span> {result ? `${result.width}×${result.height}` : '—'}
+          </div>
+        </div>
+
+        <div className="flex-1 relative w-full bg-gray-900 rounded border border-gray-700 overflow-auto" ref={previewBoxRef}>
+          {isProcessing && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/50 z-10">
+              <span className="text-white font-medium">Processing...</span>
+            </div>
+          )}
+          {result ? (
+            <div style={{ display: 'inline-block', padding: 10 }}>
+              <img
+                src={result.imageData}
+                alt="Preview"
+                style={{
+                  width: `${result.width * zoom}px`,
+                  height: `${result.height * zoom}px`,
+                  display: 'block',
+                  maxWidth: 'none',
+                  userSelect: 'none',
+                  imageRendering: 'pixelated',
+                }}
+              />
+            </div>
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="text-gray-500">No preview available</div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <label className="font-medium">Angle (clockwise)</label>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                value={angle}
+                min={-180}
+                max={180}
+                step={0.1}
+                onChange={(e) => handleAngleChange(parseFloat(e.target.value))}
+                className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-white focus:outline-none focus:border-blue-400"
+              />
+              <span className="text-xs text-gray-400">°</span>
+            </div>
+          </div>
+          <input
+            type="range"
+            min={-180}
+            max={180}
+            step={1}
+            value={angle}
+            onChange={(e) => handleAngleChange(parseFloat(e.target.value))}
+            className="w-full accent-blue-500"
+          />
+          <div className="flex gap-1">
+            {PRESET_ANGLES.map((preset) => (
+              <button
+                key={preset}
+                onClick={() => setAngle(preset)}
+                className={`flex-1 text-xs px-2 py-1 rounded transition-colors ${
+                  angle === preset ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white bg-gray-700 hover:bg-gray-600'
+                }`}
+              >
+                {preset > 0 ? `+${preset}` : preset}°
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">Only colors already in the layer are used. Flips and 90° rotations are baked in.</p>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 pt-4 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-300 bg-gray-700 rounded hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={applyRotation}
+            disabled={angle === 0 || isProcessing}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </DraggableModal>
+  );
+};
+
+export default RotateModal;
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import DraggableModal from './DraggableModal';
 import useCompositorStore from '../../store/compositorStore';
-import { Layer } from '../../types/compositor.types';
+import { Layer, LayerInput } from '../../types/compositor.types';
 import { rasterizeShape } from '../../utils/shapeRasterizer';
 
 interface ShapeModalProps {
@@ -144,7 +144,7 @@ const ShapeModal: React.FC<ShapeModalProps> = ({ isOpen, onClose, existingLayer
           });
         } else if (previewOnCanvas) {
           // Only create new preview layer if preview is still enabled and doesn't exist
-          const previewLayer: Layer = {
+          const previewLayer: LayerInput = {
             id: CANVAS_PREVIEW_LAYER_ID,
             name: '🔍 Canvas Preview (Temporary)',
             imageData: previewImage,
@@ -218,10 +218,10 @@ const ShapeModal: React.FC<ShapeModalProps> = ({ isOpen, onClose, existingLayer
           shapeStretchY: stretchY,
           shapeColor: color,
           name: existingLayer.name,
-        } as any);
+        } as any, `Edit shape '${existingLayer.name}'`);
       } else {
         // Create new layer
-        const newLayer: Layer = {
+        const newLayer: LayerInput = {
           id: crypto.randomUUID(),
           name: `Shape: ${shapeType}`,
           imageData: result.dataUrl,
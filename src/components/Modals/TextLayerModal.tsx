@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import DraggableModal from './DraggableModal';
 import useCompositorStore from '../../store/compositorStore';
-import { Layer } from '../../types/compositor.types';
+import { Layer, LayerInput } from '../../types/compositor.types';
 import { ALL_FONTS, SYSTEM_FONTS } from '../../utils/fonts';
 import { rasterizeText } from '../../utils/textRasterizer';
 
@@ -179,7 +179,7 @@ const TextLayerModal: React.FC<TextLayerModalProps> = ({ isOpen, onClose, existi
           });
         } else if (previewOnCanvas) {
           // Only create new preview layer if preview is still enabled and doesn't exist
-          const previewLayer: Layer = {
+          const previewLayer: LayerInput = {
             id: CANVAS_PREVIEW_LAYER_ID,
             name: '🔍 Canvas Preview (Temporary)',
             imageData: previewImage,
@@ -264,10 +264,10 @@ const TextLayerModal: React.FC<TextLayerModalProps> = ({ isOpen, onClose, existi
           ...(lineHeight !== 1.2 && { lineHeight }),
           ...(letterSpacing !== 0 && { letterSpacing }),
           ...(fontWeight !== 'normal' && { fontWeight })
-        } as any);
+        } as any, `Edit text '${existingLayer.name}'`);
       } else {
         // Create new layer
-        const newLayer: Layer = {
+        const newLayer: LayerInput = {
           id: crypto.randomUUID(),
           name: `Text: ${text.substring(0, 20)}${text.length > 20 ? '...' : ''}`,
           imageData: result.dataUrl,
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import DraggableModal from './DraggableModal';
 import { applyTransparencyMask } from '../../utils/imageProcessing';
+import { maskFromProcessedImage } from '../../utils/layerMasks';
 import useCompositorStore from '../../store/compositorStore';
+import { getInlineMask, getLayerImage } from '../../utils/assets';
 import { Layer } from '../../types/compositor.types';
 
 interface TransparencyMaskModalProps {
@@ -21,18 +23,21 @@ const TransparencyMaskModal: React.FC<TransparencyMaskModalProps> = ({
   const [zoom, setZoom] = useState<number>(1);
   const [imageDimensions, setImageDimensions] = useState<{ width: number; height: number } | null>(null);
   const [useTemplatePalette, setUseTemplatePalette] = useState<boolean>(true);
+  const [writeToMask, setWriteToMask] = useState<boolean>(false);
   const [hasInitialFit, setHasInitialFit] = useState<boolean>(false);
   const previewContainerRef = useRef<HTMLDivElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
   const updateLayer = useCompositorStore((state) => state.updateLayer);
+  const layerImage = useCompositorStore((state) => getLayerImage(state.project.assets, layer));
+  const assets = useCompositorStore((state) => state.project.assets);
 
   useEffect(() => {
-    if (!isOpen || !layer.imageData) return;
+    if (!isOpen || !layerImage) return;
 
     const timer = setTimeout(async () => {
       setIsProcessing(true);
       try {
-        const result = await applyTransparencyMask(layer.imageData, threshold, false);
+        const result = await applyTransparencyMask(layerImage, threshold, false);
         setPreviewImage(result);
       } catch (error) {
         console.error('Failed to apply transparency mask:', error);
@@ -43,13 +48,24 @@ const TransparencyMaskModal: React.FC<TransparencyMaskModalProps> = ({
 
     setHasInitialFit(false);
     return () => clearTimeout(timer);
-  }, [threshold, layer.imageData, isOpen]);
+  }, [threshold, layerImage, isOpen]);
 
   const handleApply = async () => {
-    if (layer.imageData) {
+    if (layerImage) {
       try {
-        const result = await applyTransparencyMask(layer.imageData, threshold, useTemplatePalette);
-        updateLayer(layer.id, { imageData: result });
+        if (writeToMask) {
+          // Only transparency goes into the mask, so colors are left as they are
+          const result = await applyTransparencyMask(layerImage, threshold, false);
+          const mask = await maskFromProcessedImage(layerImage, result, layer.mask && getInlineMask(assets, layer.mask));
+          updateLayer(
+            layer.id,
+            { mask: { imageData: mask, enabled: true, inverted: false } },
+            `Write transparency mask to mask of '${layer.name}'`
+          );
+        } else {
+          const result = await applyTransparencyMask(layerImage, threshold, useTemplatePalette);
+          updateLayer(layer.id, { imageData: result }, `Apply transparency mask to '${layer.name}'`);
+        }
         onClose();
       } catch (error) {
         console.error('Failed to apply transparency mask with palette reduction:', error);
@@ -203,17 +219,32 @@ const TransparencyMaskModal: React.FC<TransparencyMaskModalProps> = ({
           </div>
 
           <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <input
-                id="use-template-colors"
-                type="checkbox"
-                checked={useTemplatePalette}
-                onChange={(e) => setUseTemplatePalette(e.target.checked)}
-                className="w-4 h-4 rounded bg-gray-700 border-gray-600 accent-blue-500 cursor-pointer"
-              />
-              <label htmlFor="use-template-colors" className="text-sm text-gray-300 cursor-pointer">
-                Use template colors
-              </label>
+            <div className="flex flex-col gap-1">
+              <div className="flex items-center gap-2">
+                <input
+                  id="use-template-colors"
+                  type="checkbox"
+                  checked={useTemplatePalette && !writeToMask}
+                  disabled={writeToMask}
+                  onChange={(e) => setUseTemplatePalette(e.target.checked)}
+                  className="w-4 h-4 rounded bg-gray-700 border-gray-600 accent-blue-500 cursor-pointer disabled:opacity-50"
+                />
+                <label htmlFor="use-template-colors" className="text-sm text-gray-300 cursor-pointer">
+                  Use template colors
+                </label>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  id="transparency-write-to-mask"
+                  type="checkbox"
+                  checked={writeToMask}
+                  onChange={(e) => setWriteToMask(e.target.checked)}
+                  className="w-4 h-4 rounded bg-gray-700 border-gray-600 accent-blue-500 cursor-pointer"
+                />
+                <label htmlFor="transparency-write-to-mask" className="text-sm text-gray-300 cursor-pointer">
+                  Write to layer mask
+                </label>
+              </div>
             </div>
 
             <div className="flex space-x-2">
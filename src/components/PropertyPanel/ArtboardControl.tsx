@@ -0,0 +1,66 @@
+import useCompositorStore from '../../store/compositorStore';
+import { Layer } from '../../types/compositor.types';
+import { isLayerInArtboard } from '../../utils/artboards';
+
+interface ArtboardControlProps {
+  layer: Layer;
+}
+
+/**
+ * Artboard membership for a single layer
+ * "Wherever it overlaps" leaves the layer unassigned, so it can span neighbouring artboards.
+ */
+function ArtboardControl({ layer }: ArtboardControlProps) {
+  const artboards = useCompositorStore((state) => state.project.artboards);
+  const updateLayer = useCompositorStore((state) => state.updateLayer);
+
+  if (artboards.length === 0) return null;
+
+  const setArtboardIds = (artboardIds: string[] | undefined, label: string) => {
+    updateLayer(layer.id, { artboardIds }, label);
+  };
+
+  const handleToggle = (artboardId: string, checked: boolean) => {
+    // Start from where the layer is drawn now, so unchecking one artboard keeps the others
+    const current = layer.artboardIds ?? artboards.filter((a) => isLayerInArtboard(layer, a)).map((a) => a.id);
+    const artboardIds = checked ? [...current, artboardId] : current.filter((id) => id !== artboardId);
+    const name = artboards.find((a) => a.id === artboardId)?.name;
+    setArtboardIds(artboardIds, `${checked ? 'Add' : 'Remove'} '${layer.name}' ${checked ? 'to' : 'from'} artboard '${name}'`);
+  };
+
+  return (
+    <div className="bg-panel-bg rounded p-3 space-y-2">
+      <div className="text-xs font-semibold text-gray-300">Artboards</div>
+
+      <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={layer.artboardIds === undefined}
+          onChange={(e) =>
+            setArtboardIds(
+              e.target.checked ? undefined : artboards.filter((a) => isLayerInArtboard(layer, a)).map((a) => a.id),
+              `Set artboards of '${layer.name}'`
+            )
+          }
+          className="w-4 h-4 rounded cursor-pointer"
+        />
+        Wherever it overlaps
+      </label>
+
+      {artboards.map((artboard) => (
+        <label key={artboard.id} className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer pl-2">
+          <input
+            type="checkbox"
+            checked={isLayerInArtboard(layer, artboard)}
+            disabled={layer.artboardIds === undefined}
+            onChange={(e) => handleToggle(artboard.id, e.target.checked)}
+            className="w-4 h-4 rounded cursor-pointer disabled:cursor-not-allowed"
+          />
+          <span className="truncate">{artboard.name}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export default ArtboardControl;
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { Artboard } from '../../types/compositor.types';
+
+const ARTBOARD_FIELDS = [
+  { key: 'x', label: 'X' },
+  { key: 'y', label: 'Y' },
+  { key: 'width', label: 'W' },
+  { key: 'height', label: 'H' },
+] as const;
+
+/**
+ * Artboard list: add, rename, position, resize and remove artboards
+ * Adding the first artboard turns the canvas into a workspace holding it.
+ */
+function ArtboardSettings() {
+  const artboards = useCompositorStore((state) => state.project.artboards);
+  const addArtboard = useCompositorStore((state) => state.addArtboard);
+  const updateArtboard = useCompositorStore((state) => state.updateArtboard);
+  const removeArtboard = useCompositorStore((state) => state.removeArtboard);
+  const [isCollapsed, setIsCollapsed] = useState(true);
+
+  const handleNumberChange = (artboard: Artboard, key: (typeof ARTBOARD_FIELDS)[number]['key'], value: string) => {
+    const number = parseInt(value, 10);
+    if (!isNaN(number)) {
+      updateArtboard(artboard.id, { [key]: number });
+    }
+  };
+
+  return (
+    <div className="border-t border-border bg-gray-850">
+      {/* Collapsible Header */}
+      <button
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="w-full px-3 py-2 flex items-center justify-between text-xs font-semibold text-gray-300 hover:bg-gray-800 transition-colors group"
+      >
+        <span>Artboards{artboards.length > 0 ? ` (${artboards.length})` : ''}</span>
+        <span className={`text-gray-400 transition-transform group-hover:drop-shadow-lg group-hover:text-gray-200 ${isCollapsed ? '' : 'rotate-180'}`}>▼</span>
+      </button>
+
+      {/* Collapsible Content */}
+      {!isCollapsed && (
+        <div className="p-3 space-y-3 bg-gray-850 max-h-72 overflow-y-auto">
+          {artboards.length === 0 && (
+            <div className="text-xs text-gray-500">
+              No artboards: the canvas is exported as one image. Adding one turns the canvas into a workspace.
+            </div>
+          )}
+
+          {artboards.map((artboard) => (
+            <div key={artboard.id} className="space-y-2 pb-3 border-b border-border last:border-b-0 last:pb-0">
+              <div className="flex gap-1">
+                <input
+                  type="text"
+                  value={artboard.name}
+                  onChange={(e) => updateArtboard(artboard.id, { name: e.target.value }, `Rename artboard to '${e.target.value}'`)}
+                  className="flex-1 min-w-0 px-2 py-1 bg-canvas-bg border border-border rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-400"
+                  aria-label="Artboard name"
+                />
+                <button
+                  onClick={() => removeArtboard(artboard.id)}
+                  className="px-2 text-xs text-gray-400 hover:text-red-400 transition-colors"
+                  title="Delete artboard (its layers are kept)"
+                  aria-label={`Delete artboard ${artboard.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="grid grid-cols-4 gap-1">
+                {ARTBOARD_FIELDS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="text-xs text-gray-400 block mb-0.5">{label}</label>
+                    <input
+                      type="number"
+                      min={key === 'width' || key === 'height' ? 1 : 0}
+                      value={artboard[key]}
+                      onChange={(e) => handleNumberChange(artboard, key, e.target.value)}
+                      className="w-full px-1 py-1 bg-canvas-bg border border-border rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-400"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-1">
+                <input
+                  type="color"
+                  value={artboard.backgroundColor || '#ffffff'}
+                  onChange={(e) => updateArtboard(artboard.id, { backgroundColor: e.target.value })}
+                  className="flex-1 h-6 rounded cursor-pointer border border-border"
+                  title="Pick artboard background color"
+                />
+                <button
+                  onClick={() => updateArtboard(artboard.id, { backgroundColor: null })}
+                  className={`flex-1 px-2 py-0.5 text-xs font-medium rounded transition-colors ${
+                    artboard.backgroundColor === null
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-panel-bg text-gray-400 hover:text-gray-300'
+                  }`}
+                  title="Set artboard background to transparent"
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={() => addArtboard()}
+            className="w-full px-3 py-2 rounded transition-colors text-xs font-medium bg-slate-700 text-white hover:bg-slate-600"
+            title={artboards.length === 0 ? 'Turn the canvas into the first artboard' : 'Add an artboard the size of the last one'}
+          >
+            Add Artboard
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ArtboardSettings;
@@ -0,0 +1,38 @@
+import useCompositorStore from '../../store/compositorStore';
+import { BlendMode, Layer } from '../../types/compositor.types';
+import { BLEND_MODES } from '../../utils/blendModes';
+
+interface BlendModeControlProps {
+  layer: Pick<Layer, 'id' | 'blendMode'>;
+}
+
+/**
+ * Blend mode picker for a single layer
+ */
+function BlendModeControl({ layer }: BlendModeControlProps) {
+  const updateLayer = useCompositorStore((state) => state.updateLayer);
+
+  const handleBlendModeChange = (blendMode: BlendMode) => {
+    updateLayer(layer.id, { blendMode });
+    // console.log(`[DEBUG] Layer blend mode changed to ${blendMode}`);
+  };
+
+  return (
+    <div className="bg-panel-bg rounded p-3 space-y-2">
+      <div className="text-xs font-semibold text-gray-300">Blend Mode</div>
+      <select
+        value={layer.blendMode ?? 'normal'}
+        onChange={(e) => handleBlendModeChange(e.target.value as BlendMode)}
+        className="w-full px-2 py-1 bg-canvas-bg border border-border rounded text-xs text-gray-300 focus:outline-none focus:border-blue-400"
+      >
+        {BLEND_MODES.map((mode) => (
+          <option key={mode.value} value={mode.value}>
+            {mode.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export default BlendModeControl;
@@ -10,11 +10,15 @@ function CanvasSettings() {
   const canvas = useCompositorStore((state) => state.project.canvas);
   const layers = useCompositorStore((state) => state.project.layers);
   const setCanvasConfig = useCompositorStore((state) => state.setCanvasConfig);
+  const hasArtboards = useCompositorStore((state) => state.project.artboards.length > 0);
   const cropCanvasToLayers = useCompositorStore((state) => state.cropCanvasToLayers);
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [displayWidth, setDisplayWidth] = useState(String(canvas.width));
   const [displayHeight, setDisplayHeight] = useState(String(canvas.height));
 
+  // With artboards the workspace is sized to fit them, so there is no canvas to crop
+  const canCrop = layers.length > 0 && !hasArtboards;
+
   const handleWidthChange = (value: string) => {
     // Allow any input including empty strings for display
     setDisplayWidth(value);
@@ -137,13 +141,19 @@ function CanvasSettings() {
       {/* Crop to Layers Button */}
       <button
         onClick={cropCanvasToLayers}
-        disabled={layers.length === 0}
+        disabled={!canCrop}
         className={`w-full px-3 py-2 rounded transition-colors text-xs font-medium ${
-          layers.length === 0
+          !canCrop
             ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
             : 'bg-slate-700 text-white hover:bg-slate-600'
         }`}
-        title={layers.length === 0 ? 'Add layers first to crop canvas' : 'Crop canvas to layer bounds'}
+        title={
+          hasArtboards
+            ? 'The workspace is sized to fit its artboards - resize the artboards instead'
+            : layers.length === 0
+              ? 'Add layers first to crop canvas'
+              : 'Crop canvas to layer bounds'
+        }
       >
         Crop Canvas to Layers
       </button>
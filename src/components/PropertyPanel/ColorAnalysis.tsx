@@ -1,5 +1,8 @@
 import { useState, useRef, useEffect } from 'react';
 import { Layer } from '../../types/compositor.types';
+import useCompositorStore from '../../store/compositorStore';
+import { getLayerImage } from '../../utils/assets';
+import PaletteExportMenu from './PaletteExportMenu';
 
 interface ColorCount {
   hex: string;
@@ -16,6 +19,7 @@ interface ColorCount {
  * Supports unloading results to free memory
  */
 function ColorAnalysis({ layer }: { layer: Layer }) {
+  const layerImage = useCompositorStore((state) => getLayerImage(state.project.assets, layer));
   const [colorsRGB, setColorsRGB] = useState<ColorCount[] | null>(null);
   const [colorsRGBA, setColorsRGBA] = useState<ColorCount[] | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -202,7 +206,7 @@ function ColorAnalysis({ layer }: { layer: Layer }) {
         setIsAnalyzing(false);
       };
 
-      img.src = layer.imageData;
+      img.src = layerImage;
     } finally {
       setIsAnalyzing(false);
     }
@@ -312,16 +316,19 @@ function ColorAnalysis({ layer }: { layer: Layer }) {
         <div className="space-y-1">
           <div className="flex items-center justify-between text-xs text-gray-400">
             <span>{colorsRGB.length} colors (RGB) • {Math.floor(colorsRGB.reduce((sum, c) => sum + c.count, 0))} pixels</span>
-            <button
-              onClick={() => copyAllColorsToClipboard(colorsRGB, false)}
-              className="p-1 text-gray-500 hover:text-gray-300 transition-colors flex-shrink-0"
-              title="Copy all colors to clipboard"
-            >
-              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                <path d="M4 2a2 2 0 0 1 2-2h8a2 2 0 0 1 2 2v10a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V2z" />
-                <path fillOpacity="0.5" d="M2 6a2 2 0 0 0-2 2v8a2 2 0 0 0 2 2h8a2 2 0 0 0 2-2v-2h-2v2H2V8h2V6H2z" />
-              </svg>
-            </button>
+            <div className="flex items-center">
+              <PaletteExportMenu colors={colorsRGB.map((c) => c.hex)} name={`${layer.name}_colors`} />
+              <button
+                onClick={() => copyAllColorsToClipboard(colorsRGB, false)}
+                className="p-1 text-gray-500 hover:text-gray-300 transition-colors flex-shrink-0"
+                title="Copy all colors to clipboard"
+              >
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                  <path d="M4 2a2 2 0 0 1 2-2h8a2 2 0 0 1 2 2v10a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V2z" />
+                  <path fillOpacity="0.5" d="M2 6a2 2 0 0 0-2 2v8a2 2 0 0 0 2 2h8a2 2 0 0 0 2-2v-2h-2v2H2V8h2V6H2z" />
+                </svg>
+              </button>
+            </div>
           </div>
           {renderColorList(colorsRGB, visibleColorsRGB, scrollContainerRGBRef)}
         </div>
@@ -0,0 +1,217 @@
+import useCompositorStore from '../../store/compositorStore';
+import { Layer, LayerEffect } from '../../types/compositor.types';
+import { createEffect, EFFECT_TYPES } from '../../utils/layerEffects';
+
+interface EffectsControlProps {
+  layer: Pick<Layer, 'id' | 'name' | 'effects'>;
+}
+
+/**
+ * Non-destructive effects stack for a single layer
+ * Effects apply top to bottom; each can be toggled, reordered, edited or removed
+ */
+function EffectsControl({ layer }: EffectsControlProps) {
+  const updateLayer = useCompositorStore((state) => state.updateLayer);
+  const effects = layer.effects ?? [];
+
+  const getEffectLabel = (effect: LayerEffect) =>
+    EFFECT_TYPES.find((t) => t.value === effect.type)?.label ?? effect.type;
+
+  const setEffects = (newEffects: LayerEffect[], label: string) => {
+    updateLayer(layer.id, { effects: newEffects }, `${label} on '${layer.name}'`);
+  };
+
+  const handleAddEffect = (type: LayerEffect['type']) => {
+    const effect = createEffect(type);
+    setEffects([...effects, effect], `Add ${getEffectLabel(effect).toLowerCase()}`);
+  };
+
+  const handleUpdateEffect = (effectId: string, updates: Partial<LayerEffect>) => {
+    const effect = effects.find((e) => e.id === effectId);
+    if (!effect) return;
+    setEffects(
+      effects.map((e) => (e.id === effectId ? ({ ...e, ...updates } as LayerEffect) : e)),
+      'enabled' in updates
+        ? `${updates.enabled ? 'Enable' : 'Disable'} ${getEffectLabel(effect).toLowerCase()}`
+        : `Edit ${getEffectLabel(effect).toLowerCase()}`
+    );
+  };
+
+  const handleMoveEffect = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= effects.length) return;
+    const reordered = [...effects];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setEffects(reordered, 'Reorder effects');
+  };
+
+  const handleRemoveEffect = (effect: LayerEffect) => {
+    setEffects(
+      effects.filter((e) => e.id !== effect.id),
+      `Remove ${getEffectLabel(effect).toLowerCase()}`
+    );
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void, min?: number, max?: number) => (
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={1}
+      onChange={(e) => {
+        const parsed = parseInt(e.target.value);
+        if (isNaN(parsed)) return;
+        onChange(Math.max(min ?? -Infinity, Math.min(max ?? Infinity, parsed)));
+      }}
+      className="w-14 px-1 py-0.5 bg-canvas-bg border border-border rounded text-xs text-gray-300 focus:outline-none focus:border-blue-400"
+    />
+  );
+
+  const opacityInput = (effect: LayerEffect & { opacity: number }) => (
+    <label className="flex items-center justify-between gap-2">
+      <span>Opacity</span>
+      {numberInput(Math.round(effect.opacity * 100), (v) => handleUpdateEffect(effect.id, { opacity: v / 100 }), 0, 100)}
+    </label>
+  );
+
+  const renderSettings = (effect: LayerEffect) => {
+    switch (effect.type) {
+      case 'outline':
+        return (
+          <>
+            <label className="flex items-center justify-between gap-2">
+              <span>Position</span>
+              <select
+                value={effect.position}
+                onChange={(e) => handleUpdateEffect(effect.id, { position: e.target.value as typeof effect.position })}
+                className="px-1 py-0.5 bg-canvas-bg border border-border rounded text-xs text-gray-300"
+              >
+                <option value="outside">Outside</option>
+                <option value="inside">Inside</option>
+                <option value="center">Center</option>
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span>Corners</span>
+              <select
+                value={effect.connectivity}
+                onChange={(e) => handleUpdateEffect(effect.id, { connectivity: parseInt(e.target.value) as 4 | 8 })}
+                className="px-1 py-0.5 bg-canvas-bg border border-border rounded text-xs text-gray-300"
+              >
+                <option value={4}>4-connected (no corners)</option>
+                <option value={8}>8-connected (with corners)</option>
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span>Width</span>
+              {numberInput(effect.width, (v) => handleUpdateEffect(effect.id, { width: v }), 1, 32)}
+            </label>
+          </>
+        );
+      case 'dropShadow':
+        return (
+          <>
+            <label className="flex items-center justify-between gap-2">
+              <span>Offset X / Y</span>
+              <span className="flex gap-1">
+                {numberInput(effect.offsetX, (v) => handleUpdateEffect(effect.id, { offsetX: v }), -64, 64)}
+                {numberInput(effect.offsetY, (v) => handleUpdateEffect(effect.id, { offsetY: v }), -64, 64)}
+              </span>
+            </label>
+            {opacityInput(effect)}
+          </>
+        );
+      case 'colorOverlay':
+        return opacityInput(effect);
+      case 'innerGlow':
+        return (
+          <>
+            <label className="flex items-center justify-between gap-2">
+              <span>Size</span>
+              {numberInput(effect.size, (v) => handleUpdateEffect(effect.id, { size: v }), 1, 32)}
+            </label>
+            {opacityInput(effect)}
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-panel-bg rounded p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-semibold text-gray-300">Effects</div>
+        <select
+          value=""
+          onChange={(e) => {
+            if (e.target.value) handleAddEffect(e.target.value as LayerEffect['type']);
+          }}
+          className="px-1 py-0.5 bg-canvas-bg border border-border rounded text-xs text-gray-300"
+          title="Add effect"
+        >
+          <option value="">+ Add...</option>
+          {EFFECT_TYPES.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {effects.length === 0 && <div className="text-xs text-gray-500">No effects</div>}
+
+      {effects.map((effect, index) => (
+        <div key={effect.id} className="bg-canvas-bg rounded p-2 space-y-1 text-xs text-gray-400">
+          {/* Effect Header */}
+          <div className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={effect.enabled}
+              onChange={(e) => handleUpdateEffect(effect.id, { enabled: e.target.checked })}
+              className="accent-blue-400"
+              title={effect.enabled ? 'Disable effect' : 'Enable effect'}
+            />
+            <span className={`flex-1 font-medium ${effect.enabled ? 'text-gray-300' : 'text-gray-500'}`}>
+              {getEffectLabel(effect)}
+            </span>
+            <input
+              type="color"
+              value={effect.color}
+              onChange={(e) => handleUpdateEffect(effect.id, { color: e.target.value })}
+              className="w-5 h-5 bg-transparent border-0 cursor-pointer"
+              title="Effect color"
+            />
+            <button
+              onClick={() => handleMoveEffect(index, -1)}
+              disabled={index === 0}
+              className="px-1 hover:text-white disabled:opacity-30"
+              title="Apply earlier"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => handleMoveEffect(index, 1)}
+              disabled={index === effects.length - 1}
+              className="px-1 hover:text-white disabled:opacity-30"
+              title="Apply later"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => handleRemoveEffect(effect)}
+              className="px-1 text-red-400 hover:text-red-300"
+              title="Remove effect"
+            >
+              ✕
+            </button>
+          </div>
+
+          {/* Effect Settings */}
+          {effect.enabled && <div className="space-y-1 pl-5">{renderSettings(effect)}</div>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default EffectsControl;
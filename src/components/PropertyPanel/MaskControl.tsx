@@ -0,0 +1,152 @@
+import useCompositorStore from '../../store/compositorStore';
+import { Layer } from '../../types/compositor.types';
+import { getMaskImage } from '../../utils/assets';
+
+interface MaskControlProps {
+  layer: Pick<Layer, 'id' | 'name' | 'mask'>;
+}
+
+/**
+ * Layer mask controls: add, enable, invert, paint on the canvas, apply or delete
+ */
+function MaskControl({ layer }: MaskControlProps) {
+  const addLayerMask = useCompositorStore((state) => state.addLayerMask);
+  const updateLayerMask = useCompositorStore((state) => state.updateLayerMask);
+  const removeLayerMask = useCompositorStore((state) => state.removeLayerMask);
+  const applyLayerMask = useCompositorStore((state) => state.applyLayerMask);
+  const maskEditLayerId = useCompositorStore((state) => state.ui.maskEditLayerId);
+  const maskBrush = useCompositorStore((state) => state.ui.maskBrush);
+  const setMaskEditLayer = useCompositorStore((state) => state.setMaskEditLayer);
+  const setMaskBrush = useCompositorStore((state) => state.setMaskBrush);
+  const maskImage = useCompositorStore((state) => (layer.mask ? getMaskImage(state.project.assets, layer.mask) : ''));
+
+  const { mask } = layer;
+  const isEditing = maskEditLayerId === layer.id;
+
+  if (!mask) {
+    return (
+      <div className="bg-panel-bg rounded p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="text-xs font-semibold text-gray-300">Mask</div>
+          <button
+            onClick={() => addLayerMask(layer.id)}
+            className="px-2 py-0.5 bg-canvas-bg border border-border rounded text-xs text-gray-300 hover:text-white"
+          >
+            + Add Mask
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const handleApply = () => {
+    if (confirm(`Apply the mask to '${layer.name}'? Hidden pixels will be removed from the image.`)) {
+      applyLayerMask(layer.id);
+    }
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Delete the mask of '${layer.name}'?`)) {
+      removeLayerMask(layer.id);
+    }
+  };
+
+  return (
+    <div className="bg-panel-bg rounded p-3 space-y-2 text-xs text-gray-400">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-semibold text-gray-300">Mask</div>
+        <div className="flex gap-1">
+          <button
+            onClick={handleApply}
+            className="px-2 py-0.5 bg-canvas-bg border border-border rounded hover:text-white"
+            title="Bake the mask into the image"
+          >
+            Apply
+          </button>
+          <button
+            onClick={handleDelete}
+            className="px-2 py-0.5 bg-canvas-bg border border-border rounded text-red-400 hover:text-red-300"
+            title="Delete mask"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <img
+          src={maskImage}
+          alt="Layer mask"
+          className="w-12 h-12 object-contain bg-canvas-bg border border-border rounded"
+          style={{ imageRendering: 'pixelated', filter: mask.inverted ? 'invert(1)' : undefined }}
+        />
+        <div className="space-y-1">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={mask.enabled}
+              onChange={(e) => updateLayerMask(layer.id, { enabled: e.target.checked })}
+              className="accent-blue-400"
+            />
+            <span>Enabled</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={mask.inverted}
+              onChange={(e) => updateLayerMask(layer.id, { inverted: e.target.checked })}
+              className="accent-blue-400"
+            />
+            <span>Inverted</span>
+          </label>
+        </div>
+      </div>
+
+      <button
+        onClick={() => setMaskEditLayer(isEditing ? null : layer.id)}
+        className={`w-full px-2 py-1 rounded border ${
+          isEditing ? 'bg-blue-600 border-blue-500 text-white' : 'bg-canvas-bg border-border text-gray-300 hover:text-white'
+        }`}
+      >
+        {isEditing ? 'Done Painting Mask' : 'Paint Mask on Canvas'}
+      </button>
+
+      {isEditing && (
+        <div className="space-y-1">
+          <div className="flex gap-1">
+            {(['brush', 'eraser'] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setMaskBrush({ mode })}
+                className={`flex-1 px-2 py-0.5 rounded border ${
+                  maskBrush.mode === mode ? 'bg-blue-600 border-blue-500 text-white' : 'bg-canvas-bg border-border hover:text-white'
+                }`}
+                title={mode === 'brush' ? 'Hide pixels' : 'Reveal pixels'}
+              >
+                {mode === 'brush' ? 'Brush (hide)' : 'Eraser (reveal)'}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between gap-2">
+            <span>Size</span>
+            <input
+              type="number"
+              value={maskBrush.size}
+              min={1}
+              max={64}
+              step={1}
+              onChange={(e) => {
+                const parsed = parseInt(e.target.value);
+                if (isNaN(parsed)) return;
+                setMaskBrush({ size: Math.max(1, Math.min(64, parsed)) });
+              }}
+              className="w-14 px-1 py-0.5 bg-canvas-bg border border-border rounded text-xs text-gray-300 focus:outline-none focus:border-blue-400"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MaskControl;
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { exportPaletteFile, MAX_SWATCH_COLORS, PALETTE_FORMATS, PaletteFormat } from '../../utils/paletteFiles';
+
+interface PaletteExportMenuProps {
+  colors: string[];
+  name: string;
+}
+
+/**
+ * Small "Export ▾" menu that downloads a palette (#RRGGBB colors) as .gpl, .pal, .hex, .ase or a PNG swatch strip
+ */
+function PaletteExportMenu({ colors, name }: PaletteExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: PaletteFormat) => {
+    setIsOpen(false);
+    try {
+      const blob = exportPaletteFile(colors, format, name);
+      const fileName = name.replace(/[^a-z0-9_-]+/gi, '_') || 'palette';
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${fileName}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('[DEBUG] Export palette failed:', error);
+      alert(`Error exporting palette: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="relative flex-shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={colors.length === 0}
+        className="px-1.5 py-0.5 text-xs text-gray-500 hover:text-gray-300 disabled:opacity-50 transition-colors"
+        title="Export palette file"
+      >
+        Export ▾
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-40 bg-panel-bg border border-border rounded shadow-lg z-50">
+          {PALETTE_FORMATS.map(({ value, label }) => {
+            const disabled = value === 'png' && colors.length > MAX_SWATCH_COLORS;
+            return (
+              <button
+                key={value}
+                onClick={() => handleExport(value)}
+                disabled={disabled}
+                className="w-full text-left px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+                title={disabled ? `A swatch strip holds up to ${MAX_SWATCH_COLORS} colors` : undefined}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PaletteExportMenu;
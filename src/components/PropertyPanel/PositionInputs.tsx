@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import useCompositorStore from '../../store/compositorStore';
 import { Layer } from '../../types/compositor.types';
+import { getLayerScale, getTransformedSize, MAX_LAYER_SCALE } from '../../utils/layerTransforms';
 
 interface PositionInputsProps {
   layer: Layer;
@@ -20,6 +21,8 @@ function PositionInputs({ layer }: PositionInputsProps) {
   // Local state for display values to allow clearing
   const [inputX, setInputX] = useState(String(layer.x));
   const [inputY, setInputY] = useState(String(layer.y));
+  const scale = getLayerScale(layer);
+  const [linkScale, setLinkScale] = useState(scale.x === scale.y);
 
   // Show preview position during drag, otherwise show actual position
   const isDraggingThisLayer = isDraggingLayer && dragLayerId === layer.id;
@@ -59,6 +62,18 @@ function PositionInputs({ layer }: PositionInputsProps) {
     }
   };
 
+  const handleScaleChange = (axis: 'x' | 'y', value: string) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed)) return;
+    const factor = Math.max(1, Math.min(MAX_LAYER_SCALE, parsed));
+    const next = linkScale ? { x: factor, y: factor } : { ...scale, [axis]: factor };
+    // A factor of 1 is stored as unset so unscaled layers stay unchanged in saved files
+    updateLayer(layer.id, {
+      scaleX: next.x === 1 ? undefined : next.x,
+      scaleY: next.y === 1 ? undefined : next.y,
+    });
+  };
+
   // Push history when position input loses focus (finalized)
   const handlePositionFinalized = () => {
     pushHistory();
@@ -96,18 +111,51 @@ function PositionInputs({ layer }: PositionInputsProps) {
         />
       </div>
 
-      {/* Dimensions (read-only) */}
+      {/* Integer scale (nearest-neighbor) */}
+      <div className="pt-2 border-t border-border">
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-xs text-gray-400">Scale</label>
+          <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer" title="Keep X and Y scale equal">
+            <input
+              type="checkbox"
+              checked={linkScale}
+              onChange={(e) => setLinkScale(e.target.checked)}
+              className="accent-blue-400"
+            />
+            <span>Link</span>
+          </label>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {(['x', 'y'] as const).map((axis) => (
+            <div key={axis} className="flex items-center gap-1">
+              <span className="text-xs text-gray-500 uppercase">{axis}</span>
+              <input
+                type="number"
+                value={scale[axis]}
+                min={1}
+                max={MAX_LAYER_SCALE}
+                step={1}
+                onChange={(e) => handleScaleChange(axis, e.target.value)}
+                className="w-full px-2 py-1 bg-canvas-bg border border-border rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-400"
+              />
+              <span className="text-xs text-gray-500">×</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Dimensions after flip/rotation and scale (read-only) */}
       <div className="grid grid-cols-2 gap-2 pt-2 border-t border-border">
         <div>
           <label className="text-xs text-gray-400 block mb-1">Width</label>
           <div className="px-2 py-1 bg-canvas-bg border border-border rounded text-xs text-gray-500">
-            {layer.width}
+            {getTransformedSize(layer).width}
           </div>
         </div>
         <div>
           <label className="text-xs text-gray-400 block mb-1">Height</label>
           <div className="px-2 py-1 bg-canvas-bg border border-border rounded text-xs text-gray-500">
-            {layer.height}
+            {getTransformedSize(layer).height}
           </div>
         </div>
       </div>
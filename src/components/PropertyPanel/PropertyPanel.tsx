@@ -1,12 +1,18 @@
 import useCompositorStore from '../../store/compositorStore';
 import PositionInputs from './PositionInputs';
 import OpacityControl from './OpacityControl';
+import BlendModeControl from './BlendModeControl';
+import ArtboardControl from './ArtboardControl';
+import EffectsControl from './EffectsControl';
+import MaskControl from './MaskControl';
+import TransformControl from './TransformControl';
 import ColorAnalysis from './ColorAnalysis';
 import ShapeProperties from './ShapeProperties';
 import TransparencyMaskModal from '../Modals/TransparencyMaskModal';
 import BgRemovalModal from '../Modals/BgRemovalModal';
 import PixelatorModal from '../Modals/PixelatorModal';
 import CropModal from '../Modals/CropModal';
+import RotateModal from '../Modals/RotateModal';
 import { useState } from 'react';
 
 /**
@@ -24,6 +30,7 @@ function PropertyPanel() {
   const [isTransparencyModalOpen, setIsTransparencyModalOpen] = useState(false);
   const [isPixelatorModalOpen, setIsPixelatorModalOpen] = useState(false);
   const [isCropModalOpen, setIsCropModalOpen] = useState(false);
+  const [isRotateModalOpen, setIsRotateModalOpen] = useState(false);
   const [isBgRemovalModalOpen, setIsBgRemovalModalOpen] = useState(false);
 
   return (
@@ -53,11 +60,26 @@ function PropertyPanel() {
             </div>
 
             {/* Position Controls (if single layer selected) */}
-            {selectedLayerIds.length === 1 && selectedLayers.length > 0 && <PositionInputs layer={selectedLayers[0]} />}
+            {selectedLayerIds.length === 1 && selectedLayers.length > 0 && <PositionInputs key={selectedLayers[0].id} layer={selectedLayers[0]} />}
+
+            {/* Flip / Rotate (single or multiple layers) */}
+            <TransformControl />
 
             {/* Opacity Controls (if single layer selected) */}
             {selectedLayerIds.length === 1 && selectedLayers.length > 0 && <OpacityControl layer={selectedLayers[0]} />}
 
+            {/* Blend Mode (if single layer selected) */}
+            {selectedLayerIds.length === 1 && selectedLayers.length > 0 && <BlendModeControl layer={selectedLayers[0]} />}
+
+            {/* Artboard membership (if single layer selected and the project has artboards) */}
+            {selectedLayerIds.length === 1 && selectedLayers.length > 0 && <ArtboardControl layer={selectedLayers[0]} />}
+
+            {/* Layer Mask (if single layer selected) */}
+            {selectedLayerIds.length === 1 && selectedLayers.length > 0 && <MaskControl layer={selectedLayers[0]} />}
+
+            {/* Effects Stack (if single layer selected) */}
+            {selectedLayerIds.length === 1 && selectedLayers.length > 0 && <EffectsControl layer={selectedLayers[0]} />}
+
             {/* Color Analysis (if single layer selected) */}
             {selectedLayerIds.length === 1 && selectedLayers.length > 0 && <ColorAnalysis layer={selectedLayers[0]} />}
 
@@ -107,6 +129,15 @@ function PropertyPanel() {
                     >
                       Crop
                     </button>
+                    <button
+                      onClick={() => {
+                        setIsRotateModalOpen(true);
+                        setIsModifyMenuOpen(false);
+                      }}
+                      className="w-full text-left px-3 py-2 text-xs text-gray-300 hover:bg-slate-700 hover:text-white"
+                    >
+                      Rotate (RotSprite)
+                    </button>
                     <button
                       onClick={() => {
                         setIsBgRemovalModalOpen(true);
@@ -154,6 +185,14 @@ function PropertyPanel() {
               />
             )}
 
+            {selectedLayerIds.length === 1 && selectedLayers.length > 0 && (
+              <RotateModal
+                isOpen={isRotateModalOpen}
+                onClose={() => setIsRotateModalOpen(false)}
+                layer={selectedLayers[0]}
+              />
+            )}
+
             {/* Bulk Position Controls (if multiple layers selected) */}
             {selectedLayerIds.length > 1 && <BulkPositionControls />}
           </div>
@@ -36,7 +36,7 @@ function ShapeProperties({ layer }: ShapePropertiesProps) {
         x: layer.x - result.offsetX,
         y: layer.y - result.offsetY,
         shapeType: newType,
-      } as any);
+      } as any, `Edit shape '${layer.name}'`);
     } catch (error) {
       console.error('Failed to update shape type:', error);
     }
@@ -60,7 +60,7 @@ function ShapeProperties({ layer }: ShapePropertiesProps) {
         x: layer.x - result.offsetX,
         y: layer.y - result.offsetY,
         shapeSize: newSize,
-      } as any);
+      } as any, `Edit shape '${layer.name}'`);
     } catch (error) {
       console.error('Failed to update shape size:', error);
     }
@@ -84,7 +84,7 @@ function ShapeProperties({ layer }: ShapePropertiesProps) {
         x: layer.x - result.offsetX,
         y: layer.y - result.offsetY,
         shapeStretchX: newStretch,
-      } as any);
+      } as any, `Edit shape '${layer.name}'`);
     } catch (error) {
       console.error('Failed to update shape stretch X:', error);
     }
@@ -108,7 +108,7 @@ function ShapeProperties({ layer }: ShapePropertiesProps) {
         x: layer.x - result.offsetY,
         y: layer.y - result.offsetY,
         shapeStretchY: newStretch,
-      } as any);
+      } as any, `Edit shape '${layer.name}'`);
     } catch (error) {
       console.error('Failed to update shape stretch Y:', error);
     }
@@ -132,7 +132,7 @@ function ShapeProperties({ layer }: ShapePropertiesProps) {
         x: layer.x - result.offsetX,
         y: layer.y - result.offsetY,
         shapeColor: newColor,
-      } as any);
+      } as any, `Edit shape '${layer.name}'`);
     } catch (error) {
       console.error('Failed to update shape color:', error);
     }
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { Slice } from '../../types/compositor.types';
+
+const SLICE_FIELDS = [
+  { key: 'x', label: 'X' },
+  { key: 'y', label: 'Y' },
+  { key: 'width', label: 'W' },
+  { key: 'height', label: 'H' },
+] as const;
+
+/**
+ * Slice list: add, rename, position, resize and remove slices
+ * Slices are exported from the Export menu, each as its own PNG.
+ */
+function SliceSettings() {
+  const slices = useCompositorStore((state) => state.project.slices);
+  const hasSelection = useCompositorStore((state) => state.selectedLayerIds.length > 0);
+  const addSlice = useCompositorStore((state) => state.addSlice);
+  const updateSlice = useCompositorStore((state) => state.updateSlice);
+  const removeSlice = useCompositorStore((state) => state.removeSlice);
+  const [isCollapsed, setIsCollapsed] = useState(true);
+
+  const handleNumberChange = (slice: Slice, key: (typeof SLICE_FIELDS)[number]['key'], value: string) => {
+    const number = parseInt(value, 10);
+    if (!isNaN(number)) {
+      updateSlice(slice.id, { [key]: number });
+    }
+  };
+
+  return (
+    <div className="border-t border-border bg-gray-850">
+      {/* Collapsible Header */}
+      <button
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="w-full px-3 py-2 flex items-center justify-between text-xs font-semibold text-gray-300 hover:bg-gray-800 transition-colors group"
+      >
+        <span>Slices{slices.length > 0 ? ` (${slices.length})` : ''}</span>
+        <span className={`text-gray-400 transition-transform group-hover:drop-shadow-lg group-hover:text-gray-200 ${isCollapsed ? '' : 'rotate-180'}`}>▼</span>
+      </button>
+
+      {/* Collapsible Content */}
+      {!isCollapsed && (
+        <div className="p-3 space-y-3 bg-gray-850 max-h-72 overflow-y-auto">
+          {slices.length === 0 && (
+            <div className="text-xs text-gray-500">
+              No slices. A slice marks part of the canvas to export as its own image.
+            </div>
+          )}
+
+          {slices.map((slice) => (
+            <div key={slice.id} className="space-y-2 pb-3 border-b border-border last:border-b-0 last:pb-0">
+              <div className="flex gap-1">
+                <input
+                  type="text"
+                  value={slice.name}
+                  onChange={(e) => updateSlice(slice.id, { name: e.target.value }, `Rename slice to '${e.target.value}'`)}
+                  className="flex-1 min-w-0 px-2 py-1 bg-canvas-bg border border-border rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-400"
+                  aria-label="Slice name"
+                />
+                <button
+                  onClick={() => removeSlice(slice.id)}
+                  className="px-2 text-xs text-gray-400 hover:text-red-400 transition-colors"
+                  title="Delete slice"
+                  aria-label={`Delete slice ${slice.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="grid grid-cols-4 gap-1">
+                {SLICE_FIELDS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="text-xs text-gray-400 block mb-0.5">{label}</label>
+                    <input
+                      type="number"
+                      min={key === 'width' || key === 'height' ? 1 : undefined}
+                      value={slice[key]}
+                      onChange={(e) => handleNumberChange(slice, key, e.target.value)}
+                      className="w-full px-1 py-1 bg-canvas-bg border border-border rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-400"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={addSlice}
+            className="w-full px-3 py-2 rounded transition-colors text-xs font-medium bg-slate-700 text-white hover:bg-slate-600"
+            title={hasSelection ? 'Add a slice around the selected layers' : 'Add a slice covering the whole canvas'}
+          >
+            {hasSelection ? 'Add Slice from Selection' : 'Add Slice'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SliceSettings;
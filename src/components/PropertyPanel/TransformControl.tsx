@@ -0,0 +1,47 @@
+import useCompositorStore from '../../store/compositorStore';
+import { TRANSFORM_OPERATIONS, TransformOperation } from '../../utils/layerTransforms';
+
+// Keyboard shortcut shown in each button's tooltip
+const SHORTCUTS: Partial<Record<TransformOperation, string>> = {
+  flipH: 'Shift+H',
+  flipV: 'Shift+V',
+  rotate90: 'R',
+  rotate270: 'Shift+R',
+};
+
+// Short button captions, full names are in the tooltips
+const ICONS: Record<TransformOperation, string> = {
+  flipH: '⇋',
+  flipV: '⇵',
+  rotate90: '↻',
+  rotate180: '180°',
+  rotate270: '↺',
+};
+
+/**
+ * Lossless flip and 90° rotation for the selected layers
+ * Multiple selected layers are transformed together around their combined center
+ */
+function TransformControl() {
+  const transformSelectedLayers = useCompositorStore((state) => state.transformSelectedLayers);
+
+  return (
+    <div className="bg-panel-bg rounded p-3 space-y-2">
+      <div className="text-xs font-semibold text-gray-300">Transform</div>
+      <div className="flex gap-1">
+        {TRANSFORM_OPERATIONS.map((operation) => (
+          <button
+            key={operation.value}
+            onClick={() => transformSelectedLayers(operation.value)}
+            className="flex-1 px-1 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors text-gray-300"
+            title={SHORTCUTS[operation.value] ? `${operation.label} (${SHORTCUTS[operation.value]})` : operation.label}
+          >
+            {ICONS[operation.value]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default TransformControl;
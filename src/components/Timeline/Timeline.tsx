@@ -0,0 +1,294 @@
+import { useEffect, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { PlaybackMode } from '../../types/compositor.types';
+import {
+  getAnimationDuration,
+  getPlaybackOrder,
+  MAX_FRAME_DURATION,
+  MAX_ONION_SKIN_FRAMES,
+  MIN_FRAME_DURATION,
+} from '../../utils/animation';
+
+interface FrameDurationInputProps {
+  index: number;
+  duration: number;
+  onCommit: (index: number, duration: number) => void;
+}
+
+/**
+ * Frame duration field
+ * Typing only edits a draft; the value is clamped and committed (one undo step) on blur or Enter.
+ */
+function FrameDurationInput({ index, duration, onCommit }: FrameDurationInputProps) {
+  const [draft, setDraft] = useState(String(duration));
+
+  // Sync the draft when the duration changes from outside (undo, clamping, another frame's edit)
+  useEffect(() => {
+    setDraft(String(duration));
+  }, [duration]);
+
+  const commit = () => {
+    const value = parseInt(draft, 10);
+    if (!isNaN(value)) {
+      onCommit(index, value);
+    }
+    // Show the stored value: unchanged when invalid, or clamped into range
+    setDraft(String(useCompositorStore.getState().project.animation.frames[index]?.duration ?? duration));
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="numeric"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+      className="w-12 bg-slate-900 border border-border rounded px-1 text-right"
+      aria-label={`Frame ${index + 1} duration in milliseconds`}
+      title={`${MIN_FRAME_DURATION}-${MAX_FRAME_DURATION} ms`}
+    />
+  );
+}
+
+/**
+ * Animation timeline below the canvas
+ * Frames are selected for editing by clicking them; playback only changes what the canvas shows.
+ */
+function Timeline() {
+  const animation = useCompositorStore((state) => state.project.animation);
+  const activeDocumentId = useCompositorStore((state) => state.activeDocumentId);
+  const playbackFrame = useCompositorStore((state) => state.ui.playbackFrame);
+  const addFrame = useCompositorStore((state) => state.addFrame);
+  const removeFrame = useCompositorStore((state) => state.removeFrame);
+  const setActiveFrame = useCompositorStore((state) => state.setActiveFrame);
+  const moveFrame = useCompositorStore((state) => state.moveFrame);
+  const setFrameDuration = useCompositorStore((state) => state.setFrameDuration);
+  const setAnimationConfig = useCompositorStore((state) => state.setAnimationConfig);
+  const setPlaybackFrame = useCompositorStore((state) => state.setPlaybackFrame);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const { frames, activeFrame, playbackMode, onionSkin } = animation;
+
+  // Switching tabs stops playback
+  useEffect(() => {
+    setIsPlaying(false);
+  }, [activeDocumentId]);
+
+  /**
+   * Playback: show each frame for its duration, in loop or ping-pong order, starting at the active frame
+   */
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const order = getPlaybackOrder(frames.length, playbackMode);
+    if (order.length === 0) {
+      setIsPlaying(false);
+      return;
+    }
+
+    let step = Math.max(order.indexOf(useCompositorStore.getState().project.animation.activeFrame), 0);
+    let timeout: ReturnType<typeof setTimeout>;
+    const showStep = () => {
+      const index = order[step];
+      setPlaybackFrame(index);
+      timeout = setTimeout(() => {
+        step = (step + 1) % order.length;
+        showStep();
+      }, frames[index].duration);
+    };
+    showStep();
+
+    return () => {
+      clearTimeout(timeout);
+      setPlaybackFrame(null);
+    };
+  }, [isPlaying, frames, playbackMode, setPlaybackFrame]);
+
+  if (frames.length === 0) {
+    return (
+      <div className="h-9 bg-panel-bg border-t border-border flex items-center gap-3 px-3 text-xs text-slate-400">
+        <span className="font-semibold text-slate-300">Timeline</span>
+        <span>Still image</span>
+        <button
+          onClick={addFrame}
+          className="px-2 py-0.5 text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+          title="Turn the canvas into frame 1 and add frame 2"
+        >
+          + Add frame
+        </button>
+      </div>
+    );
+  }
+
+  const goToFrame = (index: number) => {
+    setIsPlaying(false);
+    setActiveFrame(index);
+  };
+
+  return (
+    <div className="bg-panel-bg border-t border-border text-xs text-slate-300">
+      {/* Controls */}
+      <div className="h-8 flex items-center gap-2 px-3 border-b border-border">
+        <span className="font-semibold">Timeline</span>
+        <button
+          onClick={() => goToFrame(Math.max(activeFrame - 1, 0))}
+          disabled={activeFrame === 0}
+          className="px-1.5 text-slate-400 hover:text-white disabled:opacity-40"
+          aria-label="Previous frame"
+        >
+          ⏮
+        </button>
+        <button
+          onClick={() => setIsPlaying(!isPlaying)}
+          className="w-7 py-0.5 text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+          aria-label={isPlaying ? 'Stop' : 'Play'}
+        >
+          {isPlaying ? '■' : '▶'}
+        </button>
+        <button
+          onClick={() => goToFrame(Math.min(activeFrame + 1, frames.length - 1))}
+          disabled={activeFrame === frames.length - 1}
+          className="px-1.5 text-slate-400 hover:text-white disabled:opacity-40"
+          aria-label="Next frame"
+        >
+          ⏭
+        </button>
+        <select
+          value={playbackMode}
+          onChange={(e) => setAnimationConfig({ playbackMode: e.target.value as PlaybackMode })}
+          className="bg-slate-800 border border-border rounded px-1 py-0.5"
+          aria-label="Playback mode"
+        >
+          <option value="loop">Loop</option>
+          <option value="pingPong">Ping-pong</option>
+        </select>
+        <span className="text-slate-500">
+          {frames.length} frames · {(getAnimationDuration(animation) / 1000).toFixed(2)} s
+        </span>
+
+        <div className="flex-1" />
+
+        {/* Onion skin */}
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={onionSkin.enabled}
+            onChange={(e) => setAnimationConfig({ onionSkin: { ...onionSkin, enabled: e.target.checked } })}
+          />
+          Onion skin
+        </label>
+        <label className="flex items-center gap-1" title="Previous frames shown (red)">
+          ◀
+          <input
+            type="number"
+            min={0}
+            max={MAX_ONION_SKIN_FRAMES}
+            value={onionSkin.before}
+            onChange={(e) => setAnimationConfig({ onionSkin: { ...onionSkin, before: Number(e.target.value) } })}
+            className="w-10 bg-slate-800 border border-border rounded px-1"
+            aria-label="Onion skin frames before"
+          />
+        </label>
+        <label className="flex items-center gap-1" title="Next frames shown (blue)">
+          <input
+            type="number"
+            min={0}
+            max={MAX_ONION_SKIN_FRAMES}
+            value={onionSkin.after}
+            onChange={(e) => setAnimationConfig({ onionSkin: { ...onionSkin, after: Number(e.target.value) } })}
+            className="w-10 bg-slate-800 border border-border rounded px-1"
+            aria-label="Onion skin frames after"
+          />
+          ▶
+        </label>
+        <input
+          type="range"
+          min={0.05}
+          max={1}
+          step={0.05}
+          value={onionSkin.opacity}
+          onChange={(e) => setAnimationConfig({ onionSkin: { ...onionSkin, opacity: Number(e.target.value) } })}
+          className="w-20"
+          aria-label="Onion skin opacity"
+          title={`Onion skin opacity ${Math.round(onionSkin.opacity * 100)}%`}
+        />
+      </div>
+
+      {/* Frames */}
+      <div className="flex items-stretch gap-1 px-3 py-2 overflow-x-auto">
+        {frames.map((frame, index) => {
+          const isActive = index === activeFrame;
+          const isPlayed = index === playbackFrame;
+
+          return (
+            <div
+              key={frame.id}
+              onClick={() => goToFrame(index)}
+              className={`flex flex-col items-center gap-1 w-20 flex-shrink-0 p-1 rounded border cursor-pointer ${
+                isActive ? 'border-blue-500 bg-slate-700' : 'border-border bg-slate-800 hover:bg-slate-700'
+              } ${isPlayed ? 'ring-1 ring-green-400' : ''}`}
+              aria-current={isActive}
+            >
+              <div className="flex items-center justify-between w-full">
+                <span className="font-semibold">{index + 1}</span>
+                {isActive && (
+                  <span className="flex gap-1">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        moveFrame(index, 'left');
+                      }}
+                      disabled={index === 0}
+                      className="text-slate-400 hover:text-white disabled:opacity-30"
+                      aria-label={`Move frame ${index + 1} left`}
+                    >
+                      ‹
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        moveFrame(index, 'right');
+                      }}
+                      disabled={index === frames.length - 1}
+                      className="text-slate-400 hover:text-white disabled:opacity-30"
+                      aria-label={`Move frame ${index + 1} right`}
+                    >
+                      ›
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeFrame(index);
+                      }}
+                      className="text-slate-400 hover:text-red-400"
+                      aria-label={`Delete frame ${index + 1}`}
+                    >
+                      ✕
+                    </button>
+                  </span>
+                )}
+              </div>
+              <label className="flex items-center gap-0.5 text-slate-400" onClick={(e) => e.stopPropagation()}>
+                <FrameDurationInput index={index} duration={frame.duration} onCommit={setFrameDuration} />
+                ms
+              </label>
+            </div>
+          );
+        })}
+        <button
+          onClick={addFrame}
+          className="w-10 flex-shrink-0 rounded border border-dashed border-border text-slate-400 hover:text-white hover:border-slate-400"
+          title="Add a copy of the active frame after it"
+          aria-label="Add frame"
+        >
+          +
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default Timeline;
@@ -0,0 +1,89 @@
+import useCompositorStore from '../../store/compositorStore';
+import { OpenDocument } from '../../types/compositor.types';
+
+/**
+ * Tab strip for the open projects
+ * The active tab reads the live project state; the others show their parked snapshot
+ */
+function DocumentTabs() {
+  const documents = useCompositorStore((state) => state.documents);
+  const activeDocumentId = useCompositorStore((state) => state.activeDocumentId);
+  const activeProjectName = useCompositorStore((state) => state.project.projectName);
+  const activeIsDirty = useCompositorStore((state) => state.isDirty);
+  const activeIsReadOnly = useCompositorStore((state) => state.isReadOnly);
+  const newDocument = useCompositorStore((state) => state.newDocument);
+  const switchDocument = useCompositorStore((state) => state.switchDocument);
+  const closeDocument = useCompositorStore((state) => state.closeDocument);
+
+  const handleClose = (document: OpenDocument) => {
+    const isActive = document.id === activeDocumentId;
+    const isDirty = isActive ? activeIsDirty : document.isDirty;
+    const name = isActive ? activeProjectName : document.project.projectName;
+    if (isDirty && !window.confirm(`'${name}' has unsaved changes. Close it anyway?`)) {
+      // console.log('[DEBUG] Close tab cancelled by user');
+      return;
+    }
+    closeDocument(document.id);
+  };
+
+  return (
+    <div className="h-8 bg-panel-bg border-b border-border flex items-end px-2 gap-1 overflow-x-auto" role="tablist">
+      {documents.map((document) => {
+        const isActive = document.id === activeDocumentId;
+        const name = isActive ? activeProjectName : document.project.projectName;
+        const isDirty = isActive ? activeIsDirty : document.isDirty;
+        const isReadOnly = isActive ? activeIsReadOnly : document.isReadOnly;
+
+        return (
+          <div
+            key={document.id}
+            role="tab"
+            aria-selected={isActive}
+            onClick={() => switchDocument(document.id)}
+            onMouseDown={(e) => {
+              // Middle click closes the tab, like a browser
+              if (e.button === 1) {
+                e.preventDefault();
+                handleClose(document);
+              }
+            }}
+            className={`group flex items-center gap-2 h-7 px-3 text-xs rounded-t border border-b-0 cursor-pointer max-w-[12rem] ${
+              isActive
+                ? 'bg-canvas-bg border-border text-white'
+                : 'bg-slate-800 border-transparent text-slate-400 hover:text-white'
+            }`}
+            title={isReadOnly ? `${name} (read-only)` : name}
+          >
+            <span className="truncate">
+              {isReadOnly && <span className="mr-1" aria-label="Read-only">🔒</span>}
+              {isDirty && <span className="text-sky-400 mr-1">●</span>}
+              {name}
+            </span>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleClose(document);
+              }}
+              className={`text-slate-500 hover:text-white transition-opacity ${
+                isActive ? '' : 'opacity-0 group-hover:opacity-100'
+              }`}
+              aria-label={`Close ${name}`}
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+      <button
+        onClick={newDocument}
+        className="h-7 px-2 text-sm text-slate-400 hover:text-white"
+        title="New project tab"
+        aria-label="New project tab"
+      >
+        +
+      </button>
+    </div>
+  );
+}
+
+export default DocumentTabs;
@@ -1,6 +1,28 @@
 import { useRef, useEffect, useState } from 'react';
 import useCompositorStore from '../../store/compositorStore';
-import { serializeProject, deserializeProject, exportCanvasToPNG } from '../../utils/projectSerializer';
+import {
+  deserializeProjectFile,
+  exportArtboardsToZip,
+  exportCanvasToPNG,
+  exportLayerFiles,
+  exportSelectedLayersToPNG,
+  exportSliceFiles,
+  LayerExportCrop,
+  serializeProjectArchive,
+  serializeProjectLegacy,
+} from '../../utils/projectSerializer';
+import {
+  exportLinkedProjectZip,
+  loadLinkedProjectFolder,
+  loadLinkedProjectZip,
+  saveLinkedProjectToDirectory,
+} from '../../utils/linkedProject';
+import { getArtboardFileNames } from '../../utils/artboards';
+import { saveToLibrary } from '../../utils/projectLibrary';
+import { createZip } from '../../utils/zip';
+import { Artboard } from '../../types/compositor.types';
+import AnimationExportModal from '../Modals/AnimationExportModal';
+import IndexedPngExportModal from '../Modals/IndexedPngExportModal';
 
 /**
  * File operations component
@@ -8,12 +30,18 @@ import { serializeProject, deserializeProject, exportCanvasToPNG } from '../../u
  */
 function FileOperations() {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
   const [exportScale, setExportScale] = useState(1);
+  const [layerCrop, setLayerCrop] = useState<LayerExportCrop>('bounds');
+  const [isAnimationExportOpen, setIsAnimationExportOpen] = useState(false);
+  const [isIndexedExportOpen, setIsIndexedExportOpen] = useState(false);
 
   const project = useCompositorStore((state) => state.project);
-  const resetProject = useCompositorStore((state) => state.resetProject);
+  const selectedLayerIds = useCompositorStore((state) => state.selectedLayerIds);
+  const newDocument = useCompositorStore((state) => state.newDocument);
   const loadProject = useCompositorStore((state) => state.loadProject);
   const markClean = useCompositorStore((state) => state.markClean);
+  const setLibraryView = useCompositorStore((state) => state.setLibraryView);
 
   // Setup keyboard shortcuts for save/load
   useEffect(() => {
@@ -40,14 +68,16 @@ function FileOperations() {
   }, [project]);
 
   /**
-   * Save project as .pixcomp file (embedded format with base64 images)
+   * Save project as .pixcomp file (zip archive with raw images, or legacy 1.0.0 JSON with base64 images)
    */
-  const handleSaveProject = async () => {
+  const handleSaveProject = async (format: 'archive' | 'legacy' = 'archive') => {
     try {
       // console.log('[DEBUG] Starting project save...');
       
-      const projectJson = serializeProject(project);
-      const blob = new Blob([projectJson], { type: 'application/json' });
+      const blob =
+        format === 'legacy'
+          ? new Blob([serializeProjectLegacy(project)], { type: 'application/json' })
+          : await serializeProjectArchive(project);
       const url = URL.createObjectURL(blob);
       
       const a = document.createElement('a');
@@ -60,6 +90,13 @@ function FileOperations() {
       
       // console.log(`[DEBUG] Project saved successfully: ${a.download}`);
       markClean();
+
+      // Keep the library copy in step with the saved file
+      if (format === 'archive') {
+        saveToLibrary(project, blob).catch((error) => {
+          console.error('[DEBUG] Failed to update project library:', error);
+        });
+      }
       
       // Show success message
       alert(`Project saved: ${a.download}`);
@@ -82,11 +119,13 @@ function FileOperations() {
     try {
       // console.log(`[DEBUG] Loading project from file: ${file.name}`);
       
-      const text = await file.text();
-      const projectData = await deserializeProject(text);
+      // Zip archives hold linked projects (manifest + image files)
+      const { project: projectData, issues } = file.name.toLowerCase().endsWith('.zip')
+        ? await loadLinkedProjectZip(file)
+        : await deserializeProjectFile(file);
 
       // console.log('[DEBUG] Project loaded and validated successfully');
-      loadProject(projectData);
+      loadProject(projectData, { source: file.name, issues });
       markClean();
       
       alert(`Project loaded: ${file.name}`);
@@ -102,53 +141,172 @@ function FileOperations() {
   };
 
   /**
-   * Create new project
+   * Save as a linked project: JSON manifest plus one PNG per layer, in a folder or a zip
+   * Folders need the File System Access API; other browsers get the zip download.
    */
-  const handleNewProject = () => {
-    if (useCompositorStore.getState().isDirty) {
-      const confirmed = window.confirm('You have unsaved changes. Create new project anyway?');
-      if (!confirmed) {
-        // console.log('[DEBUG] New project cancelled by user');
+  const handleSaveLinked = async (target: 'folder' | 'zip') => {
+    try {
+      const showDirectoryPicker = (window as unknown as { showDirectoryPicker?: () => Promise<FileSystemDirectoryHandle> })
+        .showDirectoryPicker;
+
+      if (target === 'folder' && showDirectoryPicker) {
+        let directory: FileSystemDirectoryHandle;
+        try {
+          directory = await showDirectoryPicker();
+        } catch {
+          return; // Picker cancelled
+        }
+        await saveLinkedProjectToDirectory(project, directory);
+        markClean();
+        alert(`Linked project saved to folder: ${directory.name}`);
         return;
       }
+
+      if (target === 'folder') {
+        alert('Saving to a folder is not supported in this browser. The linked project will be downloaded as a zip instead.');
+      }
+
+      const blob = await exportLinkedProjectZip(project);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${project.projectName || 'untitled'}.linked.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      markClean();
+      alert(`Linked project saved: ${a.download}`);
+    } catch (error) {
+      console.error('[DEBUG] Save linked project failed:', error);
+      alert(`Error saving linked project: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-    
-    // console.log('[DEBUG] Creating new project');
-    resetProject();
   };
 
   /**
-   * Export canvas as PNG
+   * Load a linked project from a folder (project.json plus images)
    */
-  const handleExportPNG = async () => {
+  const handleLoadFolder = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
+    try {
+      const { project: projectData, issues } = await loadLinkedProjectFolder(files);
+      loadProject(projectData, { source: files[0].webkitRelativePath.split('/')[0] || projectData.projectName, issues });
+      markClean();
+
+      alert(`Linked project loaded: ${projectData.projectName}`);
+    } catch (error) {
+      console.error('[DEBUG] Load linked project failed:', error);
+      alert(`Error loading linked project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      if (folderInputRef.current) {
+        folderInputRef.current.value = '';
+      }
+    }
+  };
+
+  /**
+   * Create new project in its own tab - the current one stays open
+   */
+  const handleNewProject = () => {
+    // console.log('[DEBUG] Creating new project tab');
+    newDocument();
+  };
+
+  /**
+   * Export canvas as PNG - or, with artboards, one artboard as PNG or all of them as a zip
+   */
+  const handleExportPNG = async (target?: Artboard | 'all') => {
     try {
       // console.log(`[DEBUG] Exporting canvas as PNG (scale: ${exportScale}x)`);
 
-      const blob = await exportCanvasToPNG(
-        project.layers,
-        project.canvas.width,
-        project.canvas.height,
-        exportScale,
-        project.canvas.backgroundColor
-      );
+      const baseName = project.projectName || 'composite';
+      let blob: Blob;
+      let filename: string;
+      if (target === 'all') {
+        blob = await exportArtboardsToZip(project, exportScale);
+        filename = `${baseName}_artboards_${exportScale}x.zip`;
+      } else {
+        blob = await exportCanvasToPNG(
+          project.layers,
+          project.canvas.width,
+          project.canvas.height,
+          exportScale,
+          project.canvas.backgroundColor,
+          project.groups,
+          project.assets,
+          target
+        );
+        filename = target
+          ? `${baseName}_${getArtboardFileNames(project.artboards).get(target.id)}_${exportScale}x.png`
+          : `${baseName}_${exportScale}x.png`;
+      }
 
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${project.projectName || 'composite'}_${exportScale}x.png`;
+      a.download = filename;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
 
       // console.log(`[DEBUG] PNG exported successfully: ${a.download}`);
-      alert(`PNG exported: ${a.download}`);
+      alert(`${target === 'all' ? 'Artboards' : 'PNG'} exported: ${a.download}`);
     } catch (error) {
       console.error('[DEBUG] Export PNG failed:', error);
       alert(`Error exporting PNG: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
+  /**
+   * Export the selected layers, each layer, or each slice - one file is downloaded as PNG, several as a zip
+   */
+  const handleExportFiles = async (target: 'selectedLayers' | 'layers' | 'slices') => {
+    try {
+      const baseName = project.projectName || 'composite';
+      let blob: Blob;
+      let filename: string;
+      if (target === 'selectedLayers') {
+        blob = await exportSelectedLayersToPNG(project, selectedLayerIds, layerCrop, exportScale);
+        filename = `${baseName}_selection_${exportScale}x.png`;
+      } else {
+        const files =
+          target === 'layers'
+            ? await exportLayerFiles(project, layerCrop, exportScale)
+            : await exportSliceFiles(project, exportScale);
+        if (files.length === 0) {
+          alert(target === 'layers' ? 'There are no visible layers to export.' : 'There are no slices to export.');
+          return;
+        }
+
+        if (files.length === 1) {
+          blob = new Blob([files[0].data as BlobPart], { type: 'image/png' });
+          filename = `${baseName}_${files[0].path.replace(/\.png$/, '')}_${exportScale}x.png`;
+        } else {
+          blob = createZip(files);
+          filename = `${baseName}_${target}_${exportScale}x.zip`;
+        }
+      }
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      alert(`Exported: ${a.download}`);
+    } catch (error) {
+      console.error('[DEBUG] Export files failed:', error);
+      alert(`Error exporting: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   return (
     <div className="flex items-center gap-1">
       <button
@@ -159,29 +317,163 @@ function FileOperations() {
         New
       </button>
 
+      <div className="relative group">
+        <button
+          onClick={() => handleSaveProject()}
+          className="px-3 py-1 text-sm font-medium text-gray-300 hover:text-white bg-panel-bg hover:bg-gray-700 rounded transition-colors"
+          title="Save project as .pixcomp file (Ctrl+S)"
+        >
+          Save
+        </button>
+
+        {/* Legacy format for older versions of the app */}
+        <div className="absolute left-0 mt-1 w-44 bg-panel-bg border border-border rounded shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all z-50">
+          <button
+            onClick={() => handleSaveProject('legacy')}
+            className="w-full text-left px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+            title="Pretty-printed JSON with base64 images, readable by older versions"
+          >
+            Save as legacy 1.0.0…
+          </button>
+        </div>
+      </div>
+
       <button
-        onClick={handleSaveProject}
+        onClick={() => setLibraryView('browser')}
         className="px-3 py-1 text-sm font-medium text-gray-300 hover:text-white bg-panel-bg hover:bg-gray-700 rounded transition-colors"
-        title="Save project as .pixcomp file (Ctrl+S)"
+        title="Browse projects stored in this browser"
       >
-        Save
+        Library
       </button>
 
       <button
         onClick={() => fileInputRef.current?.click()}
         className="px-3 py-1 text-sm font-medium text-gray-300 hover:text-white bg-panel-bg hover:bg-gray-700 rounded transition-colors"
-        title="Load project from .pixcomp file (Ctrl+O)"
+        title="Load project from .pixcomp file or linked project zip (Ctrl+O)"
       >
         Load
       </button>
 
-      <button
-        onClick={handleExportPNG}
-        className="px-3 py-1 text-sm font-medium text-gray-300 hover:text-white bg-panel-bg hover:bg-gray-700 rounded transition-colors"
-        title="Export canvas as PNG"
-      >
-        Export
-      </button>
+      {/* Linked project menu (manifest + separate image files) */}
+      <div className="relative group">
+        <button
+          className="px-3 py-1 text-sm font-medium text-gray-300 hover:text-white bg-panel-bg hover:bg-gray-700 rounded transition-colors"
+          title="Linked project: JSON manifest plus separate PNG files"
+        >
+          Linked ▾
+        </button>
+
+        <div className="absolute left-0 mt-1 w-40 bg-panel-bg border border-border rounded shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all z-50">
+          <button
+            onClick={() => handleSaveLinked('folder')}
+            className="w-full text-left px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+          >
+            Save to folder…
+          </button>
+          <button
+            onClick={() => handleSaveLinked('zip')}
+            className="w-full text-left px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+          >
+            Save as zip
+          </button>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            className="w-full text-left px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+          >
+            Open folder…
+          </button>
+        </div>
+      </div>
+
+      {/* Export menu: the canvas (or artboards) by default; layers and slices from the menu */}
+      <div className="relative group">
+        <button
+          onClick={() => handleExportPNG(project.artboards.length > 0 ? 'all' : undefined)}
+          className="px-3 py-1 text-sm font-medium text-gray-300 hover:text-white bg-panel-bg hover:bg-gray-700 rounded transition-colors"
+          title={project.artboards.length > 0 ? 'Export every artboard as PNG (zip)' : 'Export canvas as PNG'}
+        >
+          Export ▾
+        </button>
+
+        <div className="absolute left-0 mt-1 w-52 bg-panel-bg border border-border rounded shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all z-50">
+          {project.artboards.length === 0 ? (
+            <button
+              onClick={() => handleExportPNG()}
+              className="w-full text-left px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+            >
+              Canvas
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => handleExportPNG('all')}
+                className="w-full text-left px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+              >
+                All artboards (zip)
+              </button>
+              {project.artboards.map((artboard) => (
+                <button
+                  key={artboard.id}
+                  onClick={() => handleExportPNG(artboard)}
+                  className="w-full text-left px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors truncate"
+                >
+                  {artboard.name} ({artboard.width}×{artboard.height})
+                </button>
+              ))}
+            </>
+          )}
+
+          <button
+            onClick={() => setIsIndexedExportOpen(true)}
+            className="w-full text-left px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+            title="8-bit palette PNG with PLTE/tRNS, for images with 256 colors or fewer"
+          >
+            Indexed PNG (≤256 colors)…
+          </button>
+
+          <div className="border-t border-border my-1" />
+          <button
+            onClick={() => handleExportFiles('selectedLayers')}
+            disabled={selectedLayerIds.length === 0}
+            className="w-full text-left px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            Selected layers only
+          </button>
+          <button
+            onClick={() => handleExportFiles('layers')}
+            className="w-full text-left px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+          >
+            Each layer as PNG (zip)
+          </button>
+          {/* Crop of the two layer exports above */}
+          <div className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400">
+            Crop to
+            {(['bounds', 'canvas'] as const).map((crop) => (
+              <button
+                key={crop}
+                onClick={() => setLayerCrop(crop)}
+                className={`px-1.5 rounded transition-colors ${
+                  layerCrop === crop ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white hover:bg-gray-700'
+                }`}
+              >
+                {crop === 'bounds' ? 'Layer bounds' : 'Canvas'}
+              </button>
+            ))}
+          </div>
+
+          {project.slices.length > 0 && (
+            <>
+              <div className="border-t border-border my-1" />
+              <button
+                onClick={() => handleExportFiles('slices')}
+                className="w-full text-left px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+              >
+                {project.slices.length === 1 ? `Slice '${project.slices[0].name}'` : `All slices (${project.slices.length}, zip)`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
 
       {/* Export Scale Selector (shown when hovering Export button) */}
       <div className="relative group">
@@ -213,13 +505,35 @@ function FileOperations() {
         </div>
       </div>
 
+      <button
+        onClick={() => setIsAnimationExportOpen(true)}
+        className="px-3 py-1 text-sm font-medium text-gray-300 hover:text-white bg-panel-bg hover:bg-gray-700 rounded transition-colors"
+        title="Export the timeline, or layers as frames, as animated GIF or APNG"
+      >
+        Animation…
+      </button>
+
+      <AnimationExportModal isOpen={isAnimationExportOpen} onClose={() => setIsAnimationExportOpen(false)} />
+      <IndexedPngExportModal isOpen={isIndexedExportOpen} onClose={() => setIsIndexedExportOpen(false)} />
+
       <input
         ref={fileInputRef}
         type="file"
-        accept=".pixcomp,.json"
+        accept=".pixcomp,.json,.zip"
         onChange={handleLoadProject}
         className="hidden"
       />
+
+      <input
+        ref={(input) => {
+          folderInputRef.current = input;
+          // webkitdirectory is not in React's input props
+          input?.setAttribute('webkitdirectory', '');
+        }}
+        type="file"
+        onChange={handleLoadFolder}
+        className="hidden"
+      />
     </div>
   );
 }
@@ -7,6 +7,8 @@ function HistoryControls() {
   const history = useCompositorStore((state) => state.history);
   const undo = useCompositorStore((state) => state.undo);
   const redo = useCompositorStore((state) => state.redo);
+  const historyPanelDock = useCompositorStore((state) => state.ui.historyPanelDock);
+  const setHistoryPanelDock = useCompositorStore((state) => state.setHistoryPanelDock);
 
   const canUndo = history.past.length > 0;
   const canRedo = history.future.length > 0;
@@ -48,6 +50,18 @@ function HistoryControls() {
       >
         ↷
       </button>
+
+      <button
+        onClick={() => setHistoryPanelDock(historyPanelDock ? null : 'right')}
+        className={`px-3 py-1 text-sm font-medium rounded transition-colors ${
+          historyPanelDock
+            ? 'bg-gray-600 text-white hover:bg-gray-500'
+            : 'text-gray-300 hover:text-white bg-panel-bg hover:bg-gray-700'
+        }`}
+        title={historyPanelDock ? 'Hide history panel' : 'Show history panel'}
+      >
+        History
+      </button>
     </div>
   );
 }
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { TabPresence } from '../../utils/tabSync';
+
+interface TabConflictBannerProps {
+  otherTabs: TabPresence[];
+}
+
+/**
+ * Warning shown when the active project is also open in another browser tab
+ * Editing it in both would let each tab save over the other's work, so this tab can be made read-only.
+ */
+function TabConflictBanner({ otherTabs }: TabConflictBannerProps) {
+  const projectKey = useCompositorStore((state) => state.project.created);
+  const projectName = useCompositorStore((state) => state.project.projectName);
+  const isReadOnly = useCompositorStore((state) => state.isReadOnly);
+  const setReadOnly = useCompositorStore((state) => state.setReadOnly);
+  const [dismissedKeys, setDismissedKeys] = useState<Set<string>>(new Set());
+
+  const isOpenElsewhere = otherTabs.some((tab) => tab.projects.some((project) => project.key === projectKey));
+
+  if (isReadOnly) {
+    return (
+      <div className="flex items-center gap-3 px-3 py-1 text-xs bg-slate-800 border-b border-border text-slate-300">
+        <span>🔒</span>
+        <span className="flex-1">
+          '{projectName}' is read-only in this tab{isOpenElsewhere && ' while it is open in another tab'}. You can still pan and zoom.
+        </span>
+        <button
+          onClick={() => setReadOnly(false)}
+          className="px-2 py-0.5 text-slate-200 bg-slate-700 hover:bg-slate-600 rounded transition-colors"
+        >
+          Make editable
+        </button>
+      </div>
+    );
+  }
+
+  if (!isOpenElsewhere || dismissedKeys.has(projectKey)) return null;
+
+  return (
+    <div
+      className="flex items-center gap-3 px-3 py-1 text-xs bg-yellow-900/30 border-b border-yellow-700 text-yellow-200"
+      role="alert"
+    >
+      <span className="text-yellow-500">⚠️</span>
+      <span className="flex-1">
+        '{projectName}' is also open in another PixelConnect tab. Changes made here won't show up there, and saving
+        from both tabs can overwrite work.
+      </span>
+      <button
+        onClick={() => setReadOnly(true)}
+        className="px-2 py-0.5 text-white bg-yellow-700 hover:bg-yellow-600 rounded transition-colors"
+      >
+        Read-only in this tab
+      </button>
+      <button
+        onClick={() => setDismissedKeys((keys) => new Set([...keys, projectKey]))}
+        className="px-2 py-0.5 text-yellow-200 hover:text-white transition-colors"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
+
+export default TabConflictBanner;
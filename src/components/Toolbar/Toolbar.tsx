@@ -19,6 +19,7 @@ function Toolbar() {
   const toggleSelectionTools = useCompositorStore((state) => state.toggleSelectionTools);
   const borderAnimationSpeed = useCompositorStore((state) => state.ui.selectionBorderAnimationSpeed);
   const setSelectionBorderAnimationSpeed = useCompositorStore((state) => state.setSelectionBorderAnimationSpeed);
+  const historyPanelDock = useCompositorStore((state) => state.ui.historyPanelDock);
   const [isEditingName, setIsEditingName] = useState(false);
   const [tempName, setTempName] = useState(project.projectName);
 
@@ -27,8 +28,9 @@ function Toolbar() {
     const preferences = loadPreferences();
     preferences.showSelectionBorders = showSelectionBorders;
     preferences.selectionBorderAnimationSpeed = borderAnimationSpeed;
+    preferences.historyPanelDock = historyPanelDock;
     savePreferences(preferences);
-  }, [showSelectionBorders, borderAnimationSpeed]);
+  }, [showSelectionBorders, borderAnimationSpeed, historyPanelDock]);
 
   const handleNameSave = () => {
     if (tempName.trim()) {
@@ -1,61 +1,84 @@
-import { useEffect, useRef } from 'react';
-import useCompositorStore from '../store/compositorStore';
-import { saveToCache, loadFromCache } from '../utils/autoSave';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import useCompositorStore, { getOpenDocuments } from '../store/compositorStore';
+import { saveToCache, saveSnapshot, listSnapshots, getCachedSessionSize } from '../utils/autoSave';
+import { discoverOtherTabs } from '../utils/tabSync';
 
 const AUTO_SAVE_DELAY = 2000; // 2 seconds debounce
 
+/**
+ * Autosave of every open tab: the open tabs as a session, plus timestamped snapshots per project
+ * Nothing is restored automatically - if anything was saved, the recovery dialog is opened on
+ * startup, and autosaving starts once it is closed (so the empty startup project can't overwrite it).
+ * Work that other open browser tabs are still autosaving is not offered (see openTabIds).
+ */
 export function useAutoSave() {
   const project = useCompositorStore((state) => state.project);
-  const loadProject = useCompositorStore((state) => state.loadProject);
+  const documents = useCompositorStore((state) => state.documents);
   const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
-  const isLoadedRef = useRef(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isRecoveryOpen, setIsRecoveryOpen] = useState(false);
+  const [openTabIds, setOpenTabIds] = useState<string[]>([]);
 
-  // Load from cache on mount
+  // Look for recoverable work on mount
   useEffect(() => {
     const init = async () => {
-      if (isLoadedRef.current) return;
-      
       try {
-        const cachedProject = await loadFromCache();
-        if (cachedProject) {
-          console.log('[AutoSave] Restoring cached project...');
-          // Filter out preview layers before loading
-          const filtered = {
-            ...cachedProject,
-            layers: cachedProject.layers.filter(
-              l => l.id !== '__text_canvas_preview__' && l.id !== '__shape_canvas_preview__'
-            )
-          };
-          loadProject(filtered);
+        // Other tabs are found first, so a duplicated tab gets its own id before anything is read or saved
+        const tabIds = (await discoverOtherTabs()).map((tab) => tab.tabId);
+        setOpenTabIds(tabIds);
+        const [snapshots, sessionSize] = await Promise.all([listSnapshots(tabIds), getCachedSessionSize(tabIds)]);
+        if (snapshots.length > 0 || sessionSize > 0) {
+          console.log(`[AutoSave] Found ${snapshots.length} snapshot(s) and ${sessionSize} cached tab(s)`);
+          setIsRecoveryOpen(true);
+          return;
         }
       } catch (error) {
-        console.error('[AutoSave] Failed to restore project:', error);
-      } finally {
-        isLoadedRef.current = true;
+        console.error('[AutoSave] Failed to look for cached projects:', error);
       }
+      setIsLoaded(true);
     };
-    
+
     init();
-  }, [loadProject]);
+  }, []);
 
-  // Save to cache when project changes
+  const closeRecovery = useCallback(() => {
+    setIsRecoveryOpen(false);
+    setIsLoaded(true);
+  }, []);
+
+  // Save to cache when any open project changes
   useEffect(() => {
-    if (!isLoadedRef.current) return; // Don't save before initial load attempt
-    
+    if (!isLoaded) return; // Don't save before the user has dealt with the recovery dialog
+
     if (timeoutRef.current) {
       clearTimeout(timeoutRef.current);
     }
 
-    timeoutRef.current = setTimeout(() => {
-      // Filter out preview layers before saving
-      const projectToSave = {
-        ...project,
-        layers: project.layers.filter(
-          l => l.id !== '__text_canvas_preview__' && l.id !== '__shape_canvas_preview__'
-        )
-      };
-      // console.log('[AutoSave] Saving project to cache...');
-      saveToCache(projectToSave);
+    timeoutRef.current = setTimeout(async () => {
+      const state = useCompositorStore.getState();
+      // Filter out preview layers before saving; empty projects are not worth recovering
+      const documentsToSave = getOpenDocuments(state)
+        .map(({ id, project: openProject, isReadOnly }) => ({
+          id,
+          isReadOnly,
+          project: {
+            ...openProject,
+            layers: openProject.layers.filter(
+              l => l.id !== '__text_canvas_preview__' && l.id !== '__shape_canvas_preview__'
+            ),
+          },
+        }))
+        .filter(({ project: openProject }) => openProject.layers.length > 0);
+
+      // console.log('[AutoSave] Saving open projects to cache...');
+      await saveToCache(
+        documentsToSave.map((d) => d.project),
+        Math.max(0, documentsToSave.findIndex((d) => d.id === state.activeDocumentId))
+      );
+      // A read-only tab can't change its project, so the tab editing it keeps its snapshots
+      for (const { project: projectToSave } of documentsToSave.filter((d) => !d.isReadOnly)) {
+        await saveSnapshot(projectToSave);
+      }
     }, AUTO_SAVE_DELAY);
 
     return () => {
@@ -63,5 +86,7 @@ export function useAutoSave() {
         clearTimeout(timeoutRef.current);
       }
     };
-  }, [project]);
+  }, [project, documents, isLoaded]);
+
+  return { isRecoveryOpen, closeRecovery, openTabIds };
 }
@@ -21,6 +21,8 @@ export function useKeyboardShortcuts() {
   const pasteSelectedLayers = useCompositorStore((state) => state.pasteSelectedLayers);
   const pasteFromClipboard = useCompositorStore((state) => state.pasteFromClipboard);
   const reorderSelectedLayers = useCompositorStore((state) => state.reorderSelectedLayers);
+  const createGroup = useCompositorStore((state) => state.createGroup);
+  const transformSelectedLayers = useCompositorStore((state) => state.transformSelectedLayers);
 
   const isPanningRef = useRef(false);
   const panStartXRef = useRef(0);
@@ -178,6 +180,33 @@ export function useKeyboardShortcuts() {
         return;
       }
 
+      // Ctrl/Cmd + G: Group selected layers
+      if (isCtrlOrCmd && event.key === 'g') {
+        event.preventDefault();
+        if (selectedLayerIds.length > 0) {
+          createGroup();
+        }
+        return;
+      }
+
+      // Shift + H / Shift + V: Flip selected layers horizontally / vertically
+      if (isShift && !isCtrlOrCmd && (event.key.toLowerCase() === 'h' || event.key.toLowerCase() === 'v')) {
+        if (selectedLayerIds.length > 0) {
+          event.preventDefault();
+          transformSelectedLayers(event.key.toLowerCase() === 'h' ? 'flipH' : 'flipV');
+        }
+        return;
+      }
+
+      // R / Shift + R: Rotate selected layers 90° clockwise / counter-clockwise
+      if (!isCtrlOrCmd && event.key.toLowerCase() === 'r') {
+        if (selectedLayerIds.length > 0) {
+          event.preventDefault();
+          transformSelectedLayers(isShift ? 'rotate270' : 'rotate90');
+        }
+        return;
+      }
+
       // Ctrl/Cmd + C: Copy selected layers
       if (isCtrlOrCmd && event.key === 'c') {
         if (selectedLayerIds.length > 0) {
@@ -302,6 +331,8 @@ export function useKeyboardShortcuts() {
     pasteSelectedLayers,
     pasteFromClipboard,
     reorderSelectedLayers,
+    createGroup,
+    transformSelectedLayers,
   ]);
 }
 
@@ -16,6 +16,9 @@ interface StoredPreferences {
   // Border settings
   showSelectionBorders?: boolean;
   selectionBorderAnimationSpeed?: number;
+
+  // Panel layout
+  historyPanelDock?: 'left' | 'right' | null;
   
   // Canvas border settings
   canvasBorderColor?: string;
@@ -77,6 +80,9 @@ export function useInitializePreferences(): void {
     if (preferences.selectionBorderAnimationSpeed !== undefined) {
       useCompositorStore.getState().setSelectionBorderAnimationSpeed(preferences.selectionBorderAnimationSpeed);
     }
+    if (preferences.historyPanelDock !== undefined) {
+      useCompositorStore.getState().setHistoryPanelDock(preferences.historyPanelDock);
+    }
     
     // Apply canvas border settings
     const canvasUpdates: any = {};
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import useCompositorStore from '../store/compositorStore';
+import { AppState } from '../types/compositor.types';
+import {
+  getTabId,
+  INSTANCE_ID,
+  OpenProjectInfo,
+  openTabChannel,
+  resolveTabId,
+  TabMessage,
+  TabPresence,
+} from '../utils/tabSync';
+
+/**
+ * Projects open in this browser tab, as announced to the others
+ * Untouched empty projects are left out - they can't be edited twice.
+ */
+function getOpenProjects(state: AppState): OpenProjectInfo[] {
+  return state.documents
+    .map((document) => (document.id === state.activeDocumentId ? state.project : document.project))
+    .filter((project) => project.layers.length > 0)
+    .map((project) => ({ key: project.created, name: project.projectName }));
+}
+
+/**
+ * Cross-tab awareness: announces the projects open here to other PixelConnect browser tabs
+ * and keeps track of theirs, so opening a project that is already open elsewhere can be flagged.
+ */
+export function useTabSync() {
+  // Compared as a string, so only opening, closing or renaming a project announces it again
+  const openProjects = useCompositorStore((state) => JSON.stringify(getOpenProjects(state)));
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const [otherTabs, setOtherTabs] = useState<TabPresence[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const post = (message: TabMessage) => channelRef.current?.postMessage(message);
+    const postProjects = () =>
+      post({
+        type: 'projects',
+        tabId: getTabId(),
+        instanceId: INSTANCE_ID,
+        projects: getOpenProjects(useCompositorStore.getState()),
+      });
+
+    const handlePageHide = () => post({ type: 'bye', tabId: getTabId(), instanceId: INSTANCE_ID });
+
+    // A duplicated tab starts with the original's id - only announce this tab once it has its own
+    resolveTabId().then(() => {
+      if (cancelled) return;
+      channelRef.current = openTabChannel((message) => {
+        switch (message.type) {
+          case 'hello':
+            postProjects();
+            break;
+          case 'projects':
+            // A duplicated tab announces itself under this tab's id until it has taken a new one
+            if (message.tabId === getTabId()) break;
+            setOtherTabs((tabs) => [
+              ...tabs.filter((tab) => tab.tabId !== message.tabId),
+              { tabId: message.tabId, projects: message.projects },
+            ]);
+            break;
+          case 'bye':
+            setOtherTabs((tabs) => tabs.filter((tab) => tab.tabId !== message.tabId));
+            break;
+        }
+      });
+      if (!channelRef.current) {
+        console.log('[TabSync] BroadcastChannel not supported, other tabs are not detected');
+        return;
+      }
+
+      post({ type: 'hello', tabId: getTabId(), instanceId: INSTANCE_ID });
+      // Projects announced before the id was settled went out under the copied id and were ignored
+      postProjects();
+      window.addEventListener('pagehide', handlePageHide);
+    });
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('pagehide', handlePageHide);
+      handlePageHide();
+      channelRef.current?.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  // Announce changes to the open projects
+  useEffect(() => {
+    const message: TabMessage = {
+      type: 'projects',
+      tabId: getTabId(),
+      instanceId: INSTANCE_ID,
+      projects: JSON.parse(openProjects),
+    };
+    channelRef.current?.postMessage(message);
+  }, [openProjects]);
+
+  return { otherTabs };
+}
@@ -3,59 +3,58 @@
  * Handles project data, layers, selection, and UI state
  */
 
-import { create } from 'zustand';
+import { create, StateCreator } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { 
+  AnimationConfig,
   AppState, 
-  ProjectData, 
+  Artboard,
+  Slice,
+  ProjectData,
+  ProjectLoadReport, 
   Layer, 
+  LayerInput,
+  LayerUpdate,
+  LayerGroup,
+  LayerMask,
+  LayerMaskUpdate,
   CanvasConfig,
   ViewportState,
   ProjectMetadata,
   HistoryState,
+  OpenDocument,
   UIState
 } from '../types/compositor.types';
 import { blobToDataUrl, dataUrlToBlob, compositeLayersToBlob } from '../utils/imageProcessing';
 import { rasterizeText } from '../utils/textRasterizer';
-
-// Default project configuration
-const DEFAULT_PROJECT_DATA: ProjectData = {
-  version: '1.0.0',
-  projectName: 'Untitled',
-  created: new Date().toISOString(),
-  modified: new Date().toISOString(),
-  canvas: {
-    width: 3276,
-    height: 3276,
-    backgroundColor: null, // Transparent by default
-    borderColor: '#000000',
-    borderWidth: 0,
-    borderOpacity: 1,
-    borderEnabled: true,
-    shadowIntensity: 0.5,
-    showCheckeredBackground: false,
-    dragInfoEnabled: true,
-  },
-  viewport: {
-    zoom: 100,
-    panX: 0,
-    panY: 0,
-  },
-  grid: {
-    enabled: false,
-    density: 4,
-  },
-  rulers: {
-    enabled: false,
-    guides: [],
-  },
-  layers: [],
-  metadata: {
-    author: '',
-    description: '',
-    tags: [],
-  },
-};
+import { applyMaskToImage, createMaskDataUrl } from '../utils/layerMasks';
+import { getLayerScale, TransformOperation, transformLayers } from '../utils/layerTransforms';
+import { createHistoryEntry, applyHistoryEntry } from '../utils/historyPatch';
+import { addAsset, getInlineMask, getLayerImage, internLayerImages, pruneAssets } from '../utils/assets';
+import { DEFAULT_PROJECT_DATA } from '../utils/projectDefaults';
+import { createArtboard, fitWorkspaceToArtboards, keepExistingArtboards } from '../utils/artboards';
+import { createSlice, getLayersExportBounds } from '../utils/slices';
+import {
+  applyFrame,
+  createFrame,
+  getFrameLayers,
+  getSyncedFrames,
+  MAX_FRAME_DURATION,
+  MAX_ONION_SKIN_FRAMES,
+  MIN_FRAME_DURATION,
+  switchToFrame,
+} from '../utils/animation';
+import {
+  getGroupAndDescendantIds,
+  getGroupLayers,
+  getLayerClipBases,
+  isLayerLocked,
+  normalizeLayerOrder,
+  pruneEmptyGroups,
+  releaseClip,
+  removeFromGroup,
+  reorderTreeNodes,
+} from '../utils/layerGroups';
 
 const DEFAULT_HISTORY: HistoryState = {
   past: [],
@@ -69,15 +68,269 @@ const DEFAULT_UI: UIState = {
   showSelectionBorders: true,
   showSelectionTools: true,
   selectionBorderAnimationSpeed: 0.1,
+  historyPanelDock: null,
+  libraryView: null,
   clipboardLayers: [],
+  clipboardAssets: {},
   isDraggingLayer: false,
   dragLayerId: null,
   dragStartX: 0,
   dragStartY: 0,
   dragOffsetX: 0,
   dragOffsetY: 0,
+  maskEditLayerId: null,
+  maskBrush: { mode: 'brush', size: 1 },
+  loadReport: null,
+  playbackFrame: null,
+};
+
+/**
+ * Record the changes between two project states as a new undo step
+ * Clears the redo stack and enforces maxSteps; no-op if nothing undoable changed
+ */
+function recordHistoryEntry(
+  history: HistoryState,
+  before: ProjectData,
+  after: ProjectData,
+  label: string = 'Edit'
+): HistoryState {
+  const entry = createHistoryEntry(before, after, label);
+  if (!entry) return history;
+
+  const newPast = [...history.past, entry];
+  if (newPast.length > history.maxSteps) {
+    newPast.shift();
+  }
+
+  return {
+    ...history,
+    past: newPast,
+    future: [],
+  };
+}
+
+/**
+ * Drop editor preview layers and unused images from a project that is about to be opened
+ */
+function prepareLoadedProject(projectData: ProjectData): ProjectData {
+  const layers = projectData.layers.filter(
+    l => l.id !== '__text_canvas_preview__' && l.id !== '__shape_canvas_preview__'
+  );
+  return {
+    ...projectData,
+    layers,
+    assets: pruneAssets(projectData.assets, layers),
+  };
+}
+
+/**
+ * A new empty project with its own creation time (which also keys its autosave snapshots)
+ */
+function createEmptyProject(): ProjectData {
+  const now = new Date().toISOString();
+  return { ...DEFAULT_PROJECT_DATA, created: now, modified: now };
+}
+
+/**
+ * A fresh, clean tab holding the given project
+ */
+function createDocument(project: ProjectData): OpenDocument {
+  return {
+    id: `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    project,
+    selectedLayerIds: [],
+    isDirty: false,
+    history: DEFAULT_HISTORY,
+    _historyBase: project,
+    isReadOnly: false,
+  };
+}
+
+/**
+ * Capture the active tab from the top-level state, committing changes the
+ * history debounce has not recorded yet so they are not lost on a tab switch
+ */
+function snapshotActiveDocument(state: AppState): OpenDocument {
+  // Unused images are left in place: pruning here would show up as an edit nobody made
+  // (they are dropped with the next recorded edit and when saving)
+  return {
+    id: state.activeDocumentId,
+    project: state.project,
+    selectedLayerIds: state.selectedLayerIds,
+    isDirty: state.isDirty,
+    history: recordHistoryEntry(state.history, state._historyBase, state.project, state._pendingHistoryLabel),
+    _historyBase: state.project,
+    isReadOnly: state.isReadOnly,
+  };
+}
+
+/**
+ * Top-level state for making a tab active
+ * Per-canvas UI (drags, mask editing, playback) is reset; the layer clipboard is kept so layers can be pasted across tabs
+ */
+function activateDocument(document: OpenDocument, ui: UIState): Partial<AppState> {
+  return {
+    activeDocumentId: document.id,
+    project: document.project,
+    selectedLayerIds: document.selectedLayerIds,
+    isDirty: document.isDirty,
+    history: document.history,
+    _historyBase: document._historyBase,
+    _pendingHistoryLabel: undefined,
+    isReadOnly: document.isReadOnly,
+    ui: {
+      ...ui,
+      isDraggingLayer: false,
+      dragLayerId: null,
+      maskEditLayerId: null,
+      playbackFrame: null,
+    },
+  };
+}
+
+/**
+ * Every open tab with the active one's live state, in display order
+ */
+export function getOpenDocuments(state: AppState): OpenDocument[] {
+  return state.documents.map((document) =>
+    document.id === state.activeDocumentId ? snapshotActiveDocument(state) : document
+  );
+}
+
+const INITIAL_DOCUMENT = createDocument(DEFAULT_PROJECT_DATA);
+
+/**
+ * Check whether a project change only shows another animation frame (same frames, different active one)
+ */
+function isFrameNavigation(before: ProjectData, after: ProjectData): boolean {
+  const { frames, activeFrame } = after.animation;
+  return (
+    activeFrame !== before.animation.activeFrame &&
+    frames.length === before.animation.frames.length &&
+    frames.every((frame, i) => frame.id === before.animation.frames[i].id)
+  );
+}
+
+/**
+ * A state change with its project edits dropped while the active tab is read-only
+ * Pan/zoom, selection, switching frames and switching tabs still go through, as does turning read-only off.
+ */
+function withoutReadOnlyEdits<T extends AppState>(state: T, next: Partial<T>): Partial<T> {
+  const switchesDocument = next.activeDocumentId !== undefined && next.activeDocumentId !== state.activeDocumentId;
+  if (!state.isReadOnly || next.isReadOnly === false || switchesDocument) return next;
+
+  const allowed = { ...next };
+  delete allowed.isDirty;
+  delete allowed.history;
+  delete allowed._historyBase;
+  delete allowed._pendingHistoryLabel;
+  if (next.project && isFrameNavigation(state.project, next.project)) {
+    allowed.project = {
+      ...state.project,
+      viewport: next.project.viewport,
+      layers: next.project.layers,
+      animation: next.project.animation,
+    };
+    allowed._historyBase = allowed.project;
+  } else if (next.project && next.project.viewport !== state.project.viewport) {
+    allowed.project = { ...state.project, viewport: next.project.viewport };
+  } else {
+    delete allowed.project;
+  }
+  return allowed;
+}
+
+/**
+ * A state change that keeps the label of changes the history debounce has not recorded yet
+ * Several actions within one debounce window become one undo step, named after the first of them.
+ */
+function withFirstHistoryLabel<T extends AppState>(state: T, next: Partial<T>): Partial<T> {
+  const hasPendingChanges = state._pendingHistoryLabel !== undefined && state.project !== state._historyBase;
+  if (!hasPendingChanges || next._pendingHistoryLabel === undefined || '_historyBase' in next) return next;
+  return { ...next, _pendingHistoryLabel: state._pendingHistoryLabel };
+}
+
+type CompositorStoreCreator = StateCreator<CompositorStore, [['zustand/devtools', never]], []>;
+
+/**
+ * Store middleware that routes every state change through withoutReadOnlyEdits and withFirstHistoryLabel,
+ * including useCompositorStore.setState calls (e.g. from async actions)
+ */
+function readOnlyGuard(config: CompositorStoreCreator): CompositorStoreCreator {
+  return (set, get, api) => {
+    const guardedSet: typeof set = (partial, replace, action) =>
+      set(
+        (state) => withoutReadOnlyEdits(state, withFirstHistoryLabel(state, typeof partial === 'function' ? partial(state) : partial)),
+        replace,
+        action
+      );
+    api.setState = guardedSet;
+    return config(guardedSet, get, api);
+  };
+}
+
+/**
+ * History label for an action on one or more layers, e.g. "Move 'hero.png'" or "Move 3 layers"
+ */
+function describeLayers(verb: string, layers: Layer[]): string {
+  return layers.length === 1 ? `${verb} '${layers[0].name}'` : `${verb} ${layers.length} layers`;
+}
+
+/**
+ * Default history label for a generic layer update, based on which fields changed
+ */
+function describeLayerUpdate(layer: Layer | undefined, updates: LayerUpdate): string {
+  if (!layer) return 'Edit layer';
+  if ('name' in updates) return `Rename '${layer.name}' to '${updates.name}'`;
+  if ('visible' in updates) return `${updates.visible ? 'Show' : 'Hide'} '${layer.name}'`;
+  if ('locked' in updates) return `${updates.locked ? 'Lock' : 'Unlock'} '${layer.name}'`;
+  if ('opacity' in updates) return `Change opacity of '${layer.name}'`;
+  if ('effects' in updates) return `Edit effects of '${layer.name}'`;
+  if ('mask' in updates) return `Edit mask of '${layer.name}'`;
+  if ('clipToBelow' in updates) {
+    return updates.clipToBelow ? `Clip '${layer.name}' to layer below` : `Release clip of '${layer.name}'`;
+  }
+  if ('blendMode' in updates) return `Set blend mode of '${layer.name}' to ${updates.blendMode}`;
+  if ('scaleX' in updates || 'scaleY' in updates) {
+    const { x, y } = getLayerScale({ ...layer, ...updates });
+    return `Scale '${layer.name}' to ${x === y ? `${x}×` : `${x}×${y}`}`;
+  }
+  if ('x' in updates || 'y' in updates) return `Move '${layer.name}'`;
+  return `Edit '${layer.name}'`;
+}
+
+// History label suffixes for flip/rotate, e.g. "Flip 'hero.png' horizontally"
+const TRANSFORM_LABELS: Record<TransformOperation, [string, string]> = {
+  flipH: ['Flip', 'horizontally'],
+  flipV: ['Flip', 'vertically'],
+  rotate90: ['Rotate', '90° clockwise'],
+  rotate180: ['Rotate', '180°'],
+  rotate270: ['Rotate', '90° counter-clockwise'],
 };
 
+/**
+ * Default history label for a mask update, based on which fields changed
+ */
+function describeMaskUpdate(layer: Layer | undefined, updates: LayerMaskUpdate): string {
+  if (!layer) return 'Edit mask';
+  if ('enabled' in updates) return `${updates.enabled ? 'Enable' : 'Disable'} mask of '${layer.name}'`;
+  if ('inverted' in updates) return `Invert mask of '${layer.name}'`;
+  return `Edit mask of '${layer.name}'`;
+}
+
+/**
+ * Default history label for a group update, based on which fields changed
+ */
+function describeGroupUpdate(group: LayerGroup | undefined, updates: Partial<LayerGroup>): string {
+  if (!group) return 'Edit group';
+  if ('name' in updates) return `Rename group '${group.name}' to '${updates.name}'`;
+  if ('visible' in updates) return `${updates.visible ? 'Show' : 'Hide'} group '${group.name}'`;
+  if ('locked' in updates) return `${updates.locked ? 'Lock' : 'Unlock'} group '${group.name}'`;
+  if ('opacity' in updates) return `Change opacity of group '${group.name}'`;
+  if ('collapsed' in updates) return `${updates.collapsed ? 'Collapse' : 'Expand'} group '${group.name}'`;
+  return `Edit group '${group.name}'`;
+}
+
 interface CompositorStore extends AppState {
   // Project operations
   setProjectName: (name: string) => void;
@@ -86,9 +339,9 @@ interface CompositorStore extends AppState {
   setProjectMetadata: (metadata: Partial<ProjectMetadata>) => void;
 
   // Layer operations
-  addLayer: (layer: Omit<Layer, 'id'> & { id?: string }) => void;
+  addLayer: (layer: LayerInput) => void;
   removeLayer: (layerId: string) => void;
-  updateLayer: (layerId: string, updates: Partial<Layer>) => void;
+  updateLayer: (layerId: string, updates: LayerUpdate, historyLabel?: string) => void;
   duplicateLayer: (layerId: string) => void;
   moveLayer: (layerId: string, deltaX: number, deltaY: number) => void;
   reorderLayer: (layerId: string, direction: 'up' | 'down') => void;
@@ -96,6 +349,23 @@ interface CompositorStore extends AppState {
   bringLayerToFront: (layerId: string) => void;
   sendLayerToBack: (layerId: string) => void;
 
+  // Mask operations
+  addLayerMask: (layerId: string) => void;
+  updateLayerMask: (layerId: string, updates: LayerMaskUpdate, historyLabel?: string) => void;
+  removeLayerMask: (layerId: string) => void;
+  applyLayerMask: (layerId: string) => Promise<void>;
+  setMaskEditLayer: (layerId: string | null) => void;
+  setMaskBrush: (brush: Partial<UIState['maskBrush']>) => void;
+
+  // Group operations
+  createGroup: (name?: string) => void;
+  ungroup: (groupId: string) => void;
+  updateGroup: (groupId: string, updates: Partial<LayerGroup>, historyLabel?: string) => void;
+  duplicateGroup: (groupId: string) => void;
+  deleteGroup: (groupId: string) => void;
+  reorderGroup: (groupId: string, direction: 'up' | 'down' | 'top' | 'bottom') => void;
+  selectGroup: (groupId: string, multiSelect?: boolean) => void;
+
   // Multi-layer operations
   selectLayer: (layerId: string, multiSelect?: boolean) => void;
   selectAllLayers: () => void;
@@ -104,6 +374,7 @@ interface CompositorStore extends AppState {
   moveSelectedLayers: (deltaX: number, deltaY: number) => void;
   deleteSelectedLayers: () => void;
   toggleVisibilitySelected: () => void;
+  transformSelectedLayers: (operation: TransformOperation) => void;
 
   // Drag operations
   startDraggingLayer: (layerId: string, startX: number, startY: number) => void;
@@ -114,6 +385,7 @@ interface CompositorStore extends AppState {
   pushHistory: () => void;
   undo: () => void;
   redo: () => void;
+  jumpToHistoryEntry: (entryId: string | null) => void;
 
   // UI operations
   setActiveTool: (tool: 'select' | 'pan' | 'zoom') => void;
@@ -123,30 +395,63 @@ interface CompositorStore extends AppState {
   toggleSelectionBorders: () => void;
   toggleSelectionTools: () => void;
   setSelectionBorderAnimationSpeed: (speed: number) => void;
+  setHistoryPanelDock: (dock: 'left' | 'right' | null) => void;
+  setLibraryView: (view: UIState['libraryView']) => void;
   copySelectedLayers: () => void;
   copySelectedLayersToClipboard: () => Promise<void>;
   pasteSelectedLayers: () => void;
   pasteFromClipboard: () => Promise<void>;
 
+  // Artboard operations
+  addArtboard: (width?: number, height?: number) => void;
+  updateArtboard: (artboardId: string, updates: Partial<Artboard>, historyLabel?: string) => void;
+  removeArtboard: (artboardId: string) => void;
+
+  // Slice operations
+  addSlice: () => void;
+  updateSlice: (sliceId: string, updates: Partial<Slice>, historyLabel?: string) => void;
+  removeSlice: (sliceId: string) => void;
+
+  // Animation operations
+  addFrame: () => void;
+  removeFrame: (index: number) => void;
+  setActiveFrame: (index: number) => void;
+  moveFrame: (index: number, direction: 'left' | 'right') => void;
+  setFrameDuration: (index: number, duration: number) => void;
+  setAnimationConfig: (config: Partial<Pick<AnimationConfig, 'playbackMode' | 'onionSkin'>>) => void;
+  setPlaybackFrame: (index: number | null) => void;
+
   // Canvas operations
   cropCanvasToLayers: () => void;
 
+  // Document tab operations
+  newDocument: () => void;
+  switchDocument: (documentId: string) => void;
+  closeDocument: (documentId: string) => void;
+  restoreDocuments: (projects: ProjectData[], activeIndex: number, report?: ProjectLoadReport) => void;
+  setReadOnly: (readOnly: boolean) => void;
+
   // File operations
   resetProject: () => void;
-  loadProject: (projectData: ProjectData) => void;
+  loadProject: (projectData: ProjectData, report?: ProjectLoadReport) => void;
+  dismissLoadReport: () => void;
   markDirty: () => void;
   markClean: () => void;
 }
 
 const useCompositorStore = create<CompositorStore>()(
   devtools(
-    (set) => ({
+    readOnlyGuard((set) => ({
       // Initial state
       project: DEFAULT_PROJECT_DATA,
       selectedLayerIds: [],
       isDirty: false,
       history: DEFAULT_HISTORY,
-      ui: DEFAULT_UI,
+      ui: { ...DEFAULT_UI, libraryView: 'start' }, // The app opens on the project library
+      _historyBase: DEFAULT_PROJECT_DATA,
+      documents: [INITIAL_DOCUMENT],
+      activeDocumentId: INITIAL_DOCUMENT.id,
+      isReadOnly: false,
 
       // Project operations
       setProjectName: (name: string) => {
@@ -157,6 +462,7 @@ const useCompositorStore = create<CompositorStore>()(
             modified: new Date().toISOString(),
           },
           isDirty: true,
+          _pendingHistoryLabel: `Rename project to '${name}'`,
         }));
       },
 
@@ -164,13 +470,12 @@ const useCompositorStore = create<CompositorStore>()(
         set((state) => ({
           project: {
             ...state.project,
-            canvas: {
-              ...state.project.canvas,
-              ...config,
-            },
+            // The workspace can't be made smaller than its artboards
+            canvas: fitWorkspaceToArtboards({ ...state.project.canvas, ...config }, state.project.artboards),
             modified: new Date().toISOString(),
           },
           isDirty: true,
+          _pendingHistoryLabel: 'Change canvas settings',
         }));
       },
 
@@ -198,55 +503,75 @@ const useCompositorStore = create<CompositorStore>()(
             modified: new Date().toISOString(),
           },
           isDirty: true,
+          _pendingHistoryLabel: 'Edit project info',
         }));
       },
 
       // Layer operations
-      addLayer: (layer: Omit<Layer, 'id'> & { id?: string }) => {
-        set((state) => ({
-          project: {
-            ...state.project,
-            layers: [
-              ...state.project.layers,
-              {
-                ...layer,
-                id: layer.id || `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-              },
-            ],
-            modified: new Date().toISOString(),
-          },
-          isDirty: true,
-        }));
+      addLayer: (layer: LayerInput) => {
+        set((state) => {
+          const { imageData, ...fields } = layer;
+          const { assets, assetId } = addAsset(state.project.assets, imageData);
+          return {
+            project: {
+              ...state.project,
+              layers: [
+                ...state.project.layers,
+                {
+                  ...fields,
+                  assetId,
+                  id: layer.id || `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                },
+              ],
+              assets,
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Add layer '${layer.name}'`,
+          };
+        });
       },
 
       removeLayer: (layerId: string) => {
-        set((state) => ({
-          project: {
-            ...state.project,
-            layers: state.project.layers.filter((l) => l.id !== layerId),
-            modified: new Date().toISOString(),
-          },
-          selectedLayerIds: state.selectedLayerIds.filter((id) => id !== layerId),
-          isDirty: true,
-        }));
+        set((state) => {
+          const layers = state.project.layers.filter((l) => l.id !== layerId);
+          return {
+            project: {
+              ...state.project,
+              layers,
+              groups: pruneEmptyGroups(layers, state.project.groups),
+              modified: new Date().toISOString(),
+            },
+            selectedLayerIds: state.selectedLayerIds.filter((id) => id !== layerId),
+            isDirty: true,
+            _pendingHistoryLabel: describeLayers('Delete', state.project.layers.filter((l) => l.id === layerId)),
+          };
+        });
       },
 
-      updateLayer: (layerId: string, updates: Partial<Layer>) => {
-        set((state) => ({
-          project: {
-            ...state.project,
-            layers: state.project.layers.map((layer) =>
-              layer.id === layerId
-                ? {
-                    ...layer,
-                    ...updates,
-                  }
-                : layer
-            ),
-            modified: new Date().toISOString(),
-          },
-          isDirty: true,
-        }));
+      updateLayer: (layerId: string, updates: LayerUpdate, historyLabel?: string) => {
+        set((state) => {
+          // New pixels go into the asset table; the layer keeps only the asset id
+          const { assets, layers: [fields] } = internLayerImages(state.project.assets, [updates]);
+          return {
+            project: {
+              ...state.project,
+              layers: state.project.layers.map((layer) =>
+                layer.id === layerId
+                  ? {
+                      ...layer,
+                      ...fields,
+                    }
+                  : layer
+              ),
+              assets,
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel:
+              historyLabel ?? describeLayerUpdate(state.project.layers.find((l) => l.id === layerId), updates),
+          };
+        });
       },
 
       duplicateLayer: (layerId: string) => {
@@ -254,51 +579,65 @@ const useCompositorStore = create<CompositorStore>()(
           const layerToClone = state.project.layers.find((l) => l.id === layerId);
           if (!layerToClone) return state;
 
+          // Grouped and clipped layers are duplicated in place (just above the original)
+          // so the copy stays in its group and clipped to the same base
+          const inPlace = !!layerToClone.groupId || !!layerToClone.clipToBelow;
           const newLayer: Layer = {
             ...layerToClone,
             id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
             name: `${layerToClone.name} (copy)`,
-            zIndex: Math.max(...state.project.layers.map((l) => l.zIndex), 0) + 1,
+            zIndex: inPlace
+              ? layerToClone.zIndex + 0.5
+              : Math.max(...state.project.layers.map((l) => l.zIndex), 0) + 1,
           };
+          const layers = [...state.project.layers, newLayer];
 
           return {
             project: {
               ...state.project,
-              layers: [...state.project.layers, newLayer],
+              layers: inPlace ? normalizeLayerOrder(layers, state.project.groups) : layers,
               modified: new Date().toISOString(),
             },
             isDirty: true,
+            _pendingHistoryLabel: `Duplicate '${layerToClone.name}'`,
           };
         });
       },
 
       moveLayer: (layerId: string, deltaX: number, deltaY: number) => {
         set((state) => {
-          const currentState = useCompositorStore.getState();
-          const newPast = [...currentState.history.past, currentState.project];
-          if (newPast.length > currentState.history.maxSteps) {
-            newPast.shift();
-          }
+          // Commit any pending changes first so the move is its own undo step
+          const pendingHistory = recordHistoryEntry(
+            state.history,
+            state._historyBase,
+            state.project,
+            state._pendingHistoryLabel
+          );
 
-          return {
-            project: {
-              ...state.project,
-              layers: state.project.layers.map((layer) => {
-                if (layer.id === layerId && !layer.locked) {
-                  const newX = Math.floor(layer.x + deltaX);
-                  const newY = Math.floor(layer.y + deltaY);
+          const newProject = {
+            ...state.project,
+            layers: state.project.layers.map((layer) => {
+              if (layer.id === layerId && !isLayerLocked(layer, state.project.groups)) {
+                const newX = Math.floor(layer.x + deltaX);
+                const newY = Math.floor(layer.y + deltaY);
 
-                  return { ...layer, x: newX, y: newY };
-                }
-                return layer;
-              }),
-              modified: new Date().toISOString(),
-            },
-            history: {
-              ...currentState.history,
-              past: newPast,
-              future: [],
-            },
+                return { ...layer, x: newX, y: newY };
+              }
+              return layer;
+            }),
+            modified: new Date().toISOString(),
+          };
+
+          return {
+            project: newProject,
+            history: recordHistoryEntry(
+              pendingHistory,
+              state.project,
+              newProject,
+              describeLayers('Move', state.project.layers.filter((l) => l.id === layerId))
+            ),
+            _historyBase: newProject,
+            _pendingHistoryLabel: undefined,
             isDirty: true,
           };
         });
@@ -306,36 +645,18 @@ const useCompositorStore = create<CompositorStore>()(
 
       reorderLayer: (layerId: string, direction: 'up' | 'down') => {
         set((state) => {
-          const currentZIndex = state.project.layers.find((l) => l.id === layerId)?.zIndex;
-          if (currentZIndex === undefined) return state;
-
-          const zIndices = state.project.layers.map((l) => l.zIndex).sort((a, b) => a - b);
-          const currentPos = zIndices.indexOf(currentZIndex);
-
-          if (
-            (direction === 'up' && currentPos === zIndices.length - 1) ||
-            (direction === 'down' && currentPos === 0)
-          ) {
-            return state;
-          }
-
-          const newZIndex =
-            direction === 'up' ? zIndices[currentPos + 1] : zIndices[currentPos - 1];
-          const otherLayerId = state.project.layers.find((l) => l.zIndex === newZIndex)?.id;
-
-          if (!otherLayerId) return state;
+          // Layers move among their siblings (same group), never out of their group or clipping chain
+          const layers = reorderTreeNodes(state.project.layers, state.project.groups, [layerId], direction);
+          if (layers.every((layer, i) => layer === state.project.layers[i])) return state;
 
           return {
             project: {
               ...state.project,
-              layers: state.project.layers.map((layer) => {
-                if (layer.id === layerId) return { ...layer, zIndex: newZIndex };
-                if (layer.id === otherLayerId) return { ...layer, zIndex: currentZIndex };
-                return layer;
-              }),
+              layers,
               modified: new Date().toISOString(),
             },
             isDirty: true,
+            _pendingHistoryLabel: `${describeLayers('Move', state.project.layers.filter((l) => l.id === layerId))} ${direction}`,
           };
         });
       },
@@ -344,127 +665,410 @@ const useCompositorStore = create<CompositorStore>()(
         set((state) => {
           if (state.selectedLayerIds.length === 0) return state;
 
-          const zIndices = state.project.layers.map((l) => l.zIndex).sort((a, b) => a - b);
-          const selectedZIndices = state.project.layers
-            .filter((l) => state.selectedLayerIds.includes(l.id))
-            .map((l) => l.zIndex)
-            .sort((a, b) => a - b);
-
-          // Check if we can move in this direction
-          const minSelectedZ = Math.min(...selectedZIndices);
-          const maxSelectedZ = Math.max(...selectedZIndices);
-
-          if (direction === 'up' && maxSelectedZ === zIndices[zIndices.length - 1]) return state;
-          if (direction === 'down' && minSelectedZ === zIndices[0]) return state;
-
-          // Find the target z-index to swap with
-          if (direction === 'up') {
-            const targetZIndex = zIndices.find((z) => z > maxSelectedZ);
-            if (targetZIndex === undefined) return state;
-
-            return {
-              project: {
-                ...state.project,
-                layers: state.project.layers.map((layer) => {
-                  if (state.selectedLayerIds.includes(layer.id)) {
-                    return { ...layer, zIndex: targetZIndex };
-                  }
-                  if (layer.zIndex === targetZIndex) {
-                    return { ...layer, zIndex: maxSelectedZ };
-                  }
-                  return layer;
-                }),
-                modified: new Date().toISOString(),
-              },
-              isDirty: true,
-            };
-          } else {
-            const targetZIndex = [...zIndices].reverse().find((z) => z < minSelectedZ);
-            if (targetZIndex === undefined) return state;
+          const layers = reorderTreeNodes(
+            state.project.layers,
+            state.project.groups,
+            state.selectedLayerIds,
+            direction
+          );
+          if (layers.every((layer, i) => layer === state.project.layers[i])) return state;
 
-            return {
-              project: {
-                ...state.project,
-                layers: state.project.layers.map((layer) => {
-                  if (state.selectedLayerIds.includes(layer.id)) {
-                    return { ...layer, zIndex: targetZIndex };
-                  }
-                  if (layer.zIndex === targetZIndex) {
-                    return { ...layer, zIndex: minSelectedZ };
-                  }
-                  return layer;
-                }),
-                modified: new Date().toISOString(),
-              },
-              isDirty: true,
-            };
-          }
+          return {
+            project: {
+              ...state.project,
+              layers,
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `${describeLayers('Move', state.project.layers.filter((l) => state.selectedLayerIds.includes(l.id)))} ${direction}`,
+          };
         });
       },
 
       bringLayerToFront: (layerId: string) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            // A clipped layer leaves its clipping chain; a base takes its clipped layers along
+            layers: reorderTreeNodes(
+              state.project.layers.map((l) => (l.id === layerId && l.clipToBelow ? releaseClip(l) : l)),
+              state.project.groups,
+              [layerId],
+              'top'
+            ),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+          _pendingHistoryLabel: `${describeLayers('Bring', state.project.layers.filter((l) => l.id === layerId))} to front`,
+        }));
+      },
+
+      sendLayerToBack: (layerId: string) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            // A clipped layer leaves its clipping chain; a base takes its clipped layers along
+            layers: reorderTreeNodes(
+              state.project.layers.map((l) => (l.id === layerId && l.clipToBelow ? releaseClip(l) : l)),
+              state.project.groups,
+              [layerId],
+              'bottom'
+            ),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+          _pendingHistoryLabel: `${describeLayers('Send', state.project.layers.filter((l) => l.id === layerId))} to back`,
+        }));
+      },
+
+      // Mask operations
+      addLayerMask: (layerId: string) => {
         set((state) => {
-          const maxZIndex = Math.max(...state.project.layers.map((l) => l.zIndex), 0);
+          const layer = state.project.layers.find((l) => l.id === layerId);
+          if (!layer || layer.mask) return state;
+
+          const { assets, assetId } = addAsset(state.project.assets, createMaskDataUrl(layer.width, layer.height));
+          const mask: LayerMask = { assetId, enabled: true, inverted: false };
+
           return {
             project: {
               ...state.project,
-              layers: state.project.layers.map((layer) =>
-                layer.id === layerId ? { ...layer, zIndex: maxZIndex + 1 } : layer
-              ),
+              layers: state.project.layers.map((l) => (l.id === layerId ? { ...l, mask } : l)),
+              assets,
               modified: new Date().toISOString(),
             },
             isDirty: true,
+            _pendingHistoryLabel: `Add mask to '${layer.name}'`,
           };
         });
       },
 
-      sendLayerToBack: (layerId: string) => {
+      updateLayerMask: (layerId: string, updates: LayerMaskUpdate, historyLabel?: string) => {
         set((state) => {
-          const minZIndex = Math.min(...state.project.layers.map((l) => l.zIndex), 0);
+          const layer = state.project.layers.find((l) => l.id === layerId);
+          if (!layer?.mask) return state;
+
+          // New mask pixels go into the asset table, like layer images
+          const { imageData, ...fields } = updates;
+          const added = imageData !== undefined ? addAsset(state.project.assets, imageData) : undefined;
+          const mask = { ...layer.mask, ...fields, ...(added && { assetId: added.assetId }) };
+
           return {
             project: {
               ...state.project,
-              layers: state.project.layers.map((layer) =>
-                layer.id === layerId ? { ...layer, zIndex: minZIndex - 1 } : layer
-              ),
+              layers: state.project.layers.map((l) => (l.id === layerId ? { ...l, mask } : l)),
+              assets: added?.assets ?? state.project.assets,
               modified: new Date().toISOString(),
             },
             isDirty: true,
+            _pendingHistoryLabel: historyLabel ?? describeMaskUpdate(layer, updates),
           };
         });
       },
 
-      // Multi-layer operations
-      selectLayer: (layerId: string, multiSelect: boolean = false) => {
+      removeLayerMask: (layerId: string) => {
         set((state) => {
-          if (multiSelect) {
-            return {
-              selectedLayerIds: state.selectedLayerIds.includes(layerId)
-                ? state.selectedLayerIds.filter((id) => id !== layerId)
-                : [...state.selectedLayerIds, layerId],
-            };
-          }
-          return { selectedLayerIds: [layerId] };
+          const layer = state.project.layers.find((l) => l.id === layerId);
+          if (!layer?.mask) return state;
+
+          const unmasked = { ...layer };
+          delete unmasked.mask;
+
+          return {
+            project: {
+              ...state.project,
+              layers: state.project.layers.map((l) => (l.id === layerId ? unmasked : l)),
+              modified: new Date().toISOString(),
+            },
+            ui: {
+              ...state.ui,
+              maskEditLayerId: state.ui.maskEditLayerId === layerId ? null : state.ui.maskEditLayerId,
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Delete mask of '${layer.name}'`,
+          };
         });
       },
 
-      selectAllLayers: () => {
-        set((state) => ({
-          selectedLayerIds: state.project.layers.map((l) => l.id),
-        }));
-      },
+      applyLayerMask: async (layerId: string) => {
+        const layer = useCompositorStore.getState().project.layers.find((l) => l.id === layerId);
+        if (!layer?.mask) return;
 
-      deselectAllLayers: () => {
-        set({ selectedLayerIds: [] });
-      },
+        try {
+          // A disabled mask has no visible effect, so applying it just discards it
+          const { assets: currentAssets } = useCompositorStore.getState().project;
+          const image = getLayerImage(currentAssets, layer);
+          const imageData = layer.mask.enabled ? await applyMaskToImage(image, getInlineMask(currentAssets, layer.mask)) : image;
 
-      selectLayerRange: (fromId: string, toId: string) => {
-        set((state) => {
-          const layerIds = state.project.layers.map((l) => l.id);
-          const fromIndex = layerIds.indexOf(fromId);
-          const toIndex = layerIds.indexOf(toId);
+          set((state) => {
+            const current = state.project.layers.find((l) => l.id === layerId);
+            if (!current?.mask) return state;
 
-          if (fromIndex === -1 || toIndex === -1) return state;
+            const { assets, assetId } = addAsset(state.project.assets, imageData);
+            const applied = { ...current, assetId };
+            delete applied.mask;
+
+            return {
+              project: {
+                ...state.project,
+                layers: state.project.layers.map((l) => (l.id === layerId ? applied : l)),
+                assets,
+                modified: new Date().toISOString(),
+              },
+              ui: {
+                ...state.ui,
+                maskEditLayerId: state.ui.maskEditLayerId === layerId ? null : state.ui.maskEditLayerId,
+              },
+              isDirty: true,
+              _pendingHistoryLabel: `Apply mask to '${current.name}'`,
+            };
+          });
+        } catch (error) {
+          console.error('[DEBUG] Failed to apply layer mask:', error);
+        }
+      },
+
+      setMaskEditLayer: (layerId: string | null) => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            maskEditLayerId: layerId,
+          },
+        }));
+      },
+
+      setMaskBrush: (brush: Partial<UIState['maskBrush']>) => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            maskBrush: { ...state.ui.maskBrush, ...brush },
+          },
+        }));
+      },
+
+      // Group operations
+      createGroup: (name?: string) => {
+        set((state) => {
+          const selectedLayers = state.project.layers.filter((l) => state.selectedLayerIds.includes(l.id));
+          if (selectedLayers.length === 0) return state;
+
+          // Nest the new group inside the selection's group when all selected layers share one
+          const parentIds = new Set(selectedLayers.map((l) => l.groupId ?? null));
+          const parentId = parentIds.size === 1 ? [...parentIds][0] : null;
+
+          const group: LayerGroup = {
+            id: `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            name: name || `Group ${state.project.groups.length + 1}`,
+            parentId,
+            visible: true,
+            locked: false,
+            opacity: 1.0,
+            collapsed: false,
+          };
+
+          const groups = [...state.project.groups, group];
+          const layers = state.project.layers.map((layer) =>
+            state.selectedLayerIds.includes(layer.id) ? { ...layer, groupId: group.id } : layer
+          );
+
+          return {
+            project: {
+              ...state.project,
+              layers: normalizeLayerOrder(layers, groups),
+              groups: pruneEmptyGroups(layers, groups),
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Group ${describeLayers('', selectedLayers).trim()}`,
+          };
+        });
+      },
+
+      ungroup: (groupId: string) => {
+        set((state) => {
+          const group = state.project.groups.find((g) => g.id === groupId);
+          if (!group) return state;
+
+          // Children move up one level, keeping their stacking position
+          const groups = state.project.groups
+            .filter((g) => g.id !== groupId)
+            .map((g) => (g.parentId === groupId ? { ...g, parentId: group.parentId } : g));
+          const layers = state.project.layers.map((layer) => {
+            if (layer.groupId !== groupId) return layer;
+            return group.parentId ? { ...layer, groupId: group.parentId } : removeFromGroup(layer);
+          });
+
+          return {
+            project: {
+              ...state.project,
+              layers: normalizeLayerOrder(layers, groups),
+              groups,
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Ungroup '${group.name}'`,
+          };
+        });
+      },
+
+      updateGroup: (groupId: string, updates: Partial<LayerGroup>, historyLabel?: string) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            groups: state.project.groups.map((group) =>
+              group.id === groupId ? { ...group, ...updates } : group
+            ),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+          _pendingHistoryLabel:
+            historyLabel ?? describeGroupUpdate(state.project.groups.find((g) => g.id === groupId), updates),
+        }));
+      },
+
+      duplicateGroup: (groupId: string) => {
+        set((state) => {
+          const group = state.project.groups.find((g) => g.id === groupId);
+          if (!group) return state;
+
+          // Clone the group and everything nested in it with fresh ids
+          const sourceGroupIds = getGroupAndDescendantIds(groupId, state.project.groups);
+          const idMap = new Map<string, string>();
+          for (const id of sourceGroupIds) {
+            idMap.set(id, `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+          }
+
+          const clonedGroups: LayerGroup[] = state.project.groups
+            .filter((g) => sourceGroupIds.has(g.id))
+            .map((g) => ({
+              ...g,
+              id: idMap.get(g.id)!,
+              name: g.id === groupId ? `${g.name} (copy)` : g.name,
+              parentId: g.id === groupId ? g.parentId : idMap.get(g.parentId!)!,
+            }));
+
+          // +0.5 places each copy just above its original; normalizing then stacks the
+          // whole copied group directly above the original group
+          const clonedLayers: Layer[] = getGroupLayers(groupId, state.project.layers, state.project.groups).map(
+            (layer) => ({
+              ...layer,
+              id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+              groupId: idMap.get(layer.groupId!)!,
+              zIndex: layer.zIndex + 0.5,
+            })
+          );
+
+          const groups = [...state.project.groups, ...clonedGroups];
+          const layers = normalizeLayerOrder([...state.project.layers, ...clonedLayers], groups);
+
+          return {
+            project: {
+              ...state.project,
+              layers,
+              groups,
+              modified: new Date().toISOString(),
+            },
+            selectedLayerIds: clonedLayers.map((l) => l.id),
+            isDirty: true,
+            _pendingHistoryLabel: `Duplicate group '${group.name}'`,
+          };
+        });
+      },
+
+      deleteGroup: (groupId: string) => {
+        set((state) => {
+          const group = state.project.groups.find((g) => g.id === groupId);
+          if (!group) return state;
+
+          const groupIds = getGroupAndDescendantIds(groupId, state.project.groups);
+          const removedLayerIds = new Set(
+            getGroupLayers(groupId, state.project.layers, state.project.groups).map((l) => l.id)
+          );
+          const layers = state.project.layers.filter((l) => !removedLayerIds.has(l.id));
+
+          return {
+            project: {
+              ...state.project,
+              layers,
+              groups: pruneEmptyGroups(
+                layers,
+                state.project.groups.filter((g) => !groupIds.has(g.id))
+              ),
+              modified: new Date().toISOString(),
+            },
+            selectedLayerIds: state.selectedLayerIds.filter((id) => !removedLayerIds.has(id)),
+            isDirty: true,
+            _pendingHistoryLabel: `Delete group '${group.name}'`,
+          };
+        });
+      },
+
+      reorderGroup: (groupId: string, direction: 'up' | 'down' | 'top' | 'bottom') => {
+        set((state) => {
+          const group = state.project.groups.find((g) => g.id === groupId);
+          if (!group) return state;
+
+          const layers = reorderTreeNodes(state.project.layers, state.project.groups, [groupId], direction);
+          if (layers.every((layer, i) => layer === state.project.layers[i])) return state;
+
+          return {
+            project: {
+              ...state.project,
+              layers,
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Move group '${group.name}' ${direction}`,
+          };
+        });
+      },
+
+      selectGroup: (groupId: string, multiSelect: boolean = false) => {
+        set((state) => {
+          const groupLayerIds = getGroupLayers(groupId, state.project.layers, state.project.groups).map((l) => l.id);
+          if (!multiSelect) return { selectedLayerIds: groupLayerIds };
+
+          // Toggle: deselect the group if all of its layers are already selected
+          const allSelected = groupLayerIds.every((id) => state.selectedLayerIds.includes(id));
+          return {
+            selectedLayerIds: allSelected
+              ? state.selectedLayerIds.filter((id) => !groupLayerIds.includes(id))
+              : [...new Set([...state.selectedLayerIds, ...groupLayerIds])],
+          };
+        });
+      },
+
+      // Multi-layer operations
+      selectLayer: (layerId: string, multiSelect: boolean = false) => {
+        set((state) => {
+          if (multiSelect) {
+            return {
+              selectedLayerIds: state.selectedLayerIds.includes(layerId)
+                ? state.selectedLayerIds.filter((id) => id !== layerId)
+                : [...state.selectedLayerIds, layerId],
+            };
+          }
+          return { selectedLayerIds: [layerId] };
+        });
+      },
+
+      selectAllLayers: () => {
+        set((state) => ({
+          selectedLayerIds: state.project.layers.map((l) => l.id),
+        }));
+      },
+
+      deselectAllLayers: () => {
+        set({ selectedLayerIds: [] });
+      },
+
+      selectLayerRange: (fromId: string, toId: string) => {
+        set((state) => {
+          const layerIds = state.project.layers.map((l) => l.id);
+          const fromIndex = layerIds.indexOf(fromId);
+          const toIndex = layerIds.indexOf(toId);
+
+          if (fromIndex === -1 || toIndex === -1) return state;
 
           const [start, end] = fromIndex < toIndex ? [fromIndex, toIndex] : [toIndex, fromIndex];
           const selectedLayerIds = layerIds.slice(start, end + 1);
@@ -478,7 +1082,7 @@ const useCompositorStore = create<CompositorStore>()(
           project: {
             ...state.project,
             layers: state.project.layers.map((layer) => {
-              if (state.selectedLayerIds.includes(layer.id) && !layer.locked) {
+              if (state.selectedLayerIds.includes(layer.id) && !isLayerLocked(layer, state.project.groups)) {
                 const newX = Math.floor(layer.x + deltaX);
                 const newY = Math.floor(layer.y + deltaY);
 
@@ -489,21 +1093,33 @@ const useCompositorStore = create<CompositorStore>()(
             modified: new Date().toISOString(),
           },
           isDirty: true,
+          _pendingHistoryLabel: describeLayers(
+            'Move',
+            state.project.layers.filter(
+              (l) => state.selectedLayerIds.includes(l.id) && !isLayerLocked(l, state.project.groups)
+            )
+          ),
         }));
       },
 
       deleteSelectedLayers: () => {
-        set((state) => ({
-          project: {
-            ...state.project,
-            layers: state.project.layers.filter(
-              (l) => !state.selectedLayerIds.includes(l.id)
+        set((state) => {
+          const layers = state.project.layers.filter((l) => !state.selectedLayerIds.includes(l.id));
+          return {
+            project: {
+              ...state.project,
+              layers,
+              groups: pruneEmptyGroups(layers, state.project.groups),
+              modified: new Date().toISOString(),
+            },
+            selectedLayerIds: [],
+            isDirty: true,
+            _pendingHistoryLabel: describeLayers(
+              'Delete',
+              state.project.layers.filter((l) => state.selectedLayerIds.includes(l.id))
             ),
-            modified: new Date().toISOString(),
-          },
-          selectedLayerIds: [],
-          isDirty: true,
-        }));
+          };
+        });
       },
 
       toggleVisibilitySelected: () => {
@@ -523,6 +1139,36 @@ const useCompositorStore = create<CompositorStore>()(
               modified: new Date().toISOString(),
             },
             isDirty: true,
+            _pendingHistoryLabel: describeLayers(
+              allVisible ? 'Hide' : 'Show',
+              state.project.layers.filter((l) => state.selectedLayerIds.includes(l.id))
+            ),
+          };
+        });
+      },
+
+      transformSelectedLayers: (operation: TransformOperation) => {
+        set((state) => {
+          // Selected layers flip/rotate together around their combined center; locked layers stay put
+          const targets = state.project.layers.filter(
+            (l) => state.selectedLayerIds.includes(l.id) && !isLayerLocked(l, state.project.groups)
+          );
+          if (targets.length === 0) return state;
+
+          const updates = transformLayers(targets, operation);
+          const [verb, suffix] = TRANSFORM_LABELS[operation];
+
+          return {
+            project: {
+              ...state.project,
+              layers: state.project.layers.map((layer) => {
+                const update = updates.get(layer.id);
+                return update ? { ...layer, ...update } : layer;
+              }),
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `${describeLayers(verb, targets)} ${suffix}`,
           };
         });
       },
@@ -583,7 +1229,7 @@ const useCompositorStore = create<CompositorStore>()(
           const newProject = {
             ...state.project,
             layers: state.project.layers.map((layer) => {
-              if (layersToMove.includes(layer.id) && !layer.locked) {
+              if (layersToMove.includes(layer.id) && !isLayerLocked(layer, state.project.groups)) {
                 return {
                   ...layer,
                   x: Math.floor(layer.x + offsetX),
@@ -607,23 +1253,23 @@ const useCompositorStore = create<CompositorStore>()(
             isDirty: true,
           };
 
-          // Push history exactly once if layers moved
+          // Record history exactly once if layers moved
           if (layersActuallyMoved) {
-            const currentState = useCompositorStore.getState();
-            const { viewport, ...projectWithoutViewport } = currentState.project;
-            const newPast = [...currentState.history.past, projectWithoutViewport as ProjectData];
-            if (newPast.length > currentState.history.maxSteps) {
-              newPast.shift();
-            }
+            const pendingHistory = recordHistoryEntry(
+              state.history,
+              state._historyBase,
+              state.project,
+              state._pendingHistoryLabel
+            );
+            const movedLayers = state.project.layers.filter(
+              (l) => layersToMove.includes(l.id) && !isLayerLocked(l, state.project.groups)
+            );
 
             return {
               ...newState,
-              history: {
-                ...currentState.history,
-                past: newPast,
-                future: [],
-              },
-              _lastHistoryPushAt: Date.now(), // Prevent useAutoHistory from pushing after drag
+              history: recordHistoryEntry(pendingHistory, state.project, newProject, describeLayers('Move', movedLayers)),
+              _historyBase: newProject, // Prevent useAutoHistory from recording the drag again
+              _pendingHistoryLabel: undefined,
             };
           }
 
@@ -634,76 +1280,127 @@ const useCompositorStore = create<CompositorStore>()(
       // History operations
       pushHistory: () => {
         set((state) => {
-          // Store project WITHOUT viewport - we'll preserve the current viewport during undo
-          const { viewport, ...projectWithoutViewport } = state.project;
-          const newPast = [...state.history.past, projectWithoutViewport as ProjectData];
-          if (newPast.length > state.history.maxSteps) {
-            newPast.shift();
-          }
-
+          // Drop images no layer uses anymore - undo entries keep their own reference to the old table
+          const assets = pruneAssets(state.project.assets, state.project.layers);
+          const project = assets === state.project.assets ? state.project : { ...state.project, assets };
           return {
-            history: {
-              ...state.history,
-              past: newPast,
-              future: [],
-            },
-            _lastHistoryPushAt: Date.now(), // Mark when history was manually pushed
+            // Only the diff since the last recorded state is stored - viewport is never part of it
+            history: recordHistoryEntry(state.history, state._historyBase, project, state._pendingHistoryLabel),
+            project,
+            _historyBase: project,
+            _pendingHistoryLabel: undefined,
           };
         });
       },
 
       undo: () => {
         set((state) => {
-          if (state.history.past.length === 0) return state;
+          // Commit pending (not yet debounced) changes so they are what gets undone first
+          const history = recordHistoryEntry(
+            state.history,
+            state._historyBase,
+            state.project,
+            state._pendingHistoryLabel
+          );
+          if (history.past.length === 0) return state;
 
-          const newPast = [...state.history.past];
-          const previousProject = newPast.pop();
-          
-          if (!previousProject) return state;
+          const newPast = [...history.past];
+          const entry = newPast.pop();
 
-          // Add current project to future, but strip viewport like we do in pushHistory
-          const { viewport, ...projectWithoutViewport } = state.project;
-          const newFuture = [projectWithoutViewport as ProjectData, ...state.history.future];
+          if (!entry) return state;
+
+          // applyHistoryEntry leaves the viewport as-is, preserving current pan/zoom
+          const previousProject = applyHistoryEntry(state.project, entry, 'undo');
 
           return {
-            project: {
-              ...previousProject,
-              viewport: state.project.viewport, // Preserve current viewport
-            },
+            project: previousProject,
             history: {
-              ...state.history,
+              ...history,
               past: newPast,
-              future: newFuture,
+              future: [entry, ...history.future],
             },
-            _lastHistoryPushAt: Date.now(), // Prevent useAutoHistory from pushing during undo
+            _historyBase: previousProject, // Prevent useAutoHistory from recording the undo
+            _pendingHistoryLabel: undefined,
           };
         });
       },
 
       redo: () => {
         set((state) => {
-          if (state.history.future.length === 0) return state;
+          // Pending changes are a new edit and invalidate the redo stack
+          const history = recordHistoryEntry(
+            state.history,
+            state._historyBase,
+            state.project,
+            state._pendingHistoryLabel
+          );
+          if (history.future.length === 0) {
+            return { history, _historyBase: state.project, _pendingHistoryLabel: undefined };
+          }
+
+          const newFuture = [...history.future];
+          const entry = newFuture.shift();
 
-          const newFuture = [...state.history.future];
-          const nextProject = newFuture.shift();
-          
-          // Add current project to past, but strip viewport like we do in pushHistory
-          const { viewport, ...projectWithoutViewport } = state.project;
-          const newPast = [...state.history.past, projectWithoutViewport as ProjectData];
+          if (!entry) return state;
 
-          if (!nextProject) return state;
+          const nextProject = applyHistoryEntry(state.project, entry, 'redo');
 
           return {
-            project: {
-              ...nextProject,
-              viewport: state.project.viewport, // Preserve current viewport
+            project: nextProject,
+            history: {
+              ...history,
+              past: [...history.past, entry],
+              future: newFuture,
             },
+            _historyBase: nextProject, // Prevent useAutoHistory from recording the redo
+            _pendingHistoryLabel: undefined,
+          };
+        });
+      },
+
+      jumpToHistoryEntry: (entryId: string | null) => {
+        set((state) => {
+          const history = recordHistoryEntry(
+            state.history,
+            state._historyBase,
+            state.project,
+            state._pendingHistoryLabel
+          );
+
+          // null = the initial state before the oldest entry
+          const pastIndex = entryId === null ? -1 : history.past.findIndex((e) => e.id === entryId);
+          const futureIndex = entryId === null ? -1 : history.future.findIndex((e) => e.id === entryId);
+          if (entryId !== null && pastIndex === -1 && futureIndex === -1) return state;
+
+          const newPast = [...history.past];
+          const newFuture = [...history.future];
+          let project = state.project;
+
+          if (futureIndex === -1) {
+            // Undo until the target entry is the most recent one applied
+            while (newPast.length > pastIndex + 1) {
+              const entry = newPast.pop()!;
+              project = applyHistoryEntry(project, entry, 'undo');
+              newFuture.unshift(entry);
+            }
+          } else {
+            // Redo up to and including the target entry
+            for (let i = 0; i <= futureIndex; i++) {
+              const entry = newFuture.shift()!;
+              project = applyHistoryEntry(project, entry, 'redo');
+              newPast.push(entry);
+            }
+          }
+
+          return {
+            project,
             history: {
-              ...state.history,
+              ...history,
               past: newPast,
               future: newFuture,
             },
-            _lastHistoryPushAt: Date.now(), // Prevent useAutoHistory from pushing during redo
+            _historyBase: project,
+            _pendingHistoryLabel: undefined,
           };
         });
       },
@@ -729,6 +1426,7 @@ const useCompositorStore = create<CompositorStore>()(
             modified: new Date().toISOString(),
           },
           isDirty: true,
+          _pendingHistoryLabel: state.project.grid.enabled ? 'Hide grid' : 'Show grid',
         }));
       },
 
@@ -743,6 +1441,7 @@ const useCompositorStore = create<CompositorStore>()(
             modified: new Date().toISOString(),
           },
           isDirty: true,
+          _pendingHistoryLabel: 'Change grid density',
         }));
       },
 
@@ -757,6 +1456,7 @@ const useCompositorStore = create<CompositorStore>()(
             modified: new Date().toISOString(),
           },
           isDirty: true,
+          _pendingHistoryLabel: state.project.rulers.enabled ? 'Hide rulers' : 'Show rulers',
         }));
       },
 
@@ -787,17 +1487,47 @@ const useCompositorStore = create<CompositorStore>()(
         }));
       },
 
-      copySelectedLayers: () => {
+      setHistoryPanelDock: (dock: 'left' | 'right' | null) => {
         set((state) => ({
           ui: {
             ...state.ui,
-            clipboardLayers: state.project.layers.filter((l) =>
-              state.selectedLayerIds.includes(l.id)
-            ),
+            historyPanelDock: dock,
           },
         }));
       },
 
+      setLibraryView: (view: UIState['libraryView']) => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            libraryView: view,
+          },
+        }));
+      },
+
+      copySelectedLayers: () => {
+        set((state) => {
+          // Bottom to top, so pasted layers keep their order; a layer only stays clipped when its
+          // clip base is copied with it
+          const clipBases = getLayerClipBases(state.project.layers, state.project.groups);
+          const clipboardLayers = state.project.layers
+            .filter((l) => state.selectedLayerIds.includes(l.id))
+            .sort((a, b) => a.zIndex - b.zIndex)
+            .map((l) => {
+              const clipBase = clipBases.get(l.id);
+              return l.clipToBelow && !(clipBase && state.selectedLayerIds.includes(clipBase.id)) ? releaseClip(l) : l;
+            });
+          return {
+            ui: {
+              ...state.ui,
+              clipboardLayers,
+              // Keep the images with the clipboard - the source layers may be deleted before pasting
+              clipboardAssets: pruneAssets(state.project.assets, clipboardLayers),
+            },
+          };
+        });
+      },
+
       copySelectedLayersToClipboard: async () => {
         try {
           const state = useCompositorStore.getState();
@@ -814,12 +1544,14 @@ const useCompositorStore = create<CompositorStore>()(
 
           if (selectedLayers.length === 1) {
             // Single layer: copy directly
-            blob = dataUrlToBlob(selectedLayers[0].imageData);
+            blob = dataUrlToBlob(getLayerImage(state.project.assets, selectedLayers[0]));
           } else {
             // Multiple layers: composite them together
             // Sort by zIndex to maintain layer order
             const sortedLayers = selectedLayers.sort((a, b) => a.zIndex - b.zIndex);
-            blob = await compositeLayersToBlob(sortedLayers);
+            blob = await compositeLayersToBlob(
+              sortedLayers.map((layer) => ({ ...layer, imageData: getLayerImage(state.project.assets, layer) }))
+            );
           }
 
           // Write to system clipboard
@@ -834,8 +1566,10 @@ const useCompositorStore = create<CompositorStore>()(
         set((state) => {
           const maxZIndex = Math.max(...state.project.layers.map((l) => l.zIndex), 0);
 
+          // Pasted layers land at the top level - the source group may not exist anymore, and the
+          // source artboards may be in another tab
           const pastedLayers: Layer[] = state.ui.clipboardLayers.map((layer, index) => ({
-            ...layer,
+            ...keepExistingArtboards(removeFromGroup(layer), state.project.artboards),
             id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
             x: layer.x + 10, // Offset to show pasted layers
             y: layer.y + 10,
@@ -846,10 +1580,12 @@ const useCompositorStore = create<CompositorStore>()(
             project: {
               ...state.project,
               layers: [...state.project.layers, ...pastedLayers],
+              assets: { ...state.ui.clipboardAssets, ...state.project.assets },
               modified: new Date().toISOString(),
             },
             selectedLayerIds: pastedLayers.map((l) => l.id),
             isDirty: true,
+            _pendingHistoryLabel: describeLayers('Paste', pastedLayers),
           };
         });
       },
@@ -886,29 +1622,34 @@ const useCompositorStore = create<CompositorStore>()(
                   const state = useCompositorStore.getState();
                   const maxZIndex = Math.max(...state.project.layers.map((l) => l.zIndex), 0);
 
-                  useCompositorStore.setState((prevState) => ({
-                    project: {
-                      ...prevState.project,
-                      layers: [
-                        ...prevState.project.layers,
-                        {
-                          id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                          name: 'Pasted Image',
-                          imageData: dataUrl,
-                          x: 0,
-                          y: 0,
-                          zIndex: maxZIndex + 1,
-                          visible: true,
-                          locked: false,
-                          opacity: 1.0,
-                          width: img.naturalWidth,
-                          height: img.naturalHeight,
-                        },
-                      ],
-                      modified: new Date().toISOString(),
-                    },
-                    isDirty: true,
-                  }));
+                  useCompositorStore.setState((prevState) => {
+                    const { assets, assetId } = addAsset(prevState.project.assets, dataUrl);
+                    return {
+                      project: {
+                        ...prevState.project,
+                        layers: [
+                          ...prevState.project.layers,
+                          {
+                            id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                            name: 'Pasted Image',
+                            assetId,
+                            x: 0,
+                            y: 0,
+                            zIndex: maxZIndex + 1,
+                            visible: true,
+                            locked: false,
+                            opacity: 1.0,
+                            width: img.naturalWidth,
+                            height: img.naturalHeight,
+                          },
+                        ],
+                        assets,
+                        modified: new Date().toISOString(),
+                      },
+                      isDirty: true,
+                      _pendingHistoryLabel: 'Paste image',
+                    };
+                  });
                   return;
                 }
               }
@@ -936,35 +1677,40 @@ const useCompositorStore = create<CompositorStore>()(
                 const state = useCompositorStore.getState();
                 const maxZIndex = Math.max(...state.project.layers.map((l) => l.zIndex), 0);
 
-                useCompositorStore.setState((prevState) => ({
-                  project: {
-                    ...prevState.project,
-                    layers: [
-                      ...prevState.project.layers,
-                      {
-                        id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                        name: `Text: ${text.substring(0, 20)}${text.length > 20 ? '...' : ''}`,
-                        imageData: rasterized.dataUrl,
-                        x: 0,
-                        y: 0,
-                        zIndex: maxZIndex + 1,
-                        visible: true,
-                        locked: false,
-                        opacity: 1.0,
-                        width: rasterized.width,
-                        height: rasterized.height,
-                        textContent: text,
-                        fontSize: 16,
-                        fontFamily: 'Arial',
-                        fontColor: '#000000',
-                        textAlign: 'left',
-                        lineHeight: 1.2,
-                      },
-                    ],
-                    modified: new Date().toISOString(),
-                  },
-                  isDirty: true,
-                }));
+                useCompositorStore.setState((prevState) => {
+                  const { assets, assetId } = addAsset(prevState.project.assets, rasterized.dataUrl);
+                  return {
+                    project: {
+                      ...prevState.project,
+                      layers: [
+                        ...prevState.project.layers,
+                        {
+                          id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                          name: `Text: ${text.substring(0, 20)}${text.length > 20 ? '...' : ''}`,
+                          assetId,
+                          x: 0,
+                          y: 0,
+                          zIndex: maxZIndex + 1,
+                          visible: true,
+                          locked: false,
+                          opacity: 1.0,
+                          width: rasterized.width,
+                          height: rasterized.height,
+                          textContent: text,
+                          fontSize: 16,
+                          fontFamily: 'Arial',
+                          fontColor: '#000000',
+                          textAlign: 'left',
+                          lineHeight: 1.2,
+                        },
+                      ],
+                      assets,
+                      modified: new Date().toISOString(),
+                    },
+                    isDirty: true,
+                    _pendingHistoryLabel: 'Paste text',
+                  };
+                });
               }
             } catch (error) {
               console.debug('Text paste failed:', error);
@@ -975,31 +1721,318 @@ const useCompositorStore = create<CompositorStore>()(
         }
       },
 
+      // Artboard operations
+      addArtboard: (width?: number, height?: number) => {
+        set((state) => {
+          // Converting a plain canvas keeps its size and background in the first artboard
+          const isFirst = state.project.artboards.length === 0;
+          const artboard = createArtboard(
+            state.project.artboards,
+            width ?? state.project.canvas.width,
+            height ?? state.project.canvas.height
+          );
+          if (isFirst) {
+            artboard.x = 0;
+            artboard.y = 0;
+            artboard.backgroundColor = state.project.canvas.backgroundColor;
+          }
+          const artboards = [...state.project.artboards, artboard];
+
+          return {
+            project: {
+              ...state.project,
+              artboards,
+              canvas: fitWorkspaceToArtboards(state.project.canvas, artboards),
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Add artboard '${artboard.name}'`,
+          };
+        });
+      },
+
+      updateArtboard: (artboardId: string, updates: Partial<Artboard>, historyLabel?: string) => {
+        set((state) => {
+          const artboard = state.project.artboards.find((a) => a.id === artboardId);
+          if (!artboard) return state;
+
+          // Artboards stay on the workspace, which starts at 0,0 and grows to the right and down
+          const updated: Artboard = { ...artboard, ...updates };
+          updated.x = Math.max(0, Math.round(updated.x));
+          updated.y = Math.max(0, Math.round(updated.y));
+          updated.width = Math.max(1, Math.round(updated.width));
+          updated.height = Math.max(1, Math.round(updated.height));
+          const artboards = state.project.artboards.map((a) => (a.id === artboardId ? updated : a));
+
+          return {
+            project: {
+              ...state.project,
+              artboards,
+              canvas: fitWorkspaceToArtboards(state.project.canvas, artboards),
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: historyLabel ?? `Edit artboard '${updated.name}'`,
+          };
+        });
+      },
+
+      removeArtboard: (artboardId: string) => {
+        set((state) => {
+          const artboard = state.project.artboards.find((a) => a.id === artboardId);
+          if (!artboard) return state;
+
+          // Layers that were only in this artboard become unassigned (drawn wherever they overlap)
+          const artboards = state.project.artboards.filter((a) => a.id !== artboardId);
+          const layers = state.project.layers.map((layer) => keepExistingArtboards(layer, artboards));
+
+          return {
+            project: {
+              ...state.project,
+              layers,
+              artboards,
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Delete artboard '${artboard.name}'`,
+          };
+        });
+      },
+
+      // Slice operations
+      addSlice: () => {
+        set((state) => {
+          // Covers the selected layers, or the whole canvas without a selection
+          const selectedLayers = state.project.layers.filter((l) => state.selectedLayerIds.includes(l.id));
+          const region = getLayersExportBounds(selectedLayers) ?? {
+            x: 0,
+            y: 0,
+            width: state.project.canvas.width,
+            height: state.project.canvas.height,
+          };
+          const slice = createSlice(state.project.slices, region);
+
+          return {
+            project: {
+              ...state.project,
+              slices: [...state.project.slices, slice],
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Add slice '${slice.name}'`,
+          };
+        });
+      },
+
+      updateSlice: (sliceId: string, updates: Partial<Slice>, historyLabel?: string) => {
+        set((state) => {
+          const slice = state.project.slices.find((s) => s.id === sliceId);
+          if (!slice) return state;
+
+          const updated: Slice = { ...slice, ...updates };
+          updated.x = Math.round(updated.x);
+          updated.y = Math.round(updated.y);
+          updated.width = Math.max(1, Math.round(updated.width));
+          updated.height = Math.max(1, Math.round(updated.height));
+
+          return {
+            project: {
+              ...state.project,
+              slices: state.project.slices.map((s) => (s.id === sliceId ? updated : s)),
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: historyLabel ?? `Edit slice '${updated.name}'`,
+          };
+        });
+      },
+
+      removeSlice: (sliceId: string) => {
+        set((state) => {
+          const slice = state.project.slices.find((s) => s.id === sliceId);
+          if (!slice) return state;
+
+          return {
+            project: {
+              ...state.project,
+              slices: state.project.slices.filter((s) => s.id !== sliceId),
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Delete slice '${slice.name}'`,
+          };
+        });
+      },
+
+      // Animation operations
+      addFrame: () => {
+        set((state) => {
+          const { animation, layers } = state.project;
+          // The first frame added turns the still image into frame 1 and adds frame 2 as a copy of it
+          const frames = animation.frames.length === 0 ? [createFrame(layers)] : getSyncedFrames(state.project);
+          const index = animation.frames.length === 0 ? 1 : animation.activeFrame + 1;
+          const frame = createFrame(layers, frames[index - 1].duration);
+
+          return {
+            project: {
+              ...state.project,
+              animation: {
+                ...animation,
+                frames: [...frames.slice(0, index), frame, ...frames.slice(index)],
+                activeFrame: index,
+              },
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Add frame ${index + 1}`,
+          };
+        });
+      },
+
+      removeFrame: (index: number) => {
+        set((state) => {
+          const { animation } = state.project;
+          if (!animation.frames[index]) return state;
+
+          const frames = getSyncedFrames(state.project).filter((_, i) => i !== index);
+          const activeFrame = index < animation.activeFrame
+            ? animation.activeFrame - 1
+            : Math.max(Math.min(animation.activeFrame, frames.length - 1), 0);
+          // Removing the active frame shows its neighbour; removing the last frame keeps the layers as they are
+          const layers = index === animation.activeFrame && frames.length > 0
+            ? applyFrame(state.project.layers, frames[activeFrame])
+            : state.project.layers;
+
+          return {
+            project: {
+              ...state.project,
+              layers,
+              animation: { ...animation, frames, activeFrame },
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Delete frame ${index + 1}`,
+          };
+        });
+      },
+
+      setActiveFrame: (index: number) => {
+        set((state) => {
+          const { animation } = state.project;
+          if (index === animation.activeFrame || !animation.frames[index]) return state;
+
+          // Switching frames is navigation: pending edits are committed first and the switch itself
+          // is neither recorded nor an unsaved change (undo shows an entry's own frame again)
+          const project = { ...state.project, ...switchToFrame(state.project, index) };
+          return {
+            project,
+            history: recordHistoryEntry(state.history, state._historyBase, state.project, state._pendingHistoryLabel),
+            _historyBase: project,
+            _pendingHistoryLabel: undefined,
+          };
+        });
+      },
+
+      moveFrame: (index: number, direction: 'left' | 'right') => {
+        set((state) => {
+          const { animation } = state.project;
+          const target = direction === 'left' ? index - 1 : index + 1;
+          if (!animation.frames[index] || !animation.frames[target]) return state;
+
+          const frames = getSyncedFrames(state.project);
+          [frames[index], frames[target]] = [frames[target], frames[index]];
+          // The layers keep showing the same frame, wherever it moved
+          const activeId = animation.frames[animation.activeFrame].id;
+
+          return {
+            project: {
+              ...state.project,
+              animation: { ...animation, frames, activeFrame: frames.findIndex((f) => f.id === activeId) },
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Move frame ${index + 1} ${direction}`,
+          };
+        });
+      },
+
+      setFrameDuration: (index: number, duration: number) => {
+        set((state) => {
+          const { animation } = state.project;
+          if (!animation.frames[index] || !Number.isFinite(duration)) return state;
+
+          const clamped = Math.min(Math.max(Math.round(duration), MIN_FRAME_DURATION), MAX_FRAME_DURATION);
+          if (clamped === animation.frames[index].duration) return state;
+          return {
+            project: {
+              ...state.project,
+              animation: {
+                ...animation,
+                frames: animation.frames.map((frame, i) => (i === index ? { ...frame, duration: clamped } : frame)),
+              },
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: `Set frame ${index + 1} duration to ${clamped} ms`,
+          };
+        });
+      },
+
+      setAnimationConfig: (config: Partial<Pick<AnimationConfig, 'playbackMode' | 'onionSkin'>>) => {
+        set((state) => {
+          const onionSkin = { ...state.project.animation.onionSkin, ...config.onionSkin };
+          return {
+            project: {
+              ...state.project,
+              animation: {
+                ...state.project.animation,
+                ...config,
+                onionSkin: {
+                  ...onionSkin,
+                  before: Math.min(Math.max(Math.round(onionSkin.before), 0), MAX_ONION_SKIN_FRAMES),
+                  after: Math.min(Math.max(Math.round(onionSkin.after), 0), MAX_ONION_SKIN_FRAMES),
+                  opacity: Math.min(Math.max(onionSkin.opacity, 0), 1),
+                },
+              },
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+            _pendingHistoryLabel: 'Change animation settings',
+          };
+        });
+      },
+
+      setPlaybackFrame: (index: number | null) => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            playbackFrame: index,
+          },
+        }));
+      },
+
       // Canvas operations
       cropCanvasToLayers: () => {
         set((state) => {
+          // The workspace is sized to its artboards instead (the button is disabled)
+          if (state.project.artboards.length > 0) return state;
+
           if (state.project.layers.length === 0) {
             console.warn('[DEBUG] No layers to crop to');
             return state;
           }
 
-          // Calculate the bounding box of all layers
-          let minX = Infinity;
-          let minY = Infinity;
-          let maxX = -Infinity;
-          let maxY = -Infinity;
-
-          state.project.layers.forEach((layer) => {
-            minX = Math.min(minX, layer.x);
-            minY = Math.min(minY, layer.y);
-            maxX = Math.max(maxX, layer.x + layer.width);
-            maxY = Math.max(maxY, layer.y + layer.height);
-          });
+          // Bounding box of every drawn pixel in every frame, outlines and drop shadows included
+          const frameCount = Math.max(state.project.animation.frames.length, 1);
+          const bounds = getLayersExportBounds(
+            Array.from({ length: frameCount }, (_, index) => getFrameLayers(state.project, index)).flat()
+          );
+          if (!bounds) return state;
 
-          const newWidth = Math.ceil(maxX - minX);
-          const newHeight = Math.ceil(maxY - minY);
-          const offsetX = minX;
-          const offsetY = minY;
+          const newWidth = Math.ceil(bounds.width);
+          const newHeight = Math.ceil(bounds.height);
+          const offsetX = bounds.x;
+          const offsetY = bounds.y;
 
           // If no layers or dimensions are invalid, don't change canvas
           if (newWidth <= 0 || newHeight <= 0) {
@@ -1011,12 +2044,26 @@ const useCompositorStore = create<CompositorStore>()(
             `[DEBUG] Cropping canvas to layers: ${newWidth}x${newHeight} at offset (${offsetX}, ${offsetY})`
           );
 
-          // Update canvas dimensions and reposition layers
+          // Update canvas dimensions and reposition layers, their positions in every frame, and slices
           const updatedLayers = state.project.layers.map((layer) => ({
             ...layer,
             x: layer.x - offsetX,
             y: layer.y - offsetY,
           }));
+          const updatedFrames = state.project.animation.frames.map((frame) => ({
+            ...frame,
+            layers: Object.fromEntries(
+              Object.entries(frame.layers).map(([id, override]) => [
+                id,
+                { ...override, x: override.x - offsetX, y: override.y - offsetY },
+              ])
+            ),
+          }));
+          const updatedSlices = state.project.slices.map((slice) => ({
+            ...slice,
+            x: Math.round(slice.x - offsetX),
+            y: Math.round(slice.y - offsetY),
+          }));
 
           return {
             project: {
@@ -1027,41 +2074,141 @@ const useCompositorStore = create<CompositorStore>()(
                 height: newHeight,
               },
               layers: updatedLayers,
+              animation: { ...state.project.animation, frames: updatedFrames },
+              slices: updatedSlices,
               modified: new Date().toISOString(),
             },
             isDirty: true,
+            _pendingHistoryLabel: 'Crop canvas to layers',
+          };
+        });
+      },
+
+      // Document tab operations
+      newDocument: () => {
+        set((state) => {
+          const document = createDocument(createEmptyProject());
+          return {
+            documents: [...getOpenDocuments(state), document],
+            ...activateDocument(document, state.ui),
+          };
+        });
+      },
+
+      switchDocument: (documentId: string) => {
+        set((state) => {
+          if (documentId === state.activeDocumentId) return state;
+          const documents = getOpenDocuments(state);
+          const target = documents.find((d) => d.id === documentId);
+          if (!target) return state;
+          return {
+            documents,
+            ...activateDocument(target, state.ui),
+          };
+        });
+      },
+
+      closeDocument: (documentId: string) => {
+        set((state) => {
+          const documents = getOpenDocuments(state);
+          const index = documents.findIndex((d) => d.id === documentId);
+          if (index === -1) return state;
+
+          const remaining = documents.filter((d) => d.id !== documentId);
+          // Closing the last tab leaves an empty project rather than no document at all
+          if (remaining.length === 0) {
+            const document = createDocument(createEmptyProject());
+            return {
+              documents: [document],
+              ...activateDocument(document, state.ui),
+            };
+          }
+          if (documentId !== state.activeDocumentId) {
+            return { documents: remaining };
+          }
+          return {
+            documents: remaining,
+            ...activateDocument(remaining[Math.min(index, remaining.length - 1)], state.ui),
           };
         });
       },
 
+      restoreDocuments: (projects: ProjectData[], activeIndex: number, report?: ProjectLoadReport) => {
+        if (projects.length === 0) return;
+        const documents = projects.map((project) => createDocument(prepareLoadedProject(project)));
+        const active = documents[Math.min(Math.max(activeIndex, 0), documents.length - 1)];
+        set((state) => ({
+          documents,
+          ...activateDocument(active, {
+            ...state.ui,
+            libraryView: null,
+            loadReport: report?.issues.some((issue) => issue.severity !== 'info') ? report : null,
+          }),
+        }));
+      },
+
+      setReadOnly: (readOnly: boolean) => {
+        set({ isReadOnly: readOnly });
+      },
+
       // File operations
       resetProject: () => {
-        set({
-          project: DEFAULT_PROJECT_DATA,
+        const project = createEmptyProject();
+        set((state) => ({
+          project,
           selectedLayerIds: [],
           isDirty: false,
           history: DEFAULT_HISTORY,
-          ui: DEFAULT_UI,
-        });
+          ui: {
+            ...DEFAULT_UI,
+            historyPanelDock: state.ui.historyPanelDock,
+            clipboardLayers: state.ui.clipboardLayers,
+            clipboardAssets: state.ui.clipboardAssets,
+          },
+          _historyBase: project,
+          _pendingHistoryLabel: undefined,
+          isReadOnly: false,
+        }));
       },
 
-      loadProject: (projectData: ProjectData) => {
-        // Filter out preview layers before loading
-        const filteredProject = {
-          ...projectData,
-          layers: projectData.layers.filter(
-            l => l.id !== '__text_canvas_preview__' && l.id !== '__shape_canvas_preview__'
-          )
-        };
-        set({
-          project: filteredProject,
-          selectedLayerIds: [],
-          isDirty: false,
-          history: DEFAULT_HISTORY,
-          ui: DEFAULT_UI,
+      loadProject: (projectData: ProjectData, report?: ProjectLoadReport) => {
+        set((state) => {
+          const document = createDocument(prepareLoadedProject(projectData));
+          const ui = {
+            ...DEFAULT_UI,
+            historyPanelDock: state.ui.historyPanelDock,
+            clipboardLayers: state.ui.clipboardLayers,
+            clipboardAssets: state.ui.clipboardAssets,
+            // Only repairs the user may notice are shown; info-only reports stay in the console
+            loadReport: report?.issues.some((issue) => issue.severity !== 'info') ? report : null,
+          };
+
+          // An untouched empty tab is replaced; otherwise the project opens in a new tab
+          const isUntouched =
+            !state.isDirty &&
+            state.project.layers.length === 0 &&
+            state.history.past.length === 0 &&
+            state.project === state._historyBase;
+          const documents = isUntouched
+            ? state.documents.map((d) => (d.id === state.activeDocumentId ? document : d))
+            : [...getOpenDocuments(state), document];
+
+          return {
+            documents,
+            ...activateDocument(document, ui),
+          };
         });
       },
 
+      dismissLoadReport: () => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            loadReport: null,
+          },
+        }));
+      },
+
       markDirty: () => {
         set({ isDirty: true });
       },
@@ -1069,7 +2216,7 @@ const useCompositorStore = create<CompositorStore>()(
       markClean: () => {
         set({ isDirty: false });
       },
-    }),
+    })),
     {
       name: 'CompositorStore',
       enabled: true,
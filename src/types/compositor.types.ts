@@ -17,20 +17,113 @@ export interface CanvasConfig {
   dragInfoEnabled: boolean; // Show drag translation info when dragging layers
 }
 
+// Artboard: a named, separately exported rectangle on the workspace
+// When a project has artboards, the canvas is the workspace that contains them all
+export interface Artboard {
+  id: string;
+  name: string;
+  x: number; // Workspace position of the top-left corner
+  y: number;
+  width: number;
+  height: number;
+  backgroundColor: string | null; // Hex color or null for transparent
+}
+
+// Slice: a named rectangle of the workspace exported as its own image (a sprite, an icon, a UI part)
+export interface Slice {
+  id: string;
+  name: string;
+  x: number; // Workspace position of the top-left corner, can be negative
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Layer blend modes (separable, applied per RGB channel)
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'difference'
+  | 'add'
+  | 'subtract';
+
+// Non-destructive layer effects (computed at render and export time, never baked into imageData)
+interface LayerEffectBase {
+  id: string;
+  enabled: boolean;
+}
+
+export interface OutlineEffect extends LayerEffectBase {
+  type: 'outline';
+  color: string; // Hex color
+  width: number; // Thickness in pixels
+  position: 'inside' | 'outside' | 'center'; // center = width split across the edge, the odd pixel outside
+  connectivity: 4 | 8; // 4 = edges only (no diagonal corners), 8 = edges and corners
+}
+
+export interface DropShadowEffect extends LayerEffectBase {
+  type: 'dropShadow';
+  color: string; // Hex color
+  offsetX: number; // Integer pixels
+  offsetY: number; // Integer pixels
+  opacity: number; // 0.0 to 1.0
+}
+
+export interface ColorOverlayEffect extends LayerEffectBase {
+  type: 'colorOverlay';
+  color: string; // Hex color
+  opacity: number; // 0.0 to 1.0
+}
+
+export interface InnerGlowEffect extends LayerEffectBase {
+  type: 'innerGlow';
+  color: string; // Hex color
+  size: number; // Glow depth in pixels, fading out inward
+  opacity: number; // 0.0 to 1.0 at the edge
+}
+
+export type LayerEffect = OutlineEffect | DropShadowEffect | ColorOverlayEffect | InnerGlowEffect;
+
+// Editable grayscale mask: white keeps the layer's pixels, black hides them
+export interface LayerMask {
+  assetId: string; // Mask image in ProjectData.assets (PNG data URI, same size as the layer, top-left aligned)
+  enabled: boolean; // Disabled masks are kept but not applied
+  inverted: boolean; // Swap black and white when applying
+}
+
+// Lossless flip/rotation: the source image is mirrored first, then rotated clockwise
+export interface LayerTransform {
+  flipX: boolean; // Mirror horizontally
+  flipY: boolean; // Mirror vertically
+  rotation: 0 | 90 | 180 | 270; // Clockwise rotation in degrees
+}
 
 // Layer representation
 export interface Layer {
   id: string; // UUID
   name: string; // User-defined or filename
-  imageData: string; // Base64 data URI
+  assetId: string; // Image in ProjectData.assets (content hash of the data URI)
   x: number; // Can be negative
   y: number; // Can be negative
   zIndex: number; // Higher = more in front
   visible: boolean;
   locked: boolean;
   opacity: number; // 0.0 to 1.0 (1.0 = fully opaque)
-  width: number; // Image width in pixels
-  height: number; // Image height in pixels
+  blendMode?: BlendMode; // How the layer mixes with what is below it, undefined = normal
+  effects?: LayerEffect[]; // Non-destructive effects, applied in order at render/export time
+  mask?: LayerMask; // Applied to the layer's alpha before effects
+  clipToBelow?: boolean; // Only drawn inside the alpha of the nearest non-clipped sibling layer below
+  transform?: LayerTransform; // Flip/rotation applied at render/export time; x/y is the transformed top-left
+  scaleX?: number; // Integer horizontal scale (nearest-neighbor, after transform), undefined = 1
+  scaleY?: number; // Integer vertical scale (nearest-neighbor, after transform), undefined = 1
+  width: number; // Image width in pixels (before transform and scale)
+  height: number; // Image height in pixels (before transform and scale)
+  groupId?: string; // Parent LayerGroup id, undefined = top level
+  artboardIds?: string[]; // Artboards the layer is drawn in, undefined = every artboard it overlaps
   
   // Optional text layer metadata (enables re-editing)
   textContent?: string; // Original text content with \n for line breaks
@@ -51,6 +144,24 @@ export interface Layer {
   fontWeight?: 'normal' | 'bold' | 'lighter'; // Text font weight
 }
 
+// Layer fields as passed to store actions: image data (and edited mask image data) is given
+// inline and moved into the asset table by the store
+export type LayerMaskInput = Omit<LayerMask, 'assetId'> & { imageData: string };
+export type LayerInput = Omit<Layer, 'id' | 'assetId'> & { id?: string; imageData: string };
+export type LayerUpdate = Partial<Omit<Layer, 'mask'>> & { imageData?: string; mask?: LayerMask | LayerMaskInput };
+export type LayerMaskUpdate = Partial<LayerMask> & { imageData?: string };
+
+// Layer group (folder) - layers and nested groups reference it by id
+export interface LayerGroup {
+  id: string;
+  name: string;
+  parentId: string | null; // Enclosing group id, null = top level
+  visible: boolean; // Hides all children
+  locked: boolean; // Locks all children
+  opacity: number; // 0.0 to 1.0, applied to the composited children
+  collapsed: boolean; // Children hidden in the layer panel
+}
+
 // Viewport state
 export interface ViewportState {
   zoom: number; // Percentage (100 = actual size)
@@ -76,6 +187,36 @@ export interface RulerConfig {
   guides: Guide[];
 }
 
+// Animation: a sequence of frames over the same layers, each frame setting their visibility and position
+// The layers always hold the active frame's values; the other frames keep theirs as overrides
+export interface FrameLayerOverride {
+  visible: boolean;
+  x: number;
+  y: number;
+}
+
+export interface AnimationFrame {
+  id: string;
+  duration: number; // Milliseconds the frame is shown
+  layers: Record<string, FrameLayerOverride>; // Layer id -> state in this frame, missing = as in the active frame
+}
+
+export type PlaybackMode = 'loop' | 'pingPong'; // pingPong plays forward, then backward
+
+export interface OnionSkinConfig {
+  enabled: boolean;
+  before: number; // Previous frames shown
+  after: number; // Next frames shown
+  opacity: number; // 0-1, for the nearest frame; farther frames fade out
+}
+
+export interface AnimationConfig {
+  frames: AnimationFrame[]; // Empty = a still image
+  activeFrame: number; // Index of the frame the layers currently show
+  playbackMode: PlaybackMode;
+  onionSkin: OnionSkinConfig;
+}
+
 // Project metadata
 export interface ProjectMetadata {
   author: string;
@@ -84,6 +225,9 @@ export interface ProjectMetadata {
 }
 
 // Complete project data
+// Content-addressed images shared by all layers and masks: asset id -> base64 data URI
+export type ImageAssets = Record<string, string>;
+
 export interface ProjectData {
   version: string; // Semantic version
   projectName: string;
@@ -94,23 +238,84 @@ export interface ProjectData {
   grid: GridConfig;
   rulers: RulerConfig;
   layers: Layer[];
+  groups: LayerGroup[];
+  artboards: Artboard[]; // Empty = the canvas is the single exported image
+  slices: Slice[];
+  animation: AnimationConfig;
+  assets: ImageAssets;
   metadata: ProjectMetadata;
 }
 
+// Project load report: problems found (and repaired) while loading a project file
+export type ValidationSeverity = 'error' | 'warning' | 'info'; // error = content lost or replaced, warning = value repaired, info = harmless default filled in
+
+export interface ValidationIssue {
+  path: string; // Field path in the project data, e.g. "layers[3].assetId"
+  severity: ValidationSeverity;
+  message: string; // What was wrong
+  fix: string; // What the loader did about it, or what the user can do
+}
+
+export interface ProjectLoadResult {
+  project: ProjectData;
+  issues: ValidationIssue[];
+}
+
+export interface ProjectLoadReport {
+  source: string; // File or folder name the project was loaded from
+  issues: ValidationIssue[];
+}
+
 // Application state
+// An open project tab - the active tab's live state is mirrored in the top-level AppState fields
+export interface OpenDocument {
+  id: string;
+  project: ProjectData;
+  selectedLayerIds: string[];
+  isDirty: boolean;
+  history: HistoryState;
+  _historyBase: ProjectData;
+  isReadOnly: boolean;
+}
+
 export interface AppState {
   project: ProjectData;
   selectedLayerIds: string[];
   isDirty: boolean;
   history: HistoryState;
   ui: UIState;
-  _lastHistoryPushAt?: number; // Internal: timestamp of last manual history push, used to prevent double-pushing
+  documents: OpenDocument[]; // Every open tab in display order; the active entry is only refreshed when switching away
+  activeDocumentId: string;
+  isReadOnly: boolean; // Active tab only views its project, e.g. while another browser tab is editing it
+  _historyBase: ProjectData; // Internal: last project state recorded in history, diffed against on the next push
+  _pendingHistoryLabel?: string; // Internal: label for the next history entry, set by the action that made the change
 }
 
 // History tracking
+export interface ProjectFieldPatch {
+  field: keyof ProjectData;
+  before: unknown; // undefined = field absent
+  after: unknown;
+}
+
+export type LayerPatch =
+  | { type: 'add'; layerId: string; layer: Layer }
+  | { type: 'remove'; layerId: string; layer: Layer }
+  | { type: 'update'; layerId: string; before: Partial<Layer>; after: Partial<Layer> }; // Changed fields only
+
+export interface HistoryEntry {
+  id: string;
+  label: string; // Human-readable, e.g. "Move 3 layers"
+  timestamp: number;
+  projectChanges: ProjectFieldPatch[];
+  layerChanges: LayerPatch[];
+  layerOrder?: { before: string[]; after: string[] }; // Layer ids, only stored when the array order changed
+  frames?: { before: string; after: string }; // Active animation frame ids, so the entry is applied in the frame it was made in
+}
+
 export interface HistoryState {
-  past: ProjectData[];
-  future: ProjectData[];
+  past: HistoryEntry[];
+  future: HistoryEntry[];
   maxSteps: number;
 }
 
@@ -121,38 +326,37 @@ export interface UIState {
   showSelectionBorders: boolean;
   showSelectionTools: boolean; // Show edit/delete/visibility icons on selected layers
   selectionBorderAnimationSpeed: number; // 0 = no movement, 1 = max speed
+  historyPanelDock: 'left' | 'right' | null; // Side the History panel is docked to, null = hidden
+  libraryView: 'start' | 'browser' | null; // Project library shown as the start screen or as a browser, null = hidden
   clipboardLayers: Layer[];
+  clipboardAssets: ImageAssets; // Images of the copied layers, kept even if the originals are deleted
   isDraggingLayer: boolean;
   dragLayerId: string | null;
   dragStartX: number;
   dragStartY: number;
   dragOffsetX: number; // Temporary offset during drag - not part of history
   dragOffsetY: number; // Temporary offset during drag - not part of history
+  maskEditLayerId: string | null; // Layer whose mask is painted by canvas clicks, null = normal select/drag
+  maskBrush: { mode: 'brush' | 'eraser'; size: number }; // Brush hides (paints black), eraser reveals (paints white)
+  loadReport: ProjectLoadReport | null; // Repairs made while loading the current project, shown until dismissed
+  playbackFrame: number | null; // Frame shown while the animation plays (view only), null = stopped
 }
 
-// Linked project format (post-MVP)
-export interface LinkedLayer {
-  id: string;
-  name: string;
-  source: string; // Relative path
-  x: number;
-  y: number;
-  zIndex: number;
-  visible: boolean;
-  locked: boolean;
-  width: number;
-  height: number;
+// Linked project format: a JSON manifest plus one image file per layer (and mask),
+// so image changes show up as separate files instead of base64 inside the JSON
+export interface LinkedLayer extends Omit<Layer, 'assetId' | 'mask'> {
+  source: string; // Image path relative to the manifest
+  mask?: Omit<LayerMask, 'assetId'> & { source: string }; // Mask image path relative to the manifest
 }
 
-export interface LinkedProjectData {
-  version: string;
-  projectName: string;
-  created: string;
-  modified: string;
-  canvas: CanvasConfig;
-  viewport: ViewportState;
-  grid: GridConfig;
-  rulers: RulerConfig;
+export interface LinkedProjectData extends Omit<ProjectData, 'layers' | 'assets'> {
+  format: 'linked';
   layers: LinkedLayer[];
-  metadata: ProjectMetadata;
+}
+
+// .pixcomp archive (version 2): a zip with a JSON manifest plus raw image entries,
+// each asset (layer image or mask) stored once
+export interface ProjectArchiveManifest extends Omit<ProjectData, 'assets'> {
+  format: 'archive';
+  assets: Record<string, string>; // Asset id -> image path inside the archive
 }
@@ -0,0 +1,123 @@
+/**
+ * Animation utilities
+ * Frames share the project's layers; each frame sets the layers' visibility and position.
+ * The layers always hold the active frame's values (so every layer edit applies to that
+ * frame), while the other frames keep theirs as per-layer overrides.
+ */
+
+import { AnimationConfig, AnimationFrame, FrameLayerOverride, Layer, PlaybackMode, ProjectData } from '../types/compositor.types';
+
+export const DEFAULT_FRAME_DURATION = 100; // Milliseconds (10 fps)
+export const MIN_FRAME_DURATION = 10;
+export const MAX_FRAME_DURATION = 10000;
+
+// Largest number of frames shown before or after the active one as onion skin
+export const MAX_ONION_SKIN_FRAMES = 3;
+
+/**
+ * The layers' visibility and position as frame overrides
+ */
+export function captureFrameLayers(layers: Layer[]): Record<string, FrameLayerOverride> {
+  return Object.fromEntries(layers.map((layer) => [layer.id, { visible: layer.visible, x: layer.x, y: layer.y }]));
+}
+
+/**
+ * A frame showing the layers as they are now
+ */
+export function createFrame(layers: Layer[], duration: number = DEFAULT_FRAME_DURATION): AnimationFrame {
+  return {
+    id: `frame_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    duration,
+    layers: captureFrameLayers(layers),
+  };
+}
+
+/**
+ * Layers with a frame's overrides applied; layers without an override (added since) are unchanged
+ */
+export function applyFrame(layers: Layer[], frame: AnimationFrame): Layer[] {
+  return layers.map((layer) => {
+    const override = frame.layers[layer.id];
+    if (!override || (override.visible === layer.visible && override.x === layer.x && override.y === layer.y)) {
+      return layer;
+    }
+    return { ...layer, ...override };
+  });
+}
+
+/**
+ * The layers as they appear in a frame of the project
+ */
+export function getFrameLayers(project: ProjectData, index: number): Layer[] {
+  const { frames, activeFrame } = project.animation;
+  if (index === activeFrame || !frames[index]) {
+    return project.layers;
+  }
+  return applyFrame(project.layers, frames[index]);
+}
+
+/**
+ * Frames with the active one's overrides brought up to date from the layers
+ * (as stored in files and used when exporting every frame)
+ */
+export function getSyncedFrames(project: ProjectData): AnimationFrame[] {
+  const { frames, activeFrame } = project.animation;
+  return frames.map((frame, index) =>
+    index === activeFrame ? { ...frame, layers: captureFrameLayers(project.layers) } : frame
+  );
+}
+
+/**
+ * Project state for showing another frame: the active frame's values are stored as its
+ * overrides, and the target frame's overrides are applied to the layers
+ */
+export function switchToFrame(project: ProjectData, index: number): Pick<ProjectData, 'layers' | 'animation'> {
+  const frames = getSyncedFrames(project);
+  return {
+    layers: applyFrame(project.layers, frames[index]),
+    animation: { ...project.animation, frames, activeFrame: index },
+  };
+}
+
+/**
+ * Frame indices in the order they are played in one cycle
+ * Ping-pong goes back without repeating the first and last frames: 0 1 2 3 2 1
+ */
+export function getPlaybackOrder(frameCount: number, mode: PlaybackMode): number[] {
+  const forward = Array.from({ length: frameCount }, (_, i) => i);
+  if (mode === 'loop' || frameCount < 3) {
+    return forward;
+  }
+  return [...forward, ...forward.slice(1, -1).reverse()];
+}
+
+/**
+ * Frames shown as onion skin around a frame, with their opacity (fading out with distance)
+ * Frames before the first / after the last are not wrapped around.
+ */
+export function getOnionSkinFrames(animation: AnimationConfig, index: number): { index: number; opacity: number }[] {
+  const { enabled, before, after, opacity } = animation.onionSkin;
+  if (!enabled) return [];
+
+  const skins: { index: number; opacity: number }[] = [];
+  for (let distance = 1; distance <= Math.max(before, after); distance++) {
+    const fade = opacity * (1 - (distance - 1) / (Math.max(before, after) + 1));
+    if (distance <= before && index - distance >= 0) {
+      skins.push({ index: index - distance, opacity: fade });
+    }
+    if (distance <= after && index + distance < animation.frames.length) {
+      skins.push({ index: index + distance, opacity: fade });
+    }
+  }
+  return skins;
+}
+
+/**
+ * Total length of one cycle in milliseconds
+ */
+export function getAnimationDuration(animation: AnimationConfig): number {
+  return getPlaybackOrder(animation.frames.length, animation.playbackMode).reduce(
+    (total, index) => total + animation.frames[index].duration,
+    0
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Artboard utilities
+ * Artboards are named rectangles on the workspace (the project canvas), each exported
+ * as its own image. Layers use workspace coordinates; a layer without artboardIds is
+ * drawn in every artboard it overlaps, so one layer can span several artboards.
+ */
+
+import { Artboard, CanvasConfig, Layer } from '../types/compositor.types';
+import { getLayerBounds } from './layerTransforms';
+
+// Empty space kept around the artboards on the workspace (room for the name labels)
+export const ARTBOARD_MARGIN = 64;
+
+// Gap between an artboard and the one added next to it
+const ARTBOARD_SPACING = 64;
+
+/**
+ * Create an artboard placed to the right of the existing ones
+ */
+export function createArtboard(
+  artboards: Artboard[],
+  width: number,
+  height: number,
+  name: string = `Artboard ${artboards.length + 1}`
+): Artboard {
+  const right = artboards.reduce((max, a) => Math.max(max, a.x + a.width + ARTBOARD_SPACING), ARTBOARD_MARGIN);
+  return {
+    id: `artboard_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    x: right,
+    y: ARTBOARD_MARGIN,
+    width,
+    height,
+    backgroundColor: null,
+  };
+}
+
+/**
+ * Whether a layer is drawn in an artboard: listed explicitly, or (when unassigned) overlapping it
+ */
+export function isLayerInArtboard(layer: Layer, artboard: Artboard): boolean {
+  if (layer.artboardIds) {
+    return layer.artboardIds.includes(artboard.id);
+  }
+
+  const bounds = getLayerBounds(layer);
+  return (
+    bounds.x < artboard.x + artboard.width &&
+    bounds.x + bounds.width > artboard.x &&
+    bounds.y < artboard.y + artboard.height &&
+    bounds.y + bounds.height > artboard.y
+  );
+}
+
+/**
+ * Copy of a layer assigned only to the artboards that exist, unassigned when none of its artboards remain
+ */
+export function keepExistingArtboards(layer: Layer, artboards: Artboard[]): Layer {
+  if (!layer.artboardIds) return layer;
+  const artboardIds = layer.artboardIds.filter((id) => artboards.some((a) => a.id === id));
+  if (artboardIds.length === layer.artboardIds.length) return layer;
+  if (artboardIds.length > 0) return { ...layer, artboardIds };
+  const unassigned = { ...layer };
+  delete unassigned.artboardIds;
+  return unassigned;
+}
+
+/**
+ * Layers drawn in an artboard, in their original order
+ */
+export function getArtboardLayers(layers: Layer[], artboard: Artboard): Layer[] {
+  return layers.filter((layer) => isLayerInArtboard(layer, artboard));
+}
+
+/**
+ * Topmost artboard containing a workspace point, or null
+ */
+export function getArtboardAtPoint(x: number, y: number, artboards: Artboard[]): Artboard | null {
+  for (let i = artboards.length - 1; i >= 0; i--) {
+    const a = artboards[i];
+    if (x >= a.x && x < a.x + a.width && y >= a.y && y < a.y + a.height) {
+      return a;
+    }
+  }
+  return null;
+}
+
+/**
+ * Canvas config grown so the workspace contains every artboard plus a margin
+ * The workspace never shrinks below its current size, so layers placed around the artboards stay on it.
+ */
+export function fitWorkspaceToArtboards(canvas: CanvasConfig, artboards: Artboard[]): CanvasConfig {
+  const width = artboards.reduce((max, a) => Math.max(max, a.x + a.width + ARTBOARD_MARGIN), canvas.width);
+  const height = artboards.reduce((max, a) => Math.max(max, a.y + a.height + ARTBOARD_MARGIN), canvas.height);
+  return width === canvas.width && height === canvas.height ? canvas : { ...canvas, width, height };
+}
+
+/**
+ * Unique file name (without extension) per named item (artboards, slices, layers), for exporting them together
+ */
+export function getUniqueFileNames(items: { id: string; name: string }[], fallback: string): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  for (const item of items) {
+    const base = item.name.trim().replace(/[\\/:*?"<>|]+/g, '_') || fallback;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base} ${n}`;
+    }
+    used.add(name.toLowerCase());
+    names.set(item.id, name);
+  }
+  return names;
+}
+
+/**
+ * Unique file name (without extension) per artboard, for exporting them together
+ */
+export function getArtboardFileNames(artboards: Artboard[]): Map<string, string> {
+  return getUniqueFileNames(artboards, 'artboard');
+}
@@ -0,0 +1,111 @@
+/**
+ * Content-addressed image asset table
+ * Layers and their masks refer to their pixels by asset id (a hash of the image data URL), so
+ * duplicated, pasted and undone layers share one copy in memory, in .pixcomp files and in the autosave.
+ * Assets are immutable: editing a layer's pixels adds a new asset and points the layer at it.
+ */
+
+import { ImageAssets, Layer, LayerMask, LayerMaskInput } from '../types/compositor.types';
+
+/**
+ * 64-bit content hash of an image data URL, as 16 hex digits
+ * Two independently seeded 32-bit lanes (cyrb53-style mixing); not cryptographic,
+ * but collisions are negligible at project scale.
+ */
+export function hashImageData(dataUrl: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < dataUrl.length; i++) {
+    const ch = dataUrl.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Add an image to the table (if not already there) and return its id
+ * The table is returned unchanged (same object) when the image is already stored.
+ */
+export function addAsset(assets: ImageAssets, dataUrl: string): { assets: ImageAssets; assetId: string } {
+  const hash = hashImageData(dataUrl);
+  let assetId = hash;
+  // On the (unlikely) collision with a different image, use the next free suffix
+  for (let n = 1; assets[assetId] !== undefined && assets[assetId] !== dataUrl; n++) {
+    assetId = `${hash}-${n}`;
+  }
+  if (assets[assetId] === dataUrl) {
+    return { assets, assetId };
+  }
+  return { assets: { ...assets, [assetId]: dataUrl }, assetId };
+}
+
+/**
+ * Image data URL of a layer ('' if the asset is missing)
+ */
+export function getLayerImage(assets: ImageAssets, layer: Pick<Layer, 'assetId'>): string {
+  return assets[layer.assetId] ?? '';
+}
+
+/**
+ * Image data URL of a layer mask ('' if the asset is missing)
+ */
+export function getMaskImage(assets: ImageAssets, mask: Pick<LayerMask, 'assetId'>): string {
+  return assets[mask.assetId] ?? '';
+}
+
+/**
+ * A mask with its image inline, as taken by mask image operations
+ */
+export function getInlineMask(assets: ImageAssets, mask: LayerMask): LayerMaskInput {
+  return { enabled: mask.enabled, inverted: mask.inverted, imageData: getMaskImage(assets, mask) };
+}
+
+/**
+ * Only the assets referenced by the given layers (their images and masks)
+ * Returns the same table when nothing is unreferenced, so unchanged projects keep their identity.
+ */
+export function pruneAssets(assets: ImageAssets, layers: Pick<Layer, 'assetId' | 'mask'>[]): ImageAssets {
+  const used = new Set(layers.flatMap((layer) => (layer.mask ? [layer.assetId, layer.mask.assetId] : [layer.assetId])));
+  if (Object.keys(assets).every((id) => used.has(id))) return assets;
+
+  const pruned: ImageAssets = {};
+  for (const id of used) {
+    if (assets[id] !== undefined) pruned[id] = assets[id];
+  }
+  return pruned;
+}
+
+/**
+ * Move inline image data into the asset table
+ * Layers given with `imageData` (new layers, image edits, files from before the asset table)
+ * get an `assetId` instead, as do masks given with `imageData`; identical images end up as a single asset.
+ */
+export function internLayerImages<T extends { imageData?: string; assetId?: string; mask?: LayerMask | LayerMaskInput }>(
+  assets: ImageAssets,
+  layers: T[]
+): { assets: ImageAssets; layers: (Omit<T, 'imageData' | 'mask'> & Pick<Layer, 'mask'>)[] } {
+  let table = assets;
+  const interned = layers.map((layer) => {
+    const inlineMask = layer.mask && 'imageData' in layer.mask ? layer.mask : undefined;
+    if (layer.imageData === undefined && !inlineMask) return layer as Omit<T, 'imageData' | 'mask'> & Pick<Layer, 'mask'>;
+
+    const { imageData, ...rest } = layer;
+    const fields = rest as Omit<T, 'imageData' | 'mask'> & Partial<Pick<Layer, 'assetId' | 'mask'>>;
+    if (imageData !== undefined) {
+      const added = addAsset(table, imageData);
+      table = added.assets;
+      fields.assetId = added.assetId;
+    }
+    if (inlineMask) {
+      const { imageData: maskData, ...mask } = inlineMask;
+      const added = addAsset(table, maskData);
+      table = added.assets;
+      fields.mask = { ...mask, assetId: added.assetId };
+    }
+    return fields;
+  });
+  return { assets: table, layers: interned };
+}
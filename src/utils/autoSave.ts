@@ -1,10 +1,48 @@
-import { ProjectData } from '../types/compositor.types';
+import { ProjectData, ProjectLoadResult } from '../types/compositor.types';
 import { serializeProject, deserializeProject } from './projectSerializer';
+import { renderProjectThumbnail } from './canvasRenderer';
+import { discoverOtherTabs, getTabId } from './tabSync';
 
 const DB_NAME = 'PixelConnectDB';
 const STORE_NAME = 'projects';
-const KEY = 'current_project';
-const DB_VERSION = 1;
+const SNAPSHOT_STORE_NAME = 'snapshots'; // Snapshot details shown in the recovery dialog, keyed by snapshot id
+const SNAPSHOT_DATA_STORE_NAME = 'snapshotData'; // Serialized project per snapshot id, only read when restoring
+export const LIBRARY_STORE_NAME = 'library'; // Project library entries (see projectLibrary.ts), keyed by library id
+export const LIBRARY_DATA_STORE_NAME = 'libraryData'; // .pixcomp archive Blob per library id
+const SESSION_KEY_PREFIX = 'open_documents:'; // Followed by the browser tab id - each browser tab keeps its own session
+const UNSCOPED_SESSION_KEY = 'open_documents'; // Session written before browser tabs had their own
+const LEGACY_KEY = 'current_project'; // Single-project cache written before tabs existed
+const MAX_SESSIONS = 5; // Sessions of closed browser tabs kept for recovery
+const DB_VERSION = 3;
+
+// Snapshot retention per project: the most recent ones, plus the newest of each older hour
+const MAX_RECENT_SNAPSHOTS = 20;
+const MAX_HOURLY_SNAPSHOTS = 24;
+// Changes within this time update the newest snapshot instead of adding one
+const SNAPSHOT_INTERVAL_MS = 60 * 1000;
+const THUMBNAIL_SIZE = 96;
+
+interface CachedDocuments {
+  activeIndex: number;
+  projects: string[];
+  savedAt?: string; // ISO 8601; missing in sessions written before browser tabs had their own
+}
+
+export interface CachedSession {
+  activeIndex: number;
+  documents: ProjectLoadResult[];
+}
+
+export interface AutosaveSnapshot {
+  id: string;
+  tabId: string; // Browser tab that wrote the snapshot
+  projectKey: string; // Identifies the project across sessions (its creation time)
+  projectName: string;
+  savedAt: string; // ISO 8601
+  modified: string; // project.modified when saved, to skip unchanged projects
+  layerCount: number;
+  thumbnail: string; // PNG data URL
+}
 
 export const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -15,22 +53,58 @@ export const initDB = (): Promise<IDBDatabase> => {
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
+      const storeNames = [
+        STORE_NAME,
+        SNAPSHOT_STORE_NAME,
+        SNAPSHOT_DATA_STORE_NAME,
+        LIBRARY_STORE_NAME,
+        LIBRARY_DATA_STORE_NAME,
+      ];
+      for (const storeName of storeNames) {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName);
+        }
       }
     };
   });
 };
 
-export const saveToCache = async (project: ProjectData): Promise<void> => {
+const getSessionKey = (): string => `${SESSION_KEY_PREFIX}${getTabId()}`;
+
+/**
+ * Cache every open tab under this browser tab's own key, so a reload restores all of them
+ * without touching what other browser tabs saved. Only the newest sessions of closed tabs are kept -
+ * tabs still open are asked for first, so their sessions are never expired.
+ */
+export const saveToCache = async (projects: ProjectData[], activeIndex: number): Promise<void> => {
   try {
     const db = await initDB();
-    const serialized = serializeProject(project);
-    
+    const cached: CachedDocuments = {
+      activeIndex,
+      projects: projects.map((project) => serializeProject(project)),
+      savedAt: new Date().toISOString(),
+    };
+    const sessionKey = getSessionKey();
+    // Sessions are only read (to find the oldest) once there are more than the limit
+    const keyCount = await new Promise<number>((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).count();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    let expiredSessions: { key: string }[] = [];
+    if (keyCount > MAX_SESSIONS + 1) {
+      const openKeys = new Set((await discoverOtherTabs()).map((tab) => `${SESSION_KEY_PREFIX}${tab.tabId}`));
+      openKeys.add(sessionKey);
+      expiredSessions = (await readSessions(db)).filter(({ key }) => !openKeys.has(key)).slice(MAX_SESSIONS);
+    }
+
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(STORE_NAME, 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(serialized, KEY);
+      const request = store.put(cached, sessionKey);
+      for (const { key } of expiredSessions) {
+        store.delete(key);
+      }
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
@@ -40,46 +114,247 @@ export const saveToCache = async (project: ProjectData): Promise<void> => {
   }
 };
 
-export const loadFromCache = async (): Promise<ProjectData | null> => {
+const readCacheEntry = (db: IDBDatabase, key: string, storeName: string = STORE_NAME): Promise<unknown> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const store = transaction.objectStore(storeName);
+    const request = store.get(key);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Every cached session (including the older unscoped and single-project ones), newest first
+ */
+const readSessions = (db: IDBDatabase): Promise<{ key: string; cached: CachedDocuments }[]> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const keysRequest = store.getAllKeys();
+    const valuesRequest = store.getAll();
+
+    transaction.oncomplete = () => {
+      const sessions = keysRequest.result.flatMap((key, index) => {
+        const value = valuesRequest.result[index];
+        if (key === LEGACY_KEY && typeof value === 'string') {
+          return [{ key, cached: { activeIndex: 0, projects: [value] } }];
+        }
+        if (key === UNSCOPED_SESSION_KEY || String(key).startsWith(SESSION_KEY_PREFIX)) {
+          return [{ key: String(key), cached: value as CachedDocuments }];
+        }
+        return [];
+      });
+      resolve(sessions.sort((a, b) => (b.cached.savedAt ?? '').localeCompare(a.cached.savedAt ?? '')));
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * The session to offer for recovery: this browser tab's own (after a reload), otherwise the
+ * newest one of a browser tab that is no longer open - never one another open tab is still writing
+ */
+const findRecoverableSession = async (
+  db: IDBDatabase,
+  openTabIds: string[]
+): Promise<{ key: string; cached: CachedDocuments } | null> => {
+  const sessionKey = getSessionKey();
+  const openKeys = new Set(openTabIds.map((id) => `${SESSION_KEY_PREFIX}${id}`));
+  const sessions = (await readSessions(db)).filter(({ cached }) => cached.projects.length > 0);
+  return (
+    sessions.find(({ key }) => key === sessionKey) ??
+    sessions.find(({ key }) => !openKeys.has(key)) ??
+    null
+  );
+};
+
+/**
+ * Restore a cached session; openTabIds are the other browser tabs that are open right now
+ * A session of a closed browser tab is taken over: this tab saves it under its own key from now on.
+ */
+export const loadFromCache = async (openTabIds: string[] = []): Promise<CachedSession | null> => {
   try {
     const db = await initDB();
-    
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get(KEY);
-
-      request.onsuccess = async () => {
-        const result = request.result;
-        if (result) {
-          try {
-            const project = await deserializeProject(result);
-            resolve(project);
-          } catch (e) {
-            reject(e);
-          }
-        } else {
-          resolve(null);
-        }
-      };
-      request.onerror = () => reject(request.error);
-    });
+    const session = await findRecoverableSession(db, openTabIds);
+    if (!session) return null;
+
+    const documents = await Promise.all(session.cached.projects.map((serialized) => deserializeProject(serialized)));
+    if (session.key !== getSessionKey()) {
+      await new Promise<void>((resolve, reject) => {
+        const request = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(session.key);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return { activeIndex: session.cached.activeIndex, documents };
   } catch (error) {
     console.error('Failed to load from cache:', error);
     return null;
   }
 };
 
-export const clearCache = async (): Promise<void> => {
+/**
+ * Number of tabs in the session loadFromCache would restore (0 if none), without deserializing them
+ */
+export const getCachedSessionSize = async (openTabIds: string[] = []): Promise<number> => {
+  try {
+    const db = await initDB();
+    return (await findRecoverableSession(db, openTabIds))?.cached.projects.length ?? 0;
+  } catch (error) {
+    console.error('Failed to read cache:', error);
+    return 0;
+  }
+};
+
+/**
+ * Snapshots past the retention limits, for one project's snapshots
+ * Keeps the MAX_RECENT_SNAPSHOTS newest, then the newest snapshot of each earlier hour (up to MAX_HOURLY_SNAPSHOTS).
+ */
+export function getExpiredSnapshots(snapshots: AutosaveSnapshot[]): AutosaveSnapshot[] {
+  const sorted = [...snapshots].sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  const kept = new Set(sorted.slice(0, MAX_RECENT_SNAPSHOTS).map((snapshot) => snapshot.id));
+  const hours = new Set<string>();
+
+  for (const snapshot of sorted.slice(MAX_RECENT_SNAPSHOTS)) {
+    const hour = snapshot.savedAt.slice(0, 13); // "YYYY-MM-DDTHH"
+    if (hours.has(hour) || hours.size >= MAX_HOURLY_SNAPSHOTS) continue;
+    hours.add(hour);
+    kept.add(snapshot.id);
+  }
+
+  return sorted.filter((snapshot) => !kept.has(snapshot.id));
+}
+
+const readAllSnapshots = (db: IDBDatabase): Promise<AutosaveSnapshot[]> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SNAPSHOT_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(SNAPSHOT_STORE_NAME).getAll();
+
+    request.onsuccess = () => resolve(request.result as AutosaveSnapshot[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const removeSnapshots = (db: IDBDatabase, ids: string[]): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SNAPSHOT_STORE_NAME, SNAPSHOT_DATA_STORE_NAME], 'readwrite');
+    for (const id of ids) {
+      transaction.objectStore(SNAPSHOT_STORE_NAME).delete(id);
+      transaction.objectStore(SNAPSHOT_DATA_STORE_NAME).delete(id);
+    }
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Add a timestamped snapshot of a project, then drop its snapshots past the retention limits
+ * Unchanged projects are skipped; changes soon after the last snapshot update it in place.
+ */
+export const saveSnapshot = async (project: ProjectData): Promise<void> => {
+  try {
+    const db = await initDB();
+    const projectKey = project.created;
+    const existing = (await readAllSnapshots(db)).filter((snapshot) => snapshot.projectKey === projectKey);
+    const latest = existing.reduce<AutosaveSnapshot | null>(
+      (newest, snapshot) => (!newest || snapshot.savedAt > newest.savedAt ? snapshot : newest),
+      null
+    );
+    if (latest && latest.modified === project.modified && latest.projectName === project.projectName) return;
+
+    const now = new Date();
+    // Only this browser tab's own snapshot is updated in place - never one written by another tab
+    const replacesLatest =
+      latest !== null &&
+      latest.tabId === getTabId() &&
+      now.getTime() - new Date(latest.savedAt).getTime() < SNAPSHOT_INTERVAL_MS;
+    const snapshot: AutosaveSnapshot = {
+      id: replacesLatest ? latest.id : `snapshot_${now.getTime()}_${Math.random().toString(36).substr(2, 9)}`,
+      tabId: getTabId(),
+      projectKey,
+      projectName: project.projectName,
+      // The replaced snapshot keeps its time slot, so a busy minute still counts as one snapshot
+      savedAt: replacesLatest ? latest.savedAt : now.toISOString(),
+      modified: project.modified,
+      layerCount: project.layers.length,
+      thumbnail: await renderProjectThumbnail(project, THUMBNAIL_SIZE),
+    };
+    const serialized = serializeProject(project);
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([SNAPSHOT_STORE_NAME, SNAPSHOT_DATA_STORE_NAME], 'readwrite');
+      transaction.objectStore(SNAPSHOT_STORE_NAME).put(snapshot, snapshot.id);
+      transaction.objectStore(SNAPSHOT_DATA_STORE_NAME).put(serialized, snapshot.id);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    const snapshots = replacesLatest ? existing : [...existing, snapshot];
+    const expired = getExpiredSnapshots(snapshots);
+    if (expired.length > 0) {
+      await removeSnapshots(db, expired.map((s) => s.id));
+    }
+  } catch (error) {
+    console.error('Failed to save snapshot:', error);
+  }
+};
+
+/**
+ * Every autosave snapshot, newest first
+ * Snapshots of the other browser tabs that are open right now (openTabIds) are left out: those tabs are still saving them.
+ */
+export const listSnapshots = async (openTabIds: string[] = []): Promise<AutosaveSnapshot[]> => {
+  try {
+    const db = await initDB();
+    const snapshots = (await readAllSnapshots(db)).filter((snapshot) => !openTabIds.includes(snapshot.tabId));
+    return snapshots.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  } catch (error) {
+    console.error('Failed to list snapshots:', error);
+    return [];
+  }
+};
+
+export const loadSnapshot = async (id: string): Promise<ProjectLoadResult | null> => {
+  try {
+    const db = await initDB();
+    const serialized = (await readCacheEntry(db, id, SNAPSHOT_DATA_STORE_NAME)) as string | undefined;
+    return serialized ? await deserializeProject(serialized) : null;
+  } catch (error) {
+    console.error('Failed to load snapshot:', error);
+    return null;
+  }
+};
+
+export const deleteSnapshots = async (ids: string[]): Promise<void> => {
   try {
     const db = await initDB();
+    await removeSnapshots(db, ids);
+  } catch (error) {
+    console.error('Failed to delete snapshots:', error);
+  }
+};
+
+/**
+ * Delete the cached sessions, except those of the other browser tabs that are open right now
+ */
+export const clearCache = async (openTabIds: string[] = []): Promise<void> => {
+  try {
+    const db = await initDB();
+    const openKeys = new Set(openTabIds.map((id) => `${SESSION_KEY_PREFIX}${id}`));
+    const sessions = (await readSessions(db)).filter(({ key }) => !openKeys.has(key));
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(STORE_NAME, 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(KEY);
-      
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      for (const { key } of sessions) {
+        store.delete(key);
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
   } catch (error) {
     console.error('Failed to clear cache:', error);
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { BlendMode } from '../types/compositor.types';
+import { blendImageData, BLEND_MODES } from './blendModes';
+
+/**
+ * ImageData from a list of [r, g, b, a] pixels, row by row (the test environment has no ImageData)
+ */
+function makeImageData(width: number, height: number, pixels: number[][]): ImageData {
+  return { width, height, data: new Uint8ClampedArray(pixels.flat()), colorSpace: 'srgb' } as ImageData;
+}
+
+function blendPixel(backdrop: number[], source: number[], mode: BlendMode, opacity?: number): number[] {
+  const dst = makeImageData(1, 1, [backdrop]);
+  blendImageData(dst, makeImageData(1, 1, [source]), 0, 0, mode, opacity);
+  return Array.from(dst.data);
+}
+
+describe('blendImageData', () => {
+  // Channels of 0.8/0.4/0.2 under 0.2/0.6/1.0, both opaque
+  const backdrop = [204, 102, 51, 255];
+  const source = [51, 153, 255, 255];
+  const expected: Record<BlendMode, number[]> = {
+    normal: [51, 153, 255, 255],
+    multiply: [41, 61, 51, 255],
+    screen: [214, 194, 255, 255],
+    // Multiply where the backdrop is dark, screen where it is light
+    overlay: [173, 122, 102, 255],
+    darken: [51, 102, 51, 255],
+    lighten: [204, 153, 255, 255],
+    difference: [153, 51, 204, 255],
+    add: [255, 255, 255, 255],
+    subtract: [153, 0, 0, 255],
+  };
+
+  for (const { value: mode } of BLEND_MODES) {
+    it(`blends opaque pixels with ${mode}`, () => {
+      expect(blendPixel(backdrop, source, mode)).toEqual(expected[mode]);
+    });
+  }
+
+  it('mixes with the backdrop by source alpha and opacity', () => {
+    expect(blendPixel([0, 0, 255, 255], [255, 0, 0, 255], 'normal', 0.5)).toEqual([128, 0, 128, 255]);
+    expect(blendPixel([0, 0, 255, 255], [255, 0, 0, 255], 'normal', 0)).toEqual([0, 0, 255, 255]);
+    // Multiply at 50%: halfway between the backdrop and the multiplied color
+    expect(blendPixel(backdrop, source, 'multiply', 0.5)).toEqual([122, 82, 51, 255]);
+  });
+
+  it('keeps the source color over a transparent backdrop', () => {
+    for (const { value: mode } of BLEND_MODES) {
+      expect(blendPixel([0, 0, 0, 0], [51, 153, 255, 51], mode)).toEqual([51, 153, 255, 51]);
+    }
+  });
+
+  it('clips the source to the destination', () => {
+    const dst = makeImageData(2, 1, [[0, 0, 0, 255], [0, 0, 0, 255]]);
+    const src = makeImageData(2, 2, [[10, 10, 10, 255], [20, 20, 20, 255], [30, 30, 30, 255], [40, 40, 40, 255]]);
+    blendImageData(dst, src, 1, -1);
+    expect(Array.from(dst.data)).toEqual([0, 0, 0, 255, 30, 30, 30, 255]);
+  });
+});
@@ -3,7 +3,14 @@
  * Handles pixel-perfect rendering operations
  */
 
-import { Layer, CanvasConfig, ViewportState } from '../types/compositor.types';
+import { Artboard, Layer, LayerGroup, CanvasConfig, ViewportState, ProjectData } from '../types/compositor.types';
+import { buildLayerTree, getClipBases, isLayerVisible, LayerTreeNode } from './layerGroups';
+import { blendImageData } from './blendModes';
+import { applyLayerEffects, hasActiveEffects } from './layerEffects';
+import { applyMaskToPixels } from './layerMasks';
+import { applyScaleToPixels, applyTransformToPixels, getLayerBounds, getLayerScale } from './layerTransforms';
+import { getLayerImage, getMaskImage } from './assets';
+import { getArtboardLayers } from './artboards';
 
 /**
  * Render all visible layers to a canvas context
@@ -60,24 +67,27 @@ export function renderCanvasContent(
 
 /**
  * Get the layer at a specific canvas coordinate
- * Returns the topmost visible layer at that position, or null
+ * Returns the topmost visible layer whose transformed bounds contain that position, or null.
+ * Layers inside hidden groups are skipped.
  */
 export function getLayerAtPoint(
   x: number,
   y: number,
-  layers: Layer[]
+  layers: Layer[],
+  groups: LayerGroup[] = []
 ): Layer | null {
   // Check in reverse order (top layer first)
   const sortedLayers = [...layers]
-    .filter((layer) => layer.visible)
+    .filter((layer) => isLayerVisible(layer, groups))
     .sort((a, b) => b.zIndex - a.zIndex);
 
   for (const layer of sortedLayers) {
+    const bounds = getLayerBounds(layer);
     if (
-      x >= layer.x &&
-      x < layer.x + layer.width &&
-      y >= layer.y &&
-      y < layer.y + layer.height
+      x >= bounds.x &&
+      x < bounds.x + bounds.width &&
+      y >= bounds.y &&
+      y < bounds.y + bounds.height
     ) {
       return layer;
     }
@@ -135,3 +145,405 @@ export async function loadImageFromDataURL(dataUrl: string): Promise<HTMLImageEl
     img.src = dataUrl;
   });
 }
+
+// Decoded RGBA pixels per image, read back once and reused across renders
+const imagePixelCache = new WeakMap<HTMLImageElement, ImageData>();
+
+/**
+ * Read the RGBA pixels of a loaded image (cached per image element)
+ */
+export function getImagePixels(img: HTMLImageElement): ImageData {
+  const cached = imagePixelCache.get(img);
+  if (cached) return cached;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.drawImage(img, 0, 0);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  imagePixelCache.set(img, pixels);
+  return pixels;
+}
+
+/**
+ * Fill an ImageData with a CSS color (resolved through a 1x1 canvas)
+ */
+function fillImageData(imageData: ImageData, color: string): void {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, 1, 1);
+  const [r, g, b, a] = ctx.getImageData(0, 0, 1, 1).data;
+
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+    data[i + 3] = a;
+  }
+}
+
+/**
+ * Copy of `pixels` (placed at x, y) with alpha scaled by the alpha of `base` (placed at baseX, baseY)
+ * Pixels outside the base become fully transparent
+ */
+function clipToAlpha(pixels: ImageData, x: number, y: number, base: ImageData, baseX: number, baseY: number): ImageData {
+  const result = new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height);
+  for (let py = 0; py < pixels.height; py++) {
+    const by = py + y - baseY;
+    for (let px = 0; px < pixels.width; px++) {
+      const alphaIndex = (py * pixels.width + px) * 4 + 3;
+      if (result.data[alphaIndex] === 0) continue;
+
+      const bx = px + x - baseX;
+      const baseAlpha = bx >= 0 && by >= 0 && bx < base.width && by < base.height
+        ? base.data[(by * base.width + bx) * 4 + 3]
+        : 0;
+      result.data[alphaIndex] = Math.round((result.data[alphaIndex] * baseAlpha) / 255);
+    }
+  }
+  return result;
+}
+
+/**
+ * Every factor-th pixel of `pixels` (placed at x, y), on a grid aligned to the workspace origin,
+ * with its position on that grid; null when no grid point falls on the image
+ */
+function downsampleAt(pixels: ImageData, x: number, y: number, factor: number): { pixels: ImageData; x: number; y: number } | null {
+  if (factor === 1) return { pixels, x, y };
+
+  const left = Math.ceil(x / factor);
+  const top = Math.ceil(y / factor);
+  const width = Math.ceil((x + pixels.width) / factor) - left;
+  const height = Math.ceil((y + pixels.height) / factor) - top;
+  if (width <= 0 || height <= 0) return null;
+
+  const sampled = new ImageData(width, height);
+  const src = new Uint32Array(pixels.data.buffer, pixels.data.byteOffset, pixels.width * pixels.height);
+  const dst = new Uint32Array(sampled.data.buffer);
+  for (let sy = 0; sy < height; sy++) {
+    const srcRow = ((top + sy) * factor - y) * pixels.width;
+    for (let sx = 0; sx < width; sx++) {
+      dst[sy * width + sx] = src[srcRow + (left + sx) * factor - x];
+    }
+  }
+  return { pixels: sampled, x: left, y: top };
+}
+
+// Rendered pixels with their top-left position
+type PlacedPixels = { pixels: ImageData; x: number; y: number };
+
+/**
+ * Whether a group can be drawn without a buffer of its own: fully opaque, with only normal
+ * layers directly in it (normal blending gives the same result whether or not it is grouped;
+ * nested groups are blended normally as well, however they are drawn)
+ */
+function isPassThroughGroup(node: LayerTreeNode & { type: 'group' }): boolean {
+  return (
+    node.group.opacity >= 1 &&
+    node.children.every((child) => child.type === 'group' || (child.layer.blendMode ?? 'normal') === 'normal')
+  );
+}
+
+/**
+ * Composite a layer tree into a width x height RGBA buffer at 1:1 pixel scale.
+ * This is the single compositing path shared by the canvas view and PNG export,
+ * so both produce identical pixels. Layers get their mask, transform, scale and effects applied, are cut to their
+ * clipping base's alpha if clipped, then are blended with their blend mode and opacity;
+ * groups are composited in their own buffer (sized to what their children draw) first, so blend
+ * modes inside a group only affect its own children; fully opaque groups of normal layers, which
+ * would look the same either way, are drawn straight onto the target.
+ * getLayerSource supplies each layer's image, integer position (e.g. with drag offset) and mask pixels.
+ * With a downscale factor above 1, width x height is the reduced size and each layer is sampled at every
+ * downscale-th pixel before blending (for previews: no buffer is ever canvas-sized).
+ */
+export function compositeLayerTree(
+  nodes: LayerTreeNode[],
+  width: number,
+  height: number,
+  getLayerSource: (layer: Layer) => { image: HTMLImageElement; x: number; y: number; mask?: ImageData } | null,
+  backgroundColor: string | null = null,
+  downscale: number = 1
+): ImageData {
+  const result = new ImageData(width, height);
+  if (backgroundColor) {
+    fillImageData(result, backgroundColor);
+  }
+
+  // Each layer is rendered (mask, transform, scale, effects, downsampling) at most once per composite,
+  // placed in result coordinates; null = nothing drawn
+  const renderedLayers = new Map<string, PlacedPixels | null>();
+  const renderLayer = (layer: Layer): PlacedPixels | null => {
+    const cached = renderedLayers.get(layer.id);
+    if (cached !== undefined) return cached;
+
+    const source = layer.visible ? getLayerSource(layer) : null;
+    let placed: PlacedPixels | null = null;
+    if (source) {
+      // Mask first (it is in source image space), then flip/rotate and scale, so effects
+      // (outline, shadow) follow the masked shape in screen space
+      let pixels = getImagePixels(source.image);
+      const { effects, mask, transform } = layer;
+      if (mask?.enabled && source.mask) {
+        pixels = applyMaskToPixels(pixels, source.mask, mask.inverted);
+      }
+      if (transform) {
+        pixels = applyTransformToPixels(pixels, transform);
+      }
+      const scale = getLayerScale(layer);
+      pixels = applyScaleToPixels(pixels, scale.x, scale.y);
+
+      // Effects may grow the image (outline, shadow), shifting it up/left
+      const rendered = effects && hasActiveEffects(effects)
+        ? applyLayerEffects(pixels, effects)
+        : { pixels, offsetX: 0, offsetY: 0 };
+      placed = downsampleAt(
+        rendered.pixels,
+        Math.floor(source.x) + rendered.offsetX,
+        Math.floor(source.y) + rendered.offsetY,
+        downscale
+      );
+    }
+    renderedLayers.set(layer.id, placed);
+    return placed;
+  };
+
+  // Rectangle (within the result) the visible layers of a subtree draw into, or null when empty
+  // Clipped layers are left out: they never draw outside their clipping base.
+  const getTreeBounds = (treeNodes: LayerTreeNode[]): { x: number; y: number; width: number; height: number } | null => {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    const visit = (visitNodes: LayerTreeNode[]) => {
+      for (const node of visitNodes) {
+        if (node.type === 'group') {
+          if (node.group.visible) visit(node.children);
+          continue;
+        }
+        if (node.layer.clipToBelow) continue;
+        const placed = renderLayer(node.layer);
+        if (!placed) continue;
+        minX = Math.min(minX, placed.x);
+        minY = Math.min(minY, placed.y);
+        maxX = Math.max(maxX, placed.x + placed.pixels.width);
+        maxY = Math.max(maxY, placed.y + placed.pixels.height);
+      }
+    };
+    visit(treeNodes);
+
+    const x = Math.max(0, minX);
+    const y = Math.max(0, minY);
+    const right = Math.min(width, maxX);
+    const bottom = Math.min(height, maxY);
+    return right > x && bottom > y ? { x, y, width: right - x, height: bottom - y } : null;
+  };
+
+  // target covers the result from (originX, originY) on
+  const compositeNodes = (target: ImageData, originX: number, originY: number, treeNodes: LayerTreeNode[]) => {
+    // Rendered pixels of clipping bases, so clipped layers above can be cut to their alpha
+    const clipBases = getClipBases(treeNodes);
+    const baseIds = new Set([...clipBases.values()].map((base) => base?.id));
+    const renderedBases = new Map<string, PlacedPixels | null>();
+
+    for (const node of treeNodes) {
+      if (node.type === 'layer') {
+        const clipBase = clipBases.get(node.id);
+        // Layers clipped to a hidden (or missing) base are hidden with it
+        if (clipBase && !renderedBases.get(clipBase.id)) continue;
+
+        const placed = renderLayer(node.layer);
+        if (baseIds.has(node.id)) {
+          renderedBases.set(node.id, placed);
+        }
+        if (!placed) continue;
+
+        const { x, y } = placed;
+        const base = clipBase ? renderedBases.get(clipBase.id) : null;
+        blendImageData(
+          target,
+          base ? clipToAlpha(placed.pixels, x, y, base.pixels, base.x, base.y) : placed.pixels,
+          x - originX,
+          y - originY,
+          node.layer.blendMode,
+          node.layer.opacity !== undefined ? node.layer.opacity : 1.0
+        );
+        continue;
+      }
+
+      const { group, children } = node;
+      if (!group.visible) continue;
+
+      // Fully opaque groups of normal layers look the same drawn straight onto the target
+      if (isPassThroughGroup(node)) {
+        compositeNodes(target, originX, originY, children);
+        continue;
+      }
+
+      // Otherwise the children are composited on their own, in a buffer only as large as what they draw
+      const bounds = getTreeBounds(children);
+      if (!bounds) continue;
+
+      const buffer = new ImageData(bounds.width, bounds.height);
+      compositeNodes(buffer, bounds.x, bounds.y, children);
+      blendImageData(target, buffer, bounds.x - originX, bounds.y - originY, 'normal', group.opacity);
+    }
+  };
+
+  compositeNodes(result, 0, 0, nodes);
+  return result;
+}
+
+/**
+ * Composite a rectangle of the workspace at 1:1 pixel scale (it may reach past the canvas)
+ * getLayerSource works in workspace coordinates, like for compositeLayerTree.
+ */
+export function compositeRegion(
+  region: { x: number; y: number; width: number; height: number },
+  layers: Layer[],
+  groups: LayerGroup[],
+  getLayerSource: (layer: Layer) => { image: HTMLImageElement; x: number; y: number; mask?: ImageData } | null,
+  backgroundColor: string | null = null,
+  downscale: number = 1
+): ImageData {
+  return compositeLayerTree(
+    buildLayerTree(layers, groups),
+    Math.ceil(region.width / downscale),
+    Math.ceil(region.height / downscale),
+    (layer) => {
+      const source = getLayerSource(layer);
+      return source ? { ...source, x: source.x - region.x, y: source.y - region.y } : null;
+    },
+    backgroundColor,
+    downscale
+  );
+}
+
+/**
+ * Composite one artboard at 1:1 pixel scale: only the layers drawn in it, over its own background
+ * getLayerSource works in workspace coordinates, like for compositeLayerTree.
+ */
+export function compositeArtboard(
+  artboard: Artboard,
+  layers: Layer[],
+  groups: LayerGroup[],
+  getLayerSource: (layer: Layer) => { image: HTMLImageElement; x: number; y: number; mask?: ImageData } | null,
+  downscale: number = 1
+): ImageData {
+  return compositeRegion(artboard, getArtboardLayers(layers, artboard), groups, getLayerSource, artboard.backgroundColor, downscale);
+}
+
+/**
+ * Put composited pixels into a new canvas, upscaled by an integer factor with
+ * nearest-neighbor pixel replication (no interpolation)
+ */
+export function imageDataToCanvas(imageData: ImageData, scale: number = 1): HTMLCanvasElement {
+  const factor = Math.max(1, Math.floor(scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width * factor;
+  canvas.height = imageData.height * factor;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.putImageData(upscaleImageData(imageData, factor), 0, 0);
+  return canvas;
+}
+
+/**
+ * Composited pixels upscaled by an integer factor with nearest-neighbor pixel replication
+ */
+export function upscaleImageData(imageData: ImageData, scale: number): ImageData {
+  const factor = Math.max(1, Math.floor(scale));
+  if (factor === 1) return imageData;
+
+  const scaled = new ImageData(imageData.width * factor, imageData.height * factor);
+  const src = new Uint32Array(imageData.data.buffer);
+  const dst = new Uint32Array(scaled.data.buffer);
+
+  for (let y = 0; y < scaled.height; y++) {
+    const srcRow = Math.floor(y / factor) * imageData.width;
+    const dstRow = y * scaled.width;
+    for (let x = 0; x < scaled.width; x++) {
+      dst[dstRow + x] = src[srcRow + Math.floor(x / factor)];
+    }
+  }
+  return scaled;
+}
+
+/**
+ * Render a small composite of a project state as a PNG data URL
+ * Composited directly at the reduced size (every n-th pixel), so it fits within maxSize x maxSize.
+ * Decoded images are shared through imageCache (keyed by data URL) across calls.
+ */
+export async function renderProjectThumbnail(
+  project: ProjectData,
+  maxSize: number,
+  imageCache: Map<string, HTMLImageElement> = new Map()
+): Promise<string> {
+  const downscale = Math.max(1, Math.ceil(Math.max(project.canvas.width, project.canvas.height) / maxSize));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(project.canvas.width / downscale);
+  canvas.height = Math.ceil(project.canvas.height / downscale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  const urls = project.layers
+    .filter((l) => l.visible)
+    .flatMap((l) => {
+      const imageData = getLayerImage(project.assets, l);
+      return l.mask ? [imageData, getMaskImage(project.assets, l.mask)] : [imageData];
+    });
+  for (const url of urls.filter((u) => !imageCache.has(u))) {
+    try {
+      imageCache.set(url, await loadImageFromDataURL(url));
+    } catch {
+      // Skipped when compositing
+    }
+  }
+
+  const getLayerSource = (layer: Layer) => {
+    const image = imageCache.get(getLayerImage(project.assets, layer));
+    const maskImage = layer.mask ? imageCache.get(getMaskImage(project.assets, layer.mask)) : undefined;
+    return image ? { image, x: layer.x, y: layer.y, mask: maskImage && getImagePixels(maskImage) } : null;
+  };
+
+  ctx.imageSmoothingEnabled = false;
+
+  // With artboards, only the artboards are drawn, each at its place on the workspace
+  if (project.artboards.length > 0) {
+    for (const artboard of project.artboards) {
+      const composite = compositeArtboard(artboard, project.layers, project.groups, getLayerSource, downscale);
+      ctx.drawImage(imageDataToCanvas(composite), Math.floor(artboard.x / downscale), Math.floor(artboard.y / downscale));
+    }
+    return canvas.toDataURL();
+  }
+
+  const composite = compositeLayerTree(
+    buildLayerTree(project.layers, project.groups),
+    canvas.width,
+    canvas.height,
+    getLayerSource,
+    project.canvas.backgroundColor,
+    downscale
+  );
+
+  ctx.putImageData(composite, 0, 0);
+
+  return canvas.toDataURL();
+}
@@ -0,0 +1,178 @@
+/**
+ * Color palette utilities for indexed image formats (GIF, indexed PNG)
+ * Pure TypeScript, no DOM: images are plain RGBA pixel buffers (ImageData fits).
+ * Colors are packed as 0xRRGGBB numbers; pixels with alpha below ALPHA_THRESHOLD count as transparent.
+ */
+
+export interface RGBAImage {
+  width: number;
+  height: number;
+  data: Uint8Array | Uint8ClampedArray; // RGBA, 4 bytes per pixel, row by row
+}
+
+// Formats with 1-bit transparency treat pixels below this alpha as transparent
+export const ALPHA_THRESHOLD = 128;
+
+/**
+ * How often each opaque color occurs in the images
+ */
+export function countColors(images: RGBAImage[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const { data } of images) {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < ALPHA_THRESHOLD) continue;
+      const color = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+      counts.set(color, (counts.get(color) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Whether any pixel of the images is transparent
+ */
+export function hasTransparency(images: RGBAImage[]): boolean {
+  return images.some(({ data }) => {
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < ALPHA_THRESHOLD) return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * RGBA color of the pixel at byte offset i, packed as unsigned 0xRRGGBBAA (fully transparent = 0)
+ */
+export function getPixelRGBA(data: RGBAImage['data'], i: number): number {
+  return data[i + 3] === 0 ? 0 : ((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | data[i + 3]) >>> 0;
+}
+
+/**
+ * Every distinct RGBA color of an image, packed as unsigned 0xRRGGBBAA, or null when there
+ * are more than maxColors (fully transparent pixels all count as one color)
+ * Translucent colors come first, then the most frequent, as indexed PNGs store them best.
+ */
+export function getExactPalette(image: RGBAImage, maxColors: number = 256): number[] | null {
+  const counts = new Map<number, number>();
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const color = getPixelRGBA(data, i);
+    counts.set(color, (counts.get(color) ?? 0) + 1);
+    if (counts.size > maxColors) return null;
+  }
+
+  const isTranslucent = (color: number) => (color & 0xff) < 255;
+  return [...counts.entries()]
+    .sort((a, b) => Number(isTranslucent(b[0])) - Number(isTranslucent(a[0])) || b[1] - a[1])
+    .map(([color]) => color);
+}
+
+/**
+ * Reduce colors to at most maxColors with median cut (weighted by pixel count)
+ * When the colors already fit, they are returned unchanged, most frequent first.
+ */
+export function reducePalette(counts: Map<number, number>, maxColors: number): number[] {
+  const colors = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  if (colors.length <= maxColors) {
+    return colors.map(([color]) => color);
+  }
+
+  const channel = (color: number, c: number) => (color >> (16 - c * 8)) & 0xff;
+  let boxes: [number, number][][] = [colors];
+
+  while (boxes.length < maxColors) {
+    // Split the box with the widest channel range (ties: the most pixels)
+    let best = -1;
+    let bestRange = 0;
+    let bestChannel = 0;
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = 255;
+        let max = 0;
+        for (const [color] of box) {
+          min = Math.min(min, channel(color, c));
+          max = Math.max(max, channel(color, c));
+        }
+        if (max - min > bestRange) {
+          best = index;
+          bestRange = max - min;
+          bestChannel = c;
+        }
+      }
+    });
+    if (best === -1) break;
+
+    const box = [...boxes[best]].sort((a, b) => channel(a[0], bestChannel) - channel(b[0], bestChannel));
+    // Split at the weighted median, keeping at least one color on each side
+    const total = box.reduce((sum, [, count]) => sum + count, 0);
+    let split = 1;
+    for (let seen = box[0][1]; split < box.length - 1 && seen < total / 2; split++) {
+      seen += box[split][1];
+    }
+    boxes = [...boxes.slice(0, best), box.slice(0, split), box.slice(split), ...boxes.slice(best + 1)];
+  }
+
+  // Each box becomes the pixel-weighted average of its colors
+  return boxes.map((box) => {
+    const sums = [0, 0, 0];
+    let total = 0;
+    for (const [color, count] of box) {
+      for (let c = 0; c < 3; c++) sums[c] += channel(color, c) * count;
+      total += count;
+    }
+    const [r, g, b] = sums.map((sum) => Math.round(sum / total));
+    return (r << 16) | (g << 8) | b;
+  });
+}
+
+/**
+ * Palette index of every pixel: the nearest palette color, or transparentIndex for transparent pixels
+ */
+export function mapToPalette(image: RGBAImage, palette: number[], transparentIndex: number = -1): Uint8Array {
+  const indices = new Uint8Array(image.width * image.height);
+  const exact = new Map(palette.map((color, index) => [color, index]));
+  const { data } = image;
+
+  for (let p = 0, i = 0; i < data.length; p++, i += 4) {
+    if (data[i + 3] < ALPHA_THRESHOLD && transparentIndex >= 0) {
+      indices[p] = transparentIndex;
+      continue;
+    }
+    const color = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    let index = exact.get(color);
+    if (index === undefined) {
+      index = findNearestColor(color, palette, transparentIndex);
+      exact.set(color, index); // Cached for the next pixel of this color
+    }
+    indices[p] = index;
+  }
+  return indices;
+}
+
+/**
+ * Index of the palette color closest to a color (squared RGB distance)
+ */
+function findNearestColor(color: number, palette: number[], skipIndex: number): number {
+  let nearest = 0;
+  let nearestDistance = Infinity;
+  palette.forEach((candidate, index) => {
+    if (index === skipIndex) return;
+    const dr = ((color >> 16) & 0xff) - ((candidate >> 16) & 0xff);
+    const dg = ((color >> 8) & 0xff) - ((candidate >> 8) & 0xff);
+    const db = (color & 0xff) - (candidate & 0xff);
+    const distance = dr * dr + dg * dg + db * db;
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Hex notation of a packed color, e.g. "#1a2b3c"
+ */
+export function colorToHex(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`;
+}
@@ -0,0 +1,173 @@
+/**
+ * zlib (deflate) compressor for PNG image data
+ * Pure TypeScript, no DOM: LZ77 with hash chains, written as fixed-Huffman blocks.
+ * Pixel art is mostly long runs and repeated rows, which this compresses well.
+ */
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const HASH_BITS = 15;
+const MAX_CHAIN = 64; // Match candidates tried per position (speed vs. size)
+
+// Base values and extra bits of the length codes 257-285 and distance codes 0-29
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097,
+  6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+/**
+ * Bit writer, least significant bit first (Huffman codes are written reversed)
+ */
+class BitWriter {
+  private bytes = new Uint8Array(1024);
+  private length = 0;
+  private buffer = 0;
+  private count = 0;
+
+  bits(value: number, count: number): void {
+    this.buffer |= value << this.count;
+    this.count += count;
+    while (this.count >= 8) {
+      this.byte(this.buffer & 0xff);
+      this.buffer >>>= 8;
+      this.count -= 8;
+    }
+  }
+
+  // Huffman codes are defined most significant bit first
+  code(code: number, length: number): void {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1);
+    }
+    this.bits(reversed, length);
+  }
+
+  byte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  flush(): void {
+    if (this.count > 0) this.byte(this.buffer & 0xff);
+    this.buffer = 0;
+    this.count = 0;
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Fixed Huffman code of a literal/length symbol (RFC 1951, 3.2.6)
+ */
+function writeLiteralLength(out: BitWriter, symbol: number): void {
+  if (symbol < 144) out.code(0x30 + symbol, 8);
+  else if (symbol < 256) out.code(0x190 + symbol - 144, 9);
+  else if (symbol < 280) out.code(symbol - 256, 7);
+  else out.code(0xc0 + symbol - 280, 8);
+}
+
+function writeMatch(out: BitWriter, length: number, distance: number): void {
+  let code = 0;
+  while (code < 28 && LENGTH_BASE[code + 1] <= length) code++;
+  writeLiteralLength(out, 257 + code);
+  out.bits(length - LENGTH_BASE[code], LENGTH_EXTRA[code]);
+
+  let distanceCode = 0;
+  while (distanceCode < 29 && DISTANCE_BASE[distanceCode + 1] <= distance) distanceCode++;
+  out.code(distanceCode, 5);
+  out.bits(distance - DISTANCE_BASE[distanceCode], DISTANCE_EXTRA[distanceCode]);
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; ) {
+    // Sums stay below 2^32 for 5552 bytes between modulo operations
+    const end = Math.min(i + 5552, data.length);
+    for (; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Compress data into a zlib stream (as stored in PNG IDAT chunks)
+ */
+export function zlibDeflate(data: Uint8Array): Uint8Array {
+  const out = new BitWriter();
+  out.byte(0x78); // Deflate, 32K window
+  out.byte(0x01); // No preset dictionary, fastest-level hint (header checksum makes it divisible by 31)
+
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const previous = new Int32Array(WINDOW_SIZE);
+  const hash = (i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & ((1 << HASH_BITS) - 1);
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > data.length) return;
+    const h = hash(i);
+    previous[i % WINDOW_SIZE] = head[h];
+    head[h] = i;
+  };
+
+  // Fixed codes need no tables, so everything goes into one block
+  out.bits(1, 1); // BFINAL
+  out.bits(1, 2); // BTYPE = fixed Huffman
+
+  let position = 0;
+
+  while (position < data.length) {
+    // Longest earlier match of the upcoming bytes
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (position + MIN_MATCH <= data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - position);
+      let candidate = head[hash(position)];
+      for (let chain = 0; candidate >= 0 && position - candidate <= WINDOW_SIZE && chain < MAX_CHAIN; chain++) {
+        let length = 0;
+        while (length < maxLength && data[candidate + length] === data[position + length]) length++;
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = position - candidate;
+          if (length === maxLength) break;
+        }
+        const next = previous[candidate % WINDOW_SIZE];
+        if (next >= candidate) break; // Overwritten slot from further back
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(out, bestLength, bestDistance);
+      for (let i = 0; i < bestLength; i++) insert(position + i);
+      position += bestLength;
+    } else {
+      writeLiteralLength(out, data[position]);
+      insert(position);
+      position++;
+    }
+  }
+
+  writeLiteralLength(out, 256); // End of block
+  out.flush();
+
+  const checksum = adler32(data);
+  out.byte((checksum >>> 24) & 0xff);
+  out.byte((checksum >>> 16) & 0xff);
+  out.byte((checksum >>> 8) & 0xff);
+  out.byte(checksum & 0xff);
+  return out.result();
+}
@@ -0,0 +1,255 @@
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { RGBAImage } from './colorPalette';
+import { zlibDeflate } from './deflate';
+import { encodeGif } from './gifEncoder';
+import { encodeApng, encodeIndexedPng, encodePng } from './pngEncoder';
+import { crc32 } from './zip';
+
+/**
+ * Image from a list of 0xRRGGBBAA pixels, row by row
+ */
+function makeImage(width: number, height: number, pixels: number[]): RGBAImage {
+  const data = new Uint8Array(width * height * 4);
+  pixels.forEach((color, i) => {
+    data[i * 4] = color >>> 24;
+    data[i * 4 + 1] = (color >>> 16) & 0xff;
+    data[i * 4 + 2] = (color >>> 8) & 0xff;
+    data[i * 4 + 3] = color & 0xff;
+  });
+  return { width, height, data };
+}
+
+/**
+ * Split a PNG file into its chunks, checking the signature and every CRC
+ */
+function readPngChunks(file: Uint8Array): { type: string; data: Uint8Array }[] {
+  expect(Array.from(file.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let offset = 8; offset < file.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...file.subarray(offset + 4, offset + 8));
+    expect(view.getUint32(offset + 8 + length)).toBe(crc32(file.subarray(offset + 4, offset + 8 + length)));
+    chunks.push({ type, data: file.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+/**
+ * Undo the per-row PNG filters of inflated 8-bit RGBA scanlines
+ */
+function unfilterRgba(scanlines: Uint8Array, width: number, height: number): Uint8Array {
+  const rowBytes = width * 4;
+  const pixels = new Uint8Array(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    const filter = scanlines[y * (rowBytes + 1)];
+    for (let x = 0; x < rowBytes; x++) {
+      const i = y * rowBytes + x;
+      const left = x >= 4 ? pixels[i - 4] : 0;
+      const up = y > 0 ? pixels[i - rowBytes] : 0;
+      const upLeft = y > 0 && x >= 4 ? pixels[i - rowBytes - 4] : 0;
+      const p = left + up - upLeft;
+      const [pa, pb, pc] = [Math.abs(p - left), Math.abs(p - up), Math.abs(p - upLeft)];
+      const paeth = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      const predicted = [0, left, up, (left + up) >> 1, paeth][filter];
+      pixels[i] = (scanlines[y * (rowBytes + 1) + 1 + x] + predicted) & 0xff;
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Decode the palette indices of every frame in a GIF file (LZW decoder for the image data)
+ */
+function readGifFrames(file: Uint8Array): { loopCount: number | null; frames: number[][] } {
+  expect(String.fromCharCode(...file.subarray(0, 6))).toBe('GIF89a');
+  let offset = 13 + (file[10] & 0x80 ? 3 << ((file[10] & 7) + 1) : 0);
+  let loopCount: number | null = null;
+  const frames: number[][] = [];
+
+  const readSubBlocks = () => {
+    const bytes: number[] = [];
+    while (file[offset] !== 0) {
+      bytes.push(...file.subarray(offset + 1, offset + 1 + file[offset]));
+      offset += file[offset] + 1;
+    }
+    offset++;
+    return bytes;
+  };
+
+  while (file[offset] !== 0x3b) {
+    if (file[offset] === 0x21) {
+      const label = file[offset + 1];
+      offset += 2;
+      const bytes = readSubBlocks();
+      if (label === 0xff && String.fromCharCode(...bytes.slice(0, 11)) === 'NETSCAPE2.0') {
+        loopCount = bytes[12] | (bytes[13] << 8);
+      }
+    } else {
+      expect(file[offset]).toBe(0x2c);
+      const flags = file[offset + 9];
+      offset += 10 + (flags & 0x80 ? 3 << ((flags & 7) + 1) : 0);
+      const minCodeSize = file[offset++];
+      frames.push(decodeLzw(readSubBlocks(), minCodeSize));
+    }
+  }
+  return { loopCount, frames };
+}
+
+function decodeLzw(bytes: number[], minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  const output: number[] = [];
+
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  let bitBuffer = 0;
+  let bitCount = 0;
+  for (const byte of bytes) {
+    bitBuffer |= byte << bitCount;
+    bitCount += 8;
+    while (bitCount >= codeSize) {
+      const code = bitBuffer & ((1 << codeSize) - 1);
+      bitBuffer >>>= codeSize;
+      bitCount -= codeSize;
+
+      if (code === clearCode) {
+        reset();
+        continue;
+      }
+      if (code === endCode) return output;
+
+      const entry: number[] = table[code] ?? [...previous!, previous![0]];
+      output.push(...entry);
+      if (previous) table.push([...previous, entry[0]]);
+      previous = entry;
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+  }
+  return output;
+}
+
+describe('zlibDeflate', () => {
+  it('round-trips through zlib', () => {
+    const repetitive = new Uint8Array(100_000).map((_, i) => i % 7);
+    const noisy = new Uint8Array(5_000).map((_, i) => (i * 2654435761) >>> 24);
+    for (const input of [new Uint8Array(0), new Uint8Array([42]), repetitive, noisy]) {
+      expect(new Uint8Array(inflateSync(zlibDeflate(input)))).toEqual(input);
+    }
+  });
+
+  it('compresses repeated data', () => {
+    expect(zlibDeflate(new Uint8Array(10_000)).length).toBeLessThan(200);
+  });
+});
+
+describe('encodeIndexedPng', () => {
+  it('writes a palette image that decodes to the original indices', () => {
+    const image = makeImage(3, 2, [0xff0000ff, 0x00ff00ff, 0x00000000, 0x00ff00ff, 0xff0000ff, 0x00000000]);
+    const chunks = readPngChunks(encodeIndexedPng(image));
+    expect(chunks.map((chunk) => chunk.type)).toEqual(['IHDR', 'PLTE', 'tRNS', 'IDAT', 'IEND']);
+
+    const ihdr = new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset);
+    expect([ihdr.getUint32(0), ihdr.getUint32(4), chunks[0].data[8], chunks[0].data[9]]).toEqual([3, 2, 2, 3]);
+
+    // 3 colors at 2 bits per pixel: one byte per row after the filter byte
+    const palette = chunks[1].data;
+    const scanlines = inflateSync(chunks[3].data);
+    expect(scanlines.length).toBe(4);
+    const colorAt = (row: number, x: number) => {
+      const index = (scanlines[row * 2 + 1] >> (6 - x * 2)) & 3;
+      return Array.from(palette.subarray(index * 3, index * 3 + 3));
+    };
+    expect(colorAt(0, 0)).toEqual([255, 0, 0]);
+    expect(colorAt(0, 1)).toEqual([0, 255, 0]);
+    expect(colorAt(1, 1)).toEqual([255, 0, 0]);
+  });
+
+  it('throws for images with more than 256 colors', () => {
+    const image = makeImage(300, 1, Array.from({ length: 300 }, (_, i) => ((i << 8) | 0xff) >>> 0));
+    expect(() => encodeIndexedPng(image)).toThrow();
+  });
+});
+
+describe('encodePng', () => {
+  it('writes images with few colors indexed', () => {
+    const image = makeImage(2, 1, [0xff0000ff, 0x00ff0080]);
+    expect(encodePng(image)).toEqual(encodeIndexedPng(image));
+  });
+
+  it('writes images with more than 256 colors as RGBA that decodes to the original pixels', () => {
+    const pixels = Array.from({ length: 20 * 20 }, (_, i) => ((i * 2654435761) >>> 0) | 1);
+    const image = makeImage(20, 20, pixels);
+    const chunks = readPngChunks(encodePng(image));
+    expect(chunks.map((chunk) => chunk.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+    expect([chunks[0].data[8], chunks[0].data[9]]).toEqual([8, 6]);
+    expect(unfilterRgba(inflateSync(chunks[1].data), 20, 20)).toEqual(image.data);
+  });
+});
+
+describe('encodeApng', () => {
+  it('writes one fcTL per frame with consecutive sequence numbers', () => {
+    const frames = [0xff0000ff, 0x0000ffff, 0x00ff0080].map((color) => ({ image: makeImage(2, 2, [color, color, color, color]), delay: 100 }));
+    const chunks = readPngChunks(encodeApng(frames, 2, 2, { loopCount: 3 }));
+
+    const actl = new DataView(chunks[1].data.buffer, chunks[1].data.byteOffset);
+    expect(chunks[1].type).toBe('acTL');
+    expect([actl.getUint32(0), actl.getUint32(4)]).toEqual([3, 3]);
+
+    const sequenced = chunks.filter((chunk) => chunk.type === 'fcTL' || chunk.type === 'fdAT');
+    const sequence = sequenced.map((chunk) => new DataView(chunk.data.buffer, chunk.data.byteOffset).getUint32(0));
+    expect(sequence).toEqual(sequence.map((_, i) => i));
+    expect(chunks.filter((chunk) => chunk.type === 'fcTL')).toHaveLength(3);
+
+    // The first frame is the default image
+    const pixels = inflateSync(chunks.find((chunk) => chunk.type === 'IDAT')!.data);
+    expect(pixels.length).toBe(2 * (1 + 2 * 4));
+    expect(chunks[chunks.length - 1].type).toBe('IEND');
+  });
+
+  it('throws without frames', () => {
+    expect(() => encodeApng([], 1, 1, { loopCount: 0 })).toThrow();
+  });
+});
+
+describe('encodeGif', () => {
+  const red = 0xff0000ff;
+  const blue = 0x0000ffff;
+  const clear = 0x00000000;
+  const frames = [
+    { image: makeImage(3, 1, [red, blue, clear]), delay: 100 },
+    { image: makeImage(3, 1, [blue, blue, red]), delay: 50 },
+  ];
+
+  for (const palette of ['global', 'local'] as const) {
+    it(`encodes every frame with a ${palette} palette`, () => {
+      const file = encodeGif(frames, 3, 1, { loopCount: 0, palette });
+      const decoded = readGifFrames(file);
+      expect(decoded.loopCount).toBe(0);
+      expect(decoded.frames).toHaveLength(2);
+      for (const frame of decoded.frames) expect(frame).toHaveLength(3);
+      // Same color, same index; different colors, different indices
+      expect(decoded.frames[1][0]).toBe(decoded.frames[1][1]);
+      expect(decoded.frames[0][0]).not.toBe(decoded.frames[0][1]);
+    });
+  }
+
+  it('decodes a large image through dictionary resets', () => {
+    const pixels = Array.from({ length: 128 * 128 }, (_, i) => (((i * 37) % 200) << 8) | 0xff);
+    const file = encodeGif([{ image: makeImage(128, 128, pixels), delay: 100 }], 128, 128, { loopCount: 1, palette: 'global' });
+    const decoded = readGifFrames(file);
+    expect(decoded.frames[0]).toHaveLength(128 * 128);
+    expect(decoded.frames[0][0]).toBe(decoded.frames[0][200]);
+    expect(decoded.frames[0][1]).not.toBe(decoded.frames[0][0]);
+  });
+});
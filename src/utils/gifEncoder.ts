@@ -0,0 +1,206 @@
+/**
+ * Animated GIF encoder (GIF89a with LZW compression)
+ * Pure TypeScript, no DOM: frames are RGBA pixel buffers of the full image size.
+ * Colors come from one global palette shared by all frames, or a local palette per frame;
+ * either way at most 255 colors plus one transparent index (median cut when there are more).
+ */
+
+import { countColors, hasTransparency, mapToPalette, reducePalette, RGBAImage } from './colorPalette';
+
+export interface AnimationFrameImage {
+  image: RGBAImage;
+  delay: number; // Milliseconds the frame is shown
+}
+
+export interface GifOptions {
+  loopCount: number; // Times the animation plays, 0 = forever
+  palette: 'global' | 'local'; // One palette for all frames, or one per frame
+}
+
+const MAX_CODE_SIZE = 12; // LZW codes are at most 12 bits
+const MAX_SUB_BLOCK = 255;
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  word(value: number): void {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  array(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  string(text: string): void {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Palette for a set of images: the colors (reduced to fit) and the transparent index, if any
+ * The table is padded to a power of two, as GIF color tables require.
+ */
+function buildPalette(images: RGBAImage[]): { colors: number[]; transparentIndex: number; bits: number } {
+  const transparent = hasTransparency(images);
+  const colors = reducePalette(countColors(images), transparent ? 255 : 256);
+  const transparentIndex = transparent ? colors.length : -1;
+  const used = colors.length + (transparent ? 1 : 0);
+
+  let bits = 1;
+  while (1 << bits < used) bits++;
+  return { colors, transparentIndex, bits };
+}
+
+function writeColorTable(out: ByteWriter, colors: number[], bits: number): void {
+  for (let i = 0; i < 1 << bits; i++) {
+    const color = colors[i] ?? 0;
+    out.byte((color >> 16) & 0xff);
+    out.byte((color >> 8) & 0xff);
+    out.byte(color & 0xff);
+  }
+}
+
+/**
+ * LZW-compress palette indices into GIF image data sub-blocks
+ */
+function writeLzwData(out: ByteWriter, indices: Uint8Array, colorBits: number): void {
+  const minCodeSize = Math.max(2, colorBits);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (block.length === MAX_SUB_BLOCK) {
+        out.byte(MAX_SUB_BLOCK);
+        out.array(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  // Dictionary of (prefix code, next index) -> code
+  let dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode < 1 << MAX_CODE_SIZE) {
+      dictionary.set(key, nextCode++);
+      // The decoder widens its codes one code later than the encoder adds them
+      if (nextCode > 1 << codeSize && codeSize < MAX_CODE_SIZE) codeSize++;
+    } else {
+      // Dictionary full: start over
+      emit(clearCode);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = index;
+  }
+
+  if (indices.length > 0) emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  if (block.length > 0) {
+    out.byte(block.length);
+    out.array(block);
+  }
+  out.byte(0); // Block terminator
+}
+
+/**
+ * Encode frames (all width x height) as an animated GIF file
+ * Delays are stored in hundredths of a second; browsers slow down delays under 20 ms, so they are raised to 20.
+ */
+export function encodeGif(frames: AnimationFrameImage[], width: number, height: number, options: GifOptions): Uint8Array {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+
+  const out = new ByteWriter();
+  const global = options.palette === 'global' ? buildPalette(frames.map((f) => f.image)) : null;
+
+  // Header and logical screen descriptor
+  out.string('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(global ? 0x80 | ((global.bits - 1) << 4) | (global.bits - 1) : 0);
+  out.byte(0); // Background color index
+  out.byte(0); // Pixel aspect ratio
+  if (global) writeColorTable(out, global.colors, global.bits);
+
+  // Netscape extension: repeat count (0 = forever); a single play needs no extension
+  if (options.loopCount !== 1) {
+    out.array([0x21, 0xff, 0x0b]);
+    out.string('NETSCAPE2.0');
+    out.array([0x03, 0x01]);
+    out.word(options.loopCount === 0 ? 0 : options.loopCount - 1);
+    out.byte(0);
+  }
+
+  for (const frame of frames) {
+    const palette = global ?? buildPalette([frame.image]);
+
+    // Graphic control extension: delay, and clearing the frame before the next one (disposal 2)
+    // so transparent areas don't show the previous frame
+    out.array([0x21, 0xf9, 0x04]);
+    out.byte((2 << 2) | (palette.transparentIndex >= 0 ? 1 : 0));
+    out.word(Math.max(2, Math.round(frame.delay / 10)));
+    out.byte(Math.max(palette.transparentIndex, 0));
+    out.byte(0);
+
+    // Image descriptor, with a local color table unless the global one is used
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(global ? 0 : 0x80 | (palette.bits - 1));
+    if (!global) writeColorTable(out, palette.colors, palette.bits);
+
+    writeLzwData(out, mapToPalette(frame.image, palette.colors, palette.transparentIndex), palette.bits);
+  }
+
+  out.byte(0x3b); // Trailer
+  return out.result();
+}
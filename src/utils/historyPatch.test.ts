@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { AnimationFrame, HistoryEntry, Layer, ProjectData } from '../types/compositor.types';
+import { switchToFrame } from './animation';
+import { applyHistoryEntry, createHistoryEntry, getHistoryStates } from './historyPatch';
+import { DEFAULT_PROJECT_DATA } from './projectDefaults';
+
+function makeLayer(id: string, fields: Partial<Layer> = {}): Layer {
+  return {
+    id,
+    name: id,
+    assetId: `asset_${id}`,
+    x: 0,
+    y: 0,
+    zIndex: 0,
+    visible: true,
+    locked: false,
+    opacity: 1,
+    width: 4,
+    height: 4,
+    ...fields,
+  };
+}
+
+function makeProject(layers: Layer[], frames: AnimationFrame[] = []): ProjectData {
+  return { ...DEFAULT_PROJECT_DATA, layers, animation: { ...DEFAULT_PROJECT_DATA.animation, frames } };
+}
+
+/**
+ * Record the edit from `before` to `after`, then check that undo and redo reproduce both states exactly
+ */
+function expectRoundTrip(before: ProjectData, after: ProjectData): HistoryEntry {
+  const entry = createHistoryEntry(before, after, 'Edit');
+  expect(entry).not.toBeNull();
+  const undone = applyHistoryEntry(after, entry!, 'undo');
+  expect(undone).toStrictEqual(before);
+  expect(applyHistoryEntry(undone, entry!, 'redo')).toStrictEqual(after);
+  return entry!;
+}
+
+describe('createHistoryEntry / applyHistoryEntry', () => {
+  const a = makeLayer('a');
+  const b = makeLayer('b', { x: 10, clipToBelow: true });
+  const c = makeLayer('c', { y: -3 });
+
+  it('round-trips changed, added and removed layer fields', () => {
+    const before = makeProject([a, b, c]);
+    const edited: Layer = { ...b, opacity: 0.5, blendMode: 'multiply' };
+    delete edited.clipToBelow;
+    const after = makeProject([a, edited, c]);
+    const entry = expectRoundTrip(before, after);
+    expect(entry.layerChanges).toEqual([
+      {
+        type: 'update',
+        layerId: 'b',
+        before: { opacity: 1, blendMode: undefined, clipToBelow: true },
+        after: { opacity: 0.5, blendMode: 'multiply', clipToBelow: undefined },
+      },
+    ]);
+  });
+
+  it('round-trips adding and removing layers', () => {
+    const d = makeLayer('d', { x: 7 });
+    expectRoundTrip(makeProject([a, b]), makeProject([a, b, d]));
+    expectRoundTrip(makeProject([a, b, c]), makeProject([a, c]));
+    expectRoundTrip(makeProject([a, b, c]), makeProject([d, c]));
+  });
+
+  it('round-trips reordering layers', () => {
+    const entry = expectRoundTrip(makeProject([a, b, c]), makeProject([c, a, b]));
+    expect(entry.layerChanges).toEqual([]);
+    expect(entry.layerOrder).toEqual({ before: ['a', 'b', 'c'], after: ['c', 'a', 'b'] });
+  });
+
+  it('round-trips project field changes', () => {
+    const before = makeProject([a]);
+    expectRoundTrip(before, { ...before, projectName: 'Renamed', canvas: { ...before.canvas, width: 64 } });
+  });
+
+  it('ignores viewport-only changes', () => {
+    const before = makeProject([a]);
+    expect(createHistoryEntry(before, { ...before, viewport: { ...before.viewport, zoom: 4 } }, 'Zoom')).toBeNull();
+  });
+
+  it('applies an entry in the frame it was made in after switching frames', () => {
+    const frames: AnimationFrame[] = [
+      { id: 'frame_1', duration: 100, layers: { a: { visible: true, x: 0, y: 0 } } },
+      { id: 'frame_2', duration: 100, layers: { a: { visible: true, x: 20, y: 0 } } },
+    ];
+    const before = makeProject([a], frames);
+    const after = { ...before, layers: [{ ...a, x: 5 }] };
+    const entry = createHistoryEntry(before, after, 'Move')!;
+    expect(entry.frames).toEqual({ before: 'frame_1', after: 'frame_1' });
+
+    // Switching frames is not recorded
+    const inSecondFrame = { ...after, ...switchToFrame(after, 1) };
+    expect(inSecondFrame.layers[0].x).toBe(20);
+
+    const undone = applyHistoryEntry(inSecondFrame, entry, 'undo');
+    expect(undone.animation.activeFrame).toBe(0);
+    expect(undone.layers).toStrictEqual(before.layers);
+    // The other frame keeps its own position
+    expect(undone.animation.frames[1].layers.a.x).toBe(20);
+
+    const redone = applyHistoryEntry({ ...undone, ...switchToFrame(undone, 1) }, entry, 'redo');
+    expect(redone.animation.activeFrame).toBe(0);
+    expect(redone.layers).toStrictEqual(after.layers);
+  });
+});
+
+describe('getHistoryStates', () => {
+  it('rebuilds every state from the current one', () => {
+    const states = [
+      makeProject([makeLayer('a')]),
+      makeProject([makeLayer('a'), makeLayer('b')]),
+      makeProject([makeLayer('b'), makeLayer('a', { opacity: 0.25 })]),
+      makeProject([makeLayer('b')]),
+    ];
+    const entries = states.slice(1).map((state, i) => createHistoryEntry(states[i], state, `Edit ${i + 1}`)!);
+
+    const result = getHistoryStates(states[2], { past: entries.slice(0, 2), future: entries.slice(2), maxSteps: 50 });
+    expect(result.initial).toStrictEqual(states[0]);
+    expect(result.past).toStrictEqual([states[1], states[2]]);
+    expect(result.future).toStrictEqual([states[3]]);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Patch-based undo history utilities
+ * Records only what an edit changed instead of full ProjectData snapshots
+ */
+
+import { HistoryEntry, HistoryState, Layer, LayerPatch, ProjectData, ProjectFieldPatch } from '../types/compositor.types';
+import { switchToFrame } from './animation';
+
+// Project fields that never take part in history (navigation state / handled separately)
+const IGNORED_PROJECT_FIELDS = new Set<string>(['layers', 'viewport']);
+
+/**
+ * Diff two project states and build a history entry describing the change.
+ * Layers are matched by id, and only the fields that differ are stored,
+ * so the entry size scales with the edit rather than with the project.
+ * Returns null when nothing undoable changed (e.g. viewport-only updates).
+ */
+export function createHistoryEntry(
+  before: ProjectData,
+  after: ProjectData,
+  label: string
+): HistoryEntry | null {
+  const projectChanges: ProjectFieldPatch[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (IGNORED_PROJECT_FIELDS.has(key)) continue;
+    const beforeValue = (before as unknown as Record<string, unknown>)[key];
+    const afterValue = (after as unknown as Record<string, unknown>)[key];
+    if (beforeValue !== afterValue) {
+      projectChanges.push({ field: key as keyof ProjectData, before: beforeValue, after: afterValue });
+    }
+  }
+
+  const layerChanges: LayerPatch[] = [];
+
+  if (before.layers !== after.layers) {
+    const beforeById = new Map(before.layers.map((l) => [l.id, l]));
+    const afterById = new Map(after.layers.map((l) => [l.id, l]));
+
+    for (const layer of before.layers) {
+      const next = afterById.get(layer.id);
+      if (!next) {
+        layerChanges.push({ type: 'remove', layerId: layer.id, layer });
+      } else if (next !== layer) {
+        const patch = diffLayer(layer, next);
+        if (patch) layerChanges.push(patch);
+      }
+    }
+
+    for (const layer of after.layers) {
+      if (!beforeById.has(layer.id)) {
+        layerChanges.push({ type: 'add', layerId: layer.id, layer });
+      }
+    }
+  }
+
+  const beforeOrder = before.layers.map((l) => l.id);
+  const afterOrder = after.layers.map((l) => l.id);
+  const orderChanged =
+    beforeOrder.length !== afterOrder.length || beforeOrder.some((id, i) => id !== afterOrder[i]);
+
+  if (projectChanges.length === 0 && layerChanges.length === 0 && !orderChanged) {
+    return null;
+  }
+
+  const beforeFrame = before.animation.frames[before.animation.activeFrame];
+  const afterFrame = after.animation.frames[after.animation.activeFrame];
+
+  return {
+    id: `history_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    label,
+    timestamp: Date.now(),
+    projectChanges,
+    layerChanges,
+    ...(orderChanged ? { layerOrder: { before: beforeOrder, after: afterOrder } } : {}),
+    ...(beforeFrame && afterFrame ? { frames: { before: beforeFrame.id, after: afterFrame.id } } : {}),
+  };
+}
+
+/**
+ * Show the frame with the given id, so patched layer values land in the frame they came from
+ * (switching frames is navigation and not recorded, so the active frame may have changed since)
+ */
+function showFrame(project: ProjectData, frameId: string | undefined): ProjectData {
+  const index = project.animation.frames.findIndex((frame) => frame.id === frameId);
+  if (index === -1 || index === project.animation.activeFrame) return project;
+  return { ...project, ...switchToFrame(project, index) };
+}
+
+/**
+ * Field-level diff of a single layer
+ */
+function diffLayer(before: Layer, after: Layer): LayerPatch | null {
+  const beforeFields: Partial<Layer> = {};
+  const afterFields: Partial<Layer> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof Layer>;
+  let changed = false;
+
+  for (const key of keys) {
+    if (before[key] !== after[key]) {
+      (beforeFields as Record<string, unknown>)[key] = before[key];
+      (afterFields as Record<string, unknown>)[key] = after[key];
+      changed = true;
+    }
+  }
+
+  return changed ? { type: 'update', layerId: before.id, before: beforeFields, after: afterFields } : null;
+}
+
+/**
+ * Apply a history entry to a project in either direction.
+ * 'undo' restores the state the entry was recorded from, 'redo' re-applies it.
+ * The viewport is never touched.
+ */
+export function applyHistoryEntry(
+  current: ProjectData,
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo'
+): ProjectData {
+  const isUndo = direction === 'undo';
+  const project = showFrame(current, isUndo ? entry.frames?.after : entry.frames?.before);
+  const result: Record<string, unknown> = { ...project };
+
+  for (const change of entry.projectChanges) {
+    const value = isUndo ? change.before : change.after;
+    if (value === undefined) {
+      delete result[change.field];
+    } else {
+      result[change.field] = value;
+    }
+  }
+
+  const layersById = new Map(project.layers.map((l) => [l.id, l]));
+
+  for (const change of entry.layerChanges) {
+    if (change.type === 'update') {
+      const layer = layersById.get(change.layerId);
+      if (!layer) continue;
+      layersById.set(change.layerId, mergeLayerFields(layer, isUndo ? change.before : change.after));
+    } else {
+      const shouldExist = (change.type === 'add') !== isUndo;
+      if (shouldExist) {
+        layersById.set(change.layerId, change.layer);
+      } else {
+        layersById.delete(change.layerId);
+      }
+    }
+  }
+
+  let layers: Layer[];
+  if (entry.layerOrder) {
+    const order = isUndo ? entry.layerOrder.before : entry.layerOrder.after;
+    layers = order.map((id) => layersById.get(id)).filter((l): l is Layer => l !== undefined);
+  } else {
+    layers = project.layers.map((l) => layersById.get(l.id)).filter((l): l is Layer => l !== undefined);
+  }
+
+  result.layers = layers;
+  return result as unknown as ProjectData;
+}
+
+/**
+ * Overlay patched fields onto a layer, dropping fields that did not exist on that side
+ */
+function mergeLayerFields(layer: Layer, fields: Partial<Layer>): Layer {
+  const merged: Record<string, unknown> = { ...layer };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged as unknown as Layer;
+}
+
+/**
+ * Reconstruct the project state after every history entry, starting from the
+ * current (committed) state and walking the patches in both directions.
+ * `initial` is the state before the oldest remaining entry.
+ */
+export function getHistoryStates(
+  current: ProjectData,
+  history: HistoryState
+): { initial: ProjectData; past: ProjectData[]; future: ProjectData[] } {
+  const past: ProjectData[] = new Array(history.past.length);
+  let project = current;
+  for (let i = history.past.length - 1; i >= 0; i--) {
+    past[i] = project;
+    project = applyHistoryEntry(project, history.past[i], 'undo');
+  }
+  const initial = project;
+
+  const future: ProjectData[] = [];
+  project = current;
+  for (const entry of history.future) {
+    project = applyHistoryEntry(project, entry, 'redo');
+    future.push(project);
+  }
+
+  return { initial, past, future };
+}
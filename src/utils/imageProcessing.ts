@@ -183,6 +183,64 @@ export const dataUrlToBlob = (dataUrl: string): Blob => {
   return new Blob([u8arr], { type: mime });
 };
 
+/**
+ * Stand-in image for a layer whose pixels could not be loaded
+ * A magenta/black checkerboard (8px cells) that is obviously not real artwork.
+ */
+export const createPlaceholderImage = (width: number, height: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#FF00FF';
+  for (let y = 0; y < canvas.height; y += 8) {
+    for (let x = (y / 8) % 2 === 0 ? 0 : 8; x < canvas.width; x += 16) {
+      ctx.fillRect(x, y, 8, 8);
+    }
+  }
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * File extension per image MIME type, for images stored as separate files
+ * (anything else is stored as .png)
+ */
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+};
+
+/**
+ * Raw image bytes and file extension for a data URL
+ */
+export const dataUrlToFile = async (dataUrl: string): Promise<{ data: Uint8Array; extension: string }> => {
+  const blob = dataUrlToBlob(dataUrl);
+  return {
+    data: new Uint8Array(await blob.arrayBuffer()),
+    extension: IMAGE_EXTENSIONS[blob.type] ?? 'png',
+  };
+};
+
+/**
+ * Data URL for raw image bytes, with the MIME type taken from the file extension
+ */
+export const imageFileToDataUrl = (data: Uint8Array, path: string): Promise<string> => {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  const type = Object.keys(IMAGE_EXTENSIONS).find((mime) => IMAGE_EXTENSIONS[mime] === extension) ?? 'image/png';
+  return blobToDataUrl(new Blob([data as BlobPart], { type }));
+};
+
 /**
  * Remove background by flood-filling from image corners using color tolerance.
  * Optionally return a heatmap (remaining pixels shown in red) instead of normal alpha mask.
@@ -0,0 +1,333 @@
+/**
+ * Non-destructive layer effects
+ * Effects are stored on the layer and applied to its pixels at render/export time,
+ * in list order, with hard pixel edges (no antialiasing or blur)
+ */
+
+import {
+  ColorOverlayEffect,
+  DropShadowEffect,
+  InnerGlowEffect,
+  LayerEffect,
+  OutlineEffect,
+} from '../types/compositor.types';
+import { blendImageData } from './blendModes';
+
+// Effect types in the order shown in the "Add effect" menu
+export const EFFECT_TYPES: { value: LayerEffect['type']; label: string }[] = [
+  { value: 'outline', label: 'Outline' },
+  { value: 'dropShadow', label: 'Drop Shadow' },
+  { value: 'colorOverlay', label: 'Color Overlay' },
+  { value: 'innerGlow', label: 'Inner Glow' },
+];
+
+/**
+ * Create an effect of the given type with default settings
+ */
+export function createEffect(type: LayerEffect['type']): LayerEffect {
+  const id = `effect_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  switch (type) {
+    case 'outline':
+      return { id, type, enabled: true, color: '#000000', width: 1, position: 'outside', connectivity: 4 };
+    case 'dropShadow':
+      return { id, type, enabled: true, color: '#000000', offsetX: 1, offsetY: 1, opacity: 1 };
+    case 'colorOverlay':
+      return { id, type, enabled: true, color: '#ffffff', opacity: 1 };
+    case 'innerGlow':
+      return { id, type, enabled: true, color: '#ffffff', size: 2, opacity: 0.75 };
+  }
+}
+
+/**
+ * Check whether a value is a supported effect with usable settings (used when loading files)
+ * A damaged effect would make the effect pipeline build NaN-sized images, so every field is checked.
+ */
+export function isLayerEffect(value: unknown): value is LayerEffect {
+  if (!value || typeof value !== 'object') return false;
+  const effect = value as Record<string, unknown>;
+  const isNumber = (key: string) => typeof effect[key] === 'number' && Number.isFinite(effect[key]);
+  if (typeof effect.id !== 'string' || typeof effect.enabled !== 'boolean' || typeof effect.color !== 'string') return false;
+
+  switch (effect.type) {
+    case 'outline':
+      return (
+        isNumber('width') &&
+        (effect.position === 'inside' || effect.position === 'outside' || effect.position === 'center') &&
+        (effect.connectivity === 4 || effect.connectivity === 8)
+      );
+    case 'dropShadow':
+      return isNumber('offsetX') && isNumber('offsetY') && isNumber('opacity');
+    case 'colorOverlay':
+      return isNumber('opacity');
+    case 'innerGlow':
+      return isNumber('size') && isNumber('opacity');
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether a layer has any enabled effects
+ */
+export function hasActiveEffects(effects: LayerEffect[] | undefined): boolean {
+  return !!effects && effects.some((effect) => effect.enabled);
+}
+
+/**
+ * Ring widths of an outline inside and outside the layer's edge
+ * A center outline splits its width, with the odd pixel going outside.
+ */
+function getOutlineWidths(effect: OutlineEffect): { inside: number; outside: number } {
+  const width = Math.max(1, Math.floor(effect.width));
+  if (effect.position === 'inside') return { inside: width, outside: 0 };
+  if (effect.position === 'outside') return { inside: 0, outside: width };
+  return { inside: Math.floor(width / 2), outside: Math.ceil(width / 2) };
+}
+
+/**
+ * How far a layer's enabled effects grow its image on each side (outside outline, drop shadow)
+ */
+export function getEffectPadding(effects: LayerEffect[] | undefined): { left: number; top: number; right: number; bottom: number } {
+  const padding = { left: 0, top: 0, right: 0, bottom: 0 };
+  for (const effect of effects ?? []) {
+    if (!effect.enabled) continue;
+
+    if (effect.type === 'outline') {
+      const { outside } = getOutlineWidths(effect);
+      padding.left += outside;
+      padding.top += outside;
+      padding.right += outside;
+      padding.bottom += outside;
+    } else if (effect.type === 'dropShadow') {
+      const dx = Math.round(effect.offsetX);
+      const dy = Math.round(effect.offsetY);
+      padding.left += Math.max(0, -dx);
+      padding.top += Math.max(0, -dy);
+      padding.right += Math.max(0, dx);
+      padding.bottom += Math.max(0, dy);
+    }
+  }
+  return padding;
+}
+
+// Result of applying effects: new pixels plus where they sit relative to the layer origin
+export interface EffectResult {
+  pixels: ImageData;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Last result per source image, reused while the effects array is unchanged
+const effectCache = new WeakMap<ImageData, { effects: LayerEffect[]; result: EffectResult }>();
+
+/**
+ * Apply a layer's enabled effects to its pixels
+ * Effects that grow the image (outside outline, drop shadow) return a negative offset
+ */
+export function applyLayerEffects(source: ImageData, effects: LayerEffect[]): EffectResult {
+  const cached = effectCache.get(source);
+  if (cached && cached.effects === effects) return cached.result;
+
+  let result: EffectResult = { pixels: source, offsetX: 0, offsetY: 0 };
+
+  for (const effect of effects) {
+    if (!effect.enabled) continue;
+
+    switch (effect.type) {
+      case 'outline':
+        result = applyOutline(result, effect);
+        break;
+      case 'dropShadow':
+        result = applyDropShadow(result, effect);
+        break;
+      case 'colorOverlay':
+        result = { ...result, pixels: applyColorOverlay(result.pixels, effect) };
+        break;
+      case 'innerGlow':
+        result = { ...result, pixels: applyInnerGlow(result.pixels, effect) };
+        break;
+    }
+  }
+
+  effectCache.set(source, { effects, result });
+  return result;
+}
+
+/**
+ * Parse a #rgb or #rrggbb color
+ */
+function hexToRgb(hex: string): [number, number, number] {
+  let value = hex.replace('#', '');
+  if (value.length === 3) {
+    value = value.split('').map((c) => c + c).join('');
+  }
+  const num = parseInt(value, 16);
+  if (isNaN(num)) return [0, 0, 0];
+  return [(num >> 16) & 255, (num >> 8) & 255, num & 255];
+}
+
+/**
+ * Copy pixels into a larger transparent image with padding on each side
+ */
+function padImage(src: ImageData, left: number, top: number, right: number, bottom: number): ImageData {
+  const padded = new ImageData(src.width + left + right, src.height + top + bottom);
+  for (let y = 0; y < src.height; y++) {
+    const srcStart = y * src.width * 4;
+    padded.data.set(src.data.subarray(srcStart, srcStart + src.width * 4), ((y + top) * padded.width + left) * 4);
+  }
+  return padded;
+}
+
+/**
+ * Step distance from each pixel with mask === target to the nearest pixel without it
+ * (4-connected = Manhattan, 8-connected = Chebyshev). Outside the image counts as
+ * transparent. Pixels further than maxDistance (and non-target pixels) get 0.
+ */
+function edgeDistances(
+  image: ImageData,
+  target: boolean,
+  connectivity: 4 | 8,
+  maxDistance: number
+): Int32Array {
+  const { width, height, data } = image;
+  const isOpaque = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && data[(y * width + x) * 4 + 3] > 0;
+
+  const neighbors =
+    connectivity === 8
+      ? [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]]
+      : [[0, -1], [-1, 0], [1, 0], [0, 1]];
+
+  const distances = new Int32Array(width * height);
+  let frontier: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isOpaque(x, y) !== target) continue;
+      if (neighbors.some(([nx, ny]) => isOpaque(x + nx, y + ny) !== target)) {
+        distances[y * width + x] = 1;
+        frontier.push(y * width + x);
+      }
+    }
+  }
+
+  for (let distance = 2; distance <= maxDistance && frontier.length > 0; distance++) {
+    const next: number[] = [];
+    for (const index of frontier) {
+      const x = index % width;
+      const y = Math.floor(index / width);
+      for (const [nx, ny] of neighbors) {
+        const px = x + nx;
+        const py = y + ny;
+        if (px < 0 || py < 0 || px >= width || py >= height) continue;
+        const neighborIndex = py * width + px;
+        if (distances[neighborIndex] === 0 && isOpaque(px, py) === target) {
+          distances[neighborIndex] = distance;
+          next.push(neighborIndex);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return distances;
+}
+
+/**
+ * Hard outline around (outside), along (inside) or across (center) the layer's edge
+ */
+function applyOutline(input: EffectResult, effect: OutlineEffect): EffectResult {
+  const widths = getOutlineWidths(effect);
+  const pad = widths.outside;
+  const pixels = padImage(input.pixels, pad, pad, pad, pad);
+  const [r, g, b] = hexToRgb(effect.color);
+
+  // Both rings are measured on the original shape before any painting
+  const inside = widths.inside > 0 ? edgeDistances(pixels, true, effect.connectivity, widths.inside) : null;
+  const outside = widths.outside > 0 ? edgeDistances(pixels, false, effect.connectivity, widths.outside) : null;
+
+  for (let i = 0; i < pixels.width * pixels.height; i++) {
+    const offset = i * 4;
+    if (inside && inside[i] > 0) {
+      // Recolor edge pixels, keeping their alpha
+      pixels.data[offset] = r;
+      pixels.data[offset + 1] = g;
+      pixels.data[offset + 2] = b;
+    } else if (outside && outside[i] > 0) {
+      pixels.data[offset] = r;
+      pixels.data[offset + 1] = g;
+      pixels.data[offset + 2] = b;
+      pixels.data[offset + 3] = 255;
+    }
+  }
+
+  return { pixels, offsetX: input.offsetX - pad, offsetY: input.offsetY - pad };
+}
+
+/**
+ * Hard (unblurred) drop shadow: the layer's silhouette in a flat color, offset and drawn beneath it
+ */
+function applyDropShadow(input: EffectResult, effect: DropShadowEffect): EffectResult {
+  const dx = Math.round(effect.offsetX);
+  const dy = Math.round(effect.offsetY);
+  const left = Math.max(0, -dx);
+  const top = Math.max(0, -dy);
+  const src = input.pixels;
+
+  const shadow = new ImageData(src.width, src.height);
+  const [r, g, b] = hexToRgb(effect.color);
+  for (let i = 0; i < src.data.length; i += 4) {
+    shadow.data[i] = r;
+    shadow.data[i + 1] = g;
+    shadow.data[i + 2] = b;
+    shadow.data[i + 3] = src.data[i + 3];
+  }
+
+  const pixels = new ImageData(src.width + Math.abs(dx), src.height + Math.abs(dy));
+  blendImageData(pixels, shadow, left + dx, top + dy, 'normal', effect.opacity);
+  blendImageData(pixels, src, left, top, 'normal', 1);
+
+  return { pixels, offsetX: input.offsetX - left, offsetY: input.offsetY - top };
+}
+
+/**
+ * Tint every visible pixel toward a flat color, keeping alpha
+ */
+function applyColorOverlay(src: ImageData, effect: ColorOverlayEffect): ImageData {
+  const pixels = new ImageData(new Uint8ClampedArray(src.data), src.width, src.height);
+  const [r, g, b] = hexToRgb(effect.color);
+  const amount = Math.max(0, Math.min(1, effect.opacity));
+
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    if (pixels.data[i + 3] === 0) continue;
+    pixels.data[i] = Math.round(pixels.data[i] + (r - pixels.data[i]) * amount);
+    pixels.data[i + 1] = Math.round(pixels.data[i + 1] + (g - pixels.data[i + 1]) * amount);
+    pixels.data[i + 2] = Math.round(pixels.data[i + 2] + (b - pixels.data[i + 2]) * amount);
+  }
+
+  return pixels;
+}
+
+/**
+ * Glow along the inside of the edge, in hard 1px rings fading out over `size` pixels
+ */
+function applyInnerGlow(src: ImageData, effect: InnerGlowEffect): ImageData {
+  const size = Math.max(1, Math.floor(effect.size));
+  const pixels = new ImageData(new Uint8ClampedArray(src.data), src.width, src.height);
+  const distances = edgeDistances(src, true, 8, size);
+  const [r, g, b] = hexToRgb(effect.color);
+
+  for (let i = 0; i < distances.length; i++) {
+    const distance = distances[i];
+    if (distance === 0) continue;
+
+    const amount = Math.max(0, Math.min(1, effect.opacity)) * ((size - distance + 1) / size);
+    const offset = i * 4;
+    pixels.data[offset] = Math.round(pixels.data[offset] + (r - pixels.data[offset]) * amount);
+    pixels.data[offset + 1] = Math.round(pixels.data[offset + 1] + (g - pixels.data[offset + 1]) * amount);
+    pixels.data[offset + 2] = Math.round(pixels.data[offset + 2] + (b - pixels.data[offset + 2]) * amount);
+  }
+
+  return pixels;
+}
@@ -0,0 +1,306 @@
+/**
+ * Layer group (folder) utilities
+ * Groups live in project.groups; layers and nested groups point at their parent by id.
+ * The layer list itself stays flat and z-ordered, with each group's descendants kept contiguous.
+ */
+
+import { Layer, LayerGroup } from '../types/compositor.types';
+
+// Node in the layer tree, children sorted bottom-to-top (paint order)
+export type LayerTreeNode =
+  | { type: 'layer'; id: string; layer: Layer }
+  | { type: 'group'; id: string; group: LayerGroup; children: LayerTreeNode[] };
+
+/**
+ * Build the nested layer tree from the flat layer list
+ * A group is ordered among its siblings by its topmost descendant; empty groups sort to the top
+ */
+export function buildLayerTree(layers: Layer[], groups: LayerGroup[]): LayerTreeNode[] {
+  const groupIds = new Set(groups.map((g) => g.id));
+  const childrenByParent = new Map<string | null, LayerTreeNode[]>();
+  const addChild = (parentId: string | null, node: LayerTreeNode) => {
+    const key = parentId && groupIds.has(parentId) ? parentId : null;
+    const list = childrenByParent.get(key) ?? [];
+    list.push(node);
+    childrenByParent.set(key, list);
+  };
+
+  const groupNodes = new Map<string, LayerTreeNode & { type: 'group' }>();
+  for (const group of groups) {
+    groupNodes.set(group.id, { type: 'group', id: group.id, group, children: [] });
+  }
+  for (const group of groups) {
+    // Guard against cycles from corrupt data by treating a cyclic group as top level
+    addChild(hasAncestor(group.parentId, group.id, groups) ? null : group.parentId, groupNodes.get(group.id)!);
+  }
+  for (const layer of layers) {
+    addChild(layer.groupId ?? null, { type: 'layer', id: layer.id, layer });
+  }
+
+  const sortKeys = new Map<string, number>();
+  const getSortKey = (node: LayerTreeNode): number => {
+    if (node.type === 'layer') return node.layer.zIndex;
+    const cached = sortKeys.get(node.id);
+    if (cached !== undefined) return cached;
+    const key = Math.max(...node.children.map(getSortKey), -Infinity);
+    sortKeys.set(node.id, key === -Infinity ? Infinity : key);
+    return sortKeys.get(node.id)!;
+  };
+
+  const sortChildren = (nodes: LayerTreeNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'group') {
+        node.children = childrenByParent.get(node.id) ?? [];
+        sortChildren(node.children);
+      }
+    }
+    nodes.sort((a, b) => {
+      const keyA = getSortKey(a);
+      const keyB = getSortKey(b);
+      return keyA === keyB ? 0 : keyA - keyB;
+    });
+  };
+
+  const roots = childrenByParent.get(null) ?? [];
+  sortChildren(roots);
+  return roots;
+}
+
+/**
+ * Check whether `ancestorId` appears in the parent chain starting at `parentId`
+ */
+function hasAncestor(parentId: string | null, ancestorId: string, groups: LayerGroup[]): boolean {
+  const seen = new Set<string>();
+  let current = parentId;
+  while (current && !seen.has(current)) {
+    if (current === ancestorId) return true;
+    seen.add(current);
+    current = groups.find((g) => g.id === current)?.parentId ?? null;
+  }
+  return false;
+}
+
+/**
+ * Flatten a layer tree into layers in paint order (bottom first)
+ */
+export function flattenLayerTree(nodes: LayerTreeNode[]): Layer[] {
+  const result: Layer[] = [];
+  for (const node of nodes) {
+    if (node.type === 'layer') {
+      result.push(node.layer);
+    } else {
+      result.push(...flattenLayerTree(node.children));
+    }
+  }
+  return result;
+}
+
+/**
+ * Renumber zIndex (0..n-1) following the tree, so each group's descendants are contiguous
+ * Layers whose zIndex is already correct keep their object identity
+ */
+export function normalizeLayerOrder(layers: Layer[], groups: LayerGroup[]): Layer[] {
+  const ordered = flattenLayerTree(buildLayerTree(layers, groups));
+  const zIndexById = new Map(ordered.map((layer, index) => [layer.id, index]));
+  return layers.map((layer) => {
+    const zIndex = zIndexById.get(layer.id)!;
+    return layer.zIndex === zIndex ? layer : { ...layer, zIndex };
+  });
+}
+
+/**
+ * Clipping base of each clipped layer among siblings (in paint order): the nearest
+ * non-clipped sibling below it when that is a layer, or null when it is a group or
+ * there is nothing below (such layers are drawn unclipped)
+ */
+export function getClipBases(nodes: LayerTreeNode[]): Map<string, Layer | null> {
+  const bases = new Map<string, Layer | null>();
+  let base: Layer | null = null;
+  for (const node of nodes) {
+    if (node.type === 'group') {
+      base = null;
+    } else if (node.layer.clipToBelow) {
+      bases.set(node.id, base);
+    } else {
+      base = node.layer;
+    }
+  }
+  return bases;
+}
+
+/**
+ * Clipping base of every clipped layer in the project, across all groups (see getClipBases)
+ */
+export function getLayerClipBases(layers: Layer[], groups: LayerGroup[]): Map<string, Layer | null> {
+  const bases = new Map<string, Layer | null>();
+  const visit = (nodes: LayerTreeNode[]) => {
+    getClipBases(nodes).forEach((base, id) => bases.set(id, base));
+    for (const node of nodes) {
+      if (node.type === 'group') visit(node.children);
+    }
+  };
+  visit(buildLayerTree(layers, groups));
+  return bases;
+}
+
+/**
+ * Move selected items one step, or all the way, keeping their relative order
+ */
+function moveSelected<T>(items: T[], isSelected: (item: T) => boolean, direction: 'up' | 'down' | 'top' | 'bottom'): T[] {
+  const result = [...items];
+  if (direction === 'top' || direction === 'bottom') {
+    const moved = result.filter(isSelected);
+    const rest = result.filter((item) => !isSelected(item));
+    return direction === 'top' ? [...rest, ...moved] : [...moved, ...rest];
+  }
+
+  if (direction === 'up') {
+    for (let i = result.length - 2; i >= 0; i--) {
+      if (isSelected(result[i]) && !isSelected(result[i + 1])) {
+        [result[i], result[i + 1]] = [result[i + 1], result[i]];
+      }
+    }
+  } else {
+    for (let i = 1; i < result.length; i++) {
+      if (isSelected(result[i]) && !isSelected(result[i - 1])) {
+        [result[i], result[i - 1]] = [result[i - 1], result[i]];
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Move tree nodes (layers or groups) one step, or all the way, among their siblings
+ * A clipping base and the layers clipped to it move as one unit, and a clipped layer
+ * moved on its own only moves within its clipping chain, so reordering never changes
+ * which layer anything is clipped to.
+ * Returns the layers with zIndex renumbered to match the new order
+ */
+export function reorderTreeNodes(
+  layers: Layer[],
+  groups: LayerGroup[],
+  nodeIds: string[],
+  direction: 'up' | 'down' | 'top' | 'bottom'
+): Layer[] {
+  const ids = new Set(nodeIds);
+  const tree = buildLayerTree(layers, groups);
+
+  const reorderSiblings = (nodes: LayerTreeNode[]) => {
+    // Split siblings into units: a node followed by the layers clipped to it
+    const clipBases = getClipBases(nodes);
+    const units: LayerTreeNode[][] = [];
+    for (const node of nodes) {
+      if (clipBases.get(node.id) && units.length > 0) {
+        units[units.length - 1].push(node);
+      } else {
+        units.push([node]);
+      }
+    }
+
+    // Clipped layers moved without their base stay within their chain
+    const reorderedUnits = units.map((unit) =>
+      unit.length > 1 && !ids.has(unit[0].id)
+        ? [unit[0], ...moveSelected(unit.slice(1), (n) => ids.has(n.id), direction)]
+        : unit
+    );
+
+    const ordered = moveSelected(reorderedUnits, (unit) => ids.has(unit[0].id), direction).flat();
+    nodes.splice(0, nodes.length, ...ordered);
+
+    for (const node of nodes) {
+      if (node.type === 'group') reorderSiblings(node.children);
+    }
+  };
+
+  reorderSiblings(tree);
+
+  const zIndexById = new Map(flattenLayerTree(tree).map((layer, index) => [layer.id, index]));
+  return layers.map((layer) => {
+    const zIndex = zIndexById.get(layer.id)!;
+    return layer.zIndex === zIndex ? layer : { ...layer, zIndex };
+  });
+}
+
+/**
+ * Get a group's id plus the ids of all groups nested inside it
+ */
+export function getGroupAndDescendantIds(groupId: string, groups: LayerGroup[]): Set<string> {
+  const result = new Set<string>([groupId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const group of groups) {
+      if (group.parentId && result.has(group.parentId) && !result.has(group.id)) {
+        result.add(group.id);
+        added = true;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Get all layers inside a group, including those in nested groups
+ */
+export function getGroupLayers(groupId: string, layers: Layer[], groups: LayerGroup[]): Layer[] {
+  const groupIds = getGroupAndDescendantIds(groupId, groups);
+  return layers.filter((layer) => layer.groupId !== undefined && groupIds.has(layer.groupId));
+}
+
+/**
+ * Get the chain of groups containing a layer or group, innermost first
+ */
+export function getAncestorGroups(parentId: string | null | undefined, groups: LayerGroup[]): LayerGroup[] {
+  const result: LayerGroup[] = [];
+  const seen = new Set<string>();
+  let current = parentId ?? null;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    const group = groups.find((g) => g.id === current);
+    if (!group) break;
+    result.push(group);
+    current = group.parentId;
+  }
+  return result;
+}
+
+/**
+ * A layer is visible only if it and every enclosing group are visible
+ */
+export function isLayerVisible(layer: Layer, groups: LayerGroup[]): boolean {
+  return layer.visible && getAncestorGroups(layer.groupId, groups).every((g) => g.visible);
+}
+
+/**
+ * A layer is locked if it or any enclosing group is locked
+ */
+export function isLayerLocked(layer: Layer, groups: LayerGroup[]): boolean {
+  return layer.locked || getAncestorGroups(layer.groupId, groups).some((g) => g.locked);
+}
+
+/**
+ * Copy of a layer moved to the top level (groupId dropped entirely rather than set to undefined)
+ */
+export function removeFromGroup(layer: Layer): Layer {
+  const result = { ...layer };
+  delete result.groupId;
+  return result;
+}
+
+/**
+ * Copy of a layer released from its clipping base (clipToBelow dropped entirely)
+ */
+export function releaseClip(layer: Layer): Layer {
+  const result = { ...layer };
+  delete result.clipToBelow;
+  return result;
+}
+
+/**
+ * Remove groups that no longer contain any layers (directly or through nested groups)
+ */
+export function pruneEmptyGroups(layers: Layer[], groups: LayerGroup[]): LayerGroup[] {
+  const pruned = groups.filter((group) => getGroupLayers(group.id, layers, groups).length > 0);
+  return pruned.length === groups.length ? groups : pruned;
+}
@@ -0,0 +1,162 @@
+/**
+ * Layer mask utilities
+ * Masks are grayscale images the size of the layer (white = visible, black = hidden).
+ * They scale the layer's alpha at render/export time and can be painted, inverted or
+ * applied (baked into the image) later.
+ */
+
+import { LayerMaskInput } from '../types/compositor.types';
+import { getImagePixels, loadImageFromDataURL } from './canvasRenderer';
+
+/**
+ * Create a solid mask as a PNG data URL (255 = reveal all, 0 = hide all)
+ */
+export function createMaskDataUrl(width: number, height: number, value: number = 255): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.max(1, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.fillStyle = `rgb(${value}, ${value}, ${value})`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Encode mask pixels as a PNG data URL
+ */
+export function maskPixelsToDataUrl(mask: ImageData): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.putImageData(mask, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Mask value (0-255) at a pixel, read from the red channel
+ * Pixels outside the mask (e.g. after the layer was resized) count as fully visible
+ */
+function maskValueAt(mask: ImageData, x: number, y: number, inverted: boolean): number {
+  if (x >= mask.width || y >= mask.height) return 255;
+  const value = mask.data[(y * mask.width + x) * 4];
+  return inverted ? 255 - value : value;
+}
+
+// Last masked result per source image, reused while the mask pixels and inversion are unchanged
+const maskCache = new WeakMap<ImageData, { mask: ImageData; inverted: boolean; result: ImageData }>();
+
+/**
+ * Scale each pixel's alpha by the mask value at the same position
+ */
+export function applyMaskToPixels(pixels: ImageData, mask: ImageData, inverted: boolean): ImageData {
+  const cached = maskCache.get(pixels);
+  if (cached && cached.mask === mask && cached.inverted === inverted) return cached.result;
+
+  const result = new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height);
+  for (let y = 0; y < pixels.height; y++) {
+    for (let x = 0; x < pixels.width; x++) {
+      const alphaIndex = (y * pixels.width + x) * 4 + 3;
+      if (result.data[alphaIndex] === 0) continue;
+      result.data[alphaIndex] = Math.round((result.data[alphaIndex] * maskValueAt(mask, x, y, inverted)) / 255);
+    }
+  }
+
+  maskCache.set(pixels, { mask, inverted, result });
+  return result;
+}
+
+/**
+ * Paint a hard square brush stroke from (x0, y0) to (x1, y1) in mask pixel coordinates
+ * Returns new mask pixels; the input is left untouched so cached renders stay valid
+ */
+export function paintMask(
+  mask: ImageData,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  size: number,
+  value: number
+): ImageData {
+  const result = new ImageData(new Uint8ClampedArray(mask.data), mask.width, mask.height);
+  const brush = Math.max(1, Math.floor(size));
+  const half = Math.floor((brush - 1) / 2);
+
+  const stamp = (cx: number, cy: number) => {
+    const left = Math.max(0, cx - half);
+    const top = Math.max(0, cy - half);
+    const right = Math.min(mask.width, cx - half + brush);
+    const bottom = Math.min(mask.height, cy - half + brush);
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        const offset = (y * mask.width + x) * 4;
+        result.data[offset] = value;
+        result.data[offset + 1] = value;
+        result.data[offset + 2] = value;
+        result.data[offset + 3] = 255;
+      }
+    }
+  };
+
+  // Stamp every pixel along the line so fast mouse moves leave no gaps
+  const steps = Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0), 1);
+  for (let i = 0; i <= steps; i++) {
+    stamp(Math.round(x0 + ((x1 - x0) * i) / steps), Math.round(y0 + ((y1 - y0) * i) / steps));
+  }
+
+  return result;
+}
+
+/**
+ * Build a mask that hides what an image operation (background removal, transparency mask)
+ * made transparent, instead of changing the image itself.
+ * An existing mask is combined so pixels it already hid stay hidden.
+ */
+export async function maskFromProcessedImage(
+  originalDataUrl: string,
+  processedDataUrl: string,
+  existingMask?: LayerMaskInput
+): Promise<string> {
+  const original = getImagePixels(await loadImageFromDataURL(originalDataUrl));
+  const processed = getImagePixels(await loadImageFromDataURL(processedDataUrl));
+  const existing = existingMask ? getImagePixels(await loadImageFromDataURL(existingMask.imageData)) : null;
+
+  const mask = new ImageData(original.width, original.height);
+  for (let y = 0; y < original.height; y++) {
+    for (let x = 0; x < original.width; x++) {
+      const offset = (y * original.width + x) * 4;
+      const before = original.data[offset + 3];
+      const after = x < processed.width && y < processed.height ? processed.data[(y * processed.width + x) * 4 + 3] : before;
+
+      let value = before > 0 ? Math.min(255, Math.round((after / before) * 255)) : 255;
+      if (existing && existingMask?.enabled) {
+        value = Math.min(value, maskValueAt(existing, x, y, existingMask.inverted));
+      }
+
+      mask.data[offset] = value;
+      mask.data[offset + 1] = value;
+      mask.data[offset + 2] = value;
+      mask.data[offset + 3] = 255;
+    }
+  }
+
+  return maskPixelsToDataUrl(mask);
+}
+
+/**
+ * Permanently apply a mask to an image, returning the masked image as a PNG data URL
+ */
+export async function applyMaskToImage(imageDataUrl: string, mask: LayerMaskInput): Promise<string> {
+  const pixels = getImagePixels(await loadImageFromDataURL(imageDataUrl));
+  const maskPixels = getImagePixels(await loadImageFromDataURL(mask.imageData));
+  return maskPixelsToDataUrl(applyMaskToPixels(pixels, maskPixels, mask.inverted));
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LayerTransform } from '../types/compositor.types';
+import {
+  applyScaleToPixels,
+  applyTransformToPixels,
+  composeTransform,
+  getLayerBounds,
+  TRANSFORM_OPERATIONS,
+  TransformOperation,
+} from './layerTransforms';
+
+// The test environment has no ImageData
+class TestImageData {
+  readonly data: Uint8ClampedArray;
+  constructor(readonly width: number, readonly height: number) {
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+}
+vi.stubGlobal('ImageData', TestImageData);
+
+/**
+ * Opaque image whose pixels are told apart by their red channel, given row by row
+ */
+function makeImage(width: number, height: number, values: number[]): ImageData {
+  const image = new ImageData(width, height);
+  values.forEach((value, i) => {
+    image.data[i * 4] = value;
+    image.data[i * 4 + 3] = 255;
+  });
+  return image;
+}
+
+function readImage(image: ImageData): { width: number; height: number; rows: number[][] } {
+  const rows = Array.from({ length: image.height }, (_, y) =>
+    Array.from({ length: image.width }, (_, x) => image.data[(y * image.width + x) * 4])
+  );
+  return { width: image.width, height: image.height, rows };
+}
+
+function transformOf(...operations: TransformOperation[]): LayerTransform {
+  return operations.reduce<LayerTransform | undefined>((transform, operation) => composeTransform(transform, operation), undefined)!;
+}
+
+describe('composeTransform / applyTransformToPixels', () => {
+  // 1 2 3
+  // 4 5 6
+  const image = makeImage(3, 2, [1, 2, 3, 4, 5, 6]);
+
+  it('rotates clockwise', () => {
+    expect(readImage(applyTransformToPixels(image, transformOf('rotate90'))).rows).toEqual([
+      [4, 1],
+      [5, 2],
+      [6, 3],
+    ]);
+  });
+
+  it('mirrors, then rotates', () => {
+    expect(transformOf('flipH', 'rotate90')).toEqual({ flipX: true, flipY: false, rotation: 90 });
+    expect(readImage(applyTransformToPixels(image, transformOf('flipH', 'rotate90'))).rows).toEqual([
+      [6, 3],
+      [5, 2],
+      [4, 1],
+    ]);
+  });
+
+  it('rotates, then mirrors', () => {
+    expect(transformOf('rotate90', 'flipH')).toEqual({ flipX: true, flipY: false, rotation: 270 });
+    expect(readImage(applyTransformToPixels(image, transformOf('rotate90', 'flipH'))).rows).toEqual([
+      [1, 4],
+      [2, 5],
+      [3, 6],
+    ]);
+  });
+
+  it('stores flipping both ways as a 180° rotation', () => {
+    expect(transformOf('flipH', 'flipV')).toEqual({ flipX: false, flipY: false, rotation: 180 });
+    expect(readImage(applyTransformToPixels(image, transformOf('flipH', 'flipV'))).rows).toEqual([
+      [6, 5, 4],
+      [3, 2, 1],
+    ]);
+  });
+
+  it('matches applying every pair of operations one after the other', () => {
+    for (const { value: first } of TRANSFORM_OPERATIONS) {
+      for (const { value: second } of TRANSFORM_OPERATIONS) {
+        const stepwise = applyTransformToPixels(applyTransformToPixels(image, transformOf(first)), transformOf(second));
+        const composed = applyTransformToPixels(image, transformOf(first, second));
+        expect(readImage(composed), `${first} then ${second}`).toEqual(readImage(stepwise));
+      }
+    }
+  });
+});
+
+describe('applyScaleToPixels', () => {
+  it('replicates every pixel by the integer scale', () => {
+    const scaled = applyScaleToPixels(makeImage(2, 1, [1, 2]), 3, 2);
+    expect(readImage(scaled)).toEqual({
+      width: 6,
+      height: 2,
+      rows: [
+        [1, 1, 1, 2, 2, 2],
+        [1, 1, 1, 2, 2, 2],
+      ],
+    });
+  });
+
+  it('scales after the transform, so the scale applies to the displayed axes', () => {
+    const rotated = applyTransformToPixels(makeImage(2, 1, [1, 2]), transformOf('rotate90'));
+    expect(readImage(applyScaleToPixels(rotated, 2, 1)).rows).toEqual([
+      [1, 1],
+      [2, 2],
+    ]);
+    expect(getLayerBounds({ x: 4, y: 5, width: 2, height: 1, transform: transformOf('rotate90'), scaleX: 2, scaleY: 1 })).toEqual({
+      x: 4,
+      y: 5,
+      width: 2,
+      height: 2,
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Lossless layer transforms (flip, 90° rotation and integer scale)
+ * The transform and scale are stored on the layer and applied to its pixels at render/export time.
+ * Pixels are only moved or replicated, never resampled, so any sequence of transforms is exact and reversible.
+ * The source image is mirrored first, then rotated clockwise, then scaled in screen space.
+ */
+
+import { Layer, LayerTransform } from '../types/compositor.types';
+
+export type TransformOperation = 'flipH' | 'flipV' | 'rotate90' | 'rotate180' | 'rotate270';
+
+// Operations in the order shown to the user
+export const TRANSFORM_OPERATIONS: { value: TransformOperation; label: string }[] = [
+  { value: 'flipH', label: 'Flip Horizontal' },
+  { value: 'flipV', label: 'Flip Vertical' },
+  { value: 'rotate90', label: 'Rotate 90° CW' },
+  { value: 'rotate180', label: 'Rotate 180°' },
+  { value: 'rotate270', label: 'Rotate 90° CCW' },
+];
+
+const IDENTITY: LayerTransform = { flipX: false, flipY: false, rotation: 0 };
+
+// Largest integer scale factor per axis
+export const MAX_LAYER_SCALE = 32;
+
+/**
+ * Check whether a transform leaves the layer unchanged
+ */
+export function isIdentityTransform(transform: LayerTransform | undefined): boolean {
+  return !transform || (!transform.flipX && !transform.flipY && transform.rotation === 0);
+}
+
+/**
+ * Check whether a value looks like a valid transform (used when loading files)
+ */
+export function isLayerTransform(value: unknown): value is LayerTransform {
+  if (!value || typeof value !== 'object') return false;
+  const transform = value as Partial<LayerTransform>;
+  return (
+    typeof transform.flipX === 'boolean' &&
+    typeof transform.flipY === 'boolean' &&
+    [0, 90, 180, 270].includes(transform.rotation as number)
+  );
+}
+
+/**
+ * Check whether a value is a valid per-axis scale factor (used when loading files)
+ */
+export function isLayerScale(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_LAYER_SCALE;
+}
+
+/**
+ * Integer scale factors of a layer (1 when unset)
+ */
+export function getLayerScale(layer: Pick<Layer, 'scaleX' | 'scaleY'>): { x: number; y: number } {
+  return { x: layer.scaleX ?? 1, y: layer.scaleY ?? 1 };
+}
+
+/**
+ * Apply an operation on top of an existing transform (in screen space)
+ * Mirroring after a rotation reverses the rotation direction, and flipping both ways
+ * is stored as a 180° rotation so every result has a single canonical form
+ */
+export function composeTransform(current: LayerTransform | undefined, operation: TransformOperation): LayerTransform {
+  const { flipX, flipY, rotation } = current ?? IDENTITY;
+  let next: LayerTransform;
+
+  switch (operation) {
+    case 'flipH':
+      next = { flipX: !flipX, flipY, rotation: ((360 - rotation) % 360) as LayerTransform['rotation'] };
+      break;
+    case 'flipV':
+      next = { flipX, flipY: !flipY, rotation: ((360 - rotation) % 360) as LayerTransform['rotation'] };
+      break;
+    default: {
+      const degrees = operation === 'rotate90' ? 90 : operation === 'rotate180' ? 180 : 270;
+      next = { flipX, flipY, rotation: ((rotation + degrees) % 360) as LayerTransform['rotation'] };
+    }
+  }
+
+  if (next.flipX && next.flipY) {
+    next = { flipX: false, flipY: false, rotation: ((next.rotation + 180) % 360) as LayerTransform['rotation'] };
+  }
+  return next;
+}
+
+/**
+ * Whether an operation swaps width and height
+ */
+export function swapsAxes(operation: TransformOperation): boolean {
+  return operation === 'rotate90' || operation === 'rotate270';
+}
+
+/**
+ * Displayed size of a layer after its transform and scale
+ */
+export function getTransformedSize(
+  layer: Pick<Layer, 'width' | 'height' | 'transform' | 'scaleX' | 'scaleY'>
+): { width: number; height: number } {
+  const rotation = layer.transform?.rotation ?? 0;
+  const scale = getLayerScale(layer);
+  return rotation === 90 || rotation === 270
+    ? { width: layer.height * scale.x, height: layer.width * scale.y }
+    : { width: layer.width * scale.x, height: layer.height * scale.y };
+}
+
+/**
+ * On-canvas bounds of a layer (position plus transformed and scaled size)
+ * Use this for hit-testing, selection borders and canvas cropping instead of width/height
+ */
+export function getLayerBounds(layer: Pick<Layer, 'x' | 'y' | 'width' | 'height' | 'transform' | 'scaleX' | 'scaleY'>): {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+} {
+  return { x: layer.x, y: layer.y, ...getTransformedSize(layer) };
+}
+
+/**
+ * Map a pixel of the transformed (displayed) image back to the source image
+ * width/height are the source image size
+ */
+export function toSourcePixel(
+  transform: LayerTransform | undefined,
+  width: number,
+  height: number,
+  x: number,
+  y: number
+): { x: number; y: number } {
+  if (!transform) return { x, y };
+
+  // Undo the rotation
+  let fx: number;
+  let fy: number;
+  switch (transform.rotation) {
+    case 90:
+      fx = y;
+      fy = height - 1 - x;
+      break;
+    case 180:
+      fx = width - 1 - x;
+      fy = height - 1 - y;
+      break;
+    case 270:
+      fx = width - 1 - y;
+      fy = x;
+      break;
+    default:
+      fx = x;
+      fy = y;
+  }
+
+  // Undo the mirroring
+  return {
+    x: transform.flipX ? width - 1 - fx : fx,
+    y: transform.flipY ? height - 1 - fy : fy,
+  };
+}
+
+// Last transformed result per source image, reused while the transform is unchanged
+const transformCache = new WeakMap<ImageData, { key: string; result: ImageData }>();
+
+/**
+ * Apply a transform to pixels (exact pixel moves, no resampling)
+ */
+export function applyTransformToPixels(source: ImageData, transform: LayerTransform): ImageData {
+  if (isIdentityTransform(transform)) return source;
+
+  const key = `${transform.flipX}|${transform.flipY}|${transform.rotation}`;
+  const cached = transformCache.get(source);
+  if (cached && cached.key === key) return cached.result;
+
+  const { width, height } = getTransformedSize({ width: source.width, height: source.height, transform });
+  const result = new ImageData(width, height);
+  const src = new Uint32Array(source.data.buffer, source.data.byteOffset, source.width * source.height);
+  const dst = new Uint32Array(result.data.buffer);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const from = toSourcePixel(transform, source.width, source.height, x, y);
+      dst[y * width + x] = src[from.y * source.width + from.x];
+    }
+  }
+
+  transformCache.set(source, { key, result });
+  return result;
+}
+
+// Last scaled result per (transformed) image, reused while the scale is unchanged
+const scaleCache = new WeakMap<ImageData, { scaleX: number; scaleY: number; result: ImageData }>();
+
+/**
+ * Scale pixels up by integer factors with nearest-neighbor pixel replication
+ */
+export function applyScaleToPixels(source: ImageData, scaleX: number, scaleY: number): ImageData {
+  if (scaleX === 1 && scaleY === 1) return source;
+
+  const cached = scaleCache.get(source);
+  if (cached && cached.scaleX === scaleX && cached.scaleY === scaleY) return cached.result;
+
+  const width = source.width * scaleX;
+  const height = source.height * scaleY;
+  const result = new ImageData(width, height);
+  const src = new Uint32Array(source.data.buffer, source.data.byteOffset, source.width * source.height);
+  const dst = new Uint32Array(result.data.buffer);
+
+  for (let y = 0; y < height; y++) {
+    const srcRow = Math.floor(y / scaleY) * source.width;
+    for (let x = 0; x < width; x++) {
+      dst[y * width + x] = src[srcRow + Math.floor(x / scaleX)];
+    }
+  }
+
+  scaleCache.set(source, { scaleX, scaleY, result });
+  return result;
+}
+
+/**
+ * New positions and transforms for layers transformed together as one selection
+ * Layers are mirrored or rotated around the center of their combined bounds; a rotation
+ * pivot that falls between pixels is truncated toward the original position, so positions
+ * stay on the integer grid and rotating back and forth returns layers to where they started
+ */
+export function transformLayers(
+  layers: Layer[],
+  operation: TransformOperation
+): Map<string, Pick<Layer, 'x' | 'y' | 'transform' | 'scaleX' | 'scaleY'>> {
+  const result = new Map<string, Pick<Layer, 'x' | 'y' | 'transform' | 'scaleX' | 'scaleY'>>();
+  if (layers.length === 0) return result;
+
+  const bounds = layers.map(getLayerBounds);
+  const left = Math.floor(Math.min(...bounds.map((b) => b.x)));
+  const top = Math.floor(Math.min(...bounds.map((b) => b.y)));
+  const selectionWidth = Math.max(...bounds.map((b) => Math.floor(b.x) + b.width)) - left;
+  const selectionHeight = Math.max(...bounds.map((b) => Math.floor(b.y) + b.height)) - top;
+
+  // Top-left of the selection after the operation
+  const newLeft = swapsAxes(operation) ? left + Math.trunc((selectionWidth - selectionHeight) / 2) : left;
+  const newTop = swapsAxes(operation) ? top + Math.trunc((selectionHeight - selectionWidth) / 2) : top;
+
+  layers.forEach((layer, i) => {
+    const { width, height } = bounds[i];
+    const rx = Math.floor(bounds[i].x) - left;
+    const ry = Math.floor(bounds[i].y) - top;
+
+    let nx: number;
+    let ny: number;
+    switch (operation) {
+      case 'flipH':
+        nx = selectionWidth - (rx + width);
+        ny = ry;
+        break;
+      case 'flipV':
+        nx = rx;
+        ny = selectionHeight - (ry + height);
+        break;
+      case 'rotate90':
+        nx = selectionHeight - (ry + height);
+        ny = rx;
+        break;
+      case 'rotate180':
+        nx = selectionWidth - (rx + width);
+        ny = selectionHeight - (ry + height);
+        break;
+      case 'rotate270':
+        nx = ry;
+        ny = selectionWidth - (rx + width);
+        break;
+    }
+
+    result.set(layer.id, {
+      x: newLeft + nx,
+      y: newTop + ny,
+      transform: composeTransform(layer.transform, operation),
+      // Scale is in screen space, so a quarter turn swaps the factors
+      ...(swapsAxes(operation) && { scaleX: layer.scaleY, scaleY: layer.scaleX }),
+    });
+  });
+
+  return result;
+}
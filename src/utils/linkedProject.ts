@@ -0,0 +1,264 @@
+/**
+ * Linked project format: a JSON manifest plus separate image files
+ * Layout (as a folder or a zip archive):
+ *   project.json          manifest (LinkedProjectData), layer images referenced by relative path
+ *   images/<name>-<id>.png
+ *   images/<name>-<id>.mask.png
+ * Image bytes are written exactly as stored in the project, so saving and loading is lossless,
+ * and file names follow the layer id so they stay stable between saves.
+ */
+
+import {
+  ImageAssets,
+  Layer,
+  LayerMaskInput,
+  LinkedLayer,
+  LinkedProjectData,
+  ProjectData,
+  ProjectLoadResult,
+  ValidationIssue,
+} from '../types/compositor.types';
+import { getSyncedFrames } from './animation';
+import { getInlineMask, getLayerImage, internLayerImages } from './assets';
+import { dataUrlToFile, imageFileToDataUrl } from './imageProcessing';
+import { deserializeProjectData } from './projectSerializer';
+import { addIssue, isRecord } from './projectValidation';
+import { createZip, readZip, ZipEntry } from './zip';
+
+export const LINKED_MANIFEST_FILENAME = 'project.json';
+const IMAGE_DIRECTORY = 'images';
+
+/**
+ * File name stem for a layer: its name (without image extension) plus the end of its id
+ */
+function imageFileStem(layer: Pick<Layer, 'id' | 'name'>): string {
+  const name = layer.name
+    .replace(/\.(png|jpe?g|gif|bmp|webp)$/i, '')
+    .replace(/[^a-zA-Z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 40);
+  const id = layer.id.replace(/[^a-zA-Z0-9]/g, '').slice(-8);
+  return `${name || 'layer'}-${id}`;
+}
+
+/**
+ * Split a project into a linked manifest and its image files
+ */
+export async function createLinkedProject(project: ProjectData): Promise<{ manifest: LinkedProjectData; images: ZipEntry[] }> {
+  const images: ZipEntry[] = [];
+  const layers: LinkedLayer[] = [];
+
+  const savedLayers = project.layers.filter(
+    (layer) => layer.id !== '__text_canvas_preview__' && layer.id !== '__shape_canvas_preview__'
+  );
+
+  for (const layer of savedLayers) {
+    const { mask, ...rest } = layer;
+    delete (rest as Partial<Layer>).assetId;
+    const stem = `${IMAGE_DIRECTORY}/${imageFileStem(layer)}`;
+
+    const image = await dataUrlToFile(getLayerImage(project.assets, layer));
+    const source = `${stem}.${image.extension}`;
+    images.push({ path: source, data: image.data });
+
+    const linked: LinkedLayer = { ...rest, source };
+    if (mask) {
+      const { imageData: maskData, ...maskRest } = getInlineMask(project.assets, mask);
+      const maskImage = await dataUrlToFile(maskData);
+      const maskSource = `${stem}.mask.${maskImage.extension}`;
+      images.push({ path: maskSource, data: maskImage.data });
+      linked.mask = { ...maskRest, source: maskSource };
+    }
+    layers.push(linked);
+  }
+
+  // Images live in the files, so the manifest has no asset table
+  const manifest: LinkedProjectData & Partial<Pick<ProjectData, 'assets'>> = {
+    ...project,
+    format: 'linked',
+    layers,
+    animation: { ...project.animation, frames: getSyncedFrames({ ...project, layers: savedLayers }) },
+    modified: new Date().toISOString(),
+  };
+  delete manifest.assets;
+  return { manifest, images };
+}
+
+/**
+ * All files of a linked project (manifest first), with paths relative to the project root
+ */
+export async function createLinkedProjectFiles(project: ProjectData): Promise<ZipEntry[]> {
+  const { manifest, images } = await createLinkedProject(project);
+  const json = new TextEncoder().encode(JSON.stringify(manifest, null, 2) + '\n');
+  return [{ path: LINKED_MANIFEST_FILENAME, data: json }, ...images];
+}
+
+/**
+ * Package a linked project as a zip archive
+ */
+export async function exportLinkedProjectZip(project: ProjectData): Promise<Blob> {
+  return createZip(await createLinkedProjectFiles(project));
+}
+
+/**
+ * Image paths a previously saved manifest in the folder references (empty when there is none)
+ */
+async function readPreviousImagePaths(directory: FileSystemDirectoryHandle): Promise<Set<string>> {
+  const paths = new Set<string>();
+  try {
+    const handle = await directory.getFileHandle(LINKED_MANIFEST_FILENAME);
+    const manifest: unknown = JSON.parse(await (await handle.getFile()).text());
+    const layers: unknown[] = isRecord(manifest) && Array.isArray(manifest.layers) ? manifest.layers : [];
+    for (const layer of layers) {
+      if (!isRecord(layer)) continue;
+      const sources = [layer.source, isRecord(layer.mask) ? layer.mask.source : undefined];
+      for (const source of sources) {
+        if (typeof source === 'string') paths.add(normalizePath(source));
+      }
+    }
+  } catch {
+    // No manifest yet (or not readable): nothing was saved here before
+  }
+  return paths;
+}
+
+/**
+ * Write a linked project into a folder chosen with the File System Access API
+ * Image files the folder's previous manifest referenced that this save no longer writes are removed,
+ * so renamed or deleted layers do not leave stale files behind. Other files in the folder are never touched.
+ */
+export async function saveLinkedProjectToDirectory(project: ProjectData, directory: FileSystemDirectoryHandle): Promise<void> {
+  const previousImages = await readPreviousImagePaths(directory);
+  const files = await createLinkedProjectFiles(project);
+
+  for (const file of files) {
+    const parts = file.path.split('/');
+    let folder = directory;
+    for (const part of parts.slice(0, -1)) {
+      folder = await folder.getDirectoryHandle(part, { create: true });
+    }
+
+    const handle = await folder.getFileHandle(parts[parts.length - 1], { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(file.data as BlobPart);
+    await writable.close();
+  }
+
+  const written = new Set(files.map((file) => file.path));
+  const imageFolder = await directory.getDirectoryHandle(IMAGE_DIRECTORY, { create: true });
+  for (const path of previousImages) {
+    const name = path.slice(IMAGE_DIRECTORY.length + 1);
+    // Only files directly in the images folder, as this format writes them
+    if (written.has(path) || !path.startsWith(`${IMAGE_DIRECTORY}/`) || name.includes('/')) continue;
+    try {
+      await imageFolder.removeEntry(name);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Normalize a relative path: forward slashes, no '.' segments, '..' resolved
+ */
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
+
+/**
+ * Rebuild a project from linked project files (a selected folder or an extracted zip),
+ * given as a map from path to a reader so only referenced files are read
+ * The manifest may sit in a subfolder (e.g. a zipped project folder); image paths are
+ * resolved relative to it.
+ */
+async function loadLinkedProject(files: Map<string, () => Promise<Uint8Array>>): Promise<ProjectLoadResult> {
+  const byPath = new Map([...files].map(([path, read]) => [normalizePath(path), read]));
+
+  const manifestPath = [...byPath.keys()]
+    .filter((path) => path === LINKED_MANIFEST_FILENAME || path.endsWith(`/${LINKED_MANIFEST_FILENAME}`))
+    .sort((a, b) => a.length - b.length)[0];
+  if (!manifestPath) {
+    throw new Error(`Invalid linked project: ${LINKED_MANIFEST_FILENAME} not found`);
+  }
+
+  const manifest: unknown = JSON.parse(new TextDecoder().decode(await byPath.get(manifestPath)!()));
+  if (!isRecord(manifest) || manifest.format !== 'linked' || !Array.isArray(manifest.layers)) {
+    throw new Error(`Invalid linked project: ${LINKED_MANIFEST_FILENAME} is not a linked project manifest`);
+  }
+
+  // Missing files are reported; validation then gives the layer a placeholder (or drops the mask)
+  const issues: ValidationIssue[] = [];
+  const baseDirectory = manifestPath.slice(0, manifestPath.length - LINKED_MANIFEST_FILENAME.length);
+  const resolveImage = async (source: unknown, path: string, layerName: string): Promise<string | undefined> => {
+    const read = typeof source === 'string' ? byPath.get(normalizePath(baseDirectory + source)) : undefined;
+    if (typeof source !== 'string' || !read) {
+      addIssue(issues, 'error', path, `Image file '${String(source)}' of layer '${layerName}' is missing`, 'Put the file back and reopen the project');
+      return undefined;
+    }
+    return imageFileToDataUrl(await read(), source);
+  };
+
+  // Entries of the wrong shape, and layers or masks without a file, are left for validation to report
+  // Identical layer and mask images become a single asset
+  let assets: ImageAssets = {};
+  const layers: unknown[] = [];
+  for (let i = 0; i < manifest.layers.length; i++) {
+    const entry: unknown = manifest.layers[i];
+    if (!isRecord(entry)) {
+      layers.push(entry);
+      continue;
+    }
+
+    const { source, mask, ...rest } = entry;
+    const name = typeof rest.name === 'string' ? rest.name : `Layer ${i + 1}`;
+    const layer: { imageData?: string; mask?: LayerMaskInput; [field: string]: unknown } = { ...rest };
+    if (source !== undefined) {
+      layer.imageData = await resolveImage(source, `layers[${i}].source`, name);
+    }
+    const hasMaskFile = isRecord(mask) && mask.source !== undefined;
+    if (hasMaskFile) {
+      const { source: maskSource, ...maskRest } = mask;
+      const imageData = await resolveImage(maskSource, `layers[${i}].mask.source`, name);
+      if (imageData) layer.mask = { ...maskRest, imageData } as LayerMaskInput;
+    }
+
+    const interned = internLayerImages(assets, [layer]);
+    assets = interned.assets;
+    layers.push(hasMaskFile || mask === undefined ? interned.layers[0] : { ...interned.layers[0], mask });
+  }
+
+  const project: Record<string, unknown> = { ...manifest, assets, layers };
+  delete project.format;
+  return deserializeProjectData(project, issues);
+}
+
+/**
+ * Load a linked project from a zip archive
+ */
+export async function loadLinkedProjectZip(file: Blob): Promise<ProjectLoadResult> {
+  const entries = await readZip(await file.arrayBuffer());
+  return loadLinkedProject(new Map(entries.map((entry) => [entry.path, async () => entry.data])));
+}
+
+/**
+ * Load a linked project from the files of a folder picked with <input webkitdirectory>
+ */
+export async function loadLinkedProjectFolder(fileList: FileList): Promise<ProjectLoadResult> {
+  return loadLinkedProject(
+    new Map(
+      Array.from(fileList).map((file) => [
+        file.webkitRelativePath || file.name,
+        async () => new Uint8Array(await file.arrayBuffer()),
+      ])
+    )
+  );
+}
@@ -0,0 +1,113 @@
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { RGBAImage } from './colorPalette';
+import {
+  getSwatchImageColors,
+  parseAse,
+  parsePaletteFile,
+  writeAse,
+  writeGpl,
+  writeHex,
+  writePal,
+  writeSwatchPng,
+} from './paletteFiles';
+
+const COLORS = ['#000000', '#1D2B53', '#7E2553', '#008751', '#AB5236', '#FFF1E8', '#FF004D', '#FFFFFF'];
+
+/**
+ * Decode an unfiltered indexed-color PNG (as encodeIndexedPng writes it) to RGBA
+ */
+function decodeIndexedPng(file: Uint8Array): RGBAImage {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks = new Map<string, Uint8Array>();
+  for (let offset = 8; offset < file.length; ) {
+    const length = view.getUint32(offset);
+    chunks.set(String.fromCharCode(...file.subarray(offset + 4, offset + 8)), file.subarray(offset + 8, offset + 8 + length));
+    offset += 12 + length;
+  }
+
+  const header = chunks.get('IHDR')!;
+  const width = new DataView(header.buffer, header.byteOffset).getUint32(0);
+  const height = new DataView(header.buffer, header.byteOffset).getUint32(4);
+  const bitDepth = header[8];
+  expect(header[9]).toBe(3);
+
+  const palette = chunks.get('PLTE')!;
+  const scanlines = inflateSync(chunks.get('IDAT')!);
+  const rowBytes = Math.ceil((width * bitDepth) / 8);
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    expect(scanlines[y * (rowBytes + 1)]).toBe(0);
+    for (let x = 0; x < width; x++) {
+      const bit = x * bitDepth;
+      const byte = scanlines[y * (rowBytes + 1) + 1 + Math.floor(bit / 8)];
+      const index = (byte >> (8 - bitDepth - (bit % 8))) & ((1 << bitDepth) - 1);
+      data.set([...palette.subarray(index * 3, index * 3 + 3), 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+describe('palette file round trips', () => {
+  const encode = (text: string) => new TextEncoder().encode(text);
+
+  it('reads back a GIMP palette with its name', () => {
+    expect(parsePaletteFile('pico.gpl', encode(writeGpl(COLORS, 'PICO-8')))).toEqual({ name: 'PICO-8', colors: COLORS, errors: [] });
+  });
+
+  it('reads back a JASC palette', () => {
+    expect(parsePaletteFile('pico.pal', encode(writePal(COLORS)))).toEqual({ name: null, colors: COLORS, errors: [] });
+  });
+
+  it('reads back a Lospec hex palette', () => {
+    expect(parsePaletteFile('pico.hex', encode(writeHex(COLORS)))).toEqual({ name: null, colors: COLORS, errors: [] });
+  });
+
+  it('reads back an Adobe Swatch Exchange file with its name', () => {
+    expect(parsePaletteFile('pico.ase', writeAse(COLORS, 'PICO-8'))).toEqual({ name: 'PICO-8', colors: COLORS, errors: [] });
+  });
+
+  it('reads back a PNG swatch strip', () => {
+    const image = decodeIndexedPng(writeSwatchPng(COLORS));
+    expect(image.width).toBe(COLORS.length * image.height);
+    expect(getSwatchImageColors(image)).toEqual(COLORS);
+  });
+});
+
+describe('palette files from other tools', () => {
+  it('reads a GIMP palette with comments, unnamed rows and aligned columns', () => {
+    const file = [
+      'GIMP Palette',
+      'Name: Sweetie 16',
+      'Columns: 4',
+      '# https://lospec.com/palette-list/sweetie-16',
+      ' 26  28  44\tUntitled',
+      ' 93  39  93\tUntitled',
+      '177  62  83',
+      '',
+      '300   0   0\tToo bright',
+    ].join('\r\n');
+    expect(parsePaletteFile('sweetie-16.gpl', new TextEncoder().encode(`\uFEFF${file}`))).toEqual({
+      name: 'Sweetie 16',
+      colors: ['#1A1C2C', '#5D275D', '#B13E53'],
+      errors: ['Line 9: "300   0   0\tToo bright" is not an "R G B" row with values from 0 to 255'],
+    });
+  });
+
+  it('reads RGB, grayscale and CMYK swatches of an Adobe Swatch Exchange file', () => {
+    // Group "Web" with an RGB (global), a Gray, a CMYK (normal) and a Lab swatch
+    const hex =
+      '415345460001000000000006c0010000000a0004005700650062000000010000' +
+      '002000060042006c00610063006b000052474220000000000000000000000000' +
+      '000000010000001c000800470072006100790020003500300000477261793f00' +
+      '000000000001000000220005004300790061006e0000434d594b3f8000000000' +
+      '00000000000000000000000200010000001c00040053006b007900004c414220' +
+      '3f4ccccdc1200000c1f000000000c00200000000';
+    const data = new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+    expect(parseAse(data)).toEqual({
+      name: 'Web',
+      colors: ['#000000', '#808080', '#00FFFF'],
+      errors: ['Swatch "Sky": LAB colors are not supported'],
+    });
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * Palette files
+ * Palettes are lists of "#RRGGBB" colors, read and written in the formats common pixel-art and design tools use:
+ * GIMP .gpl, JASC .pal (Paint Shop Pro, Aseprite), Lospec .hex, Adobe .ase and a PNG swatch strip.
+ * Pure TypeScript, no DOM (swatch images are decoded by the caller).
+ */
+
+import { ALPHA_THRESHOLD, RGBAImage } from './colorPalette';
+import { encodeIndexedPng } from './pngEncoder';
+
+export type PaletteFormat = 'gpl' | 'pal' | 'hex' | 'ase' | 'png';
+
+export const PALETTE_FORMATS: { value: PaletteFormat; label: string; mimeType: string }[] = [
+  { value: 'gpl', label: 'GIMP (.gpl)', mimeType: 'text/plain' },
+  { value: 'pal', label: 'JASC (.pal)', mimeType: 'text/plain' },
+  { value: 'hex', label: 'Lospec (.hex)', mimeType: 'text/plain' },
+  { value: 'ase', label: 'Adobe (.ase)', mimeType: 'application/octet-stream' },
+  { value: 'png', label: 'PNG swatch strip', mimeType: 'image/png' },
+];
+
+// Size in pixels of each color square of the PNG strip
+const SWATCH_SIZE = 8;
+
+// The PNG strip is an indexed image, so it holds at most this many colors
+export const MAX_SWATCH_COLORS = 256;
+
+/**
+ * Red, green and blue of a "#RRGGBB" color
+ */
+function toRgb(color: string): [number, number, number] {
+  const value = parseInt(color.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * GIMP palette: header, then "R G B<tab>name" per color
+ */
+export function writeGpl(colors: string[], name: string): string {
+  const lines = ['GIMP Palette', `Name: ${name}`, `Columns: ${Math.min(colors.length, 16)}`, '#'];
+  for (const color of colors) {
+    const [r, g, b] = toRgb(color);
+    lines.push(`${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\t${color.toUpperCase()}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * JASC palette: header, version, count, then "R G B" per color (CRLF line endings)
+ */
+export function writePal(colors: string[]): string {
+  const lines = ['JASC-PAL', '0100', String(colors.length), ...colors.map((color) => toRgb(color).join(' '))];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Lospec hex palette: one "rrggbb" per line
+ */
+export function writeHex(colors: string[]): string {
+  return `${colors.map((color) => color.replace('#', '').toLowerCase()).join('\n')}\n`;
+}
+
+/**
+ * Adobe Swatch Exchange: a group named after the palette holding one RGB swatch per color
+ * Big-endian binary; names are UTF-16 with a length prefix (in characters, including the terminator).
+ */
+export function writeAse(colors: string[], name: string): Uint8Array {
+  const blocks: Uint8Array[] = [];
+
+  const encodeName = (text: string) => {
+    const data = new Uint8Array(2 + (text.length + 1) * 2);
+    const view = new DataView(data.buffer);
+    view.setUint16(0, text.length + 1);
+    for (let i = 0; i < text.length; i++) {
+      view.setUint16(2 + i * 2, text.charCodeAt(i));
+    }
+    return data;
+  };
+  const addBlock = (type: number, body: Uint8Array) => {
+    const block = new Uint8Array(6 + body.length);
+    const view = new DataView(block.buffer);
+    view.setUint16(0, type);
+    view.setUint32(2, body.length);
+    block.set(body, 6);
+    blocks.push(block);
+  };
+
+  addBlock(0xc001, encodeName(name)); // Group start
+  for (const color of colors) {
+    const swatchName = encodeName(color.toUpperCase());
+    const body = new Uint8Array(swatchName.length + 4 + 12 + 2);
+    const view = new DataView(body.buffer);
+    body.set(swatchName);
+    let offset = swatchName.length;
+    for (const char of 'RGB ') body[offset++] = char.charCodeAt(0);
+    for (const channel of toRgb(color)) {
+      view.setFloat32(offset, channel / 255);
+      offset += 4;
+    }
+    view.setUint16(offset, 2); // Normal (process) color
+    addBlock(0x0001, body);
+  }
+  addBlock(0xc002, new Uint8Array(0)); // Group end
+
+  const header = new Uint8Array(12);
+  const view = new DataView(header.buffer);
+  header.set([0x41, 0x53, 0x45, 0x46]); // "ASEF"
+  view.setUint16(4, 1); // Version 1.0
+  view.setUint16(6, 0);
+  view.setUint32(8, blocks.length);
+
+  const result = new Uint8Array(blocks.reduce((size, block) => size + block.length, header.length));
+  result.set(header);
+  let offset = header.length;
+  for (const block of blocks) {
+    result.set(block, offset);
+    offset += block.length;
+  }
+  return result;
+}
+
+/**
+ * PNG swatch strip: one SWATCH_SIZE square per color, left to right
+ */
+export function writeSwatchPng(colors: string[]): Uint8Array {
+  if (colors.length === 0 || colors.length > MAX_SWATCH_COLORS) {
+    throw new Error(`A swatch strip holds 1 to ${MAX_SWATCH_COLORS} colors`);
+  }
+
+  const width = colors.length * SWATCH_SIZE;
+  const data = new Uint8Array(width * SWATCH_SIZE * 4);
+  for (let y = 0; y < SWATCH_SIZE; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = toRgb(colors[Math.floor(x / SWATCH_SIZE)]);
+      data.set([r, g, b, 255], (y * width + x) * 4);
+    }
+  }
+  return encodeIndexedPng({ width, height: SWATCH_SIZE, data });
+}
+
+/**
+ * Palette file contents in a format, as a blob ready for download
+ */
+export function exportPaletteFile(colors: string[], format: PaletteFormat, name: string): Blob {
+  const { mimeType } = PALETTE_FORMATS.find((f) => f.value === format)!;
+  switch (format) {
+    case 'gpl':
+      return new Blob([writeGpl(colors, name)], { type: mimeType });
+    case 'pal':
+      return new Blob([writePal(colors)], { type: mimeType });
+    case 'hex':
+      return new Blob([writeHex(colors)], { type: mimeType });
+    case 'ase':
+      return new Blob([writeAse(colors, name) as BlobPart], { type: mimeType });
+    case 'png':
+      return new Blob([writeSwatchPng(colors) as BlobPart], { type: mimeType });
+  }
+}
+
+// Result of reading a palette: the colors that parsed, plus one message per entry that didn't
+export interface ParsedPalette {
+  name: string | null;
+  colors: string[];
+  errors: string[];
+}
+
+// Extensions accepted by parsePaletteFile (PNG swatch images go through getSwatchImageColors)
+export const PALETTE_FILE_EXTENSIONS = ['gpl', 'pal', 'hex', 'ase', 'txt'];
+
+/**
+ * "#RRGGBB" from red, green and blue
+ */
+function fromRgb(r: number, g: number, b: number): string {
+  return `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1).toUpperCase()}`;
+}
+
+/**
+ * Parse one color written as hex ("#FFFFFF", "FFFFFF", Paint.NET "FFFFFFFF" with alpha first)
+ * or as a decimal 24-bit integer ("16777215"); null when it's neither
+ * All-digit tokens like "112233" are read as decimal unless preferHex is set.
+ */
+function parseColorToken(token: string, preferHex: boolean): string | null {
+  const decimal = /^\d+$/.test(token) ? parseInt(token, 10) : NaN;
+  const fromDecimal = () => `#${decimal.toString(16).padStart(6, '0').toUpperCase()}`;
+  if (!preferHex && decimal <= 0xffffff) return fromDecimal();
+
+  const hex = /^#?([0-9a-f]{6})$/i.exec(token) ?? /^([0-9a-f]{2})([0-9a-f]{6})$/i.exec(token);
+  if (hex) return `#${hex[hex.length - 1].toUpperCase()}`;
+  return decimal <= 0xffffff ? fromDecimal() : null;
+}
+
+/**
+ * Parse a "R G B" row; null when it isn't three whole numbers from 0 to 255
+ */
+function parseRgbRow(line: string): string | null {
+  const match = /^(\d+)\s+(\d+)\s+(\d+)(\s|$)/.exec(line);
+  if (!match) return null;
+  const [r, g, b] = match.slice(1, 4).map(Number);
+  return r <= 255 && g <= 255 && b <= 255 ? fromRgb(r, g, b) : null;
+}
+
+/**
+ * Color list as typed or in Lospec .hex / Paint.NET .txt files: colors separated by commas,
+ * spaces or newlines; lines starting with ";" are comments
+ */
+export function parsePaletteText(text: string, preferHex: boolean = false): ParsedPalette {
+  const colors: string[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim().startsWith(';')) return;
+    for (const token of line.split(/[\s,]+/).filter((t) => t !== '')) {
+      const color = parseColorToken(token, preferHex);
+      if (color) {
+        colors.push(color);
+      } else {
+        errors.push(`Line ${index + 1}: "${token}" is not a color`);
+      }
+    }
+  });
+  return { name: null, colors, errors };
+}
+
+/**
+ * GIMP palette: "GIMP Palette" header, optional Name/Columns lines, "#" comments, then "R G B name" rows
+ */
+export function parseGpl(text: string): ParsedPalette {
+  const lines = text.split(/\r?\n/);
+  if (lines[0].trim() !== 'GIMP Palette') {
+    throw new Error('Not a GIMP palette (the first line must be "GIMP Palette")');
+  }
+
+  let name: string | null = null;
+  const colors: string[] = [];
+  const errors: string[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#') || trimmed.startsWith('Columns:')) return;
+    if (trimmed.startsWith('Name:')) {
+      name = trimmed.slice(5).trim() || null;
+      return;
+    }
+    const color = parseRgbRow(trimmed);
+    if (color) {
+      colors.push(color);
+    } else {
+      errors.push(`Line ${index + 2}: "${trimmed}" is not an "R G B" row with values from 0 to 255`);
+    }
+  });
+  return { name, colors, errors };
+}
+
+/**
+ * JASC palette: "JASC-PAL", version, color count, then "R G B" rows
+ */
+export function parsePal(text: string): ParsedPalette {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  if (lines[0] !== 'JASC-PAL') {
+    throw new Error('Not a JASC palette (the first line must be "JASC-PAL")');
+  }
+
+  const count = parseInt(lines[2], 10);
+  const colors: string[] = [];
+  const errors: string[] = [];
+  lines.slice(3).forEach((line, index) => {
+    if (line === '') return;
+    const color = parseRgbRow(line);
+    if (color) {
+      colors.push(color);
+    } else {
+      errors.push(`Line ${index + 4}: "${line}" is not an "R G B" row with values from 0 to 255`);
+    }
+  });
+  if (isNaN(count)) {
+    errors.unshift('Line 3: the color count is missing');
+  } else if (count !== colors.length + errors.length) {
+    errors.unshift(`The header lists ${count} colors but the file has ${colors.length + errors.length}`);
+  }
+  return { name: null, colors, errors };
+}
+
+/**
+ * Microsoft RIFF palette (also uses .pal): a "data" chunk with a count and R, G, B, flags per color
+ */
+function parseRiffPal(data: Uint8Array): ParsedPalette {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const chunkId = String.fromCharCode(...data.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    if (chunkId === 'data') {
+      if (offset + 12 > data.length) {
+        throw new Error('RIFF palette "data" chunk is cut off before its color count');
+      }
+      const count = view.getUint16(offset + 10, true);
+      const colors: string[] = [];
+      for (let i = 0; i < count && offset + 12 + i * 4 + 3 <= data.length; i++) {
+        const entry = offset + 12 + i * 4;
+        colors.push(fromRgb(data[entry], data[entry + 1], data[entry + 2]));
+      }
+      const errors = colors.length < count ? [`The file lists ${count} colors but holds ${colors.length}`] : [];
+      return { name: null, colors, errors };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error('RIFF palette without a "data" chunk');
+}
+
+/**
+ * Adobe Swatch Exchange: RGB, grayscale and CMYK swatches (Lab swatches are reported as errors)
+ * The first group's name becomes the palette name.
+ */
+export function parseAse(data: Uint8Array): ParsedPalette {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.length < 12 || String.fromCharCode(...data.subarray(0, 4)) !== 'ASEF') {
+    throw new Error('Not an Adobe Swatch Exchange file (missing "ASEF" signature)');
+  }
+
+  // Name at offset (length-prefixed UTF-16), or null when it doesn't fit before end
+  const readName = (offset: number, end: number) => {
+    if (offset + 2 > end) return null;
+    const length = view.getUint16(offset);
+    const size = 2 + length * 2;
+    if (offset + size > end) return null;
+    let text = '';
+    for (let i = 0; i < length - 1; i++) {
+      text += String.fromCharCode(view.getUint16(offset + 2 + i * 2));
+    }
+    return { text, size };
+  };
+
+  let name: string | null = null;
+  const colors: string[] = [];
+  const errors: string[] = [];
+  const blockCount = view.getUint32(8);
+  let offset = 12;
+  for (let block = 0; block < blockCount; block++) {
+    if (offset + 6 > data.length) {
+      errors.push(`The file ends after ${block} of ${blockCount} blocks`);
+      break;
+    }
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const body = offset + 6;
+    offset = body + length;
+    if (offset > data.length) {
+      errors.push(`Block ${block + 1} runs past the end of the file`);
+      break;
+    }
+
+    if (type === 0xc001 && name === null && length > 0) {
+      name = readName(body, offset)?.text || null;
+    } else if (type === 0x0001) {
+      const swatch = readName(body, offset);
+      if (!swatch) {
+        errors.push(`Block ${block + 1}: the swatch name runs past the end of the block`);
+        continue;
+      }
+      const modelOffset = body + swatch.size;
+      if (modelOffset + 4 > offset) {
+        errors.push(`Swatch "${swatch.text}": the color model is missing`);
+        continue;
+      }
+      const model = String.fromCharCode(...data.subarray(modelOffset, modelOffset + 4));
+      const channelCount = { 'RGB ': 3, Gray: 1, CMYK: 4 }[model];
+      if (channelCount === undefined) {
+        errors.push(`Swatch "${swatch.text}": ${model.trim()} colors are not supported`);
+        continue;
+      }
+      if (modelOffset + 4 + channelCount * 4 > offset) {
+        errors.push(`Swatch "${swatch.text}": the ${model.trim()} values are cut off`);
+        continue;
+      }
+      const values = Array.from({ length: channelCount }, (_, i) => view.getFloat32(modelOffset + 4 + i * 4));
+      if (values.some((value) => !Number.isFinite(value))) {
+        errors.push(`Swatch "${swatch.text}": the ${model.trim()} values are not numbers`);
+        continue;
+      }
+      const [a, b, c, d] = values.map((value) => Math.max(0, Math.min(1, value)));
+      const toByte = (value: number) => Math.round(value * 255);
+
+      if (model === 'RGB ') {
+        colors.push(fromRgb(toByte(a), toByte(b), toByte(c)));
+      } else if (model === 'Gray') {
+        colors.push(fromRgb(toByte(a), toByte(a), toByte(a)));
+      } else {
+        colors.push(fromRgb(toByte((1 - a) * (1 - d)), toByte((1 - b) * (1 - d)), toByte((1 - c) * (1 - d))));
+      }
+    }
+  }
+  return { name, colors, errors };
+}
+
+/**
+ * Read a palette file by extension (.gpl, .pal, .hex, .ase, .txt)
+ * Throws when the file isn't the format its extension says; skipped entries are listed in errors.
+ */
+export function parsePaletteFile(fileName: string, data: Uint8Array): ParsedPalette {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const text = () => new TextDecoder().decode(data).replace(/^\uFEFF/, '');
+
+  switch (extension) {
+    case 'gpl':
+      return parseGpl(text());
+    case 'pal':
+      return String.fromCharCode(...data.subarray(0, 4)) === 'RIFF' ? parseRiffPal(data) : parsePal(text());
+    case 'ase':
+      return parseAse(data);
+    case 'hex':
+    case 'txt':
+      return parsePaletteText(text(), true);
+    default:
+      throw new Error(`Unsupported palette file type ".${extension}"`);
+  }
+}
+
+/**
+ * Colors of a swatch image (such as a PNG strip), in reading order, each once
+ * Transparent pixels are skipped.
+ */
+export function getSwatchImageColors(image: RGBAImage): string[] {
+  const colors = new Set<string>();
+  for (let i = 0; i < image.data.length; i += 4) {
+    if (image.data[i + 3] < ALPHA_THRESHOLD) continue;
+    colors.add(fromRgb(image.data[i], image.data[i + 1], image.data[i + 2]));
+  }
+  return [...colors];
+}
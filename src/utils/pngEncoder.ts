@@ -0,0 +1,234 @@
+/**
+ * PNG, indexed-color PNG and animated PNG (APNG) encoder
+ * Pure TypeScript, no DOM: images are RGBA pixel buffers, compressed with zlibDeflate.
+ * Every frame is stored whole (no frame-difference optimization), so frames replace each other exactly.
+ */
+
+import { getExactPalette, getPixelRGBA, RGBAImage } from './colorPalette';
+import { zlibDeflate } from './deflate';
+import { AnimationFrameImage } from './gifEncoder';
+import { crc32 } from './zip';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const COLOR_TYPE_INDEXED = 3;
+const COLOR_TYPE_RGBA = 6;
+const MAX_PALETTE_SIZE = 256;
+
+export interface ApngOptions {
+  loopCount: number; // Times the animation plays, 0 = forever
+}
+
+/**
+ * A PNG chunk: length, type, data and CRC of type + data
+ */
+export function createPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Chunk data built from big-endian fields
+ */
+function packFields(fields: [value: number, bytes: 1 | 2 | 4][]): Uint8Array {
+  const data = new Uint8Array(fields.reduce((size, [, bytes]) => size + bytes, 0));
+  const view = new DataView(data.buffer);
+  let offset = 0;
+  for (const [value, bytes] of fields) {
+    if (bytes === 1) view.setUint8(offset, value);
+    else if (bytes === 2) view.setUint16(offset, value);
+    else view.setUint32(offset, value);
+    offset += bytes;
+  }
+  return data;
+}
+
+export function createIhdrChunk(width: number, height: number, bitDepth: number, colorType: number): Uint8Array {
+  return createPngChunk('IHDR', packFields([[width, 4], [height, 4], [bitDepth, 1], [colorType, 1], [0, 1], [0, 1], [0, 1]]));
+}
+
+/**
+ * Paeth predictor (PNG filter type 4)
+ */
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Filter scanlines for compression: each row gets the filter with the smallest sum of
+ * absolute differences (the usual PNG heuristic), preceded by its filter type byte
+ */
+export function filterScanlines(pixels: Uint8Array | Uint8ClampedArray, rowBytes: number, height: number, bytesPerPixel: number): Uint8Array {
+  const filtered = new Uint8Array((rowBytes + 1) * height);
+  const candidate = new Uint8Array(rowBytes);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    const above = row - rowBytes;
+    let bestFilter = 0;
+    let bestSum = Infinity;
+
+    for (let filter = 0; filter < 5; filter++) {
+      let sum = 0;
+      for (let x = 0; x < rowBytes; x++) {
+        const value = pixels[row + x];
+        const left = x >= bytesPerPixel ? pixels[row + x - bytesPerPixel] : 0;
+        const up = y > 0 ? pixels[above + x] : 0;
+        const upLeft = y > 0 && x >= bytesPerPixel ? pixels[above + x - bytesPerPixel] : 0;
+        const predicted =
+          filter === 0 ? 0 : filter === 1 ? left : filter === 2 ? up : filter === 3 ? (left + up) >> 1 : paeth(left, up, upLeft);
+        const byte = (value - predicted) & 0xff;
+        candidate[x] = byte;
+        sum += byte < 128 ? byte : 256 - byte;
+      }
+      if (sum < bestSum) {
+        bestSum = sum;
+        bestFilter = filter;
+        filtered.set(candidate, y * (rowBytes + 1) + 1);
+      }
+    }
+    filtered[y * (rowBytes + 1)] = bestFilter;
+  }
+  return filtered;
+}
+
+/**
+ * Concatenate byte arrays
+ */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Encode an image with 256 colors or fewer as an indexed-color PNG (PLTE, plus tRNS for transparency)
+ * The bit depth is the smallest that fits the palette (1, 2, 4 or 8 bits per pixel).
+ * Throws when the image has more colors; check with getExactPalette first.
+ */
+export function encodeIndexedPng(image: RGBAImage): Uint8Array {
+  const palette = getExactPalette(image, MAX_PALETTE_SIZE);
+  if (!palette) {
+    throw new Error(`Image has more than ${MAX_PALETTE_SIZE} colors`);
+  }
+
+  const { width, height, data } = image;
+  const bitDepth = palette.length <= 2 ? 1 : palette.length <= 4 ? 2 : palette.length <= 16 ? 4 : 8;
+  const pixelsPerByte = 8 / bitDepth;
+  const rowBytes = Math.ceil(width / pixelsPerByte);
+
+  // Pack palette indices into rows, most significant bits first
+  const indexOf = new Map(palette.map((color, index) => [color, index]));
+  const packed = new Uint8Array(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const index = indexOf.get(getPixelRGBA(data, i)) ?? 0;
+      const shift = 8 - bitDepth * ((x % pixelsPerByte) + 1);
+      packed[y * rowBytes + Math.floor(x / pixelsPerByte)] |= index << shift;
+    }
+  }
+
+  // Palette images compress best unfiltered (filter type 0 on every row)
+  const scanlines = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    scanlines.set(packed.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+  }
+
+  const plte = new Uint8Array(palette.length * 3);
+  palette.forEach((color, index) => {
+    plte[index * 3] = color >>> 24;
+    plte[index * 3 + 1] = (color >>> 16) & 0xff;
+    plte[index * 3 + 2] = (color >>> 8) & 0xff;
+  });
+  // Translucent colors come first, so tRNS can stop after the last of them
+  const translucent = palette.filter((color) => (color & 0xff) < 255).length;
+
+  return concatBytes([
+    new Uint8Array(PNG_SIGNATURE),
+    createIhdrChunk(width, height, bitDepth, COLOR_TYPE_INDEXED),
+    createPngChunk('PLTE', plte),
+    ...(translucent > 0 ? [createPngChunk('tRNS', new Uint8Array(palette.slice(0, translucent).map((color) => color & 0xff)))] : []),
+    createPngChunk('IDAT', zlibDeflate(scanlines)),
+    createPngChunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+/**
+ * Encode an image as a PNG without losing any pixel values
+ * Images with 256 colors or fewer are written indexed, others as 8-bit RGBA.
+ */
+export function encodePng(image: RGBAImage): Uint8Array {
+  if (getExactPalette(image, MAX_PALETTE_SIZE)) {
+    return encodeIndexedPng(image);
+  }
+
+  const { width, height, data } = image;
+  return concatBytes([
+    new Uint8Array(PNG_SIGNATURE),
+    createIhdrChunk(width, height, 8, COLOR_TYPE_RGBA),
+    createPngChunk('IDAT', zlibDeflate(filterScanlines(data, width * 4, height, 4))),
+    createPngChunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+/**
+ * Encode frames (all width x height) as an animated PNG
+ * The first frame is also the still image shown by viewers without APNG support.
+ */
+export function encodeApng(frames: AnimationFrameImage[], width: number, height: number, options: ApngOptions): Uint8Array {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+
+  const parts: Uint8Array[] = [
+    new Uint8Array(PNG_SIGNATURE),
+    createIhdrChunk(width, height, 8, COLOR_TYPE_RGBA),
+    createPngChunk('acTL', packFields([[frames.length, 4], [options.loopCount, 4]])),
+  ];
+
+  let sequence = 0;
+  frames.forEach((frame, index) => {
+    // Delay as a fraction of a second (milliseconds / 1000); each frame replaces the previous one
+    // (blend_op SOURCE), and is left in place until then (dispose_op NONE)
+    parts.push(
+      createPngChunk(
+        'fcTL',
+        packFields([
+          [sequence++, 4],
+          [width, 4],
+          [height, 4],
+          [0, 4],
+          [0, 4],
+          [Math.round(frame.delay), 2],
+          [1000, 2],
+          [0, 1],
+          [0, 1],
+        ])
+      )
+    );
+
+    const compressed = zlibDeflate(filterScanlines(frame.image.data, width * 4, height, 4));
+    if (index === 0) {
+      parts.push(createPngChunk('IDAT', compressed));
+    } else {
+      parts.push(createPngChunk('fdAT', concatBytes([packFields([[sequence++, 4]]), compressed])));
+    }
+  });
+
+  parts.push(createPngChunk('IEND', new Uint8Array(0)));
+  return concatBytes(parts);
+}
@@ -0,0 +1,62 @@
+/**
+ * Default project configuration
+ * Used for new projects and to fill in sections missing from damaged project files.
+ */
+
+import { ProjectData } from '../types/compositor.types';
+
+// Project file version written on save (older files are migrated to it on load, see projectSerializer)
+export const CURRENT_VERSION = '2.1.0';
+
+export const DEFAULT_PROJECT_DATA: ProjectData = {
+  version: CURRENT_VERSION,
+  projectName: 'Untitled',
+  created: new Date().toISOString(),
+  modified: new Date().toISOString(),
+  canvas: {
+    width: 3276,
+    height: 3276,
+    backgroundColor: null, // Transparent by default
+    borderColor: '#000000',
+    borderWidth: 0,
+    borderOpacity: 1,
+    borderEnabled: true,
+    shadowIntensity: 0.5,
+    showCheckeredBackground: false,
+    dragInfoEnabled: true,
+  },
+  viewport: {
+    zoom: 100,
+    panX: 0,
+    panY: 0,
+  },
+  grid: {
+    enabled: false,
+    density: 4,
+  },
+  rulers: {
+    enabled: false,
+    guides: [],
+  },
+  layers: [],
+  groups: [],
+  artboards: [],
+  slices: [],
+  animation: {
+    frames: [],
+    activeFrame: 0,
+    playbackMode: 'loop',
+    onionSkin: {
+      enabled: false,
+      before: 1,
+      after: 1,
+      opacity: 0.3,
+    },
+  },
+  assets: {},
+  metadata: {
+    author: '',
+    description: '',
+    tags: [],
+  },
+};
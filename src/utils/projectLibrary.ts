@@ -0,0 +1,180 @@
+/**
+ * Local project library stored in IndexedDB (the autosave database, see initDB)
+ * Each project is kept as its .pixcomp archive Blob, next to a small entry with what the
+ * library browser shows. A project's library id is its creation time, so saving the same
+ * project again updates its entry, and copies (which get a new creation time) get their own.
+ */
+
+import { ProjectData, ProjectLoadResult } from '../types/compositor.types';
+import { initDB, LIBRARY_DATA_STORE_NAME, LIBRARY_STORE_NAME } from './autoSave';
+import { renderProjectThumbnail } from './canvasRenderer';
+import { deserializeProjectFile, serializeProjectArchive } from './projectSerializer';
+
+const THUMBNAIL_SIZE = 128;
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  modified: string; // ISO 8601, from the project
+  tags: string[];
+  size: number; // Bytes of the stored .pixcomp archive
+  layerCount: number;
+  thumbnail: string; // PNG data URL
+}
+
+/**
+ * Resolve an IndexedDB request as a promise
+ */
+function runRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function getLibraryId(project: ProjectData): string {
+  return project.created;
+}
+
+/**
+ * Add or update a project in the library
+ * Pass the archive when it was already serialized (e.g. for a download) to avoid doing it twice.
+ */
+export async function saveToLibrary(project: ProjectData, archive?: Blob): Promise<LibraryEntry> {
+  const data = archive ?? (await serializeProjectArchive(project));
+  const entry: LibraryEntry = {
+    id: getLibraryId(project),
+    name: project.projectName,
+    modified: project.modified,
+    tags: project.metadata.tags,
+    size: data.size,
+    layerCount: project.layers.filter(
+      (l) => l.id !== '__text_canvas_preview__' && l.id !== '__shape_canvas_preview__'
+    ).length,
+    thumbnail: await renderProjectThumbnail(project, THUMBNAIL_SIZE),
+  };
+
+  const db = await initDB();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([LIBRARY_STORE_NAME, LIBRARY_DATA_STORE_NAME], 'readwrite');
+    transaction.objectStore(LIBRARY_STORE_NAME).put(entry, entry.id);
+    transaction.objectStore(LIBRARY_DATA_STORE_NAME).put(data, entry.id);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  return entry;
+}
+
+/**
+ * Every library entry, most recently modified first
+ */
+export async function listLibrary(): Promise<LibraryEntry[]> {
+  const db = await initDB();
+  const entries = await runRequest(
+    db.transaction(LIBRARY_STORE_NAME, 'readonly').objectStore(LIBRARY_STORE_NAME).getAll()
+  ) as LibraryEntry[];
+  return entries.sort((a, b) => b.modified.localeCompare(a.modified));
+}
+
+/**
+ * The stored .pixcomp archive of a library project, e.g. for download
+ */
+export async function exportFromLibrary(id: string): Promise<Blob> {
+  const db = await initDB();
+  const data = await runRequest(
+    db.transaction(LIBRARY_DATA_STORE_NAME, 'readonly').objectStore(LIBRARY_DATA_STORE_NAME).get(id)
+  ) as Blob | undefined;
+  if (!data) {
+    throw new Error('Project not found in the library');
+  }
+  return data;
+}
+
+export async function openFromLibrary(id: string): Promise<ProjectLoadResult> {
+  return deserializeProjectFile(await exportFromLibrary(id));
+}
+
+/**
+ * Rename or retag a library project (the stored project is rewritten)
+ */
+export async function updateLibraryProject(
+  id: string,
+  changes: { name?: string; tags?: string[] }
+): Promise<LibraryEntry> {
+  const { project } = await openFromLibrary(id);
+  return saveToLibrary({
+    ...project,
+    projectName: changes.name ?? project.projectName,
+    metadata: { ...project.metadata, tags: changes.tags ?? project.metadata.tags },
+    modified: new Date().toISOString(),
+  });
+}
+
+/**
+ * Store a copy of a library project under a new id
+ */
+export async function duplicateInLibrary(id: string): Promise<LibraryEntry> {
+  const { project } = await openFromLibrary(id);
+  const now = new Date().toISOString();
+  return saveToLibrary({ ...project, projectName: `${project.projectName} (copy)`, created: now, modified: now });
+}
+
+export async function deleteFromLibrary(id: string): Promise<void> {
+  const db = await initDB();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([LIBRARY_STORE_NAME, LIBRARY_DATA_STORE_NAME], 'readwrite');
+    transaction.objectStore(LIBRARY_STORE_NAME).delete(id);
+    transaction.objectStore(LIBRARY_DATA_STORE_NAME).delete(id);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Check whether the library already holds a project under an id
+ */
+async function hasLibraryEntry(id: string): Promise<boolean> {
+  const db = await initDB();
+  const count = await runRequest(
+    db.transaction(LIBRARY_STORE_NAME, 'readonly').objectStore(LIBRARY_STORE_NAME).count(id)
+  );
+  return count > 0;
+}
+
+/**
+ * Add a .pixcomp file to the library, returning the loaded project as well
+ * A file of a project that is already in the library (e.g. an older backup) is added as a
+ * separate entry with a new id, so it never replaces the library copy.
+ */
+export async function importToLibrary(file: Blob): Promise<ProjectLoadResult & { entry: LibraryEntry }> {
+  const result = await deserializeProjectFile(file);
+  const project = (await hasLibraryEntry(getLibraryId(result.project)))
+    ? { ...result.project, created: new Date().toISOString() }
+    : result.project;
+  return { ...result, project, entry: await saveToLibrary(project) };
+}
+
+/**
+ * Entries whose name or a tag contains the query (case-insensitive) and that have every selected tag
+ */
+export function filterLibrary(entries: LibraryEntry[], query: string, tags: string[]): LibraryEntry[] {
+  const needle = query.trim().toLowerCase();
+  return entries.filter(
+    (entry) =>
+      tags.every((tag) => entry.tags.includes(tag)) &&
+      (!needle ||
+        entry.name.toLowerCase().includes(needle) ||
+        entry.tags.some((tag) => tag.toLowerCase().includes(needle)))
+  );
+}
+
+/**
+ * Human-readable size, e.g. "840 KB"
+ */
+export function formatByteSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { deserializeProjectData } from './projectSerializer';
+import { CURRENT_VERSION, DEFAULT_PROJECT_DATA } from './projectDefaults';
+
+// Placeholders are drawn on a canvas, which the test environment does not have
+vi.mock('./imageProcessing', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./imageProcessing')>()),
+  createPlaceholderImage: (width: number, height: number) => `data:image/png;base64,placeholder${width}x${height}`,
+}));
+
+const LAYER_IMAGE = 'data:image/png;base64,bGF5ZXI=';
+const MASK_IMAGE = 'data:image/png;base64,bWFzaw==';
+const BROKEN_IMAGE = 'data:image/png;base64,broken';
+
+/**
+ * Stand-in for HTMLImageElement: every image decodes at 2x2 except BROKEN_IMAGE
+ */
+class TestImage {
+  naturalWidth = 0;
+  naturalHeight = 0;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  set src(value: string) {
+    setTimeout(() => {
+      if (value === BROKEN_IMAGE) {
+        this.onerror?.();
+      } else {
+        this.naturalWidth = 2;
+        this.naturalHeight = 2;
+        this.onload?.();
+      }
+    });
+  }
+}
+
+function makeLayer(id: string, fields: Record<string, unknown>): Record<string, unknown> {
+  return { id, name: id, x: 0, y: 0, zIndex: 0, visible: true, locked: false, opacity: 1, width: 2, height: 2, ...fields };
+}
+
+function makeProjectData(version: string, layers: Record<string, unknown>[], fields: Record<string, unknown> = {}) {
+  return {
+    version,
+    projectName: 'Test',
+    created: '2024-01-01T00:00:00.000Z',
+    modified: '2024-01-01T00:00:00.000Z',
+    canvas: { width: 16, height: 16 },
+    viewport: DEFAULT_PROJECT_DATA.viewport,
+    grid: DEFAULT_PROJECT_DATA.grid,
+    rulers: DEFAULT_PROJECT_DATA.rulers,
+    layers,
+    ...fields,
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('Image', TestImage);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('migrations', () => {
+  it('moves inline layer and mask images of a 1.0.0 file into the asset table', async () => {
+    const data = makeProjectData('1.0.0', [
+      makeLayer('a', { imageData: LAYER_IMAGE, mask: { enabled: true, inverted: false, imageData: MASK_IMAGE } }),
+      makeLayer('b', { imageData: LAYER_IMAGE }),
+    ]);
+    const { project, issues } = await deserializeProjectData(data);
+
+    expect(project.version).toBe(CURRENT_VERSION);
+    expect(issues.filter((issue) => issue.severity !== 'info')).toEqual([]);
+
+    const [a, b] = project.layers;
+    expect(a).not.toHaveProperty('imageData');
+    expect(a.assetId).toBe(b.assetId);
+    expect(project.assets[a.assetId]).toBe(LAYER_IMAGE);
+    expect(a.mask).toEqual({ enabled: true, inverted: false, assetId: expect.any(String) });
+    expect(project.assets[a.mask!.assetId]).toBe(MASK_IMAGE);
+    expect(Object.keys(project.assets)).toHaveLength(2);
+  });
+
+  it('moves inline masks of a 2.0.0 file into its existing asset table', async () => {
+    const data = makeProjectData(
+      '2.0.0',
+      [makeLayer('a', { assetId: 'layer_asset', mask: { enabled: false, inverted: true, imageData: MASK_IMAGE } })],
+      { assets: { layer_asset: LAYER_IMAGE } }
+    );
+    const { project } = await deserializeProjectData(data);
+
+    expect(project.version).toBe(CURRENT_VERSION);
+    const [a] = project.layers;
+    expect(a.assetId).toBe('layer_asset');
+    expect(a.mask).toEqual({ enabled: false, inverted: true, assetId: expect.any(String) });
+    expect(project.assets).toEqual({ layer_asset: LAYER_IMAGE, [a.mask!.assetId]: MASK_IMAGE });
+  });
+
+  it('rejects a newer major version', async () => {
+    await expect(deserializeProjectData(makeProjectData('3.0.0', []))).rejects.toThrow('not supported');
+  });
+});
+
+describe('layer image repair', () => {
+  it('replaces a missing layer image with a placeholder of the layer size', async () => {
+    const data = makeProjectData(CURRENT_VERSION, [makeLayer('a', { assetId: 'gone', width: 5, height: 3 })], { assets: {} });
+    const { project, issues } = await deserializeProjectData(data);
+
+    const [a] = project.layers;
+    expect(project.assets[a.assetId]).toBe('data:image/png;base64,placeholder5x3');
+    expect(issues).toContainEqual({
+      path: 'layers[0].assetId',
+      severity: 'error',
+      message: "Layer 'a' uses missing image 'gone'",
+      fix: 'Replaced with a placeholder; re-import the original image into this layer',
+    });
+  });
+
+  it('replaces an image that does not decode and removes a mask whose image is missing', async () => {
+    const data = makeProjectData(
+      CURRENT_VERSION,
+      [makeLayer('a', { assetId: 'broken', mask: { enabled: true, inverted: false, assetId: 'gone' } })],
+      { assets: { broken: BROKEN_IMAGE } }
+    );
+    const { project, issues } = await deserializeProjectData(data);
+
+    const [a] = project.layers;
+    expect(project.assets[a.assetId]).toBe('data:image/png;base64,placeholder2x2');
+    expect(a.mask).toBeUndefined();
+    // The undecodable image is no longer referenced
+    expect(project.assets).not.toHaveProperty('broken');
+    expect(issues.map((issue) => [issue.path, issue.severity, issue.message])).toEqual(
+      expect.arrayContaining([
+        ['layers[0].assetId', 'error', "Layer 'a' image could not be decoded"],
+        ['layers[0].mask', 'warning', "Mask of layer 'a' could not be decoded"],
+      ])
+    );
+  });
+});
@@ -1,162 +1,440 @@
 /**
  * Project serialization and deserialization utilities
- * Handles save/load operations for .pixcomp files
+ * Handles save/load operations for .pixcomp files:
+ *   version 2   zip archive: manifest.json plus raw image entries (assets/; masks/ before 2.1.0)
+ *   version 1.x pretty-printed JSON with base64 images (still written as legacy 1.0.0, and used by the autosave)
+ * Older versions are upgraded step by step through MIGRATIONS.
  */
 
-import { ProjectData } from '../types/compositor.types';
+import {
+  Artboard,
+  ImageAssets,
+  Layer,
+  LayerGroup,
+  LayerMaskInput,
+  ProjectArchiveManifest,
+  ProjectData,
+  ProjectLoadResult,
+  ValidationIssue,
+} from '../types/compositor.types';
+import { addAsset, getInlineMask, getLayerImage, getMaskImage, pruneAssets } from './assets';
+import { buildLayerTree, getLayerClipBases, isLayerVisible, releaseClip, removeFromGroup } from './layerGroups';
+import {
+  compositeArtboard,
+  compositeLayerTree,
+  compositeRegion,
+  getImagePixels,
+  imageDataToCanvas,
+  upscaleImageData,
+} from './canvasRenderer';
+import { getArtboardFileNames, getArtboardLayers, getUniqueFileNames } from './artboards';
+import { ExportRegion, getLayersExportBounds, getSliceArtboard } from './slices';
+import { getSyncedFrames } from './animation';
+import { encodeIndexedPng } from './pngEncoder';
+import { createPlaceholderImage, dataUrlToFile, imageFileToDataUrl } from './imageProcessing';
+import { addIssue, isRecord, validateProjectStructure } from './projectValidation';
+import { CURRENT_VERSION } from './projectDefaults';
+import { createZip, readZip, ZipEntry } from './zip';
 
-const CURRENT_VERSION = '1.0.0';
 const MIN_SUPPORTED_VERSION = '1.0.0';
+const LEGACY_VERSION = '1.0.0';
+
+// Size of the placeholder for a broken layer image whose size is unknown as well
+const PLACEHOLDER_SIZE = 64;
+
+const ARCHIVE_MANIFEST_FILENAME = 'manifest.json';
+const ARCHIVE_ASSET_DIRECTORY = 'assets';
 
 /**
- * Serialize project to JSON string
+ * Ordered migration chain: each step upgrades parsed project data to the next version
+ * Files run every step newer than their own version, so any supported version reaches CURRENT_VERSION.
  */
-export function serializeProject(project: ProjectData): string {
+const MIGRATIONS: { to: string; migrate: (data: Record<string, unknown>) => void }[] = [
+  // Layer pixels moved from layer.imageData into the shared project.assets table
+  { to: '1.1.0', migrate: migrateInlineImages },
+  // .pixcomp files became zip archives; the project data itself did not change
+  { to: '2.0.0', migrate: () => undefined },
+  // Mask pixels moved from layer.mask.imageData into project.assets as well
+  { to: '2.1.0', migrate: migrateInlineMasks },
+];
+
+/**
+ * Project as written to disk: preview layers removed, only referenced assets, current version
+ */
+function prepareProjectForSave(project: ProjectData): ProjectData {
   // Filter out temporary canvas preview layers before serializing
   const filteredLayers = project.layers.filter(
     layer => layer.id !== '__text_canvas_preview__' && layer.id !== '__shape_canvas_preview__'
   );
 
-  const serialized: ProjectData = {
+  return {
     ...project,
+    version: CURRENT_VERSION,
     layers: filteredLayers,
+    // The active frame's overrides are only brought up to date when leaving it
+    animation: { ...project.animation, frames: getSyncedFrames({ ...project, layers: filteredLayers }) },
+    // Each image is written once, however many layers use it
+    assets: pruneAssets(project.assets, filteredLayers),
     modified: new Date().toISOString(),
   };
+}
 
-  return JSON.stringify(serialized, null, 2);
+/**
+ * Serialize project to JSON string (images embedded as data URLs)
+ */
+export function serializeProject(project: ProjectData): string {
+  return JSON.stringify(prepareProjectForSave(project), null, 2);
 }
 
 /**
- * Deserialize project from JSON string
- * Validates version and required fields
+ * Serialize project as a version 1.0.0 JSON file, for older versions of the app
+ * Layer images are inlined again; properties added since are kept and ignored by 1.0.0 readers.
  */
-export async function deserializeProject(jsonString: string): Promise<ProjectData> {
-  try {
-    // console.log('[DEBUG] Parsing project JSON...');
-    const data = JSON.parse(jsonString);
+export function serializeProjectLegacy(project: ProjectData): string {
+  const saved = prepareProjectForSave(project);
+
+  const layers = saved.layers.map((layer) => {
+    const legacyLayer: Partial<Omit<Layer, 'mask'>> & { imageData: string; mask?: LayerMaskInput } = {
+      ...layer,
+      imageData: getLayerImage(saved.assets, layer),
+      mask: layer.mask && getInlineMask(saved.assets, layer.mask),
+    };
+    delete legacyLayer.assetId;
+    if (!legacyLayer.mask) delete legacyLayer.mask;
+    return legacyLayer;
+  });
 
-    // Validate version exists
-    if (!data.version) {
-      throw new Error('Invalid project file: missing version field');
-    }
+  const legacy: Omit<ProjectData, 'layers' | 'assets'> & { layers: typeof layers; assets?: ImageAssets } = {
+    ...saved,
+    version: LEGACY_VERSION,
+    layers,
+  };
+  delete legacy.assets;
 
-    // console.log(`[DEBUG] Project version: ${data.version}`);
+  return JSON.stringify(legacy, null, 2);
+}
 
-    // Check version compatibility
-    if (!isVersionCompatible(data.version)) {
-      throw new Error(
-        `Project version ${data.version} is not supported. ` +
-        `Current version: ${CURRENT_VERSION}, ` +
-        `minimum supported: ${MIN_SUPPORTED_VERSION}`
-      );
+/**
+ * Serialize project as a .pixcomp archive (version 2)
+ * Images are stored as raw files instead of base64: one entry per asset (layer image or mask).
+ */
+export async function serializeProjectArchive(project: ProjectData): Promise<Blob> {
+  const saved = prepareProjectForSave(project);
+  const images: ZipEntry[] = [];
+
+  const assets: Record<string, string> = {};
+  for (const [assetId, dataUrl] of Object.entries(saved.assets)) {
+    const image = await dataUrlToFile(dataUrl);
+    assets[assetId] = `${ARCHIVE_ASSET_DIRECTORY}/${assetId}.${image.extension}`;
+    images.push({ path: assets[assetId], data: image.data });
+  }
+
+  const manifest: ProjectArchiveManifest = { ...saved, format: 'archive', assets };
+  const json = new TextEncoder().encode(JSON.stringify(manifest));
+  return createZip([{ path: ARCHIVE_MANIFEST_FILENAME, data: json }, ...images]);
+}
+
+/**
+ * Load a project file: a .pixcomp archive (version 2) or JSON (version 1.x)
+ * The format is detected from the content, not the file name.
+ */
+export async function deserializeProjectFile(file: Blob): Promise<ProjectLoadResult> {
+  const buffer = await file.arrayBuffer();
+  const signature = new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength));
+  const isZip = signature.length === 4 && signature[0] === 0x50 && signature[1] === 0x4b && signature[2] === 3 && signature[3] === 4;
+
+  return isZip ? deserializeProjectArchive(buffer) : deserializeProject(new TextDecoder().decode(buffer));
+}
+
+/**
+ * Deserialize a .pixcomp archive: resolve image entries back into data URLs, then validate
+ * Missing image entries are reported; the validation then substitutes placeholders.
+ */
+export async function deserializeProjectArchive(buffer: ArrayBuffer): Promise<ProjectLoadResult> {
+  try {
+    const entries = new Map((await readZip(buffer)).map((entry) => [entry.path, entry.data]));
+
+    const manifestData = entries.get(ARCHIVE_MANIFEST_FILENAME);
+    if (!manifestData) {
+      throw new Error(`Invalid project file: ${ARCHIVE_MANIFEST_FILENAME} not found in archive`);
     }
 
-    // Filter out temporary canvas preview layers
-    if (data.layers) {
-      data.layers = data.layers.filter(
-        (layer: any) => layer.id !== '__text_canvas_preview__' && layer.id !== '__shape_canvas_preview__'
-      );
+    const manifest: unknown = JSON.parse(new TextDecoder().decode(manifestData));
+    if (!isRecord(manifest) || manifest.format !== 'archive') {
+      throw new Error(`Invalid project file: ${ARCHIVE_MANIFEST_FILENAME} is not a project archive manifest`);
     }
 
-    // Validate required fields
-    validateProjectData(data);
+    const issues: ValidationIssue[] = [];
+    const readImage = (path: unknown): Promise<string> | undefined => {
+      const data = typeof path === 'string' ? entries.get(path) : undefined;
+      return data && imageFileToDataUrl(data, path as string);
+    };
 
-    // console.log('[DEBUG] Project validation passed');
+    // An invalid table is passed on as-is for validation to report
+    let assets = manifest.assets;
+    if (isRecord(manifest.assets)) {
+      const images: Record<string, string> = {};
+      assets = images;
+      for (const [assetId, path] of Object.entries(manifest.assets)) {
+        const image = await readImage(path);
+        if (image) {
+          images[assetId] = image;
+        } else {
+          addIssue(issues, 'error', `assets.${assetId}`, `Image file '${String(path)}' is missing from the archive`, 'Layers using it get a placeholder');
+        }
+      }
+    }
 
-    // Validate and load all images
-    // console.log(`[DEBUG] Validating ${data.layers.length} image(s)...`);
-    await validateLayerImages(data.layers);
+    // Archives before 2.1.0 keep masks as separate entries, which the migration moves into the assets
+    // Layers and masks of the wrong shape are left for validation to report
+    if (Array.isArray(manifest.layers)) {
+      for (let i = 0; i < manifest.layers.length; i++) {
+        const layer: unknown = manifest.layers[i];
+        if (!isRecord(layer) || !isRecord(layer.mask) || layer.mask.source === undefined) continue;
+        const { source, ...mask } = layer.mask;
+        const imageData = await readImage(source);
+        if (imageData) {
+          layer.mask = { ...mask, imageData };
+        } else {
+          delete layer.mask;
+          addIssue(issues, 'warning', `layers[${i}].mask`, `Mask file '${String(source)}' is missing from the archive`, 'Removed the mask; the whole layer is visible');
+        }
+      }
+    }
 
-    // console.log('[DEBUG] All images validated successfully');
-    return data as ProjectData;
+    delete manifest.format;
+    return await deserializeProjectData({ ...manifest, assets }, issues);
   } catch (error) {
-    console.error('[DEBUG] Project deserialization failed:', error);
+    console.error('[DEBUG] Project archive deserialization failed:', error);
     throw error;
   }
 }
 
 /**
- * Check if project version is compatible with current version
+ * Deserialize project from JSON string
+ * Validates version and required fields
  */
-function isVersionCompatible(version: string): boolean {
-  const [major, minor] = version.split('.').map(Number);
-  const [minMajor, minMinor] = MIN_SUPPORTED_VERSION.split('.').map(Number);
+export async function deserializeProject(jsonString: string): Promise<ProjectLoadResult> {
+  try {
+    // console.log('[DEBUG] Parsing project JSON...');
+    return await deserializeProjectData(JSON.parse(jsonString));
+  } catch (error) {
+    console.error('[DEBUG] Project deserialization failed:', error);
+    throw error;
+  }
+}
 
-  // Allow same or newer version up to next major version
-  if (major > minMajor) {
-    return false; // Too new
+/**
+ * Validate parsed project data (from a .pixcomp file or a resolved linked project)
+ * and check that every image loads
+ * Only an unreadable file or an unsupported version is fatal; every other problem is repaired
+ * and returned as an issue, so all salvageable layers load. `issues` may already hold problems
+ * found while unpacking the file.
+ */
+export async function deserializeProjectData(data: unknown, issues: ValidationIssue[] = []): Promise<ProjectLoadResult> {
+  if (!isRecord(data)) {
+    throw new Error('Invalid project file: not a project');
   }
 
-  if (major < minMajor) {
-    return false; // Too old
+  // Validate version exists
+  if (!data.version) {
+    addIssue(issues, 'warning', 'version', 'Version is missing', `Read as version ${MIN_SUPPORTED_VERSION}`);
+    data.version = MIN_SUPPORTED_VERSION;
   }
 
-  // Same major version, check minor
-  return minor >= minMinor;
-}
+  // console.log(`[DEBUG] Project version: ${data.version}`);
 
-/**
- * Validate project data structure
- */
-function validateProjectData(data: any): void {
-  const requiredFields = ['version', 'canvas', 'layers', 'viewport', 'grid', 'rulers'];
+  // Check version compatibility
+  const version = data.version;
+  if (!isVersionCompatible(version)) {
+    throw new Error(
+      `Project version ${String(version)} is not supported. ` +
+      `Current version: ${CURRENT_VERSION}, ` +
+      `minimum supported: ${MIN_SUPPORTED_VERSION}`
+    );
+  }
 
-  for (const field of requiredFields) {
-    if (!(field in data)) {
-      throw new Error(`Invalid project file: missing required field '${field}'`);
-    }
+  // Filter out temporary canvas preview layers
+  const loadedLayers = data.layers;
+  if (Array.isArray(loadedLayers)) {
+    data.layers = loadedLayers.filter(
+      (layer: unknown) => !isRecord(layer) || (layer.id !== '__text_canvas_preview__' && layer.id !== '__shape_canvas_preview__')
+    );
   }
 
-  // Validate canvas config
-  if (typeof data.canvas.width !== 'number' || data.canvas.width <= 0) {
-    throw new Error('Invalid project file: canvas width must be a positive number');
+  // Upgrade older files step by step, then repair what is still broken
+  migrateProjectData(data, version);
+  const layerPaths = validateProjectStructure(data, issues);
+
+  // console.log('[DEBUG] Project validation passed');
+
+  // Validate and load all images (the validator leaves a list of layer objects and an image table)
+  const layers = Array.isArray(data.layers) ? data.layers.filter(isRecord) : [];
+  // console.log(`[DEBUG] Validating ${layers.length} image(s)...`);
+  data.assets = await repairLayerImages(layers, getImageTable(data.assets), layerPaths, issues);
+
+  // Every field has been validated or repaired by now
+  const project = data as unknown as ProjectData;
+  project.assets = pruneAssets(project.assets, project.layers);
+
+  if (issues.length > 0) {
+    console.warn(`[DEBUG] Project loaded with ${issues.length} issue(s):`, issues);
   }
+  return { project, issues };
+}
 
-  if (typeof data.canvas.height !== 'number' || data.canvas.height <= 0) {
-    throw new Error('Invalid project file: canvas height must be a positive number');
+/**
+ * Compare two 'major.minor.patch' version strings (negative if a is older than b)
+ */
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
   }
+  return 0;
+}
 
-  // Validate layers array
-  if (!Array.isArray(data.layers)) {
-    throw new Error('Invalid project file: layers must be an array');
+/**
+ * Check if project version is compatible with current version
+ * Older versions down to MIN_SUPPORTED_VERSION are migrated; newer minor versions of the
+ * current major load as-is, a newer major is rejected.
+ */
+function isVersionCompatible(version: unknown): version is string {
+  if (typeof version !== 'string' || !/^\d+\.\d+(\.\d+)?$/.test(version)) {
+    return false;
   }
 
-  // Validate each layer
-  for (let i = 0; i < data.layers.length; i++) {
-    const layer = data.layers[i];
+  const [major] = version.split('.').map(Number);
+  const [currentMajor] = CURRENT_VERSION.split('.').map(Number);
 
-    const requiredLayerFields = ['id', 'name', 'imageData', 'x', 'y', 'zIndex', 'visible', 'locked', 'width', 'height'];
+  return compareVersions(version, MIN_SUPPORTED_VERSION) >= 0 && major <= currentMajor;
+}
 
-    for (const field of requiredLayerFields) {
-      if (!(field in layer)) {
-        throw new Error(`Invalid layer ${i}: missing required field '${field}'`);
-      }
+/**
+ * Run every migration newer than the data's version (already checked by isVersionCompatible), in order
+ */
+function migrateProjectData(data: Record<string, unknown>, version: string): void {
+  for (const migration of MIGRATIONS) {
+    if (compareVersions(version, migration.to) < 0) {
+      // console.log(`[DEBUG] Migrating project from ${version} to ${migration.to}`);
+      migration.migrate(data);
+      version = migration.to;
+      data.version = version;
     }
+  }
+}
 
-    if (typeof layer.x !== 'number' || typeof layer.y !== 'number') {
-      throw new Error(`Invalid layer ${i}: x and y must be numbers`);
-    }
+/**
+ * The image entries (data URL strings) of a parsed asset table
+ */
+function getImageTable(value: unknown): ImageAssets {
+  if (!isRecord(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+}
 
-    if (!layer.imageData.startsWith('data:image/')) {
-      throw new Error(`Invalid layer ${i}: imageData must be a valid data URL`);
-    }
+/**
+ * 1.0.0 -> 1.1.0: move inline layer images into the asset table
+ * Entries that are not layers with an image are left for validation to report.
+ */
+function migrateInlineImages(data: Record<string, unknown>): void {
+  const layers: unknown = data.layers;
+  if (!Array.isArray(layers)) return;
+
+  // Only image entries can be shared; anything else in an existing table is kept for validation to report
+  const existing = isRecord(data.assets) ? data.assets : {};
+  let assets = getImageTable(existing);
+  data.layers = layers.map((layer: unknown) => {
+    if (!isRecord(layer) || typeof layer.imageData !== 'string') return layer;
+    const { imageData, ...rest } = layer;
+    const added = addAsset(assets, imageData);
+    assets = added.assets;
+    return { ...rest, assetId: added.assetId };
+  });
+  data.assets = { ...existing, ...assets };
+  // console.log(`[DEBUG] Migrated ${data.layers.length} layer image(s) into ${Object.keys(data.assets).length} asset(s)`);
+}
+
+/**
+ * 2.0.0 -> 2.1.0: move inline mask images into the asset table
+ * Masks that are not records with an image are left for validation to report.
+ */
+function migrateInlineMasks(data: Record<string, unknown>): void {
+  const layers: unknown = data.layers;
+  if (!Array.isArray(layers)) return;
+
+  const existing = isRecord(data.assets) ? data.assets : {};
+  let assets = getImageTable(existing);
+  for (const layer of layers) {
+    if (!isRecord(layer) || !isRecord(layer.mask) || typeof layer.mask.imageData !== 'string') continue;
+    const { imageData, ...mask } = layer.mask;
+    const added = addAsset(assets, imageData);
+    assets = added.assets;
+    layer.mask = { ...mask, assetId: added.assetId };
   }
+  data.assets = { ...existing, ...assets };
 }
 
 /**
- * Validate that all layer images can be loaded
+ * Decode every layer image (each shared asset once) and mask
+ * Layers whose image is missing or does not decode get a placeholder of their size;
+ * masks whose image is missing or does not decode are removed. Missing layer sizes are taken from the image.
  */
-async function validateLayerImages(layers: any[]): Promise<void> {
+async function repairLayerImages(
+  layers: Record<string, unknown>[],
+  assets: ImageAssets,
+  layerPaths: string[],
+  issues: ValidationIssue[]
+): Promise<ImageAssets> {
+  // Shared images are decoded once
+  const decoded = new Map<string, HTMLImageElement | null>();
+
   for (let i = 0; i < layers.length; i++) {
     const layer = layers[i];
+    const path = layerPaths[i];
 
-    try {
-      await loadImage(layer.imageData);
+    const assetId = typeof layer.assetId === 'string' ? layer.assetId : undefined;
+    const image = assetId !== undefined ? assets[assetId] : undefined;
+    if (assetId !== undefined && image !== undefined && !decoded.has(assetId)) {
+      decoded.set(assetId, await loadImage(image).catch(() => null));
+    }
+
+    const img = assetId !== undefined ? decoded.get(assetId) : undefined;
+    if (img) {
+      layer.width = layer.width ?? img.naturalWidth;
+      layer.height = layer.height ?? img.naturalHeight;
       // console.log(`[DEBUG] Layer ${i} image validated: ${layer.name}`);
-    } catch (error) {
-      throw new Error(`Failed to load image for layer ${i} (${layer.name}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } else {
+      const reason =
+        assetId === undefined ? 'has no image' : image === undefined ? `uses missing image '${assetId}'` : 'image could not be decoded';
+      const width = typeof layer.width === 'number' ? layer.width : PLACEHOLDER_SIZE;
+      const height = typeof layer.height === 'number' ? layer.height : PLACEHOLDER_SIZE;
+      const added = addAsset(assets, createPlaceholderImage(width, height));
+      assets = added.assets;
+      Object.assign(layer, { width, height, assetId: added.assetId });
+      addIssue(
+        issues,
+        'error',
+        `${path}.assetId`,
+        `Layer '${layer.name}' ${reason}`,
+        'Replaced with a placeholder; re-import the original image into this layer'
+      );
+    }
+
+    const mask = layer.mask;
+    if (isRecord(mask)) {
+      const maskImage = typeof mask.assetId === 'string' ? assets[mask.assetId] : undefined;
+      if (typeof mask.assetId === 'string' && maskImage !== undefined && !decoded.has(mask.assetId)) {
+        decoded.set(mask.assetId, await loadImage(maskImage).catch(() => null));
+      }
+      if (typeof mask.assetId !== 'string' || !decoded.get(mask.assetId)) {
+        delete layer.mask;
+        addIssue(issues, 'warning', `${path}.mask`, `Mask of layer '${layer.name}' could not be decoded`, 'Removed the mask; the whole layer is visible');
+      }
     }
   }
+  return assets;
 }
 
 /**
@@ -183,52 +461,90 @@ function loadImage(dataUrl: string): Promise<HTMLImageElement> {
   });
 }
 
+/**
+ * Load layer images (and masks) up front so layer trees can be composited synchronously
+ * Returns the compositor's layer source callback, at each layer's own position; layers
+ * whose image fails to load are left out.
+ */
+export async function loadLayerSources(
+  layers: Layer[],
+  assets: ImageAssets
+): Promise<(layer: Layer) => { image: HTMLImageElement; x: number; y: number; mask?: ImageData } | null> {
+  const images = new Map<string, HTMLImageElement>();
+  const masks = new Map<string, HTMLImageElement>();
+  for (const layer of layers) {
+    try {
+      images.set(layer.id, await loadImage(getLayerImage(assets, layer)));
+      if (layer.mask) {
+        masks.set(layer.id, await loadImage(getMaskImage(assets, layer.mask)));
+      }
+    } catch (error) {
+      console.warn(`Failed to export layer ${layer.name}:`, error);
+    }
+  }
+
+  return (layer: Layer) => {
+    const image = images.get(layer.id);
+    const mask = masks.get(layer.id);
+    return image ? { image, x: layer.x, y: layer.y, mask: mask && getImagePixels(mask) } : null;
+  };
+}
+
+/**
+ * Composite the canvas at 1:1 pixel scale, as exported
+ * Uses the same compositor as the canvas view (blend modes, opacity, group opacity).
+ * With an artboard, only that artboard is composited (its own size and background; width,
+ * height and backgroundColor are ignored) with the layers drawn in it.
+ */
+export async function compositeCanvas(
+  layers: Layer[],
+  width: number,
+  height: number,
+  backgroundColor: string | null = null,
+  groups: LayerGroup[] = [],
+  assets: ImageAssets = {},
+  artboard?: Artboard
+): Promise<ImageData> {
+  const exportedLayers: Layer[] = artboard ? getArtboardLayers(layers, artboard) : layers;
+  const getLayerSource = await loadLayerSources(exportedLayers.filter((l) => l.visible), assets);
+
+  return artboard
+    ? compositeArtboard(artboard, exportedLayers, groups, getLayerSource)
+    : compositeLayerTree(buildLayerTree(exportedLayers, groups), width, height, getLayerSource, backgroundColor);
+}
+
 /**
  * Export canvas to PNG blob at specified scale
+ * Composites like compositeCanvas, then upscales by pixel replication so every scale is an
+ * exact multiple of the 1x result.
  */
 export async function exportCanvasToPNG(
   layers: any[],
   width: number,
   height: number,
   scale: number = 1,
-  backgroundColor: string | null = null
+  backgroundColor: string | null = null,
+  groups: LayerGroup[] = [],
+  assets: ImageAssets = {},
+  artboard?: Artboard
 ): Promise<Blob> {
-  const exportCanvas = document.createElement('canvas');
-  exportCanvas.width = width * scale;
-  exportCanvas.height = height * scale;
-
-  const ctx = exportCanvas.getContext('2d');
-  if (!ctx) {
-    throw new Error('Failed to get canvas context');
-  }
-
-  // CRITICAL: Disable image smoothing
-  ctx.imageSmoothingEnabled = false;
-  (ctx as any).webkitImageSmoothingEnabled = false;
-  (ctx as any).mozImageSmoothingEnabled = false;
-
-  // Scale context
-  ctx.scale(scale, scale);
-
-  // Fill background if set
-  if (backgroundColor) {
-    ctx.fillStyle = backgroundColor;
-    ctx.fillRect(0, 0, width, height);
-  }
+  const composite = await compositeCanvas(layers, width, height, backgroundColor, groups, assets, artboard);
+  return imageDataToPNG(composite, scale);
+}
 
-  // Render visible layers sorted by z-index
-  const sortedLayers = [...layers]
-    .filter((layer) => layer.visible)
-    .sort((a, b) => a.zIndex - b.zIndex);
+/**
+ * Encode a composite with 256 colors or fewer as an indexed-color PNG blob (8-bit palette or less),
+ * upscaled by pixel replication; throws when it has more colors
+ */
+export function exportIndexedPNG(composite: ImageData, scale: number = 1): Blob {
+  return new Blob([encodeIndexedPng(upscaleImageData(composite, scale)) as BlobPart], { type: 'image/png' });
+}
 
-  for (const layer of sortedLayers) {
-    try {
-      const img = await loadImage(layer.imageData);
-      ctx.drawImage(img, layer.x, layer.y);
-    } catch (error) {
-      console.warn(`Failed to export layer ${layer.name}:`, error);
-    }
-  }
+/**
+ * Encode composited pixels as a PNG blob, upscaled by pixel replication
+ */
+function imageDataToPNG(composite: ImageData, scale: number): Promise<Blob> {
+  const exportCanvas = imageDataToCanvas(composite, scale);
 
   return new Promise((resolve) => {
     exportCanvas.toBlob((blob) => {
@@ -239,3 +555,122 @@ export async function exportCanvasToPNG(
     }, 'image/png');
   });
 }
+
+/**
+ * Export every artboard of a project in one go, as a zip with one PNG per artboard
+ * Files are named after the artboards (made unique).
+ */
+export async function exportArtboardsToZip(project: ProjectData, scale: number = 1): Promise<Blob> {
+  const fileNames = getArtboardFileNames(project.artboards);
+  const entries: ZipEntry[] = [];
+
+  for (const artboard of project.artboards) {
+    const blob = await exportCanvasToPNG(
+      project.layers,
+      artboard.width,
+      artboard.height,
+      scale,
+      artboard.backgroundColor,
+      project.groups,
+      project.assets,
+      artboard
+    );
+    entries.push({
+      path: `${fileNames.get(artboard.id)}.png`,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    });
+  }
+
+  return createZip(entries);
+}
+
+// Layer exports are cut to the layers' own bounds (outlines and shadows included) or to the whole canvas
+export type LayerExportCrop = 'bounds' | 'canvas';
+
+function getLayerExportRegion(project: ProjectData, layers: Layer[], crop: LayerExportCrop): ExportRegion | null {
+  if (crop === 'canvas') {
+    return { x: 0, y: 0, width: project.canvas.width, height: project.canvas.height };
+  }
+  return getLayersExportBounds(layers);
+}
+
+/**
+ * Export only the selected layers, composited together without the other layers or the background
+ * Clipping follows the whole layer tree: a layer clipped to a hidden base stays hidden, as on the
+ * canvas, and one whose base is not exported is drawn unclipped.
+ */
+export async function exportSelectedLayersToPNG(
+  project: ProjectData,
+  layerIds: string[],
+  crop: LayerExportCrop,
+  scale: number = 1
+): Promise<Blob> {
+  const clipBases = getLayerClipBases(project.layers, project.groups);
+  const layers: Layer[] = [];
+  for (const layer of project.layers) {
+    if (!layerIds.includes(layer.id) || !isLayerVisible(layer, project.groups)) continue;
+    const clipBase = clipBases.get(layer.id);
+    if (clipBase && !clipBase.visible) continue;
+    layers.push(layer.clipToBelow && !(clipBase && layerIds.includes(clipBase.id)) ? releaseClip(layer) : layer);
+  }
+  const region = getLayerExportRegion(project, layers, crop);
+  if (!region) {
+    throw new Error('No visible layers selected');
+  }
+
+  const getLayerSource = await loadLayerSources(layers, project.assets);
+  return imageDataToPNG(compositeRegion(region, layers, project.groups, getLayerSource), scale);
+}
+
+/**
+ * Export each visible layer as its own PNG, bottom to top, named after the layers (made unique)
+ * Every layer is drawn on its own, outside its group and clipping, without the background.
+ */
+export async function exportLayerFiles(project: ProjectData, crop: LayerExportCrop, scale: number = 1): Promise<ZipEntry[]> {
+  const layers = project.layers
+    .filter((layer) => isLayerVisible(layer, project.groups))
+    .sort((a, b) => a.zIndex - b.zIndex);
+  const fileNames = getUniqueFileNames(layers, 'layer');
+  const getLayerSource = await loadLayerSources(layers, project.assets);
+  const entries: ZipEntry[] = [];
+
+  for (const layer of layers) {
+    const single = releaseClip(removeFromGroup(layer));
+    const region = getLayerExportRegion(project, [single], crop);
+    if (!region) continue;
+
+    const blob = await imageDataToPNG(compositeRegion(region, [single], [], getLayerSource), scale);
+    entries.push({
+      path: `${fileNames.get(layer.id)}.png`,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Export each slice as its own PNG, named after the slices (made unique)
+ * A slice inside an artboard shows that artboard's layers over its background, as the artboard
+ * export would; other slices show the canvas with its background.
+ */
+export async function exportSliceFiles(project: ProjectData, scale: number = 1): Promise<ZipEntry[]> {
+  const fileNames = getUniqueFileNames(project.slices, 'slice');
+  const getLayerSource = await loadLayerSources(project.layers.filter((l) => l.visible), project.assets);
+  const entries: ZipEntry[] = [];
+
+  for (const slice of project.slices) {
+    const artboard = getSliceArtboard(slice, project.artboards);
+    const composite = artboard
+      ? compositeRegion(slice, getArtboardLayers(project.layers, artboard), project.groups, getLayerSource, artboard.backgroundColor)
+      : compositeRegion(slice, project.layers, project.groups, getLayerSource, project.canvas.backgroundColor);
+
+    const blob = await imageDataToPNG(composite, scale);
+    entries.push({
+      path: `${fileNames.get(slice.id)}.png`,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    });
+  }
+
+  return entries;
+}
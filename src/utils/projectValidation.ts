@@ -0,0 +1,647 @@
+/**
+ * Project data validation with repair
+ * Instead of rejecting a whole file for one bad field, every problem is recorded as a
+ * ValidationIssue (field path, severity, suggested fix) and repaired in place: missing
+ * sections get defaults, broken layer properties are reset, and unusable entries are dropped.
+ * Layer images are checked separately, after decoding (see repairLayerImages in projectSerializer).
+ */
+
+import { AnimationFrame, Artboard, CanvasConfig, Layer, ValidationIssue, ValidationSeverity } from '../types/compositor.types';
+import { isBlendMode } from './blendModes';
+import { isLayerEffect } from './layerEffects';
+import { isLayerScale, isLayerTransform } from './layerTransforms';
+import { DEFAULT_PROJECT_DATA } from './projectDefaults';
+import { fitWorkspaceToArtboards } from './artboards';
+import {
+  applyFrame,
+  DEFAULT_FRAME_DURATION,
+  MAX_FRAME_DURATION,
+  MAX_ONION_SKIN_FRAMES,
+  MIN_FRAME_DURATION,
+} from './animation';
+
+// Parsed JSON object of unknown shape; every field is narrowed before use
+type ParsedData = Record<string, unknown>;
+
+// Project sections that are filled in from the defaults when missing
+const SECTIONS = ['canvas', 'viewport', 'grid', 'rulers', 'metadata'] as const;
+
+// Section fields whose absence is worth a warning (the rest are harmless defaults)
+const IMPORTANT_FIELDS = new Set(['canvas.width', 'canvas.height']);
+
+/**
+ * Record a problem found while loading
+ */
+export function addIssue(
+  issues: ValidationIssue[],
+  severity: ValidationSeverity,
+  path: string,
+  message: string,
+  fix: string
+): void {
+  issues.push({ path, severity, message, fix });
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Short description of a value for messages
+ */
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'missing';
+  const json = JSON.stringify(value) ?? String(value);
+  return json.length > 40 ? `${json.slice(0, 37)}...` : json;
+}
+
+/**
+ * Validate and repair the structure of parsed project data (after migration)
+ * Everything except layer images is checked here; the data is modified in place.
+ * Returns the original field path of each remaining layer, for later issues.
+ */
+export function validateProjectStructure(data: ParsedData, issues: ValidationIssue[]): string[] {
+  if (typeof data.projectName !== 'string') {
+    addIssue(issues, 'info', 'projectName', 'Project name is missing', `Named the project '${DEFAULT_PROJECT_DATA.projectName}'`);
+    data.projectName = DEFAULT_PROJECT_DATA.projectName;
+  }
+
+  for (const field of ['created', 'modified'] as const) {
+    if (typeof data[field] !== 'string') {
+      addIssue(issues, 'info', field, `Timestamp '${field}' is missing`, 'Set to the current time');
+      data[field] = new Date().toISOString();
+    }
+  }
+
+  for (const section of SECTIONS) {
+    validateSection(data, section, issues);
+  }
+
+  validateAssets(data, issues);
+  const { layers, paths: layerPaths } = validateLayers(data, issues);
+  validateGroups(data, layers, layerPaths, issues);
+  validateArtboards(data, layers, layerPaths, issues);
+  validateSlices(data, issues);
+  validateAnimation(data, layers, issues);
+  return layerPaths;
+}
+
+/**
+ * Fill in a missing section, or missing/mistyped fields of a section, from the defaults
+ */
+function validateSection(data: ParsedData, section: (typeof SECTIONS)[number], issues: ValidationIssue[]): void {
+  const defaults: Record<string, unknown> = DEFAULT_PROJECT_DATA[section] as unknown as Record<string, unknown>;
+
+  const values = data[section];
+  if (!isRecord(values)) {
+    addIssue(
+      issues,
+      section === 'metadata' ? 'info' : 'warning',
+      section,
+      `${section} settings are ${values === undefined ? 'missing' : 'invalid'}`,
+      `Used the default ${section} settings`
+    );
+    data[section] = structuredClone(defaults);
+    return;
+  }
+
+  for (const [field, fallback] of Object.entries(defaults)) {
+    const value = values[field];
+    const valid =
+      field === 'backgroundColor'
+        ? value === null || typeof value === 'string'
+        : Array.isArray(fallback)
+          ? Array.isArray(value)
+          : typeof value === typeof fallback && (typeof value !== 'number' || Number.isFinite(value));
+
+    if (valid && !(section === 'canvas' && (field === 'width' || field === 'height') && typeof value === 'number' && value <= 0)) {
+      continue;
+    }
+
+    const path = `${section}.${field}`;
+    // Old files predate most optional settings, so a missing one only gets an info entry
+    const severity = IMPORTANT_FIELDS.has(path) || value !== undefined ? 'warning' : 'info';
+    addIssue(issues, severity, path, `Value is ${describeValue(value)}`, `Set to the default ${describeValue(fallback)}`);
+    values[field] = structuredClone(fallback);
+  }
+
+  // The guide list is an array by now (repaired above)
+  const allGuides = values.guides;
+  if (section === 'rulers' && Array.isArray(allGuides)) {
+    const guides = allGuides.filter(
+      (guide: unknown) =>
+        isRecord(guide) && (guide.axis === 'x' || guide.axis === 'y') && isFiniteNumber(guide.position) && typeof guide.id === 'string'
+    );
+    if (guides.length !== allGuides.length) {
+      addIssue(
+        issues,
+        'warning',
+        'rulers.guides',
+        `${allGuides.length - guides.length} guide(s) are invalid`,
+        'Removed the invalid guides'
+      );
+      values.guides = guides;
+    }
+  }
+}
+
+/**
+ * The asset table must map ids to image data URLs; broken entries are removed
+ * (layers using them get a placeholder image later)
+ */
+function validateAssets(data: ParsedData, issues: ValidationIssue[]): void {
+  const assets = data.assets;
+  if (!isRecord(assets)) {
+    addIssue(
+      issues,
+      'error',
+      'assets',
+      `Image table is ${assets === undefined ? 'missing' : 'invalid'}`,
+      'Layers without images get a placeholder; re-import the original images'
+    );
+    data.assets = {};
+    return;
+  }
+
+  for (const [assetId, image] of Object.entries(assets)) {
+    if (typeof image !== 'string' || !image.startsWith('data:image/')) {
+      addIssue(
+        issues,
+        'error',
+        `assets.${assetId}`,
+        'Image is not a valid image data URL',
+        'Removed it; layers using it get a placeholder'
+      );
+      delete assets[assetId];
+    }
+  }
+}
+
+/**
+ * Validate every layer, dropping entries that are not layers and repairing the rest
+ * Returns the remaining layers with the original field path of each.
+ */
+function validateLayers(data: ParsedData, issues: ValidationIssue[]): { layers: ParsedData[]; paths: string[] } {
+  const entries = data.layers;
+  if (!Array.isArray(entries)) {
+    addIssue(
+      issues,
+      'error',
+      'layers',
+      `Layer list is ${entries === undefined ? 'missing' : 'not an array'}`,
+      'Loaded the project without layers'
+    );
+    data.layers = [];
+    return { layers: [], paths: [] };
+  }
+
+  const ids = new Set<string>();
+  const layers: ParsedData[] = [];
+  const paths: string[] = [];
+
+  for (let i = 0; i < entries.length; i++) {
+    const layer: unknown = entries[i];
+    const path = `layers[${i}]`;
+
+    if (!isRecord(layer)) {
+      addIssue(issues, 'error', path, 'Layer entry is not an object', 'Removed the entry');
+      continue;
+    }
+
+    validateLayer(layer, path, i, ids, issues);
+    ids.add(layer.id as string);
+    layers.push(layer);
+    paths.push(path);
+  }
+
+  data.layers = layers;
+  return { layers, paths };
+}
+
+/**
+ * Repair the properties of one layer in place
+ */
+function validateLayer(layer: ParsedData, path: string, index: number, ids: Set<string>, issues: ValidationIssue[]): void {
+  if (typeof layer.name !== 'string') {
+    const name = `Layer ${index + 1}`;
+    addIssue(issues, 'warning', `${path}.name`, `Name is ${describeValue(layer.name)}`, `Renamed to '${name}'`);
+    layer.name = name;
+  }
+  const label = `'${layer.name}'`;
+
+  if (typeof layer.id !== 'string' || layer.id === '' || ids.has(layer.id)) {
+    const reason = typeof layer.id === 'string' && layer.id !== '' ? `Id '${layer.id}' is used by another layer` : 'Id is missing';
+    layer.id = `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    addIssue(issues, 'warning', `${path}.id`, `${reason} (layer ${label})`, 'Assigned a new id');
+  }
+
+  for (const field of ['x', 'y'] as const) {
+    if (!isFiniteNumber(layer[field])) {
+      addIssue(issues, 'warning', `${path}.${field}`, `Position is ${describeValue(layer[field])} (layer ${label})`, 'Set to 0; move the layer back into place');
+      layer[field] = 0;
+    }
+  }
+
+  if (!isFiniteNumber(layer.zIndex)) {
+    addIssue(issues, 'warning', `${path}.zIndex`, `Stacking order is ${describeValue(layer.zIndex)} (layer ${label})`, 'Placed by its position in the layer list');
+    layer.zIndex = index;
+  }
+
+  if (typeof layer.visible !== 'boolean') {
+    addIssue(issues, 'info', `${path}.visible`, `Visibility is ${describeValue(layer.visible)} (layer ${label})`, 'Made the layer visible');
+    layer.visible = true;
+  }
+
+  if (typeof layer.locked !== 'boolean') {
+    addIssue(issues, 'info', `${path}.locked`, `Lock flag is ${describeValue(layer.locked)} (layer ${label})`, 'Unlocked the layer');
+    layer.locked = false;
+  }
+
+  if (typeof layer.opacity !== 'number' || !(layer.opacity >= 0 && layer.opacity <= 1)) {
+    addIssue(issues, layer.opacity === undefined ? 'info' : 'warning', `${path}.opacity`, `Opacity is ${describeValue(layer.opacity)} (layer ${label})`, 'Set to 100%');
+    layer.opacity = 1.0;
+  }
+
+  // Invalid sizes are taken from the decoded image later
+  for (const field of ['width', 'height'] as const) {
+    const size = layer[field];
+    if (!(isFiniteNumber(size) && size > 0)) {
+      addIssue(issues, 'warning', `${path}.${field}`, `Size is ${describeValue(layer[field])} (layer ${label})`, 'Taken from the image size');
+      delete layer[field];
+    }
+  }
+
+  // Inline images left over from migration could not be moved into the asset table
+  if (layer.imageData !== undefined) {
+    delete layer.imageData;
+  }
+
+  if (layer.blendMode !== undefined && !isBlendMode(layer.blendMode)) {
+    addIssue(issues, 'warning', `${path}.blendMode`, `Unknown blend mode ${describeValue(layer.blendMode)} (layer ${label})`, 'Using normal blending');
+    delete layer.blendMode;
+  }
+
+  if (layer.effects !== undefined) {
+    if (!Array.isArray(layer.effects)) {
+      addIssue(issues, 'warning', `${path}.effects`, `Effects are not a list (layer ${label})`, 'Removed the effects');
+      delete layer.effects;
+    } else {
+      const validEffects = layer.effects.filter(isLayerEffect);
+      if (validEffects.length !== layer.effects.length) {
+        addIssue(
+          issues,
+          'warning',
+          `${path}.effects`,
+          `${layer.effects.length - validEffects.length} unknown or damaged effect(s) (layer ${label})`,
+          'Removed those effects'
+        );
+      }
+      layer.effects = validEffects;
+    }
+  }
+
+  if (layer.clipToBelow !== undefined && typeof layer.clipToBelow !== 'boolean') {
+    addIssue(issues, 'warning', `${path}.clipToBelow`, `Invalid clipping flag (layer ${label})`, 'Layer is no longer clipped');
+    delete layer.clipToBelow;
+  }
+
+  if (layer.transform !== undefined && !isLayerTransform(layer.transform)) {
+    addIssue(issues, 'warning', `${path}.transform`, `Invalid flip/rotation (layer ${label})`, 'Reset to no flip or rotation');
+    delete layer.transform;
+  }
+
+  for (const key of ['scaleX', 'scaleY'] as const) {
+    if (layer[key] !== undefined && !isLayerScale(layer[key])) {
+      addIssue(issues, 'warning', `${path}.${key}`, `Invalid scale ${describeValue(layer[key])} (layer ${label})`, 'Reset to 1×');
+      delete layer[key];
+    }
+  }
+
+  if (layer.mask !== undefined) {
+    const mask = layer.mask;
+    if (!isRecord(mask) || typeof mask.assetId !== 'string') {
+      addIssue(issues, 'warning', `${path}.mask`, `Mask image is invalid (layer ${label})`, 'Removed the mask; the whole layer is visible');
+      delete layer.mask;
+    } else {
+      mask.enabled = mask.enabled !== false;
+      mask.inverted = mask.inverted === true;
+    }
+  }
+}
+
+/**
+ * Validate layer groups and drop references to groups that do not exist
+ * Files saved before layer groups existed have no groups array.
+ */
+function validateGroups(data: ParsedData, layers: ParsedData[], layerPaths: string[], issues: ValidationIssue[]): void {
+  const entries = data.groups ?? [];
+  if (!Array.isArray(entries)) {
+    addIssue(issues, 'warning', 'groups', 'Group list is not an array', 'Removed all groups; layers moved to the top level');
+  }
+
+  const list: unknown[] = Array.isArray(entries) ? entries : [];
+  const groups: ParsedData[] = [];
+  const groupPaths: string[] = [];
+  for (let i = 0; i < list.length; i++) {
+    const group = list[i];
+    const path = `groups[${i}]`;
+
+    if (!isRecord(group) || typeof group.id !== 'string') {
+      addIssue(issues, 'warning', path, 'Group entry has no id', 'Removed the group; its layers moved to the top level');
+      continue;
+    }
+
+    if (typeof group.name !== 'string') {
+      addIssue(issues, 'info', `${path}.name`, 'Group name is missing', `Renamed to 'Group ${i + 1}'`);
+      group.name = `Group ${i + 1}`;
+    }
+
+    group.visible = group.visible !== false;
+    group.locked = group.locked === true;
+    group.parentId = group.parentId ?? null;
+    group.opacity = typeof group.opacity === 'number' ? group.opacity : 1.0;
+    group.collapsed = group.collapsed === true;
+    groups.push(group);
+    groupPaths.push(path);
+  }
+  data.groups = groups;
+
+  const groupIds = new Set(groups.map((g) => g.id));
+
+  groups.forEach((group, i) => {
+    if (group.parentId !== null && !groupIds.has(group.parentId)) {
+      addIssue(
+        issues,
+        'warning',
+        `${groupPaths[i]}.parentId`,
+        `Group '${group.name}' is inside missing group ${describeValue(group.parentId)}`,
+        'Moved the group to the top level'
+      );
+      group.parentId = null;
+    }
+  });
+
+  layers.forEach((layer, i) => {
+    if (layer.groupId !== undefined && !groupIds.has(layer.groupId)) {
+      addIssue(
+        issues,
+        'warning',
+        `${layerPaths[i]}.groupId`,
+        `Layer '${layer.name}' is in missing group ${describeValue(layer.groupId)}`,
+        'Moved the layer to the top level'
+      );
+      delete layer.groupId;
+    }
+  });
+}
+
+/**
+ * Validate slices, dropping entries without an id or a usable size
+ * Files saved before slices existed have no slices array.
+ */
+function validateSlices(data: ParsedData, issues: ValidationIssue[]): void {
+  const entries = data.slices ?? [];
+  if (!Array.isArray(entries)) {
+    addIssue(issues, 'warning', 'slices', 'Slice list is not an array', 'Removed all slices');
+  }
+
+  const list: unknown[] = Array.isArray(entries) ? entries : [];
+  const slices: ParsedData[] = [];
+  for (let i = 0; i < list.length; i++) {
+    const slice = list[i];
+    const path = `slices[${i}]`;
+
+    if (!isRecord(slice) || typeof slice.id !== 'string') {
+      addIssue(issues, 'warning', path, 'Slice entry has no id', 'Removed the slice');
+      continue;
+    }
+
+    const hasSize = ['width', 'height'].every((key) => {
+      const size = slice[key];
+      return isFiniteNumber(size) && size >= 1;
+    });
+    if (!hasSize) {
+      addIssue(
+        issues,
+        'warning',
+        path,
+        `Slice size ${describeValue(slice.width)}x${describeValue(slice.height)} is invalid`,
+        'Removed the slice'
+      );
+      continue;
+    }
+
+    if (typeof slice.name !== 'string') {
+      addIssue(issues, 'info', `${path}.name`, 'Slice name is missing', `Renamed to 'Slice ${i + 1}'`);
+      slice.name = `Slice ${i + 1}`;
+    }
+
+    // Slices may reach past the canvas, so any finite position is fine
+    for (const key of ['x', 'y'] as const) {
+      if (!isFiniteNumber(slice[key])) {
+        addIssue(issues, 'warning', `${path}.${key}`, `Position ${describeValue(slice[key])} is invalid`, 'Moved to 0');
+        slice[key] = 0;
+      }
+    }
+    slices.push(slice);
+  }
+  data.slices = slices;
+}
+
+/**
+ * Validate artboards and drop layer references to artboards that do not exist
+ * Files saved before artboards existed have no artboards array.
+ */
+function validateArtboards(data: ParsedData, layers: ParsedData[], layerPaths: string[], issues: ValidationIssue[]): void {
+  const entries = data.artboards ?? [];
+  if (!Array.isArray(entries)) {
+    addIssue(issues, 'warning', 'artboards', 'Artboard list is not an array', 'Removed all artboards; the canvas is exported as one image');
+  }
+
+  const list: unknown[] = Array.isArray(entries) ? entries : [];
+  const artboards: ParsedData[] = [];
+  for (let i = 0; i < list.length; i++) {
+    const artboard = list[i];
+    const path = `artboards[${i}]`;
+
+    if (!isRecord(artboard) || typeof artboard.id !== 'string') {
+      addIssue(issues, 'warning', path, 'Artboard entry has no id', 'Removed the artboard');
+      continue;
+    }
+
+    const hasSize = ['width', 'height'].every((key) => {
+      const size = artboard[key];
+      return isFiniteNumber(size) && size >= 1;
+    });
+    if (!hasSize) {
+      addIssue(
+        issues,
+        'warning',
+        path,
+        `Artboard size ${describeValue(artboard.width)}x${describeValue(artboard.height)} is invalid`,
+        'Removed the artboard'
+      );
+      continue;
+    }
+
+    if (typeof artboard.name !== 'string') {
+      addIssue(issues, 'info', `${path}.name`, 'Artboard name is missing', `Renamed to 'Artboard ${i + 1}'`);
+      artboard.name = `Artboard ${i + 1}`;
+    }
+
+    for (const key of ['x', 'y'] as const) {
+      const position = artboard[key];
+      if (!isFiniteNumber(position) || position < 0) {
+        addIssue(issues, 'warning', `${path}.${key}`, `Position ${describeValue(artboard[key])} is invalid`, 'Moved to 0');
+        artboard[key] = 0;
+      }
+    }
+
+    if (artboard.backgroundColor !== null && typeof artboard.backgroundColor !== 'string') {
+      artboard.backgroundColor = null;
+    }
+    artboards.push(artboard);
+  }
+  data.artboards = artboards;
+  // The workspace must contain every artboard (canvas and artboards are both repaired by now)
+  data.canvas = fitWorkspaceToArtboards(data.canvas as CanvasConfig, artboards as unknown as Artboard[]);
+
+  const artboardIds = new Set(artboards.map((a) => a.id));
+
+  layers.forEach((layer, i) => {
+    const layerArtboardIds = layer.artboardIds;
+    if (layerArtboardIds === undefined) return;
+
+    if (!Array.isArray(layerArtboardIds)) {
+      addIssue(issues, 'warning', `${layerPaths[i]}.artboardIds`, `Artboard list of layer '${layer.name}' is invalid`, 'Layer is drawn in every artboard it overlaps');
+      delete layer.artboardIds;
+      return;
+    }
+
+    const kept = layerArtboardIds.filter((id: unknown) => typeof id === 'string' && artboardIds.has(id));
+    if (kept.length < layerArtboardIds.length) {
+      addIssue(
+        issues,
+        'warning',
+        `${layerPaths[i]}.artboardIds`,
+        `Layer '${layer.name}' is in ${layerArtboardIds.length - kept.length} missing artboard(s)`,
+        kept.length > 0 ? 'Removed the missing artboards from the layer' : 'Layer is drawn in every artboard it overlaps'
+      );
+    }
+    if (kept.length > 0) {
+      layer.artboardIds = kept;
+    } else {
+      delete layer.artboardIds;
+    }
+  });
+}
+
+/**
+ * Validate animation frames and playback settings
+ * Files saved before animation existed have no animation section (a still image).
+ * Overrides of layers that do not exist are dropped.
+ */
+function validateAnimation(data: ParsedData, layers: ParsedData[], issues: ValidationIssue[]): void {
+  const defaults = DEFAULT_PROJECT_DATA.animation;
+  const animation = data.animation;
+  if (animation === undefined) {
+    data.animation = structuredClone(defaults);
+    return;
+  }
+
+  if (!isRecord(animation)) {
+    addIssue(issues, 'warning', 'animation', 'Animation settings are invalid', 'Removed all frames; the project is a still image');
+    data.animation = structuredClone(defaults);
+    return;
+  }
+
+  const entries = animation.frames;
+  if (!Array.isArray(entries)) {
+    addIssue(issues, 'warning', 'animation.frames', 'Frame list is not an array', 'Removed all frames; the project is a still image');
+  }
+
+  const list: unknown[] = Array.isArray(entries) ? entries : [];
+  const layerIds = new Set(layers.map((layer) => layer.id));
+  const frames: ParsedData[] = [];
+  for (let i = 0; i < list.length; i++) {
+    const frame = list[i];
+    const path = `animation.frames[${i}]`;
+
+    if (!isRecord(frame) || typeof frame.id !== 'string') {
+      addIssue(issues, 'warning', path, 'Frame entry has no id', 'Removed the frame');
+      continue;
+    }
+
+    if (!isFiniteNumber(frame.duration) || frame.duration < MIN_FRAME_DURATION || frame.duration > MAX_FRAME_DURATION) {
+      const duration = isFiniteNumber(frame.duration)
+        ? Math.min(Math.max(Math.round(frame.duration), MIN_FRAME_DURATION), MAX_FRAME_DURATION)
+        : DEFAULT_FRAME_DURATION;
+      addIssue(issues, 'warning', `${path}.duration`, `Duration ${describeValue(frame.duration)} is invalid`, `Set to ${duration} ms`);
+      frame.duration = duration;
+    }
+
+    if (!isRecord(frame.layers)) {
+      addIssue(issues, 'warning', `${path}.layers`, 'Layer overrides are invalid', 'Layers are shown as in the active frame');
+    }
+    const overrides: ParsedData = isRecord(frame.layers) ? frame.layers : {};
+    frame.layers = overrides;
+
+    let missingLayers = 0;
+    for (const [layerId, override] of Object.entries(overrides)) {
+      if (!layerIds.has(layerId)) {
+        missingLayers++;
+        delete overrides[layerId];
+      } else if (
+        !isRecord(override) ||
+        typeof override.visible !== 'boolean' ||
+        !isFiniteNumber(override.x) ||
+        !isFiniteNumber(override.y)
+      ) {
+        addIssue(issues, 'warning', `${path}.layers.${layerId}`, 'Layer override is invalid', 'Layer is shown as in the active frame');
+        delete overrides[layerId];
+      }
+    }
+    if (missingLayers > 0) {
+      addIssue(issues, 'info', `${path}.layers`, `${missingLayers} override(s) refer to layers that do not exist`, 'Removed the overrides');
+    }
+    frames.push(frame);
+  }
+  animation.frames = frames;
+
+  const activeFrame = animation.activeFrame;
+  if (!isFiniteNumber(activeFrame) || !Number.isInteger(activeFrame) || activeFrame < 0 || activeFrame >= Math.max(frames.length, 1)) {
+    if (frames.length > 0) {
+      addIssue(issues, 'warning', 'animation.activeFrame', `Active frame ${describeValue(activeFrame)} is invalid`, 'Showing frame 1');
+      // The layers hold the active frame's state, so they are set to frame 1's (both repaired above)
+      data.layers = applyFrame(layers as unknown as Layer[], frames[0] as unknown as AnimationFrame);
+    }
+    animation.activeFrame = 0;
+  }
+
+  if (animation.playbackMode !== 'loop' && animation.playbackMode !== 'pingPong') {
+    if (animation.playbackMode !== undefined) {
+      addIssue(issues, 'warning', 'animation.playbackMode', `Playback mode ${describeValue(animation.playbackMode)} is unknown`, "Set to 'loop'");
+    }
+    animation.playbackMode = defaults.playbackMode;
+  }
+
+  const onionSkin = animation.onionSkin;
+  if (!isRecord(onionSkin)) {
+    animation.onionSkin = structuredClone(defaults.onionSkin);
+    return;
+  }
+  if (typeof onionSkin.enabled !== 'boolean') onionSkin.enabled = defaults.onionSkin.enabled;
+  for (const key of ['before', 'after'] as const) {
+    const count = onionSkin[key];
+    onionSkin[key] = isFiniteNumber(count)
+      ? Math.min(Math.max(Math.round(count), 0), MAX_ONION_SKIN_FRAMES)
+      : defaults.onionSkin[key];
+  }
+  onionSkin.opacity = isFiniteNumber(onionSkin.opacity)
+    ? Math.min(Math.max(onionSkin.opacity, 0), 1)
+    : defaults.onionSkin.opacity;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyTransformToPixels } from './layerTransforms';
+import { getRotatedSize, rotSprite } from './rotSprite';
+
+// The test environment has no ImageData
+class TestImageData {
+  readonly data: Uint8ClampedArray;
+  constructor(readonly width: number, readonly height: number) {
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+}
+vi.stubGlobal('ImageData', TestImageData);
+
+/**
+ * Pixels of an image as 0xRRGGBBAA values
+ */
+function readColors(image: ImageData): number[] {
+  const colors: number[] = [];
+  for (let i = 0; i < image.data.length; i += 4) {
+    colors.push(((image.data[i] << 24) | (image.data[i + 1] << 16) | (image.data[i + 2] << 8) | image.data[i + 3]) >>> 0);
+  }
+  return colors;
+}
+
+/**
+ * Pixel art test image: an outlined, half-transparent diamond with a highlight
+ */
+function makeSprite(): ImageData {
+  const size = 12;
+  const image = new ImageData(size, size);
+  const fill = [40, 160, 90, 128];
+  const outline = [20, 30, 40, 255];
+  const highlight = [250, 240, 200, 255];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const distance = Math.abs(x - 5.5) + Math.abs(y - 5.5);
+      const color = distance > 6 ? null : distance > 5 ? outline : x < 5 && y < 5 ? highlight : fill;
+      if (color) image.data.set(color, (y * size + x) * 4);
+    }
+  }
+  return image;
+}
+
+describe('rotSprite', () => {
+  const sprite = makeSprite();
+  const palette = new Set([...readColors(sprite), 0]);
+
+  for (const angle of [15, 30, 45, 77, -120, 200]) {
+    it(`only uses colors of the source when rotating by ${angle}°`, () => {
+      const rotated = rotSprite(sprite, angle);
+      expect(rotated.width).toBe(getRotatedSize(sprite.width, sprite.height, angle).width);
+      const foreign = readColors(rotated).filter((color) => !palette.has(color));
+      expect(foreign).toEqual([]);
+    });
+  }
+
+  it('matches the exact pixel rotation at right angles', () => {
+    for (const rotation of [90, 180, 270] as const) {
+      const exact = applyTransformToPixels(sprite, { flipX: false, flipY: false, rotation });
+      expect(readColors(rotSprite(sprite, rotation))).toEqual(readColors(exact));
+    }
+  });
+});
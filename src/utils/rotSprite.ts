@@ -0,0 +1,192 @@
+/**
+ * RotSprite-style rotation for pixel art
+ * The image is upscaled 8x with Scale2x (three passes), rotated with nearest-neighbor
+ * sampling and brought back to 1x by sampling the center of each output pixel.
+ * Scale2x only ever copies neighboring pixels, so the result contains only colors
+ * (including alpha values) that were already in the source image.
+ */
+
+import { Layer, LayerMaskInput } from '../types/compositor.types';
+import { getImagePixels, loadImageFromDataURL } from './canvasRenderer';
+import { imageFileToDataUrl } from './imageProcessing';
+import { applyScaleToPixels, applyTransformToPixels, getLayerBounds, getLayerScale } from './layerTransforms';
+import { encodePng } from './pngEncoder';
+
+// Number of Scale2x passes for small images (2^3 = 8x)
+const MAX_PASSES = 3;
+
+// Upscaled images larger than this use fewer passes to keep memory in check
+const MAX_UPSCALED_PIXELS = 16 * 1024 * 1024;
+
+/**
+ * Normalize an angle in degrees to the range (-180, 180]
+ */
+export function normalizeAngle(angle: number): number {
+  const normalized = ((angle % 360) + 360) % 360;
+  return normalized > 180 ? normalized - 360 : normalized;
+}
+
+/**
+ * Size of the bounding box of a width x height image rotated by an angle
+ */
+export function getRotatedSize(width: number, height: number, angle: number): { width: number; height: number } {
+  const radians = (normalizeAngle(angle) * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  // The epsilon keeps exact multiples of 90° from growing by a pixel due to rounding
+  return {
+    width: Math.max(1, Math.ceil(width * cos + height * sin - 1e-9)),
+    height: Math.max(1, Math.ceil(width * sin + height * cos - 1e-9)),
+  };
+}
+
+/**
+ * One Scale2x (EPX) pass: each pixel becomes a 2x2 block whose corners take the color
+ * of matching neighbors, which smooths diagonal edges without inventing new colors
+ */
+function scale2x(src: Uint32Array, width: number, height: number): Uint32Array {
+  const outWidth = width * 2;
+  const dst = new Uint32Array(outWidth * height * 2);
+
+  for (let y = 0; y < height; y++) {
+    const up = Math.max(0, y - 1) * width;
+    const row = y * width;
+    const down = Math.min(height - 1, y + 1) * width;
+
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - 1);
+      const right = Math.min(width - 1, x + 1);
+
+      const p = src[row + x];
+      const a = src[up + x];
+      const b = src[row + right];
+      const c = src[row + left];
+      const d = src[down + x];
+
+      const offset = y * 2 * outWidth + x * 2;
+      dst[offset] = c === a && c !== d && a !== b ? a : p;
+      dst[offset + 1] = a === b && a !== c && b !== d ? b : p;
+      dst[offset + outWidth] = d === c && d !== b && c !== a ? c : p;
+      dst[offset + outWidth + 1] = b === d && b !== a && d !== c ? d : p;
+    }
+  }
+
+  return dst;
+}
+
+/**
+ * Rotate pixels clockwise by an arbitrary angle (degrees) around their center
+ * The result is sized to the rotated bounding box; uncovered pixels are transparent.
+ */
+export function rotSprite(source: ImageData, angle: number): ImageData {
+  const { width, height } = source;
+  const size = getRotatedSize(width, height, angle);
+  const result = new ImageData(size.width, size.height);
+  if (width === 0 || height === 0) return result;
+
+  let passes = MAX_PASSES;
+  while (passes > 0 && width * height * 4 ** passes > MAX_UPSCALED_PIXELS) {
+    passes--;
+  }
+
+  let upscaled: Uint32Array = new Uint32Array(source.data.buffer, source.data.byteOffset, width * height);
+  for (let i = 0; i < passes; i++) {
+    upscaled = scale2x(upscaled, width << i, height << i);
+  }
+  const factor = 1 << passes;
+  const upscaledWidth = width * factor;
+
+  const radians = (normalizeAngle(angle) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dst = new Uint32Array(result.data.buffer);
+
+  for (let y = 0; y < size.height; y++) {
+    const dy = y + 0.5 - size.height / 2;
+    for (let x = 0; x < size.width; x++) {
+      const dx = x + 0.5 - size.width / 2;
+
+      // Inverse rotation of the output pixel center into source space
+      const sx = dx * cos + dy * sin + width / 2;
+      const sy = -dx * sin + dy * cos + height / 2;
+      if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue;
+
+      dst[y * size.width + x] = upscaled[Math.floor(sy * factor) * upscaledWidth + Math.floor(sx * factor)];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * PNG data URL written by the pure encoder, so the rotated pixels are stored exactly
+ * (a canvas export premultiplies alpha, which shifts the colors of translucent pixels)
+ */
+function pixelsToDataUrl(pixels: ImageData): Promise<string> {
+  return imageFileToDataUrl(encodePng(pixels), 'rotated.png');
+}
+
+/**
+ * Resize mask pixels to the image size, treating missing pixels as fully visible
+ */
+function fitMaskToImage(mask: ImageData, width: number, height: number): ImageData {
+  if (mask.width === width && mask.height === height) return mask;
+
+  const result = new ImageData(width, height);
+  result.data.fill(255);
+  for (let y = 0; y < Math.min(height, mask.height); y++) {
+    const from = y * mask.width * 4;
+    result.data.set(mask.data.subarray(from, from + Math.min(width, mask.width) * 4), y * width * 4);
+  }
+  return result;
+}
+
+// Layer geometry plus its image data URL (resolved from the asset table by the caller)
+type RotatableLayer = Pick<Layer, 'x' | 'y' | 'width' | 'height' | 'transform' | 'scaleX' | 'scaleY'> & {
+  imageData: string;
+  mask?: LayerMaskInput;
+};
+
+/**
+ * Rotate a layer's image (and mask) by an arbitrary angle, keeping its visual center in place
+ * Lossless flips/rotations and integer scale are baked in first, so the returned updates clear them.
+ */
+export async function rotSpriteLayer(
+  layer: RotatableLayer,
+  angle: number
+): Promise<RotatableLayer> {
+  const scale = getLayerScale(layer);
+  let pixels = getImagePixels(await loadImageFromDataURL(layer.imageData));
+  if (layer.transform) {
+    pixels = applyTransformToPixels(pixels, layer.transform);
+  }
+  pixels = applyScaleToPixels(pixels, scale.x, scale.y);
+  const rotated = rotSprite(pixels, angle);
+
+  let mask = layer.mask;
+  if (mask) {
+    let maskPixels = fitMaskToImage(
+      getImagePixels(await loadImageFromDataURL(mask.imageData)),
+      layer.width,
+      layer.height
+    );
+    if (layer.transform) {
+      maskPixels = applyTransformToPixels(maskPixels, layer.transform);
+    }
+    maskPixels = applyScaleToPixels(maskPixels, scale.x, scale.y);
+    mask = { ...mask, imageData: await pixelsToDataUrl(rotSprite(maskPixels, angle)) };
+  }
+
+  const bounds = getLayerBounds(layer);
+  return {
+    imageData: await pixelsToDataUrl(rotated),
+    x: bounds.x + Math.trunc((bounds.width - rotated.width) / 2),
+    y: bounds.y + Math.trunc((bounds.height - rotated.height) / 2),
+    width: rotated.width,
+    height: rotated.height,
+    transform: undefined,
+    scaleX: undefined,
+    scaleY: undefined,
+    mask,
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Slice utilities
+ * Slices are named rectangles of the workspace, each exported as its own image. Unlike
+ * artboards they don't change what the canvas shows: they only mark parts of it for export.
+ */
+
+import { Artboard, Layer, Slice } from '../types/compositor.types';
+import { getArtboardAtPoint } from './artboards';
+import { getEffectPadding } from './layerEffects';
+import { getLayerBounds } from './layerTransforms';
+
+// A rectangle of the workspace that is exported on its own
+export type ExportRegion = Pick<Slice, 'x' | 'y' | 'width' | 'height'>;
+
+/**
+ * Create a slice covering a rectangle
+ */
+export function createSlice(slices: Slice[], region: ExportRegion, name: string = `Slice ${slices.length + 1}`): Slice {
+  return {
+    id: `slice_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    x: region.x,
+    y: region.y,
+    width: Math.max(1, region.width),
+    height: Math.max(1, region.height),
+  };
+}
+
+/**
+ * Smallest rectangle holding every pixel the layers draw (including outlines and shadows),
+ * or null without layers
+ */
+export function getLayersExportBounds(layers: Layer[]): ExportRegion | null {
+  if (layers.length === 0) return null;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const layer of layers) {
+    const bounds = getLayerBounds(layer);
+    const padding = getEffectPadding(layer.effects);
+    // Layers are drawn at whole pixels
+    const x = Math.floor(bounds.x);
+    const y = Math.floor(bounds.y);
+    minX = Math.min(minX, x - padding.left);
+    minY = Math.min(minY, y - padding.top);
+    maxX = Math.max(maxX, x + bounds.width + padding.right);
+    maxY = Math.max(maxY, y + bounds.height + padding.bottom);
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Artboard a slice is exported from (the one holding its center), so it gets that
+ * artboard's layers and background; null = the plain canvas
+ */
+export function getSliceArtboard(slice: Slice, artboards: Artboard[]): Artboard | null {
+  return getArtboardAtPoint(slice.x + slice.width / 2, slice.y + slice.height / 2, artboards);
+}
@@ -0,0 +1,120 @@
+/**
+ * Cross-tab coordination between PixelConnect browser tabs (BroadcastChannel)
+ * Each browser tab has its own id, kept in sessionStorage so a reload keeps its autosave session.
+ * Tabs announce the projects they have open, so opening the same project twice can be detected.
+ */
+
+const CHANNEL_NAME = 'pixelconnect-tabs';
+const TAB_ID_KEY = 'pixelconnect-tab-id';
+// Time to wait for other tabs to answer when looking for them
+const DISCOVERY_TIMEOUT_MS = 300;
+
+export interface OpenProjectInfo {
+  key: string; // Project identity (its creation time), as used by the autosave snapshots and the library
+  name: string;
+}
+
+export interface TabPresence {
+  tabId: string;
+  projects: OpenProjectInfo[];
+}
+
+export type TabMessage =
+  | { type: 'hello'; tabId: string; instanceId: string } // A tab started; others answer with 'projects'
+  | { type: 'projects'; tabId: string; instanceId: string; projects: OpenProjectInfo[] }
+  | { type: 'bye'; tabId: string; instanceId: string }; // A tab is closing
+
+// Distinguishes page loads: a duplicated browser tab copies sessionStorage, and with it the tab id
+export const INSTANCE_ID = `instance_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+let tabId: string | null = null;
+// First lookup of the other tabs, which settles this tab's id (see discoverOtherTabs)
+let tabIdCheck: Promise<TabPresence[]> | null = null;
+
+function createTabId(): string {
+  const id = `tab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  try {
+    sessionStorage.setItem(TAB_ID_KEY, id);
+  } catch {
+    // Private mode without storage: the id lasts for this page load only
+  }
+  return id;
+}
+
+/**
+ * This browser tab's id (stable across reloads of the tab)
+ */
+export function getTabId(): string {
+  if (!tabId) {
+    try {
+      tabId = sessionStorage.getItem(TAB_ID_KEY);
+    } catch {
+      tabId = null;
+    }
+    tabId = tabId ?? createTabId();
+  }
+  return tabId;
+}
+
+/**
+ * Open the shared channel, or null where BroadcastChannel is not supported
+ * Messages from this page load itself are filtered out.
+ */
+export function openTabChannel(onMessage: (message: TabMessage) => void): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabMessage>) => {
+    if (event.data.instanceId !== INSTANCE_ID) {
+      onMessage(event.data);
+    }
+  };
+  return channel;
+}
+
+/**
+ * Ask which other PixelConnect tabs are open right now
+ * If another tab answers with this tab's id (a duplicated tab), this tab takes a new id first.
+ * Later lookups wait for the first one, so the id is only ever replaced once.
+ */
+export async function discoverOtherTabs(): Promise<TabPresence[]> {
+  if (!tabIdCheck) {
+    tabIdCheck = findOtherTabs();
+    return tabIdCheck;
+  }
+  await tabIdCheck;
+  return findOtherTabs();
+}
+
+/**
+ * This tab's id once it is known not to be shared with a duplicated tab
+ * Announcements to other tabs must wait for it: messages under a copied id are ignored by the original tab.
+ */
+export async function resolveTabId(): Promise<string> {
+  if (!tabIdCheck) {
+    tabIdCheck = findOtherTabs();
+  }
+  await tabIdCheck;
+  return getTabId();
+}
+
+async function findOtherTabs(): Promise<TabPresence[]> {
+  const tabs = new Map<string, TabPresence>();
+  const channel = openTabChannel((message) => {
+    if (message.type === 'projects') {
+      tabs.set(message.tabId, { tabId: message.tabId, projects: message.projects });
+    }
+  });
+  if (!channel) return [];
+
+  const hello: TabMessage = { type: 'hello', tabId: getTabId(), instanceId: INSTANCE_ID };
+  channel.postMessage(hello);
+  await new Promise((resolve) => setTimeout(resolve, DISCOVERY_TIMEOUT_MS));
+  channel.close();
+
+  if (tabs.has(getTabId())) {
+    tabId = createTabId();
+    console.log('[TabSync] Tab id already used by another tab (duplicated tab), using a new one');
+  }
+  return [...tabs.values()];
+}